@@ -1,15 +1,50 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Layout from './components/Layout';
 import InvoiceForm from './components/InvoiceForm';
 import InventoryTable from './components/InventoryTable';
+import FirmSettings from './components/FirmSettings';
+import ExtractionSettingsPanel from './components/ExtractionSettingsPanel';
+import BackupPanel from './components/BackupPanel';
+import ImportWizard from './components/ImportWizard';
+import LoginScreen from './components/LoginScreen';
+import UserManagement from './components/UserManagement';
+import DataControls from './components/DataControls';
+import PeriodClosePanel from './components/PeriodClosePanel';
+import AuditLog from './components/AuditLog';
+import StockCount from './components/StockCount';
+import ReturnNoteModal from './components/ReturnNoteModal';
+import Payments from './components/Payments';
+import PartyMaster from './components/PartyMaster';
+import PartyStatementModal from './components/PartyStatementModal';
+import ScanQueue from './components/ScanQueue';
+import DocumentViewerModal from './components/DocumentViewerModal';
+import DuplicateDialog from './components/DuplicateDialog';
 import StatsCard from './components/StatsCard';
 import { DateRangePicker } from './components/DateRangePicker'; 
 import { SingleDatePicker } from './components/SingleDatePicker';
 import Toast, { ToastMessage } from './components/Toast'; 
-import { Invoice, InventoryBatch, CustomerStat, AgingStats, SupplierStat, RiskAlert } from './types';
-import { loadInvoices, loadInventory, saveInvoices, saveInventory, resetData } from './services/storeService';
-import { formatCurrency, formatGrams, calculateInventoryValueOnDate, getDateDaysAgo, calculateStockAging, calculateSupplierStats, calculateTurnoverStats, generateId, downloadCSV } from './utils';
+import { Invoice, InventoryBatch, CustomerStat, AgingStats, SupplierStat, RiskAlert, CostingMethod, Metal, FirmProfile, BackupData, UserAccount, Permission, AuditEntry, AuditDraft, EditImpact, PeriodClose, TransactionType, Payment, Party, PartyStatement, ExtractionSettings, ScanItem, InvoiceDocument, DuplicateCheck, DuplicateDecision } from './types';
+import { loadInvoices, loadInventory, saveInvoices, saveInventory, resetData, loadCostingMethod, saveCostingMethod, loadFirmProfile, saveFirmProfile, loadUsers, saveUsers, loadSession, saveSession, loadAuditLog, appendAuditEntries, loadPeriods, savePeriods, loadPayments, savePayments, loadParties, saveParties, loadExtractionSettings, saveExtractionSettings, saveDocuments, loadDocuments, deleteDocuments, replaceDocuments } from './services/storeService';
+import { runLedger, applyInvoice, isLastInLedger, getBatchConsumers, needsAllocationBackfill, compareCostingMethods, COSTING_METHOD_LABELS } from './services/ledgerService';
+import { METALS, METAL_LABELS, getMetal, getPurity, formatPurity } from './services/metalService';
+import { getBatchInvoiceId, getInvoiceLines, getLineFineGrams, hasLineDetail, isCosted, isReturn, TRANSACTION_TYPE_LABELS } from './services/invoiceService';
+import { getReturns, RETURN_TYPES } from './services/returnService';
+import { getGstComponents, formatState } from './services/gstService';
+import { createBackup, mergeDocuments, mergeInvoices, mergePartyMaster, mergePayments } from './services/backupService';
+import { buildAuditZip, createInvoiceDocument, fromBackupDocument, toBackupDocument } from './services/documentService';
+import { checkDuplicates, findDuplicate, linkDuplicate } from './services/duplicateService';
+import { createPartyResolver, findPartyByName, hasParty, linkParties, mergeParties, relinkParty } from './services/partyService';
+import { PAYMENT_MODE_LABELS, getDueAlerts, getOpenBalances, settleInvoices } from './services/paymentService';
+import { formatBalance } from './services/statementService';
+import { EXTRACTION_PROVIDER_LABELS, getExtractionProvider } from './services/extractionService';
+import { getApprovalOrder, queueFiles, readScan, updateScan } from './services/scanQueueService';
+import { summarizeDryRun } from './services/importService';
+import { hasPermission, verifyPassword, PERMISSION_LABELS, ROLE_LABELS } from './services/authService';
+import { AUDIT_ACTION_LABELS, describeInvoice, getFieldChanges, getProfitShifts, sealAuditEntries } from './services/auditService';
+import { assertCanClose, buildPeriodClose, getActiveCloses, getLockDate, getOpeningSnapshot, reopenPeriod } from './services/periodService';
+import { buildGstr1, buildGstr3b, getMonthInvoices, getNetTaxPayable, validateReturnInvoices } from './services/gstReturnService';
+import { formatCurrency, formatGrams, getDateDaysAgo, calculateStockAging, calculateSupplierStats, calculateTurnoverStats, emptyMetalGrams, formatMetalGrams, generateId, downloadCSV, csvField, downloadJSON, downloadBlob } from './utils';
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import { 
@@ -17,7 +52,7 @@ import {
   History, Percent, Award, Calendar, FileSpreadsheet, FileText, Info,
   AlertOctagon, BadgeAlert, TrendingDown, Hourglass, Factory, Lock, Search, Filter,
   ArrowRightLeft, LineChart, CandlestickChart, Download, Users, ChevronRight, Crown, Briefcase, ChevronUp, ChevronDown,
-  Timer, PieChart as PieIcon, BarChart3, Activity, Wallet, FileDown
+  Timer, PieChart as PieIcon, BarChart3, Activity, Wallet, FileDown, Receipt, UploadCloud, Pencil, RotateCcw, Paperclip, FileArchive
 } from 'lucide-react';
 import { 
   BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
@@ -51,8 +86,22 @@ const SectionHeader: React.FC<{ title: string; subtitle?: string; action?: React
   </div>
 );
 
-const ExportMenu: React.FC<{ onExport: (type: 'CSV' | 'PDF') => void }> = ({ onExport }) => (
+const TYPE_BADGES: Record<TransactionType, { label: string; className: string }> = {
+  PURCHASE: { label: 'In', className: 'bg-blue-50 text-blue-600 border-blue-100' },
+  SALE: { label: 'Out', className: 'bg-green-50 text-green-600 border-green-100' },
+  OPENING: { label: 'Opening', className: 'bg-amber-50 text-amber-600 border-amber-100' },
+  ADJUSTMENT: { label: 'Adjust', className: 'bg-purple-50 text-purple-600 border-purple-100' },
+  SALE_RETURN: { label: 'Credit Note', className: 'bg-rose-50 text-rose-600 border-rose-100' },
+  PURCHASE_RETURN: { label: 'Debit Note', className: 'bg-sky-50 text-sky-600 border-sky-100' }
+};
+
+const ExportMenu: React.FC<{ onExport: (type: 'CSV' | 'PDF') => void; onZip?: () => void }> = ({ onExport, onZip }) => (
     <div className="flex gap-2">
+        {onZip && (
+            <button onClick={onZip} title="Report with the original bills, for auditors" className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors">
+                <FileArchive className="w-4 h-4" /> ZIP
+            </button>
+        )}
         <button onClick={() => onExport('CSV')} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors">
             <FileSpreadsheet className="w-4 h-4" /> CSV
         </button>
@@ -66,7 +115,10 @@ function App() {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [inventory, setInventory] = useState<InventoryBatch[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [parties, setParties] = useState<Party[]>([]);
   const [marketRate, setMarketRate] = useState<string>(''); 
+  const [marketMetal, setMarketMetal] = useState<Metal>('GOLD');
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   
@@ -74,35 +126,149 @@ function App() {
   const [deleteId, setDeleteId] = useState<string | null>(null);
   const [deletePassword, setDeletePassword] = useState('');
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  // Invoice being edited (draft holds the user's changes while the impact preview is open)
+  const [editState, setEditState] = useState<{ original: Invoice; draft?: Invoice } | null>(null);
+  const [editImpact, setEditImpact] = useState<EditImpact | null>(null);
+
+  // Sale or purchase a credit or debit note is being raised against
+  const [returnTarget, setReturnTarget] = useState<Invoice | null>(null);
+  // Bills being read and reviewed in bulk; held in memory only until approved
+  const [scanQueue, setScanQueue] = useState<ScanItem[]>([]);
+
+  // Bills held back as probable duplicates until each is skipped, linked or added anyway
+  const [duplicateReview, setDuplicateReview] = useState<{ source: 'ENTRY' | 'SCAN' | 'IMPORT'; checks: DuplicateCheck[]; entries: Invoice[]; file?: File } | null>(null);
+
+  // Bumped to clear the entry form once a held-back bill has been dealt with
+  const [entryFormKey, setEntryFormKey] = useState(0);
+
+  // Invoice whose original bill is open
+  const [documentInvoice, setDocumentInvoice] = useState<Invoice | null>(null);
+
+  // Party whose account statement is open
+  const [statementPartyId, setStatementPartyId] = useState<string | null>(null);
+
+  // Invoice drill-down (sale -> purchase lots, purchase -> customers)
+  const [expandedInvoiceId, setExpandedInvoiceId] = useState<string | null>(null);
   
   const [dateRange, setDateRange] = useState({
       start: getDateDaysAgo(30),
       end: new Date().toISOString().split('T')[0]
   });
-  const [lockDate, setLockDate] = useState<string | null>(localStorage.getItem('bullion_lock_date') || null);
-  const [showLockSettings, setShowLockSettings] = useState(false);
+  // Closed periods; the lock date is the end of the latest one still in force
+  const [periods, setPeriods] = useState<PeriodClose[]>([]);
+  const lockDate = getLockDate(periods);
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(loadCostingMethod());
+  const [extractionSettings, setExtractionSettings] = useState<ExtractionSettings>(loadExtractionSettings());
+  const extractor = useMemo(() => getExtractionProvider(extractionSettings), [extractionSettings]);
+  const [firm, setFirm] = useState<FirmProfile>(loadFirmProfile());
+
+  // Accounts and the signed-in user
+  const [users, setUsers] = useState<UserAccount[]>(loadUsers());
+  const [currentUserId, setCurrentUserId] = useState<string | null>(loadSession());
+  const currentUser = users.find(u => u.id === currentUserId) || null;
+
+  // Nothing is written until stored data has loaded, otherwise the empty initial state would overwrite it
+  const [storageReady, setStorageReady] = useState(false);
+  const storageError = useRef(false);
+
+  // Audit trail, oldest first. Appends are queued so each entry chains onto the previous one.
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const auditTail = useRef<AuditEntry | undefined>(undefined);
+  const auditQueue = useRef<Promise<void>>(Promise.resolve());
 
   // Load Data
   useEffect(() => {
-    setInvoices(loadInvoices());
-    setInventory(loadInventory());
+    (async () => {
+        try {
+            const storedInvoices = await loadInvoices();
+            const storedInventory = await loadInventory();
+            const storedAudit = await loadAuditLog();
+            setPeriods(await loadPeriods());
+            setPayments(await loadPayments());
+            setParties(await loadParties());
+            setAuditLog(storedAudit);
+            auditTail.current = storedAudit[storedAudit.length - 1];
+            if (needsAllocationBackfill(storedInvoices)) {
+                // Older data has no per-sale allocations, rebuild them once from the ledger
+                const { updatedInvoices, updatedInventory } = recalculateAllData(storedInvoices);
+                setInvoices(updatedInvoices);
+                setInventory(updatedInventory);
+            } else {
+                setInvoices(storedInvoices);
+                setInventory(storedInventory);
+            }
+            setStorageReady(true);
+        } catch (err: any) {
+            console.error(err);
+            addToast('ERROR', `Could not open saved data: ${err.message || err}`);
+        }
+    })();
   }, []);
 
-  // Save Data
+  // Save Data (only records that changed are written)
   useEffect(() => {
-    saveInvoices(invoices);
-    saveInventory(inventory);
-  }, [invoices, inventory]);
-
+    if (!storageReady) return;
+    Promise.all([saveInvoices(invoices), saveInventory(inventory), savePeriods(periods), savePayments(payments), saveParties(parties)])
+        .then(() => { storageError.current = false; })
+        .catch(err => {
+            console.error(err);
+            // One toast per failure streak, not per keystroke
+            if (!storageError.current) addToast('ERROR', 'Saving failed. Recent changes may not be stored.');
+            storageError.current = true;
+        });
+  }, [invoices, inventory, periods, payments, parties, storageReady]);
+
+  // Queued bills are read one at a time in the background, so the rest of the app stays usable
   useEffect(() => {
-      if(lockDate) localStorage.setItem('bullion_lock_date', lockDate);
-      else localStorage.removeItem('bullion_lock_date');
-  }, [lockDate]);
+    if (scanQueue.some(item => item.status === 'EXTRACTING')) return;
+    const next = scanQueue.find(item => item.status === 'QUEUED');
+    if (!next) return;
+    setScanQueue(prev => updateScan(prev, next.id, { status: 'EXTRACTING' }));
+    readScan(next.file, extractor, firm.gstin || undefined).then(
+        extraction => setScanQueue(prev => updateScan(prev, next.id, { status: 'READY', extraction })),
+        err => setScanQueue(prev => updateScan(prev, next.id, { status: 'FAILED', error: err.message || 'Could not read this file.' }))
+    );
+  }, [scanQueue, extractor, firm]);
 
   const addToast = (type: 'SUCCESS' | 'ERROR', message: string) => {
       const id = generateId();
       setToasts(prev => [...prev, { id, type, message }]);
   };
+
+  const can = (permission: Permission) => hasPermission(currentUser, permission);
+
+  // Checked in every handler, not only by hiding buttons
+  const requirePermission = (permission: Permission) => {
+      if (can(permission)) return true;
+      addToast('ERROR', `Your role (${currentUser ? ROLE_LABELS[currentUser.role] : 'signed out'}) cannot ${PERMISSION_LABELS[permission]}.`);
+      return false;
+  };
+
+  // Closed periods are frozen: nothing dated inside them may be added, changed or removed
+  const requireOpenPeriod = (...dates: string[]) => {
+      const locked = dates.find(date => lockDate && date <= lockDate);
+      if (!locked) return true;
+      addToast('ERROR', `Date Locked! ${locked} falls in a period closed up to ${lockDate}.`);
+      return false;
+  };
+
+  const logAudit = (...drafts: AuditDraft[]) => {
+      if (!currentUser || drafts.length === 0) return;
+      const user = currentUser;
+      auditQueue.current = auditQueue.current
+          .then(async () => {
+              const entries = await sealAuditEntries(drafts, user, auditTail.current);
+              await appendAuditEntries(entries);
+              auditTail.current = entries[entries.length - 1];
+              setAuditLog(prev => [...prev, ...entries]);
+          })
+          .catch(err => {
+              console.error(err);
+              addToast('ERROR', 'Could not write to the audit trail.');
+          });
+  };
   const removeToast = (id: string) => {
       setToasts(prev => prev.filter(t => t.id !== id));
   };
@@ -112,7 +278,7 @@ function App() {
       const query = searchQuery.toLowerCase();
       return invoices.filter(inv => {
           const matchesDate = inv.date >= dateRange.start && inv.date <= dateRange.end;
-          const matchesSearch = !query || inv.partyName.toLowerCase().includes(query);
+          const matchesSearch = !query || inv.partyName.toLowerCase().includes(query) || !!inv.billNumber?.toLowerCase().includes(query);
           return matchesDate && matchesSearch;
       });
   }, [invoices, dateRange, searchQuery]);
@@ -124,7 +290,7 @@ function App() {
           const matchesDate = batch.date >= dateRange.start && batch.date <= dateRange.end;
           if (!matchesDate) return false;
           if (!query) return true;
-          const invoice = invoices.find(inv => inv.id === batch.id);
+          const invoice = invoices.find(inv => inv.id === getBatchInvoiceId(batch));
           return invoice ? invoice.partyName.toLowerCase().includes(query) : false;
       });
   }, [inventory, invoices, dateRange, searchQuery]);
@@ -134,37 +300,58 @@ function App() {
       const query = searchQuery.toLowerCase();
       if (!query) return inventory;
       return inventory.filter(batch => {
-          const invoice = invoices.find(inv => inv.id === batch.id);
+          const invoice = invoices.find(inv => inv.id === getBatchInvoiceId(batch));
           return invoice ? invoice.partyName.toLowerCase().includes(query) : false;
       });
   }, [inventory, invoices, searchQuery]);
 
-  const currentStock = useMemo(() => searchFilteredInventory.reduce((acc, batch) => acc + batch.remainingQuantity, 0), [searchFilteredInventory]);
-  const fifoValue = useMemo(() => searchFilteredInventory.reduce((acc, batch) => acc + (batch.remainingQuantity * batch.costPerGram), 0), [searchFilteredInventory]);
-  const weightedAvgCost = currentStock > 0 ? fifoValue / currentStock : 0;
-
-  const agingStats: AgingStats = useMemo(() => calculateStockAging(searchFilteredInventory), [searchFilteredInventory]);
-
-  const { customerData, totalProfit, profitMargin, profitTrendData, dailyProfit } = useMemo(() => {
+  // Stock is pooled per metal in fine grams, so quantities are never summed across metals.
+  // Values follow the selected costing method (batch costs already reflect it).
+  const stockByMetal = useMemo(() => {
+      const stats = {} as Record<Metal, { grams: number; value: number; batches: number }>;
+      METALS.forEach(m => { stats[m] = { grams: 0, value: 0, batches: 0 }; });
+      searchFilteredInventory.forEach(batch => {
+          if (batch.remainingQuantity <= 0) return;
+          const stat = stats[getMetal(batch)];
+          stat.grams += batch.remainingQuantity;
+          stat.value += batch.remainingQuantity * batch.costPerGram;
+          stat.batches += 1;
+      });
+      return stats;
+  }, [searchFilteredInventory]);
+  const availableStock = useMemo(() => {
+      const grams = {} as Record<Metal, number>;
+      METALS.forEach(m => { grams[m] = stockByMetal[m].grams; });
+      return grams;
+  }, [stockByMetal]);
+  const inventoryValue = METALS.reduce((acc, m) => acc + stockByMetal[m].value, 0);
+
+  const agingStats: Record<Metal, AgingStats> = useMemo(() => calculateStockAging(searchFilteredInventory), [searchFilteredInventory]);
+
+  const { customerData, volumeMetal, volumeShare, totalProfit, profitMargin, profitTrendData, dailyProfit } = useMemo(() => {
       const customerStats: Record<string, CustomerStat & { avgQtyPerTx?: number, avgSellingPrice?: number, behaviorPattern?: string }> = {};
+      const resolver = createPartyResolver(parties);
       let totalRevenueExTax = 0;
       let totalProfitCalc = 0;
 
       filteredInvoices.forEach(inv => {
-          if (!customerStats[inv.partyName]) {
-              customerStats[inv.partyName] = { 
-                  name: inv.partyName, totalGrams: 0, totalSpend: 0, profitContribution: 0, txCount: 0, avgProfitPerGram: 0
+          const key = resolver.keyOf(inv);
+          if (!customerStats[key]) {
+              customerStats[key] = { 
+                  partyKey: key, name: resolver.nameOf(inv), totalGrams: emptyMetalGrams(), totalSpend: 0, profitContribution: 0, txCount: 0, avgProfitPerGram: 0
               };
           }
-          customerStats[inv.partyName].txCount += 1;
+          customerStats[key].txCount += 1;
 
-          if (inv.type === 'SALE') {
-              customerStats[inv.partyName].totalGrams += inv.quantityGrams;
+          if (inv.type === 'SALE' || inv.type === 'SALE_RETURN') {
+              // Returns take back their share of grams and spend; their profit is already negative
+              const sign = inv.type === 'SALE_RETURN' ? -1 : 1;
+              getInvoiceLines(inv).forEach(l => { customerStats[key].totalGrams[getMetal(l)] += sign * getLineFineGrams(l); });
               // Using taxableAmount (Ex-GST) for total spend analysis as requested
-              customerStats[inv.partyName].totalSpend += inv.taxableAmount; 
-              customerStats[inv.partyName].profitContribution += (inv.profit || 0);
+              customerStats[key].totalSpend += sign * inv.taxableAmount; 
+              customerStats[key].profitContribution += (inv.profit || 0);
 
-              totalRevenueExTax += (inv.quantityGrams * inv.ratePerGram);
+              totalRevenueExTax += sign * (inv.quantityGrams * inv.ratePerGram);
               totalProfitCalc += (inv.profit || 0);
           }
       });
@@ -173,9 +360,12 @@ function App() {
         .filter(stat => stat.totalSpend > 0)
         .map(stat => {
             const margin = stat.totalSpend > 0 ? (stat.profitContribution / stat.totalSpend) * 100 : 0;
-            const avgQty = stat.totalGrams / stat.txCount;
-            const avgSell = stat.totalGrams > 0 ? stat.totalSpend / stat.totalGrams : 0;
-            const avgProfit = stat.totalGrams > 0 ? stat.profitContribution / stat.totalGrams : 0;
+            // Per-gram figures only for customers who buy a single metal
+            const metals = METALS.filter(m => stat.totalGrams[m] !== 0);
+            const grams = metals.length === 1 ? stat.totalGrams[metals[0]] : 0;
+            const avgQty = grams / stat.txCount;
+            const avgSell = grams > 0 ? stat.totalSpend / grams : undefined;
+            const avgProfit = grams > 0 ? stat.profitContribution / grams : undefined;
             
             let pattern = "Regular";
             if(avgQty > 100) pattern = "Bulk Buyer";
@@ -200,9 +390,9 @@ function App() {
       const end = new Date(dateRange.end);
       for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
           const dateStr = d.toISOString().split('T')[0];
-          const sales = invoices.filter(inv => inv.type === 'SALE' && inv.date === dateStr); 
+          const sales = invoices.filter(inv => (inv.type === 'SALE' || inv.type === 'SALE_RETURN') && inv.date === dateStr); 
           const profit = sales.reduce((acc, inv) => acc + (inv.profit || 0), 0);
-          const grams = sales.reduce((acc, inv) => acc + inv.quantityGrams, 0);
+          const grams = sales.reduce((acc, inv) => acc + (inv.type === 'SALE_RETURN' ? -1 : 1) * inv.quantityGrams, 0);
           pTrend.push({ 
              date: d.toLocaleDateString('en-IN', { day: '2-digit', month: 'short' }), 
              profit: profit,
@@ -210,22 +400,42 @@ function App() {
           });
       }
 
+      // Volume shares only compare like with like: gold, unless only other metals were sold
+      const volumeMetal = METALS.find(m => data.some(c => c.totalGrams[m] > 0)) || METALS[0];
+      const volumeRanked = data.filter(c => c.totalGrams[volumeMetal] > 0).sort((a, b) => b.totalGrams[volumeMetal] - a.totalGrams[volumeMetal]);
+      const volumeShare = volumeRanked.slice(0, 5).map(c => ({ name: c.name, value: c.totalGrams[volumeMetal] }));
+      const others = volumeRanked.slice(5).reduce((acc, c) => acc + c.totalGrams[volumeMetal], 0);
+      if (others > 0) volumeShare.push({ name: 'Others', value: others });
+
       return {
           customerData: data,
+          volumeMetal,
+          volumeShare,
           totalProfit: totalProfitCalc,
           profitMargin: totalRevenueExTax > 0 ? (totalProfitCalc / totalRevenueExTax) * 100 : 0,
           profitTrendData: pTrend,
           dailyProfit: pTrend
       };
-  }, [filteredInvoices, dateRange, invoices]);
+  }, [filteredInvoices, dateRange, invoices, parties]);
 
-  const supplierData: SupplierStat[] = useMemo(() => calculateSupplierStats(filteredInvoices), [filteredInvoices]);
-  const turnoverStats = useMemo(() => calculateTurnoverStats(invoices, dateRange.start, dateRange.end), [invoices, dateRange]);
+  const supplierData: SupplierStat[] = useMemo(() => calculateSupplierStats(filteredInvoices, parties), [filteredInvoices, parties]);
+  const turnoverStats = useMemo(() => calculateTurnoverStats(invoices, dateRange.start, dateRange.end, costingMethod, getOpeningSnapshot(periods, dateRange.start)?.value), [invoices, dateRange, costingMethod, periods]);
+  const costingComparison = useMemo(() => compareCostingMethods(invoices, dateRange.start, dateRange.end), [invoices, dateRange]);
   
+  // Payments matched against sales and purchases
+  const settlement = useMemo(() => settleInvoices(invoices, payments, parties), [invoices, payments, parties]);
+  const receivables = useMemo(() => {
+      const totals: Record<string, number> = {};
+      getOpenBalances(settlement.balances, 'RECEIVED').forEach(b => { totals[b.partyKey] = (totals[b.partyKey] || 0) + b.outstanding; });
+      return totals;
+  }, [settlement]);
+
   const alerts: RiskAlert[] = useMemo(() => {
-    const list: RiskAlert[] = [];
-    if (agingStats.buckets['30+'] > 0) {
-      list.push({ id: 'old-stock', severity: 'HIGH', context: 'Inventory', message: `${formatGrams(agingStats.buckets['30+'])} of gold is older than 30 days.` });
+    const list: RiskAlert[] = getDueAlerts(settlement.balances, new Date().toISOString().split('T')[0]);
+    const oldStock = emptyMetalGrams();
+    METALS.forEach(m => { oldStock[m] = agingStats[m].buckets['30+']; });
+    if (METALS.some(m => oldStock[m] > 0)) {
+      list.push({ id: 'old-stock', severity: 'HIGH', context: 'Inventory', message: `${formatMetalGrams(oldStock)} of fine stock is older than 30 days.` });
     }
     const recentSales = invoices.filter(i => i.type === 'SALE').slice(0, 5);
     if (recentSales.length > 0) {
@@ -235,148 +445,519 @@ function App() {
        }
     }
     return list;
-  }, [agingStats, invoices]);
+  }, [agingStats, invoices, settlement]);
 
   // Recalculates entire inventory from scratch based on a list of invoices
   // This ensures FIFO integrity is maintained even after deleting a historical transaction
-  const recalculateAllData = (allInvoices: Invoice[]) => {
-    // Sort by date ascending for correct FIFO processing
-    const sorted = [...allInvoices].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    let currentInventory: InventoryBatch[] = [];
-    const processedInvoices: Invoice[] = [];
-
-    for (const inv of sorted) {
-        if (inv.type === 'PURCHASE') {
-            const newBatch: InventoryBatch = {
-                id: inv.id,
-                date: inv.date,
-                originalQuantity: inv.quantityGrams,
-                remainingQuantity: inv.quantityGrams,
-                costPerGram: inv.ratePerGram
-            };
-            currentInventory.push(newBatch);
-            processedInvoices.push(inv);
-        } else {
-            // SALE Logic
-            let remainingToSell = inv.quantityGrams;
-            let totalCOGS = 0;
-            
-            for (const batch of currentInventory) {
-                if (remainingToSell <= 0) break;
-                if (batch.remainingQuantity > 0) {
-                    const take = Math.min(batch.remainingQuantity, remainingToSell);
-                    batch.remainingQuantity -= take;
-                    remainingToSell -= take;
-                    totalCOGS += (take * batch.costPerGram);
-                    
-                    if (batch.remainingQuantity < 0.0001) {
-                         batch.remainingQuantity = 0;
-                         batch.closedDate = inv.date;
-                    }
-                }
-            }
-            
-            // If remainingToSell > 0 here, it means we sold stock we didn't have (FIFO broke).
-            // In a strict system we block this, but for recalculation we proceed with best effort.
-            
-            const profit = (inv.taxableAmount || (inv.quantityGrams * inv.ratePerGram)) - totalCOGS;
-            processedInvoices.push({ ...inv, cogs: totalCOGS, profit });
-        }
-    }
-    
+  const recalculateAllData = (allInvoices: Invoice[], method: CostingMethod = costingMethod) => {
+    const result = runLedger(allInvoices, method);
+    // State is kept newest-first
     return {
-        updatedInvoices: processedInvoices,
-        updatedInventory: currentInventory
+        updatedInvoices: [...result.invoices].reverse(),
+        updatedInventory: result.batches,
+        diagnostics: result.diagnostics
     };
   };
 
   const initiateDelete = (id: string) => {
+      if (!requirePermission('DELETE_INVOICE')) return;
+      const target = invoices.find(i => i.id === id);
+      if (target && !requireOpenPeriod(target.date)) return;
+      if (getReturns(invoices, id).length > 0) { addToast('ERROR', 'This invoice has credit or debit notes against it. Delete the notes first.'); return; }
+      if (payments.some(p => p.invoiceId === id)) { addToast('ERROR', 'Payments are recorded against this invoice. Delete them first.'); return; }
       setDeleteId(id);
       setDeletePassword('');
       setShowDeleteModal(true);
   };
 
-  const confirmDelete = () => {
-      if (deletePassword === 'QAZ@789') {
-          if (deleteId) {
+  // Deleting asks for the signed-in user's own password again
+  const confirmDelete = async () => {
+      if (!currentUser || !requirePermission('DELETE_INVOICE')) return;
+      if (await verifyPassword(deletePassword, currentUser.password)) {
+          const deleted = invoices.find(i => i.id === deleteId);
+          if (deleted && requireOpenPeriod(deleted.date)) {
               const remainingInvoices = invoices.filter(i => i.id !== deleteId);
               const { updatedInvoices, updatedInventory } = recalculateAllData(remainingInvoices);
               
               setInvoices(updatedInvoices);
               setInventory(updatedInventory);
+              if (deleted.documentId) deleteDocuments([deleted.documentId]).catch(() => addToast('ERROR', 'Could not remove the attached bill.'));
+              logAudit({ action: 'DELETE', summary: `Deleted ${describeInvoice(deleted)}`, invoiceId: deleted.id, before: deleted, affected: getProfitShifts(invoices, updatedInvoices) });
               addToast('SUCCESS', 'Record deleted and data recalculated.');
           }
           setShowDeleteModal(false);
           setDeleteId(null);
           setDeletePassword('');
       } else {
-          addToast('ERROR', 'Incorrect Admin Password.');
+          addToast('ERROR', 'Incorrect password.');
       }
   };
 
-  const handleAddInvoice = (invoice: Invoice) => {
-    if (invoice.type === 'PURCHASE') {
-        setInvoices(prev => [invoice, ...prev]); 
-        const newBatch: InventoryBatch = { id: invoice.id, date: invoice.date, originalQuantity: invoice.quantityGrams, remainingQuantity: invoice.quantityGrams, costPerGram: invoice.ratePerGram };
-        setInventory(prev => [...prev, newBatch].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()));
-        addToast('SUCCESS', 'Purchase recorded & Inventory Updated');
-    } else {
-        // Optimization: For adding a new sale (latest date usually), we can just do incremental update
-        // instead of full recalc. However, if user adds a back-dated sale, full recalc is safer.
-        // For now, keeping the optimized incremental logic for standard usage, but if date is older than latest invoice, we should recalc.
-        
-        const latestInvoiceDate = invoices.length > 0 ? invoices[0].date : '';
-        if (latestInvoiceDate && invoice.date < latestInvoiceDate) {
-             // Back-dated transaction: Use full recalculation
-             const newInvoices = [...invoices, invoice];
-             const { updatedInvoices, updatedInventory } = recalculateAllData(newInvoices);
-             setInvoices(updatedInvoices.reverse()); // Store descending
-             setInventory(updatedInventory);
-             addToast('SUCCESS', 'Back-dated Sale recorded. History Recalculated.');
-             return;
-        }
+  // Bills are written once their invoices are posted; the invoice stands even if this fails
+  const storeDocuments = (documents: InvoiceDocument[]) => {
+      if (documents.length === 0) return;
+      saveDocuments(documents).catch(() => addToast('ERROR', `Could not save ${documents.length > 1 ? `${documents.length} attached bills` : 'the attached bill'}.`));
+  };
 
-        let remainingToSell = invoice.quantityGrams;
-        let totalCOGS = 0;
-        const newInventory = JSON.parse(JSON.stringify(inventory)) as InventoryBatch[];
-
-        for (const batch of newInventory) {
-            if (remainingToSell <= 0) break;
-            if (batch.remainingQuantity > 0) {
-                const take = Math.min(batch.remainingQuantity, remainingToSell);
-                batch.totalRevenue = (batch.totalRevenue || 0) + (take * invoice.ratePerGram);
-                batch.remainingQuantity -= take;
-                remainingToSell -= take;
-                totalCOGS += (take * batch.costPerGram);
-                if (batch.remainingQuantity < 0.0001) { 
-                    batch.remainingQuantity = 0;
-                    batch.closedDate = invoice.date;
-                }
-            }
+  // Returns false when the entry was refused, so callers know whether to clear their input
+  const handleAddInvoice = (entry: Invoice, file?: File): boolean => {
+    const attached = file ? createInvoiceDocument(entry.id, file) : undefined;
+    // Names not yet in the party master are added to it along with the invoice
+    const { parties: linkedParties, records: [invoice] } = linkParties(parties, [attached ? { ...entry, documentId: attached.id } : entry], hasParty);
+    if (invoice.date !== new Date().toISOString().split('T')[0] && !requirePermission('BACKDATE_ENTRY')) return false;
+    if (!requireOpenPeriod(invoice.date)) return false;
+    if (!isLastInLedger(invoice, invoices)) {
+        // Back-dated, or ahead of same-day entries in the ledger's order (stock in before sales, counts last):
+        // later sales may draw from different batches, replay everything
+        const backDated = invoices.some(i => i.date > invoice.date);
+        const { updatedInvoices, updatedInventory, diagnostics } = recalculateAllData([invoice, ...invoices]);
+        const existingIssues = new Set(recalculateAllData(invoices).diagnostics.filter(d => d.severity === 'ERROR').map(d => d.invoiceId));
+        const newError = diagnostics.find(d => d.severity === 'ERROR' && !existingIssues.has(d.invoiceId));
+        if (newError) {
+            addToast('ERROR', newError.invoiceId === invoice.id && isReturn(invoice) ? newError.message : `FIFO Mismatch - ${backDated ? 'Back-dated entry' : 'Entry'} leaves a later sale without stock`);
+            return false;
         }
-        if (remainingToSell > 0.001) { addToast('ERROR', "FIFO Mismatch - Check Stock"); return; }
-        const profit = (invoice.quantityGrams * invoice.ratePerGram) - totalCOGS;
-        setInvoices(prev => [{ ...invoice, cogs: totalCOGS, profit }, ...prev]);
-        setInventory(newInventory);
-        addToast('SUCCESS', 'Sale recorded. FIFO Logic Applied.');
+        setInvoices(updatedInvoices);
+        setInventory(updatedInventory);
+        logAudit({ action: 'CREATE', summary: backDated ? `Back-dated ${describeInvoice(invoice)}` : describeInvoice(invoice), invoiceId: invoice.id, after: updatedInvoices.find(i => i.id === invoice.id), affected: getProfitShifts(invoices, updatedInvoices) });
+        setParties(linkedParties);
+        if (attached) storeDocuments([attached]);
+        addToast('SUCCESS', `${backDated ? 'Back-dated ' : ''}${TRANSACTION_TYPE_LABELS[invoice.type]} recorded. History Recalculated.`);
+        return true;
     }
+
+    // Last in the ledger's order: apply it on top of the current batches (same step the full replay uses)
+    const step = applyInvoice(inventory, invoice, costingMethod, invoices);
+    const stepError = step.diagnostics.find(d => d.severity === 'ERROR');
+    if (stepError) { addToast('ERROR', isReturn(invoice) ? stepError.message : "FIFO Mismatch - Check Stock"); return false; }
+    setInvoices(prev => [step.invoice, ...prev]);
+    setInventory(step.batches);
+    setParties(linkedParties);
+    if (attached) storeDocuments([attached]);
+    logAudit({ action: 'CREATE', summary: describeInvoice(invoice), invoiceId: invoice.id, after: step.invoice });
+    addToast('SUCCESS', invoice.type === 'SALE' ? `Sale recorded. ${COSTING_METHOD_LABELS[costingMethod]} costing applied.` : `${TRANSACTION_TYPE_LABELS[invoice.type]} recorded & Inventory Updated`);
+    return true;
+  };
+
+  /**
+   * Sorts held-back entries by the choices made in the duplicate dialog. Entries without a check are kept.
+   * Links, documents and audit entries are only written by `apply`, once the kept entries are posted.
+   */
+  const settleDuplicates = (entries: Invoice[], checks: DuplicateCheck[], decisions: Record<string, DuplicateDecision>, files: Map<string, File>) => {
+      const matches = new Map(checks.map(c => [c.invoice.id, c.match]));
+      const links = new Map<string, Invoice>();
+      const documents: InvoiceDocument[] = [];
+      const drafts: AuditDraft[] = [];
+      const dropped: Invoice[] = [];
+      const kept = entries.filter(entry => {
+          const match = matches.get(entry.id);
+          if (!match) return true;
+          const decision = decisions[entry.id] || 'SKIP';
+          if (decision === 'ADD') {
+              drafts.push({ action: 'DUPLICATE', summary: `Added ${describeInvoice(entry)} although it matches ${match.invoice.id}`, invoiceId: entry.id });
+              return true;
+          }
+          dropped.push(entry);
+          if (decision === 'LINK' && !match.pending) {
+              const existing = links.get(match.invoice.id) || match.invoice;
+              const file = files.get(entry.id);
+              const doc = file && !existing.documentId ? createInvoiceDocument(existing.id, file) : undefined;
+              const linked = linkDuplicate(existing, entry, doc?.id);
+              links.set(existing.id, linked);
+              if (doc) documents.push(doc);
+              drafts.push({ action: 'DUPLICATE', summary: `Linked ${describeInvoice(entry)} to ${existing.id} instead of adding it`, invoiceId: existing.id, before: match.invoice, after: linked });
+          } else {
+              drafts.push({ action: 'DUPLICATE', summary: `Skipped ${describeInvoice(entry)} as a duplicate of ${match.invoice.id}`, ...(match.pending ? {} : { invoiceId: match.invoice.id }) });
+          }
+          return false;
+      });
+      const apply = () => {
+          // Queued after the posting's own update, so the replayed list gets the links too
+          if (links.size > 0) setInvoices(prev => prev.map(inv => links.get(inv.id) || inv));
+          storeDocuments(documents);
+          logAudit(...drafts);
+      };
+      return { kept, dropped, linked: links.size, apply };
+  };
+
+  // Bills from the entry form are held back when they look like one already in the books
+  const handleNewInvoice = (entry: Invoice, file?: File): boolean => {
+      const match = findDuplicate(entry, invoices, parties);
+      if (match) {
+          setDuplicateReview({ source: 'ENTRY', checks: [{ invoice: entry, match }], entries: [entry], ...(file ? { file } : {}) });
+          return false;
+      }
+      return handleAddInvoice(entry, file);
+  };
+
+  const handleDuplicateResolve = (decisions: Record<string, DuplicateDecision>) => {
+      if (!duplicateReview) return;
+      const { source, checks, entries, file } = duplicateReview;
+      setDuplicateReview(null);
+      if (source === 'SCAN') { handleScanApprove({ checks, decisions }); return; }
+      if (source === 'IMPORT') { handleImportCommit(entries, { checks, decisions }); return; }
+      const { kept, linked, apply } = settleDuplicates(entries, checks, decisions, new Map(file ? [[entries[0].id, file]] : []));
+      if (kept.length > 0) {
+          if (!handleAddInvoice(kept[0], file)) return;
+          apply();
+          setEntryFormKey(k => k + 1);
+          return;
+      }
+      apply();
+      setEntryFormKey(k => k + 1);
+      addToast('SUCCESS', linked > 0 ? `Linked to ${checks[0].match.invoice.id}; nothing was added.` : 'Duplicate skipped; nothing was added.');
+  };
+
+  // Counts are taken against current book stock, so the adjustment cannot be dated before the latest entry
+  const handleStockAdjustment = (adjustment: Invoice): boolean => {
+      if (!requirePermission('ADJUST_STOCK')) return false;
+      const latest = invoices.reduce((max, i) => (i.date > max ? i.date : max), '');
+      if (adjustment.date < latest) {
+          addToast('ERROR', `Count date must be on or after the latest entry (${latest}) so book quantities match.`);
+          return false;
+      }
+      return handleAddInvoice(adjustment);
+  };
+
+  const startEdit = (inv: Invoice) => {
+      if (!requirePermission('EDIT_INVOICE')) return;
+      if (inv.type === 'ADJUSTMENT') { addToast('ERROR', 'Stock adjustments cannot be edited. Delete it and post a new count.'); return; }
+      if (isReturn(inv)) { addToast('ERROR', 'Credit and debit notes cannot be edited. Delete the note and issue a new one.'); return; }
+      if (getReturns(invoices, inv.id).length > 0) { addToast('ERROR', 'This invoice has credit or debit notes against it. Delete the notes before editing.'); return; }
+      if (!requireOpenPeriod(inv.date)) return;
+      setEditState({ original: inv });
+      setEditImpact(null);
+  };
+
+  const handleReturnNote = (note: Invoice): boolean => {
+      if (!handleAddInvoice(note)) return false;
+      setReturnTarget(null);
+      return true;
+  };
+
+  // Reviewed scans are posted together, oldest first, and the history replayed so FIFO sees them in date order
+  const handleScanApprove = (resolved?: { checks: DuplicateCheck[]; decisions: Record<string, DuplicateDecision> }): boolean => {
+      // Each scanned file is kept as the original bill of the invoice read from it
+      const documents = new Map(scanQueue.flatMap(item => (item.draft ? [[item.draft.id, createInvoiceDocument(item.draft.id, item.file)] as const] : [])));
+      const rows = getApprovalOrder(scanQueue).map(inv => {
+          const doc = documents.get(inv.id);
+          return doc ? { ...inv, documentId: doc.id } : inv;
+      });
+      if (rows.length === 0) return false;
+      if (rows.some(inv => inv.date !== new Date().toISOString().split('T')[0]) && !requirePermission('BACKDATE_ENTRY')) return false;
+      if (!requireOpenPeriod(...rows.map(inv => inv.date))) return false;
+      if (!resolved) {
+          const checks = checkDuplicates(rows, invoices, parties);
+          if (checks.length > 0) { setDuplicateReview({ source: 'SCAN', checks, entries: rows }); return false; }
+      }
+      const files = new Map(scanQueue.flatMap(item => (item.draft ? [[item.draft.id, item.file] as const] : [])));
+      const { kept, dropped, apply } = settleDuplicates(rows, resolved?.checks || [], resolved?.decisions || {}, files);
+      const { parties: linkedParties, records: approved } = linkParties(parties, kept, hasParty);
+      const { updatedInvoices, updatedInventory, diagnostics } = recalculateAllData([...[...approved].reverse(), ...invoices]);
+      const existingIssues = new Set(recalculateAllData(invoices).diagnostics.filter(d => d.severity === 'ERROR').map(d => d.invoiceId));
+      const newError = diagnostics.find(d => d.severity === 'ERROR' && !existingIssues.has(d.invoiceId));
+      if (newError) {
+          addToast('ERROR', `Nothing approved. ${newError.invoiceId} on ${newError.date}: ${newError.message}`);
+          return false;
+      }
+      setInvoices(updatedInvoices);
+      setInventory(updatedInventory);
+      setParties(linkedParties);
+      const handledIds = new Set([...approved, ...dropped].map(inv => inv.id));
+      storeDocuments(approved.flatMap(inv => documents.get(inv.id) || []));
+      setScanQueue(prev => prev.filter(item => !item.draft || !handledIds.has(item.draft.id)));
+      apply();
+      const processed = new Map(updatedInvoices.map(inv => [inv.id, inv]));
+      const shifts = getProfitShifts(invoices, updatedInvoices);
+      logAudit(
+          ...approved.map((inv): AuditDraft => ({ action: 'CREATE', summary: `Scanned ${describeInvoice(inv)}`, invoiceId: inv.id, after: processed.get(inv.id) })),
+          ...(shifts.length > 0 ? [{ action: 'RECALCULATE' as const, summary: `${approved.length} scanned invoices re-costed ${shifts.length} earlier sales`, affected: shifts }] : [])
+      );
+      const notAdded = dropped.length > 0 ? ` ${dropped.length} duplicate${dropped.length > 1 ? 's' : ''} not added.` : '';
+      addToast('SUCCESS', approved.length > 0 ? `Approved ${approved.length} scanned invoice${approved.length > 1 ? 's' : ''} in date order.${notAdded}` : `Nothing approved.${notAdded}`);
+      return true;
+  };
+
+  // Payments follow the same date rules as invoices
+  const handleAddPayment = (entry: Payment): boolean => {
+      const { parties: linkedParties, records: [payment] } = linkParties(parties, [entry]);
+      if (payment.date !== new Date().toISOString().split('T')[0] && !requirePermission('BACKDATE_ENTRY')) return false;
+      if (!requireOpenPeriod(payment.date)) return false;
+      setPayments(prev => [...prev, payment]);
+      setParties(linkedParties);
+      const verb = payment.direction === 'RECEIVED' ? 'Received' : 'Paid';
+      logAudit({ action: 'PAYMENT', summary: `${verb} ${formatCurrency(payment.amount)} ${payment.direction === 'RECEIVED' ? 'from' : 'to'} ${payment.partyName} by ${PAYMENT_MODE_LABELS[payment.mode]}${payment.invoiceId ? ` against ${payment.invoiceId}` : ' on account'}`, invoiceId: payment.invoiceId });
+      addToast('SUCCESS', `${verb} ${formatCurrency(payment.amount)} recorded.`);
+      return true;
+  };
+
+  const handleDeletePayment = (payment: Payment) => {
+      if (!requirePermission('DELETE_INVOICE') || !requireOpenPeriod(payment.date)) return;
+      if (!window.confirm(`Delete the ${formatCurrency(payment.amount)} payment of ${payment.date} for ${payment.partyName}?`)) return;
+      setPayments(prev => prev.filter(p => p.id !== payment.id));
+      logAudit({ action: 'DELETE_PAYMENT', summary: `Deleted ${formatCurrency(payment.amount)} ${payment.direction === 'RECEIVED' ? 'receipt from' : 'payment to'} ${payment.partyName} dated ${payment.date}`, invoiceId: payment.invoiceId });
+      addToast('SUCCESS', 'Payment deleted.');
+  };
+
+  const handleSaveParty = (edited: Party): boolean => {
+      if (!requirePermission('MANAGE_PARTIES')) return false;
+      const existing = parties.find(p => p.id === edited.id);
+      // A renamed party keeps answering to its old name on bills typed in later
+      const renamed = existing && !findPartyByName([edited], existing.name);
+      const party = renamed ? { ...edited, aliases: [...edited.aliases, existing.name] } : edited;
+      setParties(prev => (existing ? prev.map(p => (p.id === party.id ? party : p)) : [...prev, party]));
+      logAudit({ action: 'PARTY', summary: existing ? `Updated party ${party.name}${existing.name !== party.name ? ` (was ${existing.name})` : ''}` : `Added party ${party.name}` });
+      addToast('SUCCESS', `Party ${party.name} saved.`);
+      return true;
+  };
+
+  // History is relinked by party ID only; amounts and the names printed on invoices stay as they were
+  const handleMergeParties = (keepId: string, duplicateId: string) => {
+      if (!requirePermission('MANAGE_PARTIES')) return;
+      const keep = parties.find(p => p.id === keepId);
+      const duplicate = parties.find(p => p.id === duplicateId);
+      if (!keep || !duplicate || keep.id === duplicate.id) return;
+      const moved = invoices.filter(i => i.partyId === duplicate.id).length;
+      if (!window.confirm(`Merge ${duplicate.name} into ${keep.name}? ${moved} invoice${moved === 1 ? '' : 's'} will move to ${keep.name}.`)) return;
+      const merged = mergeParties(keep, duplicate);
+      setParties(prev => prev.filter(p => p.id !== duplicate.id).map(p => (p.id === keep.id ? merged : p)));
+      setInvoices(prev => relinkParty(prev, duplicate.id, keep.id));
+      setPayments(prev => relinkParty(prev, duplicate.id, keep.id));
+      logAudit({ action: 'MERGE_PARTY', summary: `Merged ${duplicate.name} into ${keep.name}, relinking ${moved} invoice${moved === 1 ? '' : 's'}` });
+      addToast('SUCCESS', `${duplicate.name} merged into ${keep.name}.`);
+  };
+
+  const cancelEdit = () => {
+      setEditState(null);
+      setEditImpact(null);
+  };
+
+  // Replays the ledger with the edited invoice in place of the original; nothing is saved yet
+  const handleEditPreview = (draft: Invoice) => {
+      if (!editState || !requirePermission('EDIT_INVOICE')) return;
+      const { original } = editState;
+      if (!requireOpenPeriod(original.date, draft.date)) return;
+      const { updatedInvoices, updatedInventory, diagnostics } = recalculateAllData(invoices.map(i => (i.id === original.id ? draft : i)));
+      const known = new Set(recalculateAllData(invoices).diagnostics.map(d => `${d.invoiceId}|${d.code}`));
+      setEditState({ original, draft });
+      setEditImpact({
+          original,
+          updated: updatedInvoices.find(i => i.id === original.id)!,
+          shifts: getProfitShifts(invoices, updatedInvoices).filter(s => s.invoiceId !== original.id),
+          newIssues: diagnostics.filter(d => !known.has(`${d.invoiceId}|${d.code}`)),
+          invoices: updatedInvoices,
+          inventory: updatedInventory
+      });
+  };
+
+  const confirmEdit = () => {
+      if (!editImpact || editImpact.newIssues.some(d => d.severity === 'ERROR') || !requirePermission('EDIT_INVOICE')) return;
+      const { original, updated, shifts } = editImpact;
+      if (!requireOpenPeriod(original.date, updated.date)) return;
+      const linked = linkParties(parties, editImpact.invoices, hasParty);
+      setInvoices(linked.records);
+      setParties(linked.parties);
+      setInventory(editImpact.inventory);
+      logAudit({ action: 'EDIT', summary: `Edited ${describeInvoice(updated)}`, invoiceId: original.id, before: original, after: updated, affected: shifts });
+      cancelEdit();
+      addToast('SUCCESS', `Invoice ${original.id} updated.${shifts.length > 0 ? ` ${shifts.length} sale${shifts.length > 1 ? 's' : ''} re-costed.` : ''}`);
+  };
+
+  const handleCostingMethodChange = (method: CostingMethod) => {
+      if (method === costingMethod || !requirePermission('MANAGE_SETTINGS')) return;
+      if (lockDate) {
+          // Re-costing would rewrite the profit of closed periods
+          addToast('ERROR', `Periods are closed up to ${lockDate} under ${COSTING_METHOD_LABELS[costingMethod]}. Reopen them before changing the costing method.`);
+          return;
+      }
+      const { updatedInvoices, updatedInventory } = recalculateAllData(invoices, method);
+      setInvoices(updatedInvoices);
+      setInventory(updatedInventory);
+      logAudit({ action: 'RECALCULATE', summary: `Costing method changed from ${COSTING_METHOD_LABELS[costingMethod]} to ${COSTING_METHOD_LABELS[method]}`, affected: getProfitShifts(invoices, updatedInvoices) });
+      setCostingMethod(method);
+      saveCostingMethod(method);
+      addToast('SUCCESS', `Costing switched to ${COSTING_METHOD_LABELS[method]}. History Recalculated.`);
+  };
+
+  const handleFirmSave = (profile: FirmProfile) => {
+      if (!requirePermission('MANAGE_SETTINGS')) return;
+      setFirm(profile);
+      saveFirmProfile(profile);
+      addToast('SUCCESS', 'Firm profile saved.');
+  };
+
+  const handleExtractionSave = (settings: ExtractionSettings) => {
+      if (!requirePermission('MANAGE_SETTINGS')) return;
+      setExtractionSettings(settings);
+      saveExtractionSettings(settings);
+      addToast('SUCCESS', `Invoice scanning will use ${EXTRACTION_PROVIDER_LABELS[settings.provider]}.`);
+  };
+
+  const handleBackup = async (password?: string) => {
+      if (!requirePermission('EXPORT_DATA')) return;
+      // Only bills still linked to an invoice travel with the backup
+      const linked = new Set(invoices.map(inv => inv.documentId));
+      const documents = await Promise.all((await loadDocuments()).filter(doc => linked.has(doc.id)).map(toBackupDocument));
+      const file = await createBackup({ invoices, inventory, payments, parties, documents, lockDate, periods, settings: { costingMethod, firm } }, password);
+      downloadJSON(file, `bullionkeep_backup_${new Date().toISOString().split('T')[0]}.json`);
+      addToast('SUCCESS', `Backup downloaded${password ? ' (encrypted)' : ''}.`);
+  };
+
+  // Inventory is rebuilt from the restored invoices rather than trusted from the file
+  const handleRestore = (data: BackupData, mode: 'REPLACE' | 'MERGE') => {
+      if (!requirePermission(mode === 'REPLACE' ? 'RESET_DATA' : 'BACKDATE_ENTRY')) return;
+      if (mode === 'MERGE') {
+          const known = new Set(invoices.map(i => i.id));
+          const locked = data.invoices.filter(i => !known.has(i.id) && lockDate && i.date <= lockDate);
+          if (locked.length > 0) { addToast('ERROR', `${locked.length} invoice${locked.length > 1 ? 's' : ''} in the backup fall in periods closed up to ${lockDate}. Nothing was merged.`); return; }
+          const knownPayments = new Set(payments.map(p => p.id));
+          const lockedPayments = (data.payments || []).filter(p => !knownPayments.has(p.id) && lockDate && p.date <= lockDate);
+          if (lockedPayments.length > 0) { addToast('ERROR', `${lockedPayments.length} payment${lockedPayments.length > 1 ? 's' : ''} in the backup fall in periods closed up to ${lockDate}. Nothing was merged.`); return; }
+      }
+      const method = mode === 'REPLACE' ? data.settings.costingMethod : costingMethod;
+      const restored = mode === 'REPLACE' ? data.invoices : mergeInvoices(invoices, data.invoices);
+      const { updatedInvoices, updatedInventory, diagnostics } = recalculateAllData(restored, method);
+      // Backups from before the party master get one built from their invoice names
+      const master = mode === 'REPLACE' ? data.parties || [] : mergePartyMaster(parties, data.parties || []);
+      const linkedInvoices = linkParties(master, updatedInvoices, hasParty);
+      const linkedPayments = linkParties(linkedInvoices.parties, mode === 'REPLACE' ? data.payments || [] : mergePayments(payments, data.payments || []));
+      setInvoices(linkedInvoices.records);
+      setInventory(updatedInventory);
+      setPayments(linkedPayments.records);
+      setParties(linkedPayments.parties);
+      const documents = (mode === 'REPLACE' ? data.documents || [] : mergeDocuments(invoices, data.documents || [])).map(fromBackupDocument);
+      (mode === 'REPLACE' ? replaceDocuments(documents) : saveDocuments(documents)).catch(() => addToast('ERROR', 'Could not restore the attached bills.'));
+      if (mode === 'REPLACE') {
+          setCostingMethod(method);
+          saveCostingMethod(method);
+          setFirm(data.settings.firm);
+          saveFirmProfile(data.settings.firm);
+          // Backups from before period close only carry a lock date; treat it as one closed period
+          setPeriods(data.periods || (data.lockDate ? [buildPeriodClose(data.invoices, data.lockDate, method, undefined, 'Lock date')] : []));
+      }
+      logAudit({
+          action: 'RESTORE',
+          summary: mode === 'REPLACE' ? `Replaced ${invoices.length} invoices with ${updatedInvoices.length} from a backup` : `Merged ${updatedInvoices.length - invoices.length} invoices from a backup`,
+          affected: getProfitShifts(invoices, updatedInvoices)
+      });
+      const shortSales = new Set(diagnostics.filter(d => d.severity === 'ERROR').map(d => d.invoiceId)).size;
+      if (shortSales > 0) addToast('ERROR', `${shortSales} sale${shortSales > 1 ? 's' : ''} now exceed available stock. Review the ledger.`);
+      addToast('SUCCESS', mode === 'REPLACE' ? `Restored ${updatedInvoices.length} invoices.` : `Merged ${updatedInvoices.length - invoices.length} invoices from backup.`);
+  };
+
+  // Imported invoices arrive in entry order; the whole history is replayed so back-dated rows cost correctly
+  const handleImportDryRun = (imported: Invoice[]) => {
+      const before = recalculateAllData(invoices).diagnostics;
+      const { updatedInvoices, updatedInventory, diagnostics } = recalculateAllData([...[...imported].reverse(), ...invoices]);
+      return summarizeDryRun(imported, updatedInvoices, updatedInventory, diagnostics, before);
+  };
+
+  const handleImportCommit = (rows: Invoice[], resolved?: { checks: DuplicateCheck[]; decisions: Record<string, DuplicateDecision> }) => {
+      if (!requirePermission('BACKDATE_ENTRY')) return;
+      if (!requireOpenPeriod(...rows.map(inv => inv.date))) return;
+      if (!resolved) {
+          const checks = checkDuplicates(rows, invoices, parties);
+          if (checks.length > 0) { setDuplicateReview({ source: 'IMPORT', checks, entries: rows }); return; }
+      }
+      const { kept, dropped, apply } = settleDuplicates(rows, resolved?.checks || [], resolved?.decisions || {}, new Map());
+      const { parties: linkedParties, records: imported } = linkParties(parties, kept, hasParty);
+      const { updatedInvoices, updatedInventory, diagnostics } = recalculateAllData([...[...imported].reverse(), ...invoices]);
+      // The dry run included the rows just skipped or linked; sales that drew on them may now fall short
+      const existingIssues = new Set(recalculateAllData(invoices).diagnostics.filter(d => d.severity === 'ERROR').map(d => d.invoiceId));
+      const newError = diagnostics.find(d => d.severity === 'ERROR' && !existingIssues.has(d.invoiceId));
+      if (newError) {
+          addToast('ERROR', `Nothing imported. Without the duplicates left out, ${newError.invoiceId} on ${newError.date}: ${newError.message}`);
+          return;
+      }
+      setInvoices(updatedInvoices);
+      setInventory(updatedInventory);
+      setParties(linkedParties);
+      setShowImport(false);
+      const processed = new Map(updatedInvoices.map(inv => [inv.id, inv]));
+      const shifts = getProfitShifts(invoices, updatedInvoices);
+      logAudit(
+          ...imported.map((inv): AuditDraft => ({ action: 'IMPORT', summary: `Imported ${describeInvoice(inv)}`, invoiceId: inv.id, after: processed.get(inv.id) })),
+          ...(shifts.length > 0 ? [{ action: 'RECALCULATE' as const, summary: `Import of ${imported.length} invoices re-costed ${shifts.length} earlier sales`, affected: shifts }] : [])
+      );
+      apply();
+      addToast('SUCCESS', `Imported ${imported.length} invoices.${dropped.length > 0 ? ` ${dropped.length} duplicate${dropped.length > 1 ? 's' : ''} not added.` : ''} History Recalculated.`);
+  };
+
+  const handleClosePeriod = (periodEnd: string) => {
+      if (!currentUser || !requirePermission('CLOSE_PERIOD')) return;
+      try {
+          assertCanClose(periodEnd, lockDate, recalculateAllData(invoices).diagnostics, invoices);
+      } catch (err: any) {
+          addToast('ERROR', err.message);
+          return;
+      }
+      const active = getActiveCloses(periods);
+      const close = buildPeriodClose(invoices, periodEnd, costingMethod, active[active.length - 1], currentUser.name);
+      setPeriods(prev => [...prev, close]);
+      logAudit({ action: 'CLOSE_PERIOD', summary: `Closed ${close.periodStart ? `${close.periodStart} to ${periodEnd}` : `books up to ${periodEnd}`}: closing stock ${formatCurrency(close.closing.value)}, gross profit ${formatCurrency(close.pnl.grossProfit)}` });
+      addToast('SUCCESS', `Books closed up to ${periodEnd}.`);
+  };
+
+  const handleReopenPeriod = (period: PeriodClose) => {
+      if (!currentUser || !requirePermission('REOPEN_PERIOD')) return;
+      if (!window.confirm(`Reopen the period ending ${period.periodEnd}? Its invoices become editable again and its snapshot is kept for reference only.`)) return;
+      try {
+          setPeriods(reopenPeriod(periods, period.id, currentUser.name));
+      } catch (err: any) {
+          addToast('ERROR', err.message);
+          return;
+      }
+      logAudit({ action: 'REOPEN_PERIOD', summary: `Reopened period ending ${period.periodEnd} (closed by ${period.closedBy} on ${new Date(period.closedAt).toLocaleDateString('en-IN')})` });
+      addToast('SUCCESS', `Period ending ${period.periodEnd} reopened.`);
+  };
+
+  const handleUsersChange = (next: UserAccount[], message: string) => {
+      setUsers(next);
+      saveUsers(next);
+      addToast('SUCCESS', message);
+  };
+
+  const handleLogin = (user: UserAccount) => {
+      setCurrentUserId(user.id);
+      saveSession(user.id);
+  };
+
+  const handleCreateOwner = (user: UserAccount) => {
+      setUsers([user]);
+      saveUsers([user]);
+      handleLogin(user);
+  };
+
+  const handleSignOut = () => {
+      setCurrentUserId(null);
+      saveSession(null);
   };
 
   const handleReset = () => {
+      if (!requirePermission('RESET_DATA')) return;
       if(window.confirm("Are you sure? This will delete all data. This action cannot be undone.")) {
-          resetData(); setInvoices([]); setInventory([]);
-          addToast('SUCCESS', 'System Reset Complete');
+          resetData()
+              .then(() => {
+                  logAudit({ action: 'RESET', summary: `Reset deleted ${invoices.length} invoices and ${inventory.length} batches` });
+                  setInvoices([]);
+                  setInventory([]);
+                  setPeriods([]);
+                  setPayments([]);
+                  setParties([]);
+                  addToast('SUCCESS', 'System Reset Complete');
+              })
+              .catch(() => addToast('ERROR', 'Reset failed.'));
       }
   }
 
   // --- EXPORT HANDLERS ---
   
-  const generatePDF = (title: string, head: string[][], body: (string | number)[][], summary?: string[]) => {
+  const buildPDF = (title: string, head: string[][], body: (string | number)[][], summary?: string[]) => {
       const doc = new jsPDF();
       doc.setFontSize(16);
       doc.text(title, 14, 15);
       doc.setFontSize(10);
-      doc.text(`Generated: ${new Date().toLocaleDateString()}`, 14, 22);
+      doc.text(`Generated: ${new Date().toLocaleDateString()}  |  Costing: ${COSTING_METHOD_LABELS[costingMethod]}`, 14, 22);
       
       if (summary) {
           summary.forEach((line, i) => doc.text(line, 14, 28 + (i * 5)));
@@ -390,14 +971,21 @@ function App() {
           styles: { fontSize: 8 },
           headStyles: { fillColor: [209, 151, 38] }
       });
-      doc.save(`${title.replace(/\s+/g, '_').toLowerCase()}.pdf`);
+      return doc;
+  };
+
+  const generatePDF = (title: string, head: string[][], body: (string | number)[][], summary?: string[]) => {
+      buildPDF(title, head, body, summary).save(`${title.replace(/\s+/g, '_').toLowerCase()}.pdf`);
       addToast('SUCCESS', `${title} downloaded.`);
   };
 
   const handleInventoryExport = (type: 'CSV' | 'PDF') => {
+      if (!requirePermission('EXPORT_DATA')) return;
       const data = inventory.filter(inv => inv.date >= dateRange.start && inv.date <= dateRange.end).map(b => ({
           batchId: b.id,
           date: b.date,
+          metal: METAL_LABELS[getMetal(b)],
+          purity: getPurity(b),
           originalQty: b.originalQuantity,
           remainingQty: b.remainingQuantity,
           costPerGram: b.costPerGram,
@@ -406,27 +994,28 @@ function App() {
       }));
 
       if (type === 'CSV') {
-          const headers = ['Batch ID', 'Date', 'Original Qty (g)', 'Remaining Qty (g)', 'Cost (INR/g)', 'Total Value (INR)', 'Status'];
+          const headers = ['Batch ID', 'Date', 'Metal', 'Purity', 'Original Qty (fine g)', 'Remaining Qty (fine g)', 'Cost (INR/fine g)', 'Total Value (INR)', 'Status'];
           const csv = [
               headers.join(','),
-              ...data.map(r => [r.batchId, r.date, r.originalQty, r.remainingQty, r.costPerGram, r.totalValue, r.status].join(','))
+              ...data.map(r => [r.batchId, r.date, r.metal, r.purity, r.originalQty, r.remainingQty, r.costPerGram, r.totalValue, r.status].join(','))
           ].join('\n');
           downloadCSV(csv, `inventory_report_${new Date().toISOString().split('T')[0]}.csv`);
           addToast('SUCCESS', 'Inventory CSV downloaded.');
       } else {
           generatePDF('Inventory Report', 
-            [['Batch ID', 'Date', 'Original (g)', 'Remaining (g)', 'Cost/g', 'Value', 'Status']],
-            data.map(r => [r.batchId, r.date, formatGrams(r.originalQty), formatGrams(r.remainingQty), formatCurrency(r.costPerGram), formatCurrency(r.totalValue), r.status])
+            [['Batch ID', 'Date', 'Metal', 'Purity', 'Original (fine g)', 'Remaining (fine g)', 'Cost/g', 'Value', 'Status']],
+            data.map(r => [r.batchId, r.date, r.metal, r.purity, formatGrams(r.originalQty), formatGrams(r.remainingQty), formatCurrency(r.costPerGram), formatCurrency(r.totalValue), r.status])
           );
       }
   };
 
   const handlePriceExport = (type: 'CSV' | 'PDF', purchases: Invoice[]) => {
+      if (!requirePermission('EXPORT_DATA')) return;
        if (type === 'CSV') {
            const headers = ['Date', 'Supplier', 'Quantity (g)', 'Rate (INR/g)', 'Total (INR)'];
            const csv = [
                headers.join(','),
-               ...purchases.map(p => [p.date, `"${p.partyName}"`, p.quantityGrams, p.ratePerGram, p.quantityGrams * p.ratePerGram].join(','))
+               ...purchases.map(p => [p.date, csvField(p.partyName), p.quantityGrams, p.ratePerGram, p.quantityGrams * p.ratePerGram].join(','))
            ].join('\n');
            downloadCSV(csv, `price_analysis_purchases_${dateRange.start}_${dateRange.end}.csv`);
            addToast('SUCCESS', 'Price Data CSV downloaded.');
@@ -439,12 +1028,13 @@ function App() {
   };
 
   const handleCustomerExport = (type: 'CSV' | 'PDF') => {
+      if (!requirePermission('EXPORT_DATA')) return;
        if (type === 'CSV') {
-           const headers = ['Customer', 'Frequency', 'Total Grams', 'Revenue (Ex GST)', 'Avg Price', 'Avg Profit/g', 'Pattern'];
+           const headers = ['Customer', 'Frequency', ...METALS.map(m => `${METAL_LABELS[m]} (fine g)`), 'Revenue (Ex GST)', 'Avg Price', 'Avg Profit/g', 'Pattern'];
            const csv = [
                headers.join(','),
                ...customerData.map(c => [
-                   `"${c.name}"`, c.txCount, c.totalGrams, c.totalSpend, c.avgSellingPrice, c.avgProfitPerGram, c.behaviorPattern
+                   csvField(c.name), c.txCount, ...METALS.map(m => c.totalGrams[m]), c.totalSpend, c.avgSellingPrice ?? '', c.avgProfitPerGram ?? '', c.behaviorPattern
                ].join(','))
            ].join('\n');
            downloadCSV(csv, `customer_insights_${dateRange.start}_${dateRange.end}.csv`);
@@ -452,94 +1042,295 @@ function App() {
        } else {
            generatePDF('Customer Intelligence Report', 
              [['Customer', 'Freq', 'Total Grams', 'Revenue (Ex GST)', 'Avg Price', 'Profit/g', 'Pattern']],
-             customerData.map(c => [c.name, c.txCount, formatGrams(c.totalGrams), formatCurrency(c.totalSpend), formatCurrency(c.avgSellingPrice || 0), formatCurrency(c.avgProfitPerGram || 0), c.behaviorPattern || ''])
+             customerData.map(c => [c.name, c.txCount, formatMetalGrams(c.totalGrams), formatCurrency(c.totalSpend), c.avgSellingPrice !== undefined ? formatCurrency(c.avgSellingPrice) : '-', c.avgProfitPerGram !== undefined ? formatCurrency(c.avgProfitPerGram) : '-', c.behaviorPattern || ''])
            );
        }
   };
 
+  // Statements carry signed balances in CSV (positive: the party owes us) and Dr/Cr in the PDF
+  const handleStatementExport = (statement: PartyStatement, type: 'CSV' | 'PDF') => {
+      if (!requirePermission('EXPORT_DATA')) return;
+      const totalDebit = statement.rows.reduce((sum, r) => sum + r.debit, 0);
+      const totalCredit = statement.rows.reduce((sum, r) => sum + r.credit, 0);
+      const fileStem = `statement_${statement.partyName.replace(/\W+/g, '_').toLowerCase()}_${statement.start}_${statement.end}`;
+      if (type === 'CSV') {
+          const csv = [
+              `${csvField(statement.partyName)},${statement.partyGstin || ''}`,
+              `Period,${statement.start},${statement.end}`,
+              ['Date', 'Particulars', 'Reference', 'Grams', 'Debit', 'Credit', 'Balance'].join(','),
+              [statement.start, 'Opening balance', '', '', '', '', statement.opening.toFixed(2)].join(','),
+              ...statement.rows.map(r => [r.date, csvField(r.description), csvField(r.reference), r.grams ? r.grams.toFixed(3) : '', r.debit ? r.debit.toFixed(2) : '', r.credit ? r.credit.toFixed(2) : '', r.balance.toFixed(2)].join(',')),
+              [statement.end, 'Closing balance', '', '', totalDebit.toFixed(2), totalCredit.toFixed(2), statement.closing.toFixed(2)].join(','),
+              `Grams sold (net),${statement.gramsSold.toFixed(3)}`,
+              `Grams bought (net),${statement.gramsBought.toFixed(3)}`
+          ].join('\n');
+          downloadCSV(csv, `${fileStem}.csv`);
+          addToast('SUCCESS', `Statement for ${statement.partyName} downloaded.`);
+      } else {
+          generatePDF(`${statement.partyName} Statement`,
+            [['Date', 'Particulars', 'Ref', 'Grams', 'Debit', 'Credit', 'Balance']],
+            [
+                [statement.start, 'Opening balance', '', '', '', '', formatBalance(statement.opening)],
+                ...statement.rows.map(r => [r.date, r.description, r.reference, r.grams ? r.grams.toFixed(3) : '', r.debit ? formatCurrency(r.debit) : '', r.credit ? formatCurrency(r.credit) : '', formatBalance(r.balance)]),
+                [statement.end, 'Closing balance', '', '', formatCurrency(totalDebit), formatCurrency(totalCredit), formatBalance(statement.closing)]
+            ],
+            [
+                `${firm.name ? `${firm.name} · ` : ''}Period ${statement.start} to ${statement.end}${statement.partyGstin ? ` · Party GSTIN ${statement.partyGstin}` : ''}`,
+                `Opening ${formatBalance(statement.opening)} · Closing ${formatBalance(statement.closing)} · Sold ${formatGrams(statement.gramsSold)} · Bought ${formatGrams(statement.gramsBought)}`
+            ]
+          );
+      }
+  };
+
   const handleSupplierExport = (type: 'CSV' | 'PDF') => {
+      if (!requirePermission('EXPORT_DATA')) return;
        if (type === 'CSV') {
-           const headers = ['Supplier', 'Transactions', 'Total Volume (g)', 'Avg Rate', 'Min Rate', 'Max Rate', 'Volatility'];
+           const headers = ['Supplier', 'Metal', 'Transactions', 'Total Volume (fine g)', 'Avg Rate', 'Min Rate', 'Max Rate', 'Volatility'];
            const csv = [
                headers.join(','),
                ...supplierData.map(s => [
-                   `"${s.name}"`, s.txCount, s.totalGramsPurchased, s.avgRate, s.minRate, s.maxRate, s.volatility
+                   csvField(s.name), METAL_LABELS[s.metal], s.txCount, s.totalGramsPurchased, s.avgRate, s.minRate, s.maxRate, s.volatility
                ].join(','))
            ].join('\n');
            downloadCSV(csv, `supplier_insights_${dateRange.start}_${dateRange.end}.csv`);
            addToast('SUCCESS', 'Supplier Data CSV downloaded.');
        } else {
            generatePDF('Supplier Insights Report', 
-             [['Supplier', 'Tx Count', 'Vol (g)', 'Avg Rate', 'Min', 'Max', 'Volatility']],
-             supplierData.map(s => [s.name, s.txCount, formatGrams(s.totalGramsPurchased), formatCurrency(s.avgRate), formatCurrency(s.minRate), formatCurrency(s.maxRate), formatCurrency(s.volatility)])
+             [['Supplier', 'Metal', 'Tx Count', 'Vol (g)', 'Avg Rate', 'Min', 'Max', 'Volatility']],
+             supplierData.map(s => [s.name, METAL_LABELS[s.metal], s.txCount, formatGrams(s.totalGramsPurchased), formatCurrency(s.avgRate), formatCurrency(s.minRate), formatCurrency(s.maxRate), formatCurrency(s.volatility)])
            );
        }
   };
 
   const handleLedgerExport = (type: 'CSV' | 'PDF', monthlyData: any[], totals: any) => {
+      if (!requirePermission('EXPORT_DATA')) return;
       if (type === 'CSV') {
-          const headers = ['Month', 'Turnover (Ex GST)', 'Profit', 'Margin %', 'Qty Sold'];
+          const headers = ['Month', 'Turnover (Ex GST)', 'CGST + SGST', 'IGST', 'GST Collected', 'Stock Loss', 'Profit', 'Margin %', 'Qty Sold'];
           const csv = [
               headers.join(','),
               ...monthlyData.map(m => [
-                  m.date.toLocaleDateString('en-IN', {month: 'long', year: 'numeric'}), m.turnover, m.profit, (m.turnover > 0 ? (m.profit/m.turnover)*100 : 0).toFixed(2), m.qty
-              ].join(','))
+                  m.date.toLocaleDateString('en-IN', {month: 'long', year: 'numeric'}), m.turnover, m.localTax, m.igst, m.tax, m.loss, m.profit, (m.turnover > 0 ? (m.profit/m.turnover)*100 : 0).toFixed(2), m.qty
+              ].join(',')),
+              // Kept out of the numeric columns so they still sum to trading totals
+              ...(totals.opening ? [`"Opening Stock as of ${totals.opening.date}: ${totals.opening.value.toFixed(2)} at cost"`] : [])
           ].join('\n');
           downloadCSV(csv, `business_ledger_lifetime.csv`);
           addToast('SUCCESS', 'Ledger CSV downloaded.');
       } else {
           generatePDF('Business Performance Ledger', 
-            [['Month', 'Turnover (Ex GST)', 'Profit', 'Margin %', 'Qty Sold']],
-            monthlyData.map(m => [m.date.toLocaleDateString('en-IN', {month: 'long', year: 'numeric'}), formatCurrency(m.turnover), formatCurrency(m.profit), (m.turnover > 0 ? (m.profit/m.turnover)*100 : 0).toFixed(2) + '%', formatGrams(m.qty)]),
+            [['Month', 'Turnover (Ex GST)', 'CGST + SGST', 'IGST', 'Stock Loss', 'Profit', 'Margin %', 'Qty Sold']],
+            monthlyData.map(m => [m.date.toLocaleDateString('en-IN', {month: 'long', year: 'numeric'}), formatCurrency(m.turnover), formatCurrency(m.localTax), formatCurrency(m.igst), formatCurrency(m.loss), formatCurrency(m.profit), (m.turnover > 0 ? (m.profit/m.turnover)*100 : 0).toFixed(2) + '%', formatGrams(m.qty)]),
             [
                 `Total Turnover (Ex GST): ${formatCurrency(totals.turnover)}`,
                 `Total Profit: ${formatCurrency(totals.profit)}`,
                 `Overall Margin: ${totals.margin.toFixed(2)}%`,
-                `Total Gold Sold: ${formatGrams(totals.qty)}`
+                `Total Qty Sold: ${formatGrams(totals.qty)}`,
+                ...(totals.opening ? [`Opening Stock as of ${totals.opening.date}: ${formatCurrency(totals.opening.value)} at cost`] : [])
             ]
           );
       }
   };
 
-  const handleInvoicesExport = (type: 'CSV' | 'PDF') => {
+  // Transactions in the selected range, newest first, as CSV and PDF; the auditor ZIP carries both
+  const buildTransactionsReport = () => {
        const data = [...filteredInvoices].sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-       
-       if (type === 'CSV') {
-           const headers = ['Date', 'Type', 'Party', 'Qty (g)', 'Rate (INR/g)', 'My Cost (INR/g)', 'Taxable (Ex GST)', 'GST (INR)', 'Total (Inc GST)', 'My Total Cost (Ex GST)', 'Profit (Ex GST)'];
-           const csv = [
-               headers.join(','),
-               ...data.map(i => {
-                   const myCost = i.type === 'SALE' && i.cogs ? (i.cogs / i.quantityGrams) : 0;
-                   const myTotalCost = i.type === 'SALE' ? (i.cogs || 0) : i.taxableAmount;
-                   return [
-                       i.date, i.type, `"${i.partyName}"`, i.quantityGrams, i.ratePerGram, myCost > 0 ? myCost.toFixed(2) : '-', i.taxableAmount, i.gstAmount, i.totalAmount, myTotalCost, i.profit || 0
-                   ].join(',')
-               })
-           ].join('\n');
-           downloadCSV(csv, `transactions_${dateRange.start}_${dateRange.end}.csv`);
-           addToast('SUCCESS', 'Transactions CSV downloaded.');
-       } else {
-           generatePDF('Transaction Report', 
-             [['Date', 'Type', 'Party', 'Qty', 'Rate', 'My Cost', 'Taxable', 'GST', 'Total', 'My Total Cost', 'Profit']],
-             data.map(i => {
-                 const myCost = i.type === 'SALE' && i.cogs ? (i.cogs / i.quantityGrams) : 0;
-                 const myTotalCost = i.type === 'SALE' ? (i.cogs || 0) : i.taxableAmount;
+       // One row per line item; invoice-level amounts are only filled on the first line so columns still sum
+       const headers = ['Invoice ID', 'Bill No', 'Date', 'Type', 'Party', 'Party GSTIN', 'Place of Supply', 'Line', 'Description', 'HSN', 'Metal', 'Purity', 'Gross (g)', 'Qty (g)', 'Rate (INR/g)', 'Making (INR)', 'Wastage %', 'Stones (INR)', 'Line Taxable', 'My Cost (INR/g)', 'Taxable (Ex GST)', 'CGST (INR)', 'SGST (INR)', 'IGST (INR)', 'GST (INR)', 'Total (Inc GST)', 'My Total Cost (Ex GST)', 'Profit (Ex GST)', 'Source Lots'];
+       const csv = [
+           headers.join(','),
+           ...data.flatMap(i => {
+               const myCost = i.type === 'SALE' && i.cogs ? (i.cogs / i.quantityGrams) : 0;
+               const myTotalCost = isCosted(i) ? (i.cogs || 0) : i.taxableAmount;
+               const sourceLots = (i.allocations || []).map(a => `${a.batchId}:${a.grams.toFixed(3)}g@${a.costPerGram}`).join(' ');
+               const gst = getGstComponents(i);
+               return getInvoiceLines(i).map((l, idx) => [
+                   i.id, i.billNumber ? csvField(i.billNumber) : '', i.date, i.type, csvField(i.partyName), i.partyGstin || '', i.partyState || '', idx + 1, csvField(l.description), l.hsn || '', METAL_LABELS[getMetal(l)], getPurity(l),
+                   l.grossWeight, l.netWeight, l.ratePerGram, l.makingCharges, l.wastagePercent, l.stoneValue, l.taxableAmount,
+                   ...(idx === 0
+                       ? [myCost > 0 ? myCost.toFixed(2) : '-', i.taxableAmount, gst.cgstAmount, gst.sgstAmount, gst.igstAmount, i.gstAmount, i.totalAmount, myTotalCost, i.profit || 0, csvField(sourceLots)]
+                       : ['', '', '', '', '', '', '', '', '', ''])
+               ].join(','));
+           })
+       ].join('\n');
+       const pdf = () => buildPDF('Transaction Report', 
+         [['Date', 'Type', 'Party', 'Metal', 'Qty', 'Rate', 'My Cost', 'Taxable', 'GST', 'Total', 'My Total Cost', 'Profit']],
+         data.flatMap(i => {
+             const myCost = i.type === 'SALE' && i.cogs ? (i.cogs / i.quantityGrams) : 0;
+             const myTotalCost = isCosted(i) ? (i.cogs || 0) : i.taxableAmount;
+             // Item detail goes on indented rows under the invoice
+             const lineRows = hasLineDetail(i) ? getInvoiceLines(i).map((l, idx) => {
+                 const charges = [
+                     l.hsn ? `HSN ${l.hsn}` : '',
+                     l.makingCharges ? `MC ${formatCurrency(l.makingCharges)}` : '',
+                     l.wastagePercent ? `W ${l.wastagePercent}%` : '',
+                     l.stoneValue ? `St ${formatCurrency(l.stoneValue)}` : ''
+                 ].filter(Boolean).join(', ');
                  return [
-                     i.date, 
-                     i.type.substring(0,1), 
-                     i.partyName, 
-                     formatGrams(i.quantityGrams), 
-                     formatCurrency(i.ratePerGram),
-                     myCost > 0 ? formatCurrency(myCost) : '-',
-                     formatCurrency(i.taxableAmount), 
-                     formatCurrency(i.gstAmount), 
-                     formatCurrency(i.totalAmount), 
-                     formatCurrency(myTotalCost),
-                     i.profit ? formatCurrency(i.profit) : '-'
-                 ]
-             })
-           );
-       }
+                     '', '', `  - ${l.description || `Item ${idx + 1}`}${charges ? ` (${charges})` : ''}`,
+                     formatPurity(getMetal(l), getPurity(l)),
+                     l.grossWeight !== l.netWeight ? `${formatGrams(l.netWeight)} / ${formatGrams(l.grossWeight)}` : formatGrams(l.netWeight),
+                     formatCurrency(l.ratePerGram), '', formatCurrency(l.taxableAmount), '', '', '', ''
+                 ];
+             }) : [];
+             return [[
+                 i.date, 
+                 TYPE_BADGES[i.type].label, 
+                 i.partyName, 
+                 formatPurity(getMetal(i), getPurity(i)),
+                 formatGrams(i.quantityGrams), 
+                 formatCurrency(i.ratePerGram),
+                 myCost > 0 ? formatCurrency(myCost) : '-',
+                 formatCurrency(i.taxableAmount), 
+                 `${formatCurrency(i.gstAmount)}${getGstComponents(i).igstAmount > 0 ? ' (IGST)' : ''}`, 
+                 formatCurrency(i.totalAmount), 
+                 formatCurrency(myTotalCost),
+                 i.profit ? formatCurrency(i.profit) : '-'
+             ], ...lineRows];
+         })
+       );
+       return { data, csv, pdf };
+  };
+
+  const handleInvoicesExport = (type: 'CSV' | 'PDF') => {
+      if (!requirePermission('EXPORT_DATA')) return;
+      const { csv, pdf } = buildTransactionsReport();
+      if (type === 'CSV') {
+          downloadCSV(csv, `transactions_${dateRange.start}_${dateRange.end}.csv`);
+          addToast('SUCCESS', 'Transactions CSV downloaded.');
+      } else {
+          pdf().save('transaction_report.pdf');
+          addToast('SUCCESS', 'Transaction Report downloaded.');
+      }
+  };
+
+  // Report plus the original bill of every invoice in it, for auditors
+  const handleInvoicesZip = async () => {
+      if (!requirePermission('EXPORT_DATA')) return;
+      const { data, csv, pdf } = buildTransactionsReport();
+      try {
+          const zip = await buildAuditZip({ csv, pdf: pdf().output('blob'), invoices: data, documents: await loadDocuments() });
+          downloadBlob(zip, `transactions_${dateRange.start}_${dateRange.end}.zip`);
+          const attached = data.filter(inv => inv.documentId).length;
+          addToast('SUCCESS', `Transactions ZIP downloaded with ${attached} original bill${attached === 1 ? '' : 's'}.`);
+      } catch {
+          addToast('ERROR', 'Could not build the ZIP.');
+      }
+  };
+
+  // Returns are monthly; the month of the selected range's start date is filed
+  const returnMonth = dateRange.start.substring(0, 7);
+
+  const handleAuditExport = (type: 'CSV' | 'PDF', entries: AuditEntry[]) => {
+      if (!requirePermission('EXPORT_DATA')) return;
+      const describeChanges = (e: AuditEntry) => getFieldChanges(e.before, e.after).map(c => `${c.field}: ${c.before} -> ${c.after}`).join('; ');
+      const describeShifts = (e: AuditEntry) => e.affected.map(a => `${a.invoiceId}: ${a.profitBefore.toFixed(2)} -> ${a.profitAfter.toFixed(2)}`).join('; ');
+      if (type === 'CSV') {
+          const headers = ['Seq', 'Time', 'User', 'Role', 'Action', 'Invoice ID', 'Summary', 'Changes', 'Affected Sales (Profit Before -> After)', 'Hash'];
+          const csv = [
+              headers.join(','),
+              ...entries.map(e => [
+                  e.seq + 1, e.timestamp, csvField(e.userName), ROLE_LABELS[e.role], AUDIT_ACTION_LABELS[e.action], e.invoiceId || '',
+                  csvField(e.summary), csvField(describeChanges(e)), csvField(describeShifts(e)), e.hash
+              ].join(','))
+          ].join('\n');
+          downloadCSV(csv, `audit_trail_${new Date().toISOString().split('T')[0]}.csv`);
+      } else {
+          generatePDF('Audit Trail',
+              [['#', 'Time', 'User', 'Action', 'Summary', 'Re-costed Sales']],
+              entries.map(e => [e.seq + 1, new Date(e.timestamp).toLocaleString('en-IN'), `${e.userName} (${ROLE_LABELS[e.role]})`, AUDIT_ACTION_LABELS[e.action], e.summary, e.affected.length || '-']),
+              [`Entries: ${entries.length}`]
+          );
+      }
+  };
+
+  const handleReturnExport = (kind: 'GSTR1' | 'GSTR3B') => {
+      if (!requirePermission('EXPORT_DATA')) return;
+      if (!firm.gstin) { addToast('ERROR', 'Set the firm GSTIN in Settings first.'); return; }
+      const errors = validateReturnInvoices(getMonthInvoices(invoices, returnMonth)).filter(i => i.severity === 'ERROR');
+      if (errors.length > 0) { addToast('ERROR', `Fix ${errors.length} invoice issue${errors.length > 1 ? 's' : ''} before exporting.`); return; }
+      if (kind === 'GSTR1') {
+          const ret = buildGstr1(invoices, firm, returnMonth);
+          downloadJSON(ret, `GSTR1_${firm.gstin}_${ret.fp}.json`);
+      } else {
+          const ret = buildGstr3b(invoices, firm, returnMonth);
+          downloadJSON(ret, `GSTR3B_${firm.gstin}_${ret.ret_period}.json`);
+      }
+      addToast('SUCCESS', `${kind === 'GSTR1' ? 'GSTR-1' : 'GSTR-3B'} JSON downloaded.`);
+  };
+
+  const renderLineItems = (inv: Invoice) => (
+      <div className="p-4 rounded-xl bg-slate-50 border border-slate-100 animate-fade-in mb-2">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-2">Line items</p>
+          <table className="w-full text-xs">
+              <thead>
+                  <tr className="text-[10px] uppercase tracking-wider text-slate-400">
+                      <th className="py-1 text-left font-semibold">Item</th>
+                      <th className="py-1 text-left font-semibold">HSN</th>
+                      <th className="py-1 text-left font-semibold">Metal</th>
+                      <th className="py-1 text-right font-semibold">Gross</th>
+                      <th className="py-1 text-right font-semibold">Net</th>
+                      <th className="py-1 text-right font-semibold">Rate</th>
+                      <th className="py-1 text-right font-semibold">Making</th>
+                      <th className="py-1 text-right font-semibold">Wastage</th>
+                      <th className="py-1 text-right font-semibold">Stones</th>
+                      <th className="py-1 text-right font-semibold">Taxable</th>
+                  </tr>
+              </thead>
+              <tbody>
+                  {getInvoiceLines(inv).map((l, idx) => (
+                      <tr key={idx} className="border-t border-slate-100">
+                          <td className="py-1.5 font-medium text-slate-800">{l.description || `Item ${idx + 1}`}</td>
+                          <td className="py-1.5 font-mono text-slate-500">{l.hsn || '-'}</td>
+                          <td className="py-1.5 text-slate-600">{formatPurity(getMetal(l), getPurity(l))}</td>
+                          <td className="py-1.5 text-right font-mono text-slate-500">{formatGrams(l.grossWeight)}</td>
+                          <td className="py-1.5 text-right font-mono text-slate-700">{formatGrams(l.netWeight)}</td>
+                          <td className="py-1.5 text-right font-mono text-slate-500">{formatCurrency(l.ratePerGram)}</td>
+                          <td className="py-1.5 text-right font-mono text-slate-500">{l.makingCharges ? formatCurrency(l.makingCharges) : '-'}</td>
+                          <td className="py-1.5 text-right font-mono text-slate-500">{l.wastagePercent ? `${l.wastagePercent}%` : '-'}</td>
+                          <td className="py-1.5 text-right font-mono text-slate-500">{l.stoneValue ? formatCurrency(l.stoneValue) : '-'}</td>
+                          <td className="py-1.5 text-right font-mono font-medium text-slate-900">{formatCurrency(l.taxableAmount)}</td>
+                      </tr>
+                  ))}
+              </tbody>
+          </table>
+      </div>
+  );
+
+  // Sale -> purchase lots it was costed from, purchase -> customers its grams went to
+  const renderAllocationTrail = (inv: Invoice) => {
+      const rows = isCosted(inv) || inv.type === 'PURCHASE_RETURN'
+          ? (inv.allocations || []).map(a => {
+              const batch = inventory.find(b => b.id === a.batchId);
+              const source = invoices.find(i => i.id === (batch ? getBatchInvoiceId(batch) : a.batchId));
+              return { key: a.batchId, party: source?.partyName || a.batchId, date: source?.date || '', grams: a.grams, costPerGram: a.costPerGram };
+          })
+          : inventory.filter(b => getBatchInvoiceId(b) === inv.id).flatMap(b => getBatchConsumers(invoices, b.id)).map(c => ({ key: c.sale.id, party: c.sale.partyName, date: c.sale.date, grams: c.grams, costPerGram: c.costPerGram }));
+
+      return (
+          <div className="p-4 rounded-xl bg-gold-50/40 border border-gold-100 animate-fade-in">
+              <p className="text-[10px] font-bold uppercase tracking-wider text-gold-700 mb-2">
+                  {inv.type === 'SALE' ? 'Sourced from purchase lots' : inv.type === 'ADJUSTMENT' ? 'Written off from lots' : inv.type === 'SALE_RETURN' ? 'Restored to purchase lots' : inv.type === 'PURCHASE_RETURN' ? 'Returned from lots' : 'Sold to customers'}
+              </p>
+              {inv.adjustment?.note && <p className="text-xs text-slate-600 mb-2">Note: {inv.adjustment.note}</p>}
+              {rows.length === 0 ? (
+                  <p className="text-xs text-slate-400 italic">{inv.type === 'SALE' ? 'No lots recorded for this sale.' : inv.type === 'ADJUSTMENT' ? 'Nothing written off; counted gains were added as new lots.' : isReturn(inv) ? 'No lots recorded for this note.' : 'Nothing sold from this lot yet.'}</p>
+              ) : (
+                  <table className="w-full text-xs">
+                      <tbody>
+                          {rows.map(r => (
+                              <tr key={r.key} className="border-b border-gold-100/60 last:border-0">
+                                  <td className="py-1.5 font-mono text-slate-500">{r.date}</td>
+                                  <td className="py-1.5 font-medium text-slate-800">{r.party}</td>
+                                  <td className="py-1.5 text-right font-mono text-slate-700">{formatGrams(r.grams)}</td>
+                                  <td className="py-1.5 text-right font-mono text-slate-500">@ {formatCurrency(r.costPerGram)}</td>
+                                  <td className="py-1.5 text-right font-mono font-medium text-slate-900">{formatCurrency(r.grams * r.costPerGram)}</td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              )}
+          </div>
+      );
   };
 
   const renderDateFilter = () => (
@@ -550,9 +1341,12 @@ function App() {
 
   const DashboardView = () => {
       // Calculate basic stats
-      const totalStock = currentStock; 
-      const stockValue = fifoValue; 
+      const stockValue = inventoryValue; 
       const recentProfit = dailyProfit.reduce((sum, d) => sum + d.profit, 0);
+      const profitByMetal = METALS.map(m => ({
+          metal: m,
+          profit: filteredInvoices.filter(i => (i.type === 'SALE' || i.type === 'SALE_RETURN') && getMetal(i) === m).reduce((acc, i) => acc + (i.profit || 0), 0)
+      })).filter(p => p.profit !== 0);
 
       return (
           <div className="space-y-6 animate-enter">
@@ -562,34 +1356,38 @@ function App() {
                   action={renderDateFilter()}
               />
 
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                  <StatsCard 
-                      title="Current Stock" 
-                      value={formatGrams(totalStock)} 
-                      subValue={`${inventory.length} Batches`} 
-                      icon={Coins} 
-                      isActive
-                  />
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
+                  {METALS.map((m, i) => (
+                      <StatsCard 
+                          key={m}
+                          title={`${METAL_LABELS[m]} Stock`} 
+                          value={formatGrams(stockByMetal[m].grams)} 
+                          subValue={`Fine · ${stockByMetal[m].batches} Lots · ${formatCurrency(stockByMetal[m].value)}`} 
+                          icon={Coins} 
+                          delayIndex={i}
+                          isActive={i === 0}
+                      />
+                  ))}
                   <StatsCard 
                       title="Inventory Value" 
                       value={formatCurrency(stockValue)} 
-                      subValue="FIFO Basis" 
+                      subValue={`${COSTING_METHOD_LABELS[costingMethod]} Basis`} 
                       icon={Scale} 
-                      delayIndex={1}
+                      delayIndex={METALS.length}
                   />
                   <StatsCard 
                       title="Net Profit" 
                       value={formatCurrency(recentProfit)} 
-                      subValue="Selected Period" 
+                      subValue={profitByMetal.length > 1 ? profitByMetal.map(p => `${METAL_LABELS[p.metal]} ${formatCurrency(p.profit)}`).join(' · ') : 'Selected Period'} 
                       icon={TrendingUp} 
-                      delayIndex={2}
+                      delayIndex={METALS.length + 1}
                   />
                   <StatsCard 
                       title="Transactions" 
                       value={filteredInvoices.length.toString()} 
                       subValue={`${filteredInvoices.filter(i => i.type === 'SALE').length} Sales`} 
                       icon={ArrowRightLeft} 
-                      delayIndex={3}
+                      delayIndex={METALS.length + 2}
                   />
               </div>
 
@@ -668,9 +1466,7 @@ function App() {
 
   const CustomerInsightsView = () => {
        const COLORS = ['#d19726', '#e4c76d', '#b4761e', '#f5eccb', '#90561a', '#94a3b8'];
-       const pieData = customerData.slice(0, 5).map(c => ({ name: c.name, value: c.totalGrams }));
-       const others = customerData.slice(5).reduce((acc, c) => acc + c.totalGrams, 0);
-       if (others > 0) pieData.push({ name: 'Others', value: others });
+       const pieData = volumeShare;
 
        return (
            <div className="space-y-6 animate-enter">
@@ -679,7 +1475,7 @@ function App() {
                     subtitle="Analyze customer behavior and profitability." 
                     action={
                         <div className="flex gap-2 items-center">
-                            <ExportMenu onExport={handleCustomerExport} />
+                            {can('EXPORT_DATA') && <ExportMenu onExport={handleCustomerExport} />}
                             {renderDateFilter()}
                         </div>
                     }
@@ -702,7 +1498,7 @@ function App() {
                                  </div>
                              </div>
                              <div className="relative z-10 space-y-2">
-                                 <div className="flex justify-between text-sm"><span className="text-slate-500">Total Bought</span><span className="font-mono font-bold">{formatGrams(c.totalGrams)}</span></div>
+                                 <div className="flex justify-between text-sm"><span className="text-slate-500">Total Bought</span><span className="font-mono font-bold">{formatMetalGrams(c.totalGrams)}</span></div>
                                  <div className="flex justify-between text-sm"><span className="text-slate-500">Revenue</span><span className="font-mono font-bold text-slate-700">{formatCurrency(c.totalSpend)}</span></div>
                                  <div className="flex justify-between text-sm"><span className="text-slate-500">Profit Contrib.</span><span className="font-mono font-bold text-green-600">{formatCurrency(c.profitContribution)}</span></div>
                              </div>
@@ -727,10 +1523,12 @@ function App() {
                                   <tbody>
                                       {customerData.map((c, i) => (
                                           <tr key={i} className="hover:bg-slate-50 border-b border-slate-50">
-                                              <td className="px-4 py-3 font-medium text-slate-900">{c.name}</td>
+                                              <td className="px-4 py-3 font-medium text-slate-900">
+                                                  {parties.some(p => p.id === c.partyKey) ? <button onClick={() => setStatementPartyId(c.partyKey)} title="Account statement" className="hover:text-gold-700 hover:underline text-left">{c.name}</button> : c.name}
+                                              </td>
                                               <td className="px-4 py-3 text-center text-slate-500">{c.txCount}</td>
-                                              <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(c.totalGrams)}</td>
-                                              <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(c.avgSellingPrice || 0)}</td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-600">{formatMetalGrams(c.totalGrams)}</td>
+                                              <td className="px-4 py-3 text-right font-mono text-slate-500">{c.avgSellingPrice !== undefined ? formatCurrency(c.avgSellingPrice) : '-'}</td>
                                               <td className="px-4 py-3 text-right">
                                                   <span className={`px-2 py-0.5 rounded text-[10px] font-bold ${c.margin && c.margin > 1.5 ? 'bg-green-50 text-green-700' : 'bg-slate-100 text-slate-600'}`}>
                                                       {c.margin ? c.margin.toFixed(2) : '0.00'}%
@@ -744,7 +1542,7 @@ function App() {
                           </div>
                      </Card>
 
-                     <Card title="Volume Share" className="min-h-[350px]">
+                     <Card title={`Volume Share (${METAL_LABELS[volumeMetal]})`} className="min-h-[350px]">
                          <ResponsiveContainer width="100%" height={300}>
                              <PieChart>
                                  <Pie data={pieData} cx="50%" cy="50%" innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value">
@@ -791,7 +1589,7 @@ function App() {
                 subtitle="Pricing trends, spreads, and supplier consistency." 
                 action={
                     <div className="flex gap-2 items-center">
-                        <ExportMenu onExport={(t) => handlePriceExport(t, priceMetrics.purchases)} />
+                        {can('EXPORT_DATA') && <ExportMenu onExport={(t) => handlePriceExport(t, priceMetrics.purchases)} />}
                         {renderDateFilter()}
                     </div>
                 } 
@@ -880,14 +1678,13 @@ function App() {
   };
 
   const AnalyticsView = () => {
-      const realizedProfit = totalProfit; // FIFO profit from closed sales
+      const realizedProfit = totalProfit; // Profit from closed sales under the selected costing method
       const rate = parseFloat(marketRate);
       const hasRate = !isNaN(rate) && rate > 0;
-      const unrealizedProfit = hasRate ? (currentStock * rate) - fifoValue : 0;
+      const marketStock = stockByMetal[marketMetal];
+      const unrealizedProfit = hasRate ? (marketStock.grams * rate) - marketStock.value : 0;
       
-      const pieData = customerData.slice(0, 5).map(c => ({ name: c.name, value: c.totalGrams }));
-      const others = customerData.slice(5).reduce((acc, c) => acc + c.totalGrams, 0);
-      if (others > 0) pieData.push({ name: 'Others', value: others });
+      const pieData = volumeShare;
       const COLORS = ['#d19726', '#e4c76d', '#b4761e', '#f5eccb', '#90561a', '#94a3b8'];
 
       return (
@@ -897,7 +1694,7 @@ function App() {
              subtitle="Deep dive into your business performance." 
              action={
                  <div className="flex gap-2 items-center">
-                    <ExportMenu onExport={(t) => addToast('SUCCESS', 'For detailed exports, use specific sections or Generate PDF below.')} />
+                    {can('EXPORT_DATA') && <ExportMenu onExport={(t) => addToast('SUCCESS', 'For detailed exports, use specific sections or Generate PDF below.')} />}
                     {renderDateFilter()}
                  </div>
              } 
@@ -912,9 +1709,16 @@ function App() {
                    <div className="absolute top-0 right-0 w-24 h-24 bg-gold-500/20 rounded-full blur-3xl -mr-8 -mt-8"></div>
                    <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Unrealized Profit (Est)</p>
                    <div className="flex items-end gap-2 mb-2">
+                       <select 
+                          value={marketMetal} 
+                          onChange={(e) => setMarketMetal(e.target.value as Metal)} 
+                          className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-white focus:border-gold-500 outline-none"
+                       >
+                          {METALS.map(m => <option key={m} value={m}>{METAL_LABELS[m]}</option>)}
+                       </select>
                        <input 
                           type="number" 
-                          placeholder="Mkt Rate..." 
+                          placeholder="Rate/fine g..." 
                           value={marketRate} 
                           onChange={(e) => setMarketRate(e.target.value)} 
                           className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-white focus:border-gold-500 outline-none"
@@ -947,6 +1751,43 @@ function App() {
                ))}
           </div>
 
+          <Card title="Costing Method Comparison" delay={250} action={<span className="text-xs font-bold text-slate-400 uppercase tracking-wider">{dateRange.start} → {dateRange.end}</span>}>
+              <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                      <thead className="text-slate-500 bg-slate-50/50">
+                          <tr>
+                              <th className="px-4 py-3">Method</th>
+                              <th className="px-4 py-3 text-right">Revenue (Ex GST)</th>
+                              <th className="px-4 py-3 text-right">COGS</th>
+                              <th className="px-4 py-3 text-right">Profit</th>
+                              <th className="px-4 py-3 text-right">Margin %</th>
+                              <th className="px-4 py-3 text-right">Closing Stock Value</th>
+                              <th className="px-4 py-3 text-center">Books</th>
+                          </tr>
+                      </thead>
+                      <tbody>
+                          {costingComparison.map(c => (
+                              <tr key={c.method} className={`border-b border-slate-50 ${c.method === costingMethod ? 'bg-gold-50/40' : 'hover:bg-slate-50'}`}>
+                                  <td className="px-4 py-3 font-bold text-slate-800">{COSTING_METHOD_LABELS[c.method]}</td>
+                                  <td className="px-4 py-3 text-right font-mono text-slate-600">{formatCurrency(c.revenue)}</td>
+                                  <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(c.cogs)}</td>
+                                  <td className={`px-4 py-3 text-right font-mono font-bold ${c.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(c.profit)}</td>
+                                  <td className="px-4 py-3 text-right font-mono">{c.margin.toFixed(2)}%</td>
+                                  <td className="px-4 py-3 text-right font-mono text-slate-700">{formatCurrency(c.closingStockValue)}</td>
+                                  <td className="px-4 py-3 text-center">
+                                      {c.method === costingMethod ? (
+                                          <span className="px-2 py-1 bg-gold-100 text-gold-700 text-[10px] font-bold uppercase rounded">In Use</span>
+                                      ) : (
+                                          <button onClick={() => handleCostingMethodChange(c.method)} className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors">Use</button>
+                                      )}
+                                  </td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+          </Card>
+
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               <Card title="Profit Trajectory" className="lg:col-span-2" delay={300}>
                   <div className="h-64 md:h-80 w-full">
@@ -971,7 +1812,7 @@ function App() {
                   </div>
               </Card>
 
-              <Card title="Customer Volume Share" className="lg:col-span-1 min-h-[300px]" delay={400}>
+              <Card title={`Customer Volume Share (${METAL_LABELS[volumeMetal]})`} className="lg:col-span-1 min-h-[300px]" delay={400}>
                  <ResponsiveContainer width="100%" height={300}>
                      <PieChart>
                          <Pie data={pieData} cx="50%" cy="50%" innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value">
@@ -991,13 +1832,29 @@ function App() {
   const InvoicesView = () => (
       <div className="flex flex-col lg:flex-row gap-6 relative items-start h-full">
           <div className="w-full lg:w-[380px] xl:w-[420px] flex-shrink-0 lg:sticky lg:top-0 transition-all">
-              <InvoiceForm onAdd={handleAddInvoice} currentStock={currentStock} lockDate={lockDate} />
+              {editState ? (
+                  <InvoiceForm
+                      key={`edit-${editState.original.id}`}
+                      onAdd={handleEditPreview} availableStock={availableStock} lockDate={lockDate} costingMethod={costingMethod} firm={firm}
+                      openBatches={inventory.filter(b => b.remainingQuantity > 0 || editState.original.allocations?.some(a => a.batchId === b.id))}
+                      editing={editState.draft ? { ...editState.draft, allocations: editState.original.allocations } : editState.original}
+                      onCancelEdit={cancelEdit}
+                      parties={parties} receivables={receivables} editingBalance={settlement.balances.find(b => b.invoiceId === editState.original.id)}
+                  />
+              ) : (
+                  <InvoiceForm key={`new-${entryFormKey}`} onAdd={handleNewInvoice} availableStock={availableStock} lockDate={lockDate} costingMethod={costingMethod} openBatches={inventory.filter(b => b.remainingQuantity > 0)} firm={firm} sameDayOnly={!can('BACKDATE_ENTRY')} parties={parties} receivables={receivables} extractor={extractor} />
+              )}
           </div>
           <div className="flex-1 w-full min-w-0">
               <Card title="Recent Transactions" className="min-h-[600px] h-full flex flex-col" delay={200}
                  action={
                      <div className="flex gap-2 items-center">
-                        <ExportMenu onExport={handleInvoicesExport} />
+                        {can('BACKDATE_ENTRY') && (
+                            <button onClick={() => setShowImport(true)} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors">
+                                <UploadCloud className="w-4 h-4" /> Import
+                            </button>
+                        )}
+                        {can('EXPORT_DATA') && <ExportMenu onExport={handleInvoicesExport} onZip={handleInvoicesZip} />}
                         {renderDateFilter()}
                      </div>
                  }
@@ -1026,33 +1883,75 @@ function App() {
                               ) : (
                                   filteredInvoices.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map((inv, i) => {
                                       const myCostPerGram = inv.type === 'SALE' && inv.cogs ? inv.cogs / inv.quantityGrams : null;
+                                      const isExpanded = expandedInvoiceId === inv.id;
                                       return (
-                                      <tr key={inv.id} className="group hover:scale-[1.01] transition-transform duration-200">
+                                      <React.Fragment key={inv.id}>
+                                      <tr className="group hover:scale-[1.01] transition-transform duration-200">
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-l border-transparent group-hover:border-slate-100 text-slate-500 font-mono text-xs rounded-l-xl">{inv.date}</td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100">
-                                              <span className={`inline-flex items-center px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border ${inv.type === 'PURCHASE' ? 'bg-blue-50 text-blue-600 border-blue-100' : 'bg-green-50 text-green-600 border-green-100'}`}>{inv.type === 'PURCHASE' ? 'In' : 'Out'}</span>
+                                              <span className={`inline-flex items-center px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wide border ${TYPE_BADGES[inv.type].className}`}>{TYPE_BADGES[inv.type].label}</span>
+                                              <span className={`ml-1.5 text-[10px] font-bold ${getMetal(inv) === 'GOLD' ? 'text-gold-600' : 'text-slate-400'}`}>{METAL_LABELS[getMetal(inv)]} {(inv.lines?.length || 0) > 1 ? `· ${inv.lines!.length} items` : getPurity(inv)}</span>
+                                          </td>
+                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-medium text-slate-900 truncate max-w-[150px]">
+                                              {inv.partyName}
+                                              {inv.billNumber && <span className="block text-[10px] font-mono text-slate-400 truncate">Bill {inv.billNumber}</span>}
                                           </td>
-                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-medium text-slate-900 truncate max-w-[150px]">{inv.partyName}</td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-600 text-right">{formatGrams(inv.quantityGrams)}</td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-500 text-right">{formatCurrency(inv.ratePerGram).replace('.00','')}</td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-500 text-right">
                                               {myCostPerGram ? formatCurrency(myCostPerGram).replace('.00','') : '-'}
                                           </td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono font-medium text-slate-900 text-right">{formatCurrency(inv.taxableAmount)}</td>
-                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-500 text-right">{formatCurrency(inv.gstAmount)}</td>
+                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-500 text-right">
+                                              {formatCurrency(inv.gstAmount)}
+                                              <span className="block text-[9px] font-bold text-slate-400">{getGstComponents(inv).igstAmount > 0 ? 'IGST' : 'CGST+SGST'}</span>
+                                          </td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono text-slate-400 text-right">{formatCurrency(inv.totalAmount)}</td>
                                           <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono font-medium text-slate-700 text-right">
-                                              {formatCurrency(inv.type === 'SALE' ? (inv.cogs || 0) : inv.taxableAmount)}
+                                              {formatCurrency(isCosted(inv) ? (inv.cogs || 0) : inv.taxableAmount)}
                                           </td>
                                           <td className={`px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-transparent group-hover:border-slate-100 font-mono font-bold text-right ${(inv.profit || 0) > 0 ? 'text-green-600' : (inv.profit || 0) < 0 ? 'text-red-600' : 'text-slate-300'}`}>
-                                              {inv.type === 'SALE' ? formatCurrency(inv.profit || 0) : '-'}
+                                              {isCosted(inv) ? formatCurrency(inv.profit || 0) : '-'}
                                           </td>
-                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-r border-transparent group-hover:border-slate-100 rounded-r-xl text-center">
-                                              <button onClick={() => initiateDelete(inv.id)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors">
-                                                  <Trash2 className="w-4 h-4"/>
+                                          <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white border-y border-r border-transparent group-hover:border-slate-100 rounded-r-xl text-center whitespace-nowrap">
+                                              <button onClick={() => setExpandedInvoiceId(isExpanded ? null : inv.id)} title={inv.type === 'SALE' ? 'Items & source lots' : 'Items & sold to'} className="p-1.5 rounded-lg text-slate-400 hover:text-gold-600 hover:bg-gold-50 transition-colors">
+                                                  {isExpanded ? <ChevronUp className="w-4 h-4"/> : <ChevronDown className="w-4 h-4"/>}
                                               </button>
+                                              {inv.documentId && (
+                                                  <button onClick={() => setDocumentInvoice(inv)} title="Original bill" className="p-1.5 rounded-lg text-slate-400 hover:text-gold-600 hover:bg-gold-50 transition-colors">
+                                                      <Paperclip className="w-4 h-4"/>
+                                                  </button>
+                                              )}
+                                              {RETURN_TYPES[inv.type] && (
+                                                  <button onClick={() => setReturnTarget(inv)} title={inv.type === 'SALE' ? 'Sales return (credit note)' : 'Purchase return (debit note)'} className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-rose-50 transition-colors">
+                                                      <RotateCcw className="w-4 h-4"/>
+                                                  </button>
+                                              )}
+                                              {can('EDIT_INVOICE') && inv.type !== 'ADJUSTMENT' && !isReturn(inv) && (
+                                                  <button onClick={() => startEdit(inv)} title="Edit" className={`p-1.5 rounded-lg transition-colors ${editState?.original.id === inv.id ? 'text-gold-600 bg-gold-50' : 'text-slate-400 hover:text-slate-900 hover:bg-slate-50'}`}>
+                                                      <Pencil className="w-4 h-4"/>
+                                                  </button>
+                                              )}
+                                              {can('DELETE_INVOICE') && (
+                                                  <button onClick={() => initiateDelete(inv.id)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors">
+                                                      <Trash2 className="w-4 h-4"/>
+                                                  </button>
+                                              )}
                                           </td>
                                       </tr>
+                                      {isExpanded && (
+                                          <tr>
+                                              <td colSpan={12} className="px-4 pb-3">
+                                                  {(inv.partyGstin || inv.partyState) && (
+                                                      <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-2">GSTIN <span className="font-mono text-slate-600">{inv.partyGstin || 'Unregistered'}</span> · {inv.type === 'SALE' || inv.type === 'SALE_RETURN' ? 'Place of supply' : 'Supplier state'} <span className="text-slate-600">{formatState(inv.partyState)}</span></p>
+                                                  )}
+                                                  {inv.returnOf && <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-2">Against invoice <span className="font-mono text-slate-600">{inv.returnOf}</span></p>}
+                                                  {hasLineDetail(inv) && renderLineItems(inv)}
+                                                  {renderAllocationTrail(inv)}
+                                              </td>
+                                          </tr>
+                                      )}
+                                      </React.Fragment>
                                   )})
                               )}
                           </tbody>
@@ -1065,14 +1964,18 @@ function App() {
 
   const SupplierInsightsView = () => {
     // Prepare Chart Data
+    // Suppliers have a row per metal; the grams pie keeps to one metal, the cost pie can mix them
+    const multiMetal = new Set(supplierData.map(s => s.metal)).size > 1;
+    const supplierLabel = (s: SupplierStat) => (multiMetal ? `${s.name} · ${METAL_LABELS[s.metal]}` : s.name);
+    const supplierVolumeMetal = METALS.find(m => supplierData.some(s => s.metal === m)) || METALS[0];
     const { volumeData, valueData } = useMemo(() => {
-        const sortedByVol = [...supplierData].sort((a,b) => b.totalGramsPurchased - a.totalGramsPurchased);
-        const sortedByVal = [...supplierData].sort((a,b) => (b.totalGramsPurchased * b.avgRate) - (a.totalGramsPurchased * a.avgRate));
+        const sortedByVol = supplierData.filter(s => s.metal === supplierVolumeMetal).sort((a,b) => b.totalGramsPurchased - a.totalGramsPurchased);
+        const sortedByVal = [...supplierData].sort((a,b) => b.totalCost - a.totalCost);
 
         const generatePie = (data: typeof supplierData, metric: 'vol' | 'val') => {
             const mapped = data.map(s => ({
-                name: s.name,
-                value: metric === 'vol' ? s.totalGramsPurchased : (s.totalGramsPurchased * s.avgRate)
+                name: supplierLabel(s),
+                value: metric === 'vol' ? s.totalGramsPurchased : s.totalCost
             }));
             const top = mapped.slice(0, 5);
             const others = mapped.slice(5).reduce((acc, curr) => acc + curr.value, 0);
@@ -1084,7 +1987,7 @@ function App() {
             volumeData: generatePie(sortedByVol, 'vol'),
             valueData: generatePie(sortedByVal, 'val')
         };
-    }, [supplierData]);
+    }, [supplierData, supplierVolumeMetal, multiMetal]);
 
     const COLORS = ['#3b82f6', '#06b6d4', '#10b981', '#f59e0b', '#6366f1', '#94a3b8'];
 
@@ -1095,7 +1998,7 @@ function App() {
              subtitle="Track procurement costs and volatility." 
              action={
                  <div className="flex gap-2 items-center">
-                    <ExportMenu onExport={handleSupplierExport} />
+                    {can('EXPORT_DATA') && <ExportMenu onExport={handleSupplierExport} />}
                     {renderDateFilter()}
                  </div>
              }
@@ -1105,7 +2008,7 @@ function App() {
                 <div key={i} className="bg-white p-6 rounded-2xl shadow-card border border-slate-100 flex flex-col justify-between">
                      <div className="flex justify-between items-start mb-4">
                          <div>
-                             <h3 className="font-bold text-lg text-slate-900">{s.name}</h3>
+                             <h3 className="font-bold text-lg text-slate-900">{supplierLabel(s)}</h3>
                              <p className="text-xs text-slate-500 uppercase tracking-wide">Primary Supplier</p>
                          </div>
                          <div className="p-2 bg-blue-50 text-blue-600 rounded-lg"><Factory className="w-5 h-5"/></div>
@@ -1120,7 +2023,7 @@ function App() {
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-             <Card title="Volume Dependency (Grams)" delay={300} className="min-h-[350px]">
+             <Card title={`Volume Dependency (${METAL_LABELS[supplierVolumeMetal]}, Grams)`} delay={300} className="min-h-[350px]">
                 <ResponsiveContainer width="100%" height={300}>
                      <PieChart>
                          <Pie data={volumeData} cx="50%" cy="50%" innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value">
@@ -1164,7 +2067,9 @@ function App() {
                 <tbody>
                     {supplierData.map((s, i) => (
                         <tr key={i} className="border-b border-slate-50 hover:bg-slate-50">
-                            <td className="px-4 py-3 font-bold text-slate-800">{s.name}</td>
+                            <td className="px-4 py-3 font-bold text-slate-800">
+                                {parties.some(p => p.id === s.partyKey) ? <button onClick={() => setStatementPartyId(s.partyKey)} title="Account statement" className="hover:text-gold-700 hover:underline text-left">{supplierLabel(s)}</button> : supplierLabel(s)}
+                            </td>
                             <td className="px-4 py-3 text-center text-slate-500">{s.txCount}</td>
                             <td className="px-4 py-3 text-right font-mono">{formatGrams(s.totalGramsPurchased)}</td>
                             <td className="px-4 py-3 text-right font-mono">{formatCurrency(s.avgRate)}</td>
@@ -1179,29 +2084,137 @@ function App() {
     );
   };
 
+  const GstReturnsView = () => {
+      const monthLabel = new Date(`${returnMonth}-01T00:00:00`).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+      const { issues, gstr1, gstr3b, payable } = useMemo(() => {
+          const gstr3b = buildGstr3b(invoices, firm, returnMonth);
+          return {
+              issues: validateReturnInvoices(getMonthInvoices(invoices, returnMonth)),
+              gstr1: buildGstr1(invoices, firm, returnMonth),
+              gstr3b,
+              payable: getNetTaxPayable(gstr3b)
+          };
+      }, [invoices, firm, returnMonth]);
+
+      const b2bCount = gstr1.b2b.reduce((acc, p) => acc + p.inv.length, 0);
+      const b2clCount = gstr1.b2cl.reduce((acc, p) => acc + p.inv.length, 0);
+      const noteCount = gstr1.cdnr.reduce((acc, p) => acc + p.nt.length, 0) + gstr1.cdnur.length;
+      const errorCount = issues.filter(i => i.severity === 'ERROR').length;
+      const out = gstr3b.sup_details.osup_det;
+      const itc = gstr3b.itc_elg.itc_net;
+
+      return (
+          <div className="space-y-6 animate-enter">
+              <SectionHeader
+                  title="GST Returns"
+                  subtitle={`Return period: ${monthLabel}${dateRange.start.substring(0, 7) !== dateRange.end.substring(0, 7) ? ' (month of the start date)' : ''}`}
+                  action={renderDateFilter()}
+              />
+
+              {!firm.gstin && (
+                  <div className="p-4 bg-amber-50 border border-amber-100 text-amber-800 text-sm rounded-xl flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0"/> Firm GSTIN is not set. Add it under Settings to export returns.
+                  </div>
+              )}
+
+              <Card title={<><AlertOctagon className="w-5 h-5 text-slate-400"/> Pre-filing Checks</>} action={<span className={`text-xs font-bold px-2 py-1 rounded ${errorCount > 0 ? 'bg-red-50 text-red-600' : 'bg-green-50 text-green-600'}`}>{errorCount > 0 ? `${errorCount} blocking` : 'Ready'}</span>}>
+                  {issues.length === 0 ? (
+                      <p className="text-sm text-slate-400 italic">No issues found for {monthLabel}.</p>
+                  ) : (
+                      <table className="w-full text-sm text-left">
+                          <tbody>
+                              {issues.map((issue, i) => (
+                                  <tr key={i} className="border-b border-slate-50">
+                                      <td className="px-4 py-2 w-24"><span className={`text-[10px] font-bold uppercase px-2 py-1 rounded ${issue.severity === 'ERROR' ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-600'}`}>{issue.severity}</span></td>
+                                      <td className="px-4 py-2 font-mono text-xs text-slate-500">{issue.date}</td>
+                                      <td className="px-4 py-2 font-medium text-slate-800">{issue.partyName}</td>
+                                      <td className="px-4 py-2 text-slate-600">{issue.message}</td>
+                                  </tr>
+                              ))}
+                          </tbody>
+                      </table>
+                  )}
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <Card title={<><Receipt className="w-5 h-5 text-slate-400"/> GSTR-1 (Outward Supplies)</>} action={can('EXPORT_DATA') && <button onClick={() => handleReturnExport('GSTR1')} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors"><Download className="w-3.5 h-3.5"/> JSON</button>}>
+                      <table className="w-full text-sm">
+                          <tbody>
+                              <tr className="border-b border-slate-50"><td className="py-2 text-slate-500">B2B invoices</td><td className="py-2 text-right font-mono">{b2bCount} ({gstr1.b2b.length} parties)</td></tr>
+                              <tr className="border-b border-slate-50"><td className="py-2 text-slate-500">B2C large invoices</td><td className="py-2 text-right font-mono">{b2clCount}</td></tr>
+                              <tr className="border-b border-slate-50"><td className="py-2 text-slate-500">B2C small (taxable)</td><td className="py-2 text-right font-mono">{formatCurrency(gstr1.b2cs.reduce((acc, e) => acc + e.txval, 0))}</td></tr>
+                              <tr className="border-b border-slate-50"><td className="py-2 text-slate-500">Credit notes (CDNR / CDNUR)</td><td className="py-2 text-right font-mono">{noteCount}</td></tr>
+                              <tr><td className="py-2 text-slate-500">HSN summary rows</td><td className="py-2 text-right font-mono">{gstr1.hsn.data.length}</td></tr>
+                          </tbody>
+                      </table>
+                  </Card>
+
+                  <Card title={<><Scale className="w-5 h-5 text-slate-400"/> GSTR-3B Summary</>} action={can('EXPORT_DATA') && <button onClick={() => handleReturnExport('GSTR3B')} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-white bg-slate-900 rounded-lg hover:bg-slate-800 transition-colors"><Download className="w-3.5 h-3.5"/> JSON</button>}>
+                      <table className="w-full text-sm">
+                          <thead className="text-slate-500 text-xs">
+                              <tr><th className="py-2 text-left"></th><th className="py-2 text-right">IGST</th><th className="py-2 text-right">CGST</th><th className="py-2 text-right">SGST</th></tr>
+                          </thead>
+                          <tbody>
+                              <tr className="border-b border-slate-50"><td className="py-2 text-slate-500">Outward tax <span className="text-[10px] text-slate-400">on {formatCurrency(out.txval)}</span></td><td className="py-2 text-right font-mono">{formatCurrency(out.iamt)}</td><td className="py-2 text-right font-mono">{formatCurrency(out.camt)}</td><td className="py-2 text-right font-mono">{formatCurrency(out.samt)}</td></tr>
+                              <tr className="border-b border-slate-50"><td className="py-2 text-slate-500">Input tax credit</td><td className="py-2 text-right font-mono text-green-600">{formatCurrency(itc.iamt)}</td><td className="py-2 text-right font-mono text-green-600">{formatCurrency(itc.camt)}</td><td className="py-2 text-right font-mono text-green-600">{formatCurrency(itc.samt)}</td></tr>
+                              <tr><td className="py-2 font-bold text-slate-800">Payable in cash</td><td className="py-2 text-right font-mono font-bold">{formatCurrency(payable.iamt)}</td><td className="py-2 text-right font-mono font-bold">{formatCurrency(payable.camt)}</td><td className="py-2 text-right font-mono font-bold">{formatCurrency(payable.samt)}</td></tr>
+                          </tbody>
+                      </table>
+                  </Card>
+              </div>
+          </div>
+      );
+  };
+
   const BusinessLedgerView = () => {
       // Calculate monthly ledger
       const { monthlyData, totals } = useMemo(() => {
-          const stats: Record<string, { turnover: number, profit: number, tax: number, qty: number }> = {};
+          const stats: Record<string, { turnover: number, profit: number, loss: number, tax: number, localTax: number, igst: number, qty: number }> = {};
           let totalTurnover = 0;
           let totalProfit = 0;
           let totalQty = 0;
 
-          invoices.filter(i => i.type === 'SALE').forEach(inv => {
+          // Credit notes count against the month they were issued in; their profit is already negative
+          invoices.filter(i => i.type === 'SALE' || i.type === 'SALE_RETURN').forEach(inv => {
               const d = new Date(inv.date);
               const key = `${d.getFullYear()}-${d.getMonth()}`; // YYYY-M
-              if (!stats[key]) stats[key] = { turnover: 0, profit: 0, tax: 0, qty: 0 };
+              if (!stats[key]) stats[key] = { turnover: 0, profit: 0, loss: 0, tax: 0, localTax: 0, igst: 0, qty: 0 };
+              const gst = getGstComponents(inv);
+              const sign = inv.type === 'SALE_RETURN' ? -1 : 1;
               
-              stats[key].turnover += inv.taxableAmount; // Changed to Taxable Amount (Ex-GST)
+              stats[key].turnover += sign * inv.taxableAmount; // Changed to Taxable Amount (Ex-GST)
               stats[key].profit += (inv.profit || 0);
-              stats[key].tax += inv.gstAmount;
-              stats[key].qty += inv.quantityGrams;
+              stats[key].tax += sign * inv.gstAmount;
+              stats[key].localTax += sign * (gst.cgstAmount + gst.sgstAmount);
+              stats[key].igst += sign * gst.igstAmount;
+              stats[key].qty += sign * inv.quantityGrams;
 
-              totalTurnover += inv.taxableAmount; // Changed to Taxable Amount (Ex-GST)
+              totalTurnover += sign * inv.taxableAmount; // Changed to Taxable Amount (Ex-GST)
               totalProfit += (inv.profit || 0);
-              totalQty += inv.quantityGrams;
+              totalQty += sign * inv.quantityGrams;
+          });
+
+          // Stock written off (or found) by adjustments comes out of profit in the month it was posted
+          invoices.filter(i => i.type === 'ADJUSTMENT').forEach(inv => {
+              const d = new Date(inv.date);
+              const key = `${d.getFullYear()}-${d.getMonth()}`;
+              if (!stats[key]) stats[key] = { turnover: 0, profit: 0, loss: 0, tax: 0, localTax: 0, igst: 0, qty: 0 };
+              stats[key].loss += inv.cogs || 0;
+              stats[key].profit -= inv.cogs || 0;
+              totalProfit -= inv.cogs || 0;
           });
 
+          // Opening stock is not trading; it is shown once, as the ledger's first line
+          const openingEntries = invoices.filter(i => i.type === 'OPENING');
+          const openingGrams = {} as Record<Metal, number>;
+          METALS.forEach(m => { openingGrams[m] = 0; });
+          openingEntries.forEach(inv => getInvoiceLines(inv).forEach(l => { openingGrams[getMetal(l)] += getLineFineGrams(l); }));
+          const opening = openingEntries.length > 0 ? {
+              date: openingEntries.reduce((min, i) => (i.date < min ? i.date : min), openingEntries[0].date),
+              value: openingEntries.reduce((acc, i) => acc + i.taxableAmount, 0),
+              grams: openingGrams
+          } : null;
+
           const monthly = Object.entries(stats).map(([key, val]) => {
               const [y, m] = key.split('-');
               return {
@@ -1212,7 +2225,7 @@ function App() {
 
           return { 
               monthlyData: monthly, 
-              totals: { turnover: totalTurnover, profit: totalProfit, qty: totalQty, margin: totalTurnover > 0 ? (totalProfit/totalTurnover)*100 : 0 }
+              totals: { turnover: totalTurnover, profit: totalProfit, qty: totalQty, margin: totalTurnover > 0 ? (totalProfit/totalTurnover)*100 : 0, opening }
           };
       }, [invoices]);
 
@@ -1221,7 +2234,7 @@ function App() {
               <SectionHeader 
                    title="Business Ledger" 
                    subtitle="Monthly financial breakdown and performance." 
-                   action={<ExportMenu onExport={(t) => handleLedgerExport(t, monthlyData, totals)} />}
+                   action={can('EXPORT_DATA') ? <ExportMenu onExport={(t) => handleLedgerExport(t, monthlyData, totals)} /> : undefined}
               />
 
               <div className="bg-slate-900 rounded-2xl p-8 text-white flex flex-col md:flex-row justify-between items-center shadow-2xl shadow-slate-900/20 mb-6">
@@ -1232,7 +2245,7 @@ function App() {
                   </div>
                   <div className="flex gap-8 border-t md:border-t-0 md:border-l border-slate-700 pt-6 md:pt-0 md:pl-8">
                        <div>
-                           <p className="text-slate-500 text-xs font-bold uppercase mb-1">Total Gold Sold</p>
+                           <p className="text-slate-500 text-xs font-bold uppercase mb-1">Total Qty Sold</p>
                            <p className="text-2xl font-mono font-bold">{formatGrams(totals.qty)}</p>
                        </div>
                        <div>
@@ -1249,7 +2262,10 @@ function App() {
                               <tr>
                                   <th className="px-4 py-3">Month</th>
                                   <th className="px-4 py-3 text-right">Turnover (Ex GST)</th>
+                                  <th className="px-4 py-3 text-right">CGST + SGST</th>
+                                  <th className="px-4 py-3 text-right">IGST</th>
                                   <th className="px-4 py-3 text-right">GST Collected</th>
+                                  <th className="px-4 py-3 text-right">Stock Loss</th>
                                   <th className="px-4 py-3 text-right">Net Profit</th>
                                   <th className="px-4 py-3 text-right">Margin %</th>
                                   <th className="px-4 py-3 text-right">Qty Sold</th>
@@ -1260,7 +2276,10 @@ function App() {
                                   <tr key={i} className="hover:bg-slate-50 border-b border-slate-50">
                                       <td className="px-4 py-3 font-bold text-slate-800">{m.date.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })}</td>
                                       <td className="px-4 py-3 text-right font-mono text-slate-700">{formatCurrency(m.turnover)}</td>
+                                      <td className="px-4 py-3 text-right font-mono text-slate-400">{formatCurrency(m.localTax)}</td>
+                                      <td className="px-4 py-3 text-right font-mono text-slate-400">{formatCurrency(m.igst)}</td>
                                       <td className="px-4 py-3 text-right font-mono text-slate-500">{formatCurrency(m.tax)}</td>
+                                      <td className={`px-4 py-3 text-right font-mono ${m.loss > 0 ? 'text-red-600' : 'text-slate-400'}`}>{m.loss ? formatCurrency(m.loss) : '-'}</td>
                                       <td className="px-4 py-3 text-right font-mono text-green-600 font-bold">{formatCurrency(m.profit)}</td>
                                       <td className="px-4 py-3 text-right font-mono">
                                           <span className={`px-2 py-1 rounded text-xs font-bold ${m.turnover > 0 && (m.profit/m.turnover) > 0.01 ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>
@@ -1270,6 +2289,13 @@ function App() {
                                       <td className="px-4 py-3 text-right font-mono text-slate-600">{formatGrams(m.qty)}</td>
                                   </tr>
                               ))}
+                              {totals.opening && (
+                                  <tr className="bg-amber-50/40 border-b border-slate-50">
+                                      <td className="px-4 py-3 font-bold text-amber-700">Opening Stock <span className="font-normal text-xs text-slate-500">as of {totals.opening.date}</span></td>
+                                      <td colSpan={7} className="px-4 py-3 text-right font-mono text-slate-700">{formatCurrency(totals.opening.value)} <span className="text-xs text-slate-400">at cost</span></td>
+                                      <td className="px-4 py-3 text-right font-mono text-slate-600">{METALS.filter(m => totals.opening!.grams[m] > 0).map(m => `${METAL_LABELS[m]} ${formatGrams(totals.opening!.grams[m])}`).join(' · ')}</td>
+                                  </tr>
+                              )}
                           </tbody>
                       </table>
                   </div>
@@ -1278,8 +2304,12 @@ function App() {
       );
   };
 
+  if (!currentUser) {
+      return <LoginScreen users={users} onLogin={handleLogin} onCreateOwner={handleCreateOwner} />;
+  }
+
   return (
-    <Layout activeTab={activeTab} onTabChange={setActiveTab} searchQuery={searchQuery} onSearch={setSearchQuery}>
+    <Layout activeTab={activeTab} onTabChange={setActiveTab} searchQuery={searchQuery} onSearch={setSearchQuery} user={currentUser} onSignOut={handleSignOut} hiddenTabs={can('VIEW_AUDIT') ? [] : ['audit']}>
         <Toast toasts={toasts} removeToast={removeToast} />
         
         {/* Delete Modal */}
@@ -1292,12 +2322,12 @@ function App() {
                         </div>
                         <div>
                              <h3 className="text-lg font-bold text-slate-900">Secure Deletion</h3>
-                             <p className="text-xs text-slate-500 mt-1">Enter admin password to permanently delete this record.</p>
+                             <p className="text-xs text-slate-500 mt-1">Enter your password to permanently delete this record.</p>
                         </div>
                     </div>
                     <input 
                         type="password" 
-                        placeholder="Admin Password" 
+                        placeholder="Your Password" 
                         value={deletePassword}
                         onChange={(e) => setDeletePassword(e.target.value)}
                         className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold text-center mb-4 focus:ring-2 focus:ring-red-500/20 focus:border-red-500 outline-none"
@@ -1310,6 +2340,84 @@ function App() {
             </div>
         )}
 
+        {/* Edit Impact Preview */}
+        {editImpact && (
+            <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm animate-fade-in p-4">
+                <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-full flex flex-col border border-slate-200 animate-slide-up">
+                    <div className="px-6 py-4 border-b border-slate-100">
+                        <h3 className="text-lg font-bold text-slate-900">Review Changes to {editImpact.original.id}</h3>
+                        <p className="text-xs text-slate-500">The ledger has been replayed with your changes. Nothing is saved until you confirm.</p>
+                    </div>
+                    <div className="p-6 overflow-y-auto space-y-5">
+                        <table className="w-full text-xs">
+                            <thead className="text-slate-400 text-[10px] uppercase"><tr><th className="text-left py-1">Field</th><th className="text-left py-1">Before</th><th className="text-left py-1">After</th></tr></thead>
+                            <tbody>
+                                {getFieldChanges(editImpact.original, editImpact.updated).map(c => (
+                                    <tr key={c.field} className="border-t border-slate-50">
+                                        <td className="py-1.5 font-bold text-slate-600">{c.field}</td>
+                                        <td className="py-1.5 font-mono text-red-600">{c.before}</td>
+                                        <td className="py-1.5 font-mono text-green-700">{c.after}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div>
+                            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">Other Sales Re-costed ({editImpact.shifts.length})</p>
+                            {editImpact.shifts.length === 0 ? (
+                                <p className="text-xs text-slate-400">No other sale changes cost or profit.</p>
+                            ) : (
+                                <table className="w-full text-xs">
+                                    <thead className="text-slate-400 text-[10px] uppercase"><tr><th className="text-left py-1">Sale</th><th className="text-right py-1">COGS</th><th className="text-right py-1">Profit</th></tr></thead>
+                                    <tbody>
+                                        {editImpact.shifts.map(sh => (
+                                            <tr key={sh.invoiceId} className="border-t border-slate-50">
+                                                <td className="py-1.5 text-slate-600">{sh.date} · {sh.partyName}</td>
+                                                <td className="py-1.5 text-right font-mono">{formatCurrency(sh.cogsBefore)} → {formatCurrency(sh.cogsAfter)}</td>
+                                                <td className={`py-1.5 text-right font-mono font-bold ${sh.profitAfter >= sh.profitBefore ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(sh.profitBefore)} → {formatCurrency(sh.profitAfter)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+
+                        {editImpact.newIssues.length > 0 && (
+                            <div className="p-3 bg-red-50 border border-red-100 rounded-xl space-y-1">
+                                {editImpact.newIssues.map((d, i) => (
+                                    <p key={i} className={`text-xs flex gap-1.5 ${d.severity === 'ERROR' ? 'text-red-700' : 'text-amber-700'}`}><AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0"/>{d.date}: {d.message}</p>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div className="px-6 py-4 border-t border-slate-100 flex gap-3">
+                        <button onClick={() => setEditImpact(null)} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-50 rounded-xl transition-colors text-sm">Back to Edit</button>
+                        <button onClick={confirmEdit} disabled={editImpact.newIssues.some(d => d.severity === 'ERROR')} className="flex-1 py-3 bg-slate-900 text-white font-bold rounded-xl hover:bg-slate-800 disabled:opacity-50 transition-colors text-sm">Save Changes</button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {duplicateReview && (
+            <DuplicateDialog checks={duplicateReview.checks} onResolve={handleDuplicateResolve} onCancel={() => setDuplicateReview(null)} />
+        )}
+
+        {documentInvoice && (
+            <DocumentViewerModal invoice={documentInvoice} onClose={() => setDocumentInvoice(null)} />
+        )}
+
+        {returnTarget && (
+            <ReturnNoteModal original={returnTarget} invoices={invoices} sameDayOnly={!can('BACKDATE_ENTRY')} onSubmit={handleReturnNote} onClose={() => setReturnTarget(null)} />
+        )}
+
+        {statementPartyId && (
+            <PartyStatementModal parties={parties} invoices={invoices} payments={payments} initialPartyId={statementPartyId} canExport={can('EXPORT_DATA')} onExport={handleStatementExport} onClose={() => setStatementPartyId(null)} />
+        )}
+
+        {showImport && (
+            <ImportWizard invoices={invoices} lockDate={lockDate} firm={firm} onDryRun={handleImportDryRun} onCommit={handleImportCommit} onClose={() => setShowImport(false)} />
+        )}
+
         <div className="min-h-full pb-10">
             {activeTab === 'dashboard' && <DashboardView />}
             {activeTab === 'invoices' && <InvoicesView />}
@@ -1319,12 +2427,12 @@ function App() {
                         title="Inventory Management" 
                         action={
                             <div className="flex gap-2 items-center">
-                                <ExportMenu onExport={handleInventoryExport} />
+                                {can('EXPORT_DATA') && <ExportMenu onExport={handleInventoryExport} />}
                                 {renderDateFilter()}
                             </div>
                         }
                     />
-                    <InventoryTable batches={filteredInventory}/>
+                    <InventoryTable batches={filteredInventory} invoices={invoices} costingLabel={COSTING_METHOD_LABELS[costingMethod]}/>
                 </div>
             )}
             {activeTab === 'analytics' && <AnalyticsView />}
@@ -1332,6 +2440,43 @@ function App() {
             {activeTab === 'customer-insights' && <CustomerInsightsView />}
             {activeTab === 'supplier-insights' && <SupplierInsightsView />}
             {activeTab === 'business-ledger' && <BusinessLedgerView />}
+            {activeTab === 'gst-returns' && <GstReturnsView />}
+            {activeTab === 'scan-queue' && (
+                <ScanQueue
+                    items={scanQueue} extractor={extractor}
+                    formProps={{ availableStock, lockDate, costingMethod, openBatches: inventory.filter(b => b.remainingQuantity > 0), firm, sameDayOnly: !can('BACKDATE_ENTRY'), parties, receivables }}
+                    onAdd={(files) => setScanQueue(prev => [...prev, ...queueFiles(files)])}
+                    onReview={(id, draft) => setScanQueue(prev => updateScan(prev, id, { status: 'REVIEWED', draft }))}
+                    onRetry={(id) => setScanQueue(prev => updateScan(prev, id, { status: 'QUEUED', error: undefined }))}
+                    onRemove={(id) => setScanQueue(prev => prev.filter(item => item.id !== id))}
+                    onApprove={() => handleScanApprove()}
+                />
+            )}
+            {activeTab === 'parties' && (
+                <PartyMaster parties={parties} invoices={invoices} payments={payments} canManage={can('MANAGE_PARTIES')} onSave={handleSaveParty} onMerge={handleMergeParties} onStatement={setStatementPartyId} />
+            )}
+            {activeTab === 'payments' && (
+                <Payments invoices={invoices} payments={payments} parties={parties} sameDayOnly={!can('BACKDATE_ENTRY')} canDelete={can('DELETE_INVOICE')} onRecord={handleAddPayment} onDelete={handleDeletePayment} />
+            )}
+            {activeTab === 'stock-count' && (
+                <StockCount inventory={inventory} invoices={invoices} canPost={can('ADJUST_STOCK')} sameDayOnly={!can('BACKDATE_ENTRY')} onPost={handleStockAdjustment} />
+            )}
+            {activeTab === 'audit' && (
+                can('VIEW_AUDIT')
+                    ? <AuditLog entries={auditLog} users={users} canExport={can('EXPORT_DATA')} onExport={handleAuditExport} />
+                    : <p className="text-sm text-slate-500">Your role cannot view the audit trail.</p>
+            )}
+            {activeTab === 'settings' && (
+                <div className="animate-slide-up max-w-3xl space-y-6">
+                    <SectionHeader title="Settings" subtitle="Firm details, users, backups and data safety." />
+                    {can('MANAGE_SETTINGS') && <FirmSettings firm={firm} onSave={handleFirmSave} />}
+                    {can('MANAGE_SETTINGS') && <ExtractionSettingsPanel settings={extractionSettings} onSave={handleExtractionSave} />}
+                    <UserManagement users={users} currentUser={currentUser} onChange={handleUsersChange} />
+                    <PeriodClosePanel periods={periods} canClose={can('CLOSE_PERIOD')} canReopen={can('REOPEN_PERIOD')} onClose={handleClosePeriod} onReopen={handleReopenPeriod} />
+                    {can('RESET_DATA') && <DataControls onReset={handleReset} />}
+                    {can('EXPORT_DATA') && <BackupPanel invoices={invoices} onBackup={handleBackup} onRestore={handleRestore} />}
+                </div>
+            )}
         </div>
     </Layout>
   );
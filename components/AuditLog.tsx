@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AuditAction, AuditEntry, UserAccount } from '../types';
+import { AUDIT_ACTION_LABELS, AuditFilter, filterAuditLog, getFieldChanges, verifyAuditChain } from '../services/auditService';
+import { ROLE_LABELS } from '../services/authService';
+import { formatCurrency } from '../utils';
+import { History, ShieldCheck, ShieldAlert, Search, ChevronDown, ChevronUp, FileSpreadsheet, FileText } from 'lucide-react';
+
+interface AuditLogProps {
+  entries: AuditEntry[]; // Oldest first, as stored
+  users: UserAccount[];
+  canExport: boolean;
+  onExport: (type: 'CSV' | 'PDF', entries: AuditEntry[]) => void;
+}
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  CREATE: 'bg-green-50 text-green-700',
+  EDIT: 'bg-amber-50 text-amber-700',
+  DELETE: 'bg-red-50 text-red-600',
+  IMPORT: 'bg-blue-50 text-blue-700',
+  RECALCULATE: 'bg-purple-50 text-purple-700',
+  RESTORE: 'bg-slate-100 text-slate-700',
+  RESET: 'bg-red-100 text-red-700',
+  LOCK_DATE: 'bg-gold-50 text-gold-700',
+  CLOSE_PERIOD: 'bg-gold-50 text-gold-700',
+  REOPEN_PERIOD: 'bg-orange-50 text-orange-700',
+  PAYMENT: 'bg-emerald-50 text-emerald-700',
+  DELETE_PAYMENT: 'bg-red-50 text-red-700',
+  PARTY: 'bg-slate-100 text-slate-700',
+  MERGE_PARTY: 'bg-violet-50 text-violet-700',
+  DUPLICATE: 'bg-orange-50 text-orange-700'
+};
+
+const AuditLog: React.FC<AuditLogProps> = ({ entries, users, canExport, onExport }) => {
+  const [filter, setFilter] = useState<AuditFilter>({ action: 'ALL', userId: 'ALL', start: '', end: '', query: '' });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // undefined while checking, null when the chain is intact
+  const [brokenAt, setBrokenAt] = useState<number | null | undefined>(undefined);
+
+  useEffect(() => {
+      let cancelled = false;
+      setBrokenAt(undefined);
+      verifyAuditChain(entries).then(result => { if (!cancelled) setBrokenAt(result); });
+      return () => { cancelled = true; };
+  }, [entries]);
+
+  const visible = useMemo(() => filterAuditLog(entries, filter).reverse(), [entries, filter]);
+  // Users removed since still appear in the log under their recorded name
+  const userOptions = useMemo(() => {
+      const names = new Map(users.map(u => [u.id, u.name]));
+      entries.forEach(e => { if (!names.has(e.userId)) names.set(e.userId, e.userName); });
+      return Array.from(names.entries());
+  }, [users, entries]);
+
+  const inputClass = "px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all hover:border-slate-300";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden animate-slide-up">
+        <div className="px-6 py-5 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+                <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><History className="w-4 h-4"/></div>
+                <div>
+                    <h3 className="font-bold text-slate-900">Audit Trail</h3>
+                    <p className="text-xs text-slate-500">{entries.length} entries · append only</p>
+                </div>
+                {brokenAt === null && <span className="ml-2 flex items-center gap-1 px-2 py-1 rounded bg-green-50 text-green-700 text-[10px] font-bold uppercase"><ShieldCheck className="w-3 h-3"/> Chain intact</span>}
+                {typeof brokenAt === 'number' && <span className="ml-2 flex items-center gap-1 px-2 py-1 rounded bg-red-50 text-red-600 text-[10px] font-bold uppercase"><ShieldAlert className="w-3 h-3"/> Tampered at entry {brokenAt + 1}</span>}
+            </div>
+            {canExport && (
+                <div className="flex gap-2">
+                    <button onClick={() => onExport('CSV', visible)} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 hover:text-slate-900 transition-colors"><FileSpreadsheet className="w-4 h-4" /> CSV</button>
+                    <button onClick={() => onExport('PDF', visible)} className="flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-white bg-slate-900 border border-slate-900 rounded-lg hover:bg-slate-800 transition-colors shadow-sm"><FileText className="w-4 h-4" /> PDF</button>
+                </div>
+            )}
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-50 flex flex-wrap gap-2 items-center">
+            <div className="relative flex-1 min-w-[180px]">
+                <Search className="w-3.5 h-3.5 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400"/>
+                <input type="text" placeholder="Invoice ID, party or note..." value={filter.query} onChange={(e) => setFilter({ ...filter, query: e.target.value })} className={`${inputClass} w-full pl-8`} />
+            </div>
+            <select value={filter.action} onChange={(e) => setFilter({ ...filter, action: e.target.value as AuditFilter['action'] })} className={inputClass}>
+                <option value="ALL">All actions</option>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+            </select>
+            <select value={filter.userId} onChange={(e) => setFilter({ ...filter, userId: e.target.value })} className={inputClass}>
+                <option value="ALL">All users</option>
+                {userOptions.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+            </select>
+            <input type="date" value={filter.start} onChange={(e) => setFilter({ ...filter, start: e.target.value })} className={inputClass} />
+            <span className="text-xs text-slate-400">to</span>
+            <input type="date" value={filter.end} onChange={(e) => setFilter({ ...filter, end: e.target.value })} className={inputClass} />
+        </div>
+
+        <div className="divide-y divide-slate-50">
+            {visible.length === 0 && <p className="px-6 py-10 text-center text-sm text-slate-400">No audit entries match.</p>}
+            {visible.map(entry => {
+                const isExpanded = expandedId === entry.id;
+                const changes = isExpanded ? getFieldChanges(entry.before, entry.after) : [];
+                return (
+                    <div key={entry.id} className="px-6 py-3">
+                        <button onClick={() => setExpandedId(isExpanded ? null : entry.id)} className="w-full flex items-center gap-3 text-left">
+                            <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase w-24 text-center flex-shrink-0 ${ACTION_STYLES[entry.action]}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium text-slate-800 truncate">{entry.summary}</p>
+                                <p className="text-[10px] text-slate-400">{new Date(entry.timestamp).toLocaleString('en-IN')} · {entry.userName} ({ROLE_LABELS[entry.role]}){entry.invoiceId ? ` · ${entry.invoiceId}` : ''}</p>
+                            </div>
+                            {entry.affected.length > 0 && <span className="px-2 py-0.5 rounded bg-purple-50 text-purple-700 text-[10px] font-bold">{entry.affected.length} sale{entry.affected.length > 1 ? 's' : ''} re-costed</span>}
+                            {isExpanded ? <ChevronUp className="w-4 h-4 text-slate-400"/> : <ChevronDown className="w-4 h-4 text-slate-400"/>}
+                        </button>
+                        {isExpanded && (
+                            <div className="mt-3 ml-28 space-y-3 animate-fade-in">
+                                {changes.length > 0 && (
+                                    <table className="w-full text-xs">
+                                        <thead className="text-slate-400 text-[10px] uppercase"><tr><th className="text-left py-1">Field</th><th className="text-left py-1">Before</th><th className="text-left py-1">After</th></tr></thead>
+                                        <tbody>
+                                            {changes.map(c => (
+                                                <tr key={c.field} className="border-t border-slate-50">
+                                                    <td className="py-1 font-bold text-slate-600">{c.field}</td>
+                                                    <td className="py-1 font-mono text-red-600">{c.before}</td>
+                                                    <td className="py-1 font-mono text-green-700">{c.after}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                                {entry.affected.length > 0 && (
+                                    <table className="w-full text-xs">
+                                        <thead className="text-slate-400 text-[10px] uppercase"><tr><th className="text-left py-1">Affected Sale</th><th className="text-right py-1">Cost Before</th><th className="text-right py-1">Cost After</th><th className="text-right py-1">Profit Before</th><th className="text-right py-1">Profit After</th></tr></thead>
+                                        <tbody>
+                                            {entry.affected.map(s => (
+                                                <tr key={s.invoiceId} className="border-t border-slate-50">
+                                                    <td className="py-1 text-slate-600">{s.date} · {s.partyName} <span className="text-slate-400 font-mono">{s.invoiceId}</span></td>
+                                                    <td className="py-1 text-right font-mono">{formatCurrency(s.cogsBefore)}</td>
+                                                    <td className="py-1 text-right font-mono">{formatCurrency(s.cogsAfter)}</td>
+                                                    <td className="py-1 text-right font-mono">{formatCurrency(s.profitBefore)}</td>
+                                                    <td className={`py-1 text-right font-mono font-bold ${s.profitAfter >= s.profitBefore ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(s.profitAfter)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                                <p className="text-[10px] text-slate-300 font-mono truncate">#{entry.seq + 1} · {entry.hash}</p>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export default AuditLog;
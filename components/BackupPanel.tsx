@@ -0,0 +1,163 @@
+import React, { useState, useRef } from 'react';
+import { BackupData, BackupDiff, BackupFile, Invoice } from '../types';
+import { parseBackupFile, readBackup, compareWithBackup } from '../services/backupService';
+import { DatabaseBackup, Download, UploadCloud, AlertTriangle, Loader2, KeyRound, RefreshCw, GitMerge } from 'lucide-react';
+
+interface BackupPanelProps {
+  invoices: Invoice[];
+  onBackup: (password?: string) => Promise<void>;
+  onRestore: (data: BackupData, mode: 'REPLACE' | 'MERGE') => void;
+}
+
+interface RestorePreview {
+  file: BackupFile;
+  data: BackupData;
+  diff: BackupDiff;
+}
+
+const BackupPanel: React.FC<BackupPanelProps> = ({ invoices, onBackup, onRestore }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [restoreFile, setRestoreFile] = useState<BackupFile | null>(null);
+  const [restoreName, setRestoreName] = useState('');
+  const [restorePassword, setRestorePassword] = useState('');
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleBackup = async () => {
+      setError('');
+      if (password !== confirmPassword) { setError('Passwords do not match.'); return; }
+      setBusy(true);
+      try {
+          await onBackup(password || undefined);
+          setPassword('');
+          setConfirmPassword('');
+      } catch (err: any) {
+          setError(`Backup failed: ${err.message || err}`);
+      } finally {
+          setBusy(false);
+      }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const selected = e.target.files?.[0];
+      e.target.value = '';
+      if (!selected) return;
+      setError('');
+      setPreview(null);
+      setRestorePassword('');
+      try {
+          const file = parseBackupFile(await selected.text());
+          setRestoreFile(file);
+          setRestoreName(selected.name);
+          if (!file.encrypted) await loadPreview(file);
+      } catch (err: any) {
+          setRestoreFile(null);
+          setError(err.message);
+      }
+  };
+
+  const loadPreview = async (file: BackupFile, pass?: string) => {
+      setBusy(true);
+      try {
+          const data = await readBackup(file, pass);
+          setPreview({ file, data, diff: compareWithBackup(invoices, data.invoices) });
+          setError('');
+      } catch (err: any) {
+          setError(err.message);
+      } finally {
+          setBusy(false);
+      }
+  };
+
+  const handleRestore = (mode: 'REPLACE' | 'MERGE') => {
+      if (!preview) return;
+      if (mode === 'REPLACE' && !window.confirm(`Replace all ${invoices.length} current invoices with the ${preview.data.invoices.length} from this backup?`)) return;
+      onRestore(preview.data, mode);
+      setPreview(null);
+      setRestoreFile(null);
+      setRestoreName('');
+  };
+
+  const inputClass = "w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all placeholder:text-slate-400 hover:border-slate-300";
+  const labelClass = "block text-[10px] font-bold text-slate-500 mb-1.5 uppercase tracking-wider";
+  const dates = preview ? preview.data.invoices.map(i => i.date).sort() : [];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden animate-slide-up">
+        <div className="px-5 py-4 border-b border-slate-50 flex items-center gap-2">
+            <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><DatabaseBackup className="w-4 h-4"/></div>
+            <div>
+                <h3 className="font-bold text-slate-900">Backup & Restore</h3>
+                <p className="text-xs text-slate-500">Invoices, inventory, lock date and settings in a single file.</p>
+            </div>
+        </div>
+        <div className="p-5 space-y-6">
+            {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+
+            <div className="space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Password (optional)</label>
+                        <input type="password" autoComplete="new-password" placeholder="Leave blank for no encryption" value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Confirm Password</label>
+                        <input type="password" autoComplete="new-password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} disabled={!password} className={inputClass} />
+                    </div>
+                </div>
+                <button onClick={handleBackup} disabled={busy} className="px-5 py-2.5 bg-slate-900 text-white text-sm font-bold rounded-xl hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center gap-2">
+                    {busy ? <Loader2 className="w-4 h-4 animate-spin"/> : <Download className="w-4 h-4"/>} Download Backup
+                </button>
+                {password && <p className="text-[10px] text-amber-600">There is no way to recover an encrypted backup without its password.</p>}
+            </div>
+
+            <div className="border-t border-slate-100 pt-5 space-y-3">
+                <input type="file" accept=".json,application/json" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+                <button onClick={() => fileInputRef.current?.click()} className="px-5 py-2.5 bg-white border border-slate-200 text-slate-700 text-sm font-bold rounded-xl hover:bg-slate-50 transition-colors flex items-center gap-2">
+                    <UploadCloud className="w-4 h-4"/> Open Backup File
+                </button>
+
+                {restoreFile?.encrypted && !preview && (
+                    <div className="flex gap-3 items-end">
+                        <div className="flex-1">
+                            <label className={labelClass}>Password for {restoreName}</label>
+                            <input type="password" value={restorePassword} onChange={(e) => setRestorePassword(e.target.value)} className={inputClass} />
+                        </div>
+                        <button onClick={() => loadPreview(restoreFile, restorePassword)} disabled={busy || !restorePassword} className="px-4 py-2.5 bg-slate-900 text-white text-sm font-bold rounded-xl hover:bg-slate-800 disabled:opacity-50 flex items-center gap-2">
+                            {busy ? <Loader2 className="w-4 h-4 animate-spin"/> : <KeyRound className="w-4 h-4"/>} Unlock
+                        </button>
+                    </div>
+                )}
+
+                {preview && (
+                    <div className="rounded-xl border border-gold-100 bg-gold-50/40 p-4 space-y-3 animate-fade-in">
+                        <p className="text-xs text-slate-500">
+                            <span className="font-bold text-slate-800">{restoreName}</span> · made {new Date(preview.file.createdAt).toLocaleString('en-IN')} · schema v{preview.file.schemaVersion}{preview.file.encrypted ? ' · encrypted' : ''}{preview.data.documents?.length ? ` · ${preview.data.documents.length} bills attached` : ''}
+                        </p>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                            <div className="bg-white rounded-lg p-2 border border-slate-100"><p className="text-lg font-mono font-bold">{preview.data.invoices.length}</p><p className="text-[10px] uppercase text-slate-400 font-bold">Invoices</p></div>
+                            <div className="bg-white rounded-lg p-2 border border-slate-100"><p className="text-lg font-mono font-bold">{preview.data.inventory.length}</p><p className="text-[10px] uppercase text-slate-400 font-bold">Batches</p></div>
+                            <div className="bg-white rounded-lg p-2 border border-slate-100 col-span-2"><p className="text-sm font-mono font-bold pt-1">{dates.length ? `${dates[0]} → ${dates[dates.length - 1]}` : '-'}</p><p className="text-[10px] uppercase text-slate-400 font-bold">Date Span</p></div>
+                        </div>
+                        <div className="flex flex-wrap gap-2 text-[10px] font-bold uppercase">
+                            <span className="px-2 py-1 rounded bg-green-50 text-green-700">{preview.diff.added} new</span>
+                            <span className="px-2 py-1 rounded bg-amber-50 text-amber-700">{preview.diff.changed} differ</span>
+                            <span className="px-2 py-1 rounded bg-slate-100 text-slate-600">{preview.diff.unchanged} identical</span>
+                            <span className="px-2 py-1 rounded bg-red-50 text-red-600">{preview.diff.missing} only in app</span>
+                        </div>
+                        <div className="flex gap-3">
+                            <button onClick={() => handleRestore('MERGE')} disabled={preview.diff.added === 0} className="flex-1 py-2.5 bg-white border border-slate-200 text-slate-700 text-sm font-bold rounded-xl hover:bg-slate-50 disabled:opacity-50 flex items-center justify-center gap-2"><GitMerge className="w-4 h-4"/> Merge (add {preview.diff.added})</button>
+                            <button onClick={() => handleRestore('REPLACE')} className="flex-1 py-2.5 bg-red-600 text-white text-sm font-bold rounded-xl hover:bg-red-700 flex items-center justify-center gap-2"><RefreshCw className="w-4 h-4"/> Replace All</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+
+interface DataControlsProps {
+  onReset: () => void;
+}
+
+// Only rendered for roles that may reset data
+const DataControls: React.FC<DataControlsProps> = ({ onReset }) => (
+    <div className="bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden animate-slide-up">
+        <div className="px-5 py-4 border-b border-slate-50 flex items-center gap-2">
+            <div className="p-2 bg-red-50 text-red-600 rounded-lg"><Trash2 className="w-4 h-4"/></div>
+            <div>
+                <h3 className="font-bold text-slate-900">Reset</h3>
+                <p className="text-xs text-slate-500">Deletes every invoice, lot, payment, party and closed period. Users and the audit trail are kept.</p>
+            </div>
+        </div>
+        <div className="p-5">
+            <button onClick={onReset} className="px-5 py-2.5 bg-red-50 text-red-600 text-sm font-bold rounded-xl hover:bg-red-100 transition-colors flex items-center gap-2">
+                <Trash2 className="w-4 h-4"/> Reset All Data
+            </button>
+        </div>
+    </div>
+);
+
+export default DataControls;
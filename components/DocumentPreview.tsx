@@ -0,0 +1,23 @@
+import React, { useState, useEffect } from 'react';
+
+interface DocumentPreviewProps {
+  data: Blob;
+  name: string;
+}
+
+// Shows a bill inline: photos as images, PDFs in the browser's own viewer
+const DocumentPreview: React.FC<DocumentPreviewProps> = ({ data, name }) => {
+  const [url, setUrl] = useState('');
+  useEffect(() => {
+      const objectUrl = URL.createObjectURL(data);
+      setUrl(objectUrl);
+      return () => URL.revokeObjectURL(objectUrl);
+  }, [data]);
+
+  if (!url) return null;
+  return data.type.startsWith('image/')
+      ? <img src={url} alt={name} className="w-full h-full object-contain bg-slate-100" />
+      : <iframe src={url} title={name} className="w-full h-full bg-slate-100" />;
+};
+
+export default DocumentPreview;
@@ -0,0 +1,58 @@
+import React, { useState, useEffect } from 'react';
+import { Invoice, InvoiceDocument } from '../types';
+import { loadDocument } from '../services/storeService';
+import { downloadBlob } from '../utils';
+import DocumentPreview from './DocumentPreview';
+import { Paperclip, Download, AlertTriangle, Loader2, X } from 'lucide-react';
+
+interface DocumentViewerModalProps {
+  invoice: Invoice;
+  onClose: () => void;
+}
+
+const DocumentViewerModal: React.FC<DocumentViewerModalProps> = ({ invoice, onClose }) => {
+  const [doc, setDoc] = useState<InvoiceDocument | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+      if (!invoice.documentId) return;
+      loadDocument(invoice.documentId)
+          .then(found => (found ? setDoc(found) : setError('The attached bill is no longer in storage.')))
+          .catch(() => setError('Could not open the attached bill.'));
+  }, [invoice.documentId]);
+
+  const handleDownload = () => {
+      if (doc) downloadBlob(doc.data, doc.name);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm animate-fade-in p-4">
+        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl h-[90vh] flex flex-col border border-slate-200 animate-slide-up">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+                <div className="flex items-center gap-2 min-w-0">
+                    <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Paperclip className="w-4 h-4"/></div>
+                    <div className="min-w-0">
+                        <h3 className="font-bold text-slate-900 truncate">{doc ? doc.name : 'Original Bill'}</h3>
+                        <p className="text-xs text-slate-500">{invoice.id} · {invoice.partyName} · {invoice.date}{doc ? ` · ${(doc.size / 1024).toFixed(1)} KB` : ''}</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={handleDownload} disabled={!doc} className="px-3 py-1.5 bg-white border border-slate-200 text-slate-700 text-xs font-bold rounded-lg hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1.5"><Download className="w-3.5 h-3.5"/> Download</button>
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg"><X className="w-4 h-4"/></button>
+                </div>
+            </div>
+            <div className="flex-1 min-h-0">
+                {error ? (
+                    <div className="m-6 p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>
+                ) : doc ? (
+                    <DocumentPreview data={doc.data} name={doc.name} />
+                ) : (
+                    <p className="p-6 text-sm text-slate-500 flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin"/> Opening bill...</p>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default DocumentViewerModal;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { DuplicateCheck, DuplicateDecision, Invoice } from '../types';
+import { DUPLICATE_DECISION_LABELS } from '../services/duplicateService';
+import { TRANSACTION_TYPE_LABELS } from '../services/invoiceService';
+import { formatCurrency, formatGrams } from '../utils';
+import { Copy, AlertTriangle, X } from 'lucide-react';
+
+interface DuplicateDialogProps {
+  checks: DuplicateCheck[];
+  onResolve: (decisions: Record<string, DuplicateDecision>) => void; // Keyed by the entry's invoice ID
+  onCancel: () => void;
+}
+
+const DECISIONS: DuplicateDecision[] = ['SKIP', 'LINK', 'ADD'];
+
+const BillSummary: React.FC<{ label: string; invoice: Invoice; note?: string }> = ({ label, invoice, note }) => (
+  <div className="flex-1 min-w-0 rounded-xl border border-slate-100 bg-slate-50/60 p-3 space-y-1">
+      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</p>
+      <p className="text-sm font-bold text-slate-800 truncate">{invoice.partyName}</p>
+      <p className="text-xs text-slate-500">{TRANSACTION_TYPE_LABELS[invoice.type]} · {invoice.date}{invoice.billNumber ? ` · Bill ${invoice.billNumber}` : ''}</p>
+      <p className="text-xs font-mono text-slate-700">{formatGrams(invoice.quantityGrams)} · {formatCurrency(invoice.totalAmount)}</p>
+      {note && <p className="text-[10px] text-slate-400">{note}</p>}
+  </div>
+);
+
+// Probable duplicates are skipped unless the user says otherwise
+const DuplicateDialog: React.FC<DuplicateDialogProps> = ({ checks, onResolve, onCancel }) => {
+  const [decisions, setDecisions] = useState<Record<string, DuplicateDecision>>(() => Object.fromEntries(checks.map(c => [c.invoice.id, 'SKIP' as const])));
+
+  const counts = DECISIONS.map(d => ({ decision: d, count: checks.filter(c => decisions[c.invoice.id] === d).length })).filter(c => c.count > 0);
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm animate-fade-in p-4">
+        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-full flex flex-col border border-slate-200 animate-slide-up">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Copy className="w-4 h-4"/></div>
+                    <div>
+                        <h3 className="font-bold text-slate-900">Possible Duplicate{checks.length > 1 ? 's' : ''}</h3>
+                        <p className="text-xs text-slate-500">{checks.length === 1 ? 'This bill looks like one already entered.' : `${checks.length} bills look like ones already entered.`} Adding a bill twice counts its stock twice.</p>
+                    </div>
+                </div>
+                <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg"><X className="w-4 h-4"/></button>
+            </div>
+
+            <div className="p-6 overflow-y-auto space-y-4">
+                {checks.map(({ invoice, match }) => (
+                    <div key={invoice.id} className="rounded-2xl border border-slate-100 p-4 space-y-3">
+                        <div className="flex flex-col sm:flex-row gap-3">
+                            <BillSummary label="Being Added" invoice={invoice} />
+                            <BillSummary label={match.pending ? 'Earlier in This Batch' : 'Already in the Books'} invoice={match.invoice} note={match.pending ? undefined : `${match.invoice.id}${match.invoice.documentId ? ' · bill attached' : ''}`} />
+                        </div>
+                        <div className={`p-2.5 border text-xs rounded-xl flex items-start gap-2 ${match.exact ? 'bg-red-50 border-red-100 text-red-700' : 'bg-amber-50 border-amber-100 text-amber-800'}`}>
+                            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                            <span><span className="font-bold">{match.exact ? 'Same bill.' : 'Probably the same bill.'}</span> {match.reasons.join('; ')}.</span>
+                        </div>
+                        <div className="flex bg-slate-100 rounded-xl p-1">
+                            {DECISIONS.map(d => {
+                                const disabled = d === 'LINK' && match.pending;
+                                return (
+                                    <button
+                                        key={d}
+                                        type="button"
+                                        disabled={disabled}
+                                        onClick={() => setDecisions(prev => ({ ...prev, [invoice.id]: d }))}
+                                        title={d === 'LINK' ? (disabled ? 'The match is not posted yet' : `Keep ${match.invoice.id} and give it this bill's number and document`) : undefined}
+                                        className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-all disabled:opacity-40 ${decisions[invoice.id] === d ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}
+                                    >
+                                        {DUPLICATE_DECISION_LABELS[d]}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="px-6 py-4 border-t border-slate-100 flex items-center justify-between gap-3">
+                <p className="text-xs text-slate-500">{counts.map(c => `${DUPLICATE_DECISION_LABELS[c.decision]}: ${c.count}`).join(' · ')}</p>
+                <div className="flex gap-2">
+                    <button onClick={onCancel} className="px-4 py-2 bg-white border border-slate-200 text-slate-700 text-xs font-bold rounded-lg hover:bg-slate-50">Go Back</button>
+                    <button onClick={() => onResolve(decisions)} className="px-4 py-2 bg-slate-900 text-white text-xs font-bold rounded-lg hover:bg-slate-800">Continue</button>
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default DuplicateDialog;
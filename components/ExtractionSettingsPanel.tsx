@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { ExtractionProviderId, ExtractionSettings } from '../types';
+import { EXTRACTION_PROVIDER_LABELS, EXTRACTION_PROVIDER_DESCRIPTIONS, getExtractionProvider } from '../services/extractionService';
+import { ScanLine, CheckCircle, AlertTriangle, WifiOff } from 'lucide-react';
+
+interface ExtractionSettingsPanelProps {
+  settings: ExtractionSettings;
+  onSave: (settings: ExtractionSettings) => void;
+}
+
+const PROVIDERS: ExtractionProviderId[] = ['REGEX', 'GEMINI', 'MOCK'];
+
+const ExtractionSettingsPanel: React.FC<ExtractionSettingsPanelProps> = ({ settings, onSave }) => {
+  const [provider, setProvider] = useState<ExtractionProviderId>(settings.provider);
+  const [apiKey, setApiKey] = useState(settings.geminiApiKey || '');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      setError('');
+      if (provider === 'GEMINI' && !apiKey.trim()) { setError('Enter your Gemini API key, or pick the offline parser.'); return; }
+      onSave({ provider, ...(apiKey.trim() ? { geminiApiKey: apiKey.trim() } : {}) });
+  };
+
+  const inputClass = "w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all placeholder:text-slate-400 hover:border-slate-300";
+  const labelClass = "block text-[10px] font-bold text-slate-500 mb-1.5 uppercase tracking-wider";
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden animate-slide-up">
+        <div className="px-5 py-4 border-b border-slate-50 flex items-center gap-2">
+            <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><ScanLine className="w-4 h-4"/></div>
+            <div>
+                <h3 className="font-bold text-slate-900">Invoice Scanning</h3>
+                <p className="text-xs text-slate-500">Choose what reads bills in AI Scan. Pasted text falls back to the offline parser if the extractor fails.</p>
+            </div>
+        </div>
+        <div className="p-5 space-y-4">
+            {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+            <div className="space-y-2">
+                {PROVIDERS.map(id => (
+                    <label key={id} className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${provider === id ? 'border-gold-400 bg-gold-50/40' : 'border-slate-200 hover:bg-slate-50'}`}>
+                        <input type="radio" name="extraction-provider" checked={provider === id} onChange={() => setProvider(id)} className="mt-1 accent-gold-600" />
+                        <div>
+                            <p className="text-sm font-bold text-slate-800 flex items-center gap-2">
+                                {EXTRACTION_PROVIDER_LABELS[id]}
+                                {getExtractionProvider({ provider: id }).offline && <span className="flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase"><WifiOff className="w-3 h-3"/> Offline</span>}
+                            </p>
+                            <p className="text-xs text-slate-500">{EXTRACTION_PROVIDER_DESCRIPTIONS[id]}</p>
+                        </div>
+                    </label>
+                ))}
+            </div>
+            {provider === 'GEMINI' && (
+                <div>
+                    <label className={labelClass}>Gemini API Key</label>
+                    <input type="password" autoComplete="off" value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder="Paste your key" className={`${inputClass} font-mono`} />
+                    <p className="text-[10px] text-slate-400 mt-1">Kept in this browser only. It is not included in backups.</p>
+                </div>
+            )}
+            <button type="submit" className="px-5 py-2.5 bg-slate-900 text-white text-sm font-bold rounded-xl hover:bg-slate-800 transition-colors flex items-center gap-2"><CheckCircle className="w-4 h-4"/> Save</button>
+        </div>
+    </form>
+  );
+};
+
+export default ExtractionSettingsPanel;
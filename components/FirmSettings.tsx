@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { FirmProfile } from '../types';
+import { GST_STATES, validateGstin, normalizeGstin, getGstinStateCode } from '../services/gstService';
+import { Building2, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface FirmSettingsProps {
+  firm: FirmProfile;
+  onSave: (firm: FirmProfile) => void;
+}
+
+const FirmSettings: React.FC<FirmSettingsProps> = ({ firm, onSave }) => {
+  const [draft, setDraft] = useState<FirmProfile>(firm);
+  const [error, setError] = useState('');
+  const gstinError = draft.gstin ? validateGstin(draft.gstin) : null;
+
+  const handleGstinChange = (value: string) => {
+      const gstin = normalizeGstin(value);
+      const state = !validateGstin(gstin) ? getGstinStateCode(gstin) : undefined;
+      setDraft(prev => ({ ...prev, gstin, stateCode: state || prev.stateCode }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      setError('');
+      if (gstinError) { setError(gstinError); return; }
+      if (!draft.stateCode) { setError('Select the state the firm is registered in.'); return; }
+      onSave({ ...draft, name: draft.name.trim() });
+  };
+
+  const inputClass = "w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all placeholder:text-slate-400 hover:border-slate-300";
+  const labelClass = "block text-[10px] font-bold text-slate-500 mb-1.5 uppercase tracking-wider";
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden animate-slide-up">
+        <div className="px-5 py-4 border-b border-slate-50 flex items-center gap-2">
+            <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Building2 className="w-4 h-4"/></div>
+            <div>
+                <h3 className="font-bold text-slate-900">Firm Profile</h3>
+                <p className="text-xs text-slate-500">Your state decides whether GST is split as CGST + SGST or charged as IGST.</p>
+            </div>
+        </div>
+        <div className="p-5 space-y-4">
+            {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+            <div>
+                <label className={labelClass}>Firm Name</label>
+                <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className={labelClass}>GSTIN</label>
+                    <input type="text" maxLength={15} value={draft.gstin} onChange={(e) => handleGstinChange(e.target.value)} className={`${inputClass} font-mono uppercase ${gstinError ? 'border-red-300' : ''}`} />
+                    {gstinError && <p className="text-[10px] text-red-500 mt-1">{gstinError}</p>}
+                </div>
+                <div>
+                    <label className={labelClass}>State</label>
+                    <select value={draft.stateCode} onChange={(e) => setDraft({ ...draft, stateCode: e.target.value })} disabled={!!draft.gstin && !gstinError} className={inputClass}>
+                        <option value="">Select state...</option>
+                        {Object.entries(GST_STATES).map(([code, name]) => <option key={code} value={code}>{code} - {name}</option>)}
+                    </select>
+                </div>
+            </div>
+            <button type="submit" className="px-5 py-2.5 bg-slate-900 text-white text-sm font-bold rounded-xl hover:bg-slate-800 transition-colors flex items-center gap-2"><CheckCircle className="w-4 h-4"/> Save Profile</button>
+        </div>
+    </form>
+  );
+};
+
+export default FirmSettings;
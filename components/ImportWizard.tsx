@@ -0,0 +1,197 @@
+import React, { useState, useRef } from 'react';
+import { Invoice, FirmProfile, ColumnMapping, ImportField, ImportResult, ImportDryRun } from '../types';
+import { IMPORT_FIELDS, SpreadsheetData, parseSpreadsheet, guessMapping, buildImport } from '../services/importService';
+import { METALS, METAL_LABELS } from '../services/metalService';
+import { formatCurrency, formatGrams } from '../utils';
+import { FileSpreadsheet, UploadCloud, AlertTriangle, Loader2, X, ArrowLeft, CheckCircle, PlayCircle } from 'lucide-react';
+
+interface ImportWizardProps {
+  invoices: Invoice[];
+  lockDate: string | null;
+  firm: FirmProfile;
+  onDryRun: (imported: Invoice[]) => ImportDryRun;
+  onCommit: (imported: Invoice[]) => void;
+  onClose: () => void;
+}
+
+type Step = 'FILE' | 'MAP' | 'REVIEW';
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ invoices, lockDate, firm, onDryRun, onCommit, onClose }) => {
+  const [step, setStep] = useState<Step>('FILE');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [dryRun, setDryRun] = useState<ImportDryRun | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const selected = e.target.files?.[0];
+      e.target.value = '';
+      if (!selected) return;
+      setError('');
+      setBusy(true);
+      try {
+          const data = await parseSpreadsheet(selected);
+          setSheet(data);
+          setFileName(selected.name);
+          setMapping(guessMapping(data.headers));
+          setStep('MAP');
+      } catch (err: any) {
+          setError(err.message || 'Could not read the file.');
+      } finally {
+          setBusy(false);
+      }
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+      setMapping(prev => {
+          const next = { ...prev };
+          if (value === '') delete next[field];
+          else next[field] = Number(value);
+          return next;
+      });
+  };
+
+  const missing = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+  const handleValidate = () => {
+      if (!sheet) return;
+      const built = buildImport(sheet, mapping, { existingIds: new Set(invoices.map(i => i.id)), lockDate, firm });
+      setResult(built);
+      setDryRun(built.invoices.length > 0 ? onDryRun(built.invoices) : null);
+      setStep('REVIEW');
+  };
+
+  const errors = result ? result.issues.filter(i => i.severity === 'ERROR') : [];
+  const blocked = !result || result.invoices.length === 0 || (dryRun?.diagnostics.some(d => d.severity === 'ERROR') ?? false);
+
+  const handleCommit = () => {
+      if (!result || blocked) return;
+      if (errors.length > 0 && !window.confirm(`${result.skippedRows} row${result.skippedRows === 1 ? '' : 's'} with errors will be left out. Import the other ${result.invoices.length} invoices?`)) return;
+      onCommit(result.invoices);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all hover:border-slate-300";
+  const sampleRow = sheet?.rows[0] || [];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm animate-fade-in p-4">
+        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-full flex flex-col border border-slate-200 animate-slide-up">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><FileSpreadsheet className="w-4 h-4"/></div>
+                    <div>
+                        <h3 className="font-bold text-slate-900">Import Transactions</h3>
+                        <p className="text-xs text-slate-500">{fileName || 'CSV or Excel, including the Transaction Report CSV export.'}</p>
+                    </div>
+                </div>
+                <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg"><X className="w-4 h-4"/></button>
+            </div>
+
+            <div className="p-6 overflow-y-auto space-y-4">
+                {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+
+                {step === 'FILE' && (
+                    <div className="text-center py-10 space-y-4">
+                        <input type="file" accept=".csv,.xlsx,.xls" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+                        <button onClick={() => fileInputRef.current?.click()} disabled={busy} className="px-5 py-3 bg-slate-900 text-white text-sm font-bold rounded-xl hover:bg-slate-800 disabled:opacity-50 inline-flex items-center gap-2">
+                            {busy ? <Loader2 className="w-4 h-4 animate-spin"/> : <UploadCloud className="w-4 h-4"/>} Choose File
+                        </button>
+                        <p className="text-xs text-slate-400">One row per invoice, or one row per item with a repeated Invoice ID.{lockDate ? ` Entries on or before ${lockDate} are rejected.` : ''}</p>
+                    </div>
+                )}
+
+                {step === 'MAP' && sheet && (
+                    <>
+                        <p className="text-xs text-slate-500">{sheet.rows.length} rows found. Match each field to a column; required fields are marked *.</p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                            {IMPORT_FIELDS.map(spec => {
+                                const col = mapping[spec.field];
+                                return (
+                                    <div key={spec.field} className="flex items-center gap-3">
+                                        <label className="w-36 flex-shrink-0 text-[10px] font-bold text-slate-500 uppercase tracking-wider">{spec.label}{spec.required ? ' *' : ''}</label>
+                                        <div className="flex-1 min-w-0">
+                                            <select value={col ?? ''} onChange={(e) => setColumn(spec.field, e.target.value)} className={`${inputClass} ${spec.required && col === undefined ? 'border-red-300' : ''}`}>
+                                                <option value="">Not in file</option>
+                                                {sheet.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                                            </select>
+                                            {col !== undefined && sampleRow[col] && <p className="text-[10px] text-slate-400 font-mono truncate mt-0.5">e.g. {sampleRow[col]}</p>}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        {mapping.invoiceId === undefined && <p className="text-[10px] text-amber-600">Without an Invoice ID column every row becomes its own invoice with a new ID.</p>}
+                        {mapping.metal === undefined && <p className="text-[10px] text-amber-600">Without a Metal column every row is imported as gold.</p>}
+                    </>
+                )}
+
+                {step === 'REVIEW' && result && (
+                    <>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                            <div className="bg-slate-50 rounded-lg p-2"><p className="text-lg font-mono font-bold">{result.invoices.length}</p><p className="text-[10px] uppercase text-slate-400 font-bold">Invoices</p></div>
+                            <div className="bg-slate-50 rounded-lg p-2"><p className="text-lg font-mono font-bold">{dryRun?.purchases ?? 0} / {dryRun?.sales ?? 0}</p><p className="text-[10px] uppercase text-slate-400 font-bold">Stock In / Sales</p></div>
+                            <div className="bg-slate-50 rounded-lg p-2"><p className="text-lg font-mono font-bold text-red-600">{result.skippedRows}</p><p className="text-[10px] uppercase text-slate-400 font-bold">Rows Skipped</p></div>
+                            <div className="bg-slate-50 rounded-lg p-2"><p className="text-lg font-mono font-bold text-amber-600">{result.issues.length - errors.length}</p><p className="text-[10px] uppercase text-slate-400 font-bold">Warnings</p></div>
+                        </div>
+
+                        {dryRun && (
+                            <div className="rounded-xl border border-gold-100 bg-gold-50/40 p-4 space-y-2">
+                                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Dry Run · Effect on the Books</p>
+                                <div className="grid grid-cols-3 gap-3 text-xs">
+                                    <div><p className="text-slate-400">Revenue</p><p className="font-mono font-bold">{formatCurrency(dryRun.revenue)}</p></div>
+                                    <div><p className="text-slate-400">Cost of Sales</p><p className="font-mono font-bold">{formatCurrency(dryRun.cogs)}</p></div>
+                                    <div><p className="text-slate-400">Profit</p><p className={`font-mono font-bold ${dryRun.profit >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(dryRun.profit)}</p></div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-3 text-xs">
+                                    {METALS.map(m => (
+                                        <div key={m}>
+                                            <p className="text-slate-400">{METAL_LABELS[m]} (fine)</p>
+                                            <p className="font-mono font-bold">{dryRun.fineGrams[m] >= 0 ? '+' : ''}{formatGrams(dryRun.fineGrams[m])} → closing {formatGrams(dryRun.closingStock[m])}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                                {dryRun.diagnostics.length > 0 && (
+                                    <ul className="space-y-1 pt-1">
+                                        {dryRun.diagnostics.map((d, i) => (
+                                            <li key={i} className={`text-[11px] flex gap-1.5 ${d.severity === 'ERROR' ? 'text-red-600' : 'text-amber-600'}`}><AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0"/>{d.date}: {d.message}</li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+
+                        {result.issues.length > 0 && (
+                            <div className="max-h-48 overflow-y-auto rounded-xl border border-slate-100 divide-y divide-slate-50">
+                                {result.issues.map((issue, i) => (
+                                    <div key={i} className="px-3 py-1.5 text-[11px] flex gap-2">
+                                        <span className="font-mono text-slate-400 w-14 flex-shrink-0">Row {issue.row}</span>
+                                        <span className={issue.severity === 'ERROR' ? 'text-red-600' : 'text-amber-600'}>{issue.message}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {blocked && result.invoices.length > 0 && <p className="text-xs text-red-600 font-medium">The import leaves sales without stock. Add the missing purchases to the file and try again.</p>}
+                    </>
+                )}
+            </div>
+
+            {step !== 'FILE' && (
+                <div className="px-6 py-4 border-t border-slate-100 flex justify-between gap-3">
+                    <button onClick={() => setStep(step === 'REVIEW' ? 'MAP' : 'FILE')} className="px-4 py-2.5 text-slate-500 text-sm font-bold hover:bg-slate-50 rounded-xl flex items-center gap-2"><ArrowLeft className="w-4 h-4"/> Back</button>
+                    {step === 'MAP' ? (
+                        <button onClick={handleValidate} disabled={missing.length > 0} title={missing.length ? `Map ${missing.map(f => f.label).join(', ')}` : undefined} className="px-5 py-2.5 bg-slate-900 text-white text-sm font-bold rounded-xl hover:bg-slate-800 disabled:opacity-50 flex items-center gap-2"><PlayCircle className="w-4 h-4"/> Validate & Dry Run</button>
+                    ) : (
+                        <button onClick={handleCommit} disabled={blocked} className="px-5 py-2.5 bg-gold-600 text-white text-sm font-bold rounded-xl hover:bg-gold-700 disabled:opacity-50 flex items-center gap-2"><CheckCircle className="w-4 h-4"/> Import {result?.invoices.length || 0} Invoices</button>
+                    )}
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -1,19 +1,28 @@
 
 import React, { useState } from 'react';
-import { InventoryBatch } from '../types';
+import { InventoryBatch, Invoice, Metal } from '../types';
 import { formatCurrency, formatGrams } from '../utils';
-import { Archive, Layers, PackageCheck, PackageOpen, Calculator, TrendingUp, TrendingDown, ArrowRight } from 'lucide-react';
+import { getBatchConsumers } from '../services/ledgerService';
+import { getBatchInvoiceId } from '../services/invoiceService';
+import { METALS, METAL_LABELS, getMetal, getPurity } from '../services/metalService';
+import { Archive, Layers, PackageCheck, PackageOpen, Calculator, TrendingUp, TrendingDown, ArrowRight, ChevronDown, ChevronUp } from 'lucide-react';
 
 interface InventoryTableProps {
   batches: InventoryBatch[];
+  invoices: Invoice[];
+  costingLabel?: string;
 }
 
-const InventoryTable: React.FC<InventoryTableProps> = ({ batches }) => {
+const InventoryTable: React.FC<InventoryTableProps> = ({ batches, invoices, costingLabel = 'FIFO' }) => {
   const [viewMode, setViewMode] = useState<'ACTIVE' | 'HISTORY'>('ACTIVE');
   const [marketRate, setMarketRate] = useState<string>('');
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+  const [metal, setMetal] = useState<Metal>('GOLD');
 
-  const activeBatches = batches.filter(b => b.remainingQuantity > 0);
-  const historyBatches = batches.filter(b => b.remainingQuantity === 0);
+  // Each metal is its own pool, totals are only meaningful within one
+  const metalBatches = batches.filter(b => getMetal(b) === metal);
+  const activeBatches = metalBatches.filter(b => b.remainingQuantity > 0);
+  const historyBatches = metalBatches.filter(b => b.remainingQuantity === 0);
   const displayedHistoryBatches = [...historyBatches].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
   const totalStock = activeBatches.reduce((acc, b) => acc + b.remainingQuantity, 0);
@@ -38,11 +47,53 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ batches }) => {
       </div>
   );
 
+  const toggleBatch = (id: string) => setExpandedBatchId(prev => prev === id ? null : id);
+
+  // "This purchase lot was sold to customers A, B, C"
+  const ConsumersRow = ({ batch }: { batch: InventoryBatch }) => {
+      const supplier = invoices.find(inv => inv.id === getBatchInvoiceId(batch))?.partyName;
+      const consumers = getBatchConsumers(invoices, batch.id);
+      return (
+          <tr>
+              <td colSpan={8} className="px-4 pb-3">
+                  <div className="p-4 rounded-xl bg-gold-50/40 border border-gold-100 animate-fade-in">
+                      <p className="text-[10px] font-bold uppercase tracking-wider text-gold-700 mb-2">
+                          Lot from {supplier || batch.id} · sold to
+                      </p>
+                      {consumers.length === 0 ? (
+                          <p className="text-xs text-slate-400 italic">Nothing sold from this lot yet.</p>
+                      ) : (
+                          <table className="w-full text-xs">
+                              <tbody>
+                                  {consumers.map(c => (
+                                      <tr key={c.sale.id} className="border-b border-gold-100/60 last:border-0">
+                                          <td className="py-1.5 font-mono text-slate-500">{c.sale.date}</td>
+                                          <td className="py-1.5 font-medium text-slate-800">{c.sale.partyName}</td>
+                                          <td className="py-1.5 text-right font-mono text-slate-700">{formatGrams(c.grams)}</td>
+                                          <td className="py-1.5 text-right font-mono text-slate-500">@ {formatCurrency(c.sale.ratePerGram)}</td>
+                                          <td className="py-1.5 text-right font-mono font-medium text-green-600">{formatCurrency(c.grams * (c.sale.ratePerGram - c.costPerGram))}</td>
+                                      </tr>
+                                  ))}
+                              </tbody>
+                          </table>
+                      )}
+                  </div>
+              </td>
+          </tr>
+      );
+  };
+
   return (
     <div className="space-y-8 animate-slide-up">
+       <div className="flex bg-slate-100 p-1 rounded-xl w-fit">
+           {METALS.map(m => (
+               <button key={m} onClick={() => { setMetal(m); setExpandedBatchId(null); }} className={`px-4 py-2 rounded-lg text-xs font-bold transition-all ${metal === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}>{METAL_LABELS[m].toUpperCase()}</button>
+           ))}
+       </div>
+
        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <StatBox label={viewMode === 'ACTIVE' ? "Total Stock" : "Volume Sold"} value={viewMode === 'ACTIVE' ? formatGrams(totalStock) : formatGrams(totalHistoryStock)} sub={viewMode === 'HISTORY' ? 'Lifetime volume' : undefined} active />
-            <StatBox label={viewMode === 'ACTIVE' ? "FIFO Valuation" : "Hist. Cost Basis"} value={viewMode === 'ACTIVE' ? formatCurrency(totalValue) : formatCurrency(totalHistoryValue)} />
+            <StatBox label={viewMode === 'ACTIVE' ? `${METAL_LABELS[metal]} Stock (Fine)` : "Volume Sold"} value={viewMode === 'ACTIVE' ? formatGrams(totalStock) : formatGrams(totalHistoryStock)} sub={viewMode === 'HISTORY' ? 'Lifetime volume' : undefined} active />
+            <StatBox label={viewMode === 'ACTIVE' ? `${costingLabel} Valuation` : "Hist. Cost Basis"} value={viewMode === 'ACTIVE' ? formatCurrency(totalValue) : formatCurrency(totalHistoryValue)} />
             <StatBox label="Avg. Cost / Gram" value={viewMode === 'ACTIVE' ? formatCurrency(avgCost) : formatCurrency(avgHistoryCost)} />
        </div>
 
@@ -53,7 +104,7 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ batches }) => {
                  <div className="flex-1 w-full z-10">
                      <div className="flex items-center gap-2 mb-2 text-gold-400 font-bold text-lg"><Calculator className="w-5 h-5" /> Valuation Simulator</div>
                      <p className="text-slate-400 text-sm mb-4">Enter market price for liquidation estimates.</p>
-                     <input type="number" value={marketRate} onChange={(e) => setMarketRate(e.target.value)} placeholder="Current Rate (₹/g)" className="w-full max-w-xs bg-slate-950/50 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder:text-slate-600 focus:border-gold-500 outline-none font-mono text-lg" />
+                     <input type="number" value={marketRate} onChange={(e) => setMarketRate(e.target.value)} placeholder={`${METAL_LABELS[metal]} Rate (₹/fine g)`} className="w-full max-w-xs bg-slate-950/50 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder:text-slate-600 focus:border-gold-500 outline-none font-mono text-lg" />
                  </div>
                  {hasRate && (
                       <div className="flex-[2] w-full grid grid-cols-1 sm:grid-cols-3 gap-4 border-t lg:border-t-0 lg:border-l border-slate-700/50 pt-4 lg:pt-0 lg:pl-8 z-10">
@@ -77,7 +128,7 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ batches }) => {
         <div className="px-6 py-5 border-b border-slate-50 flex justify-between items-center bg-white/50 backdrop-blur sticky top-0 z-10">
             <h3 className="font-bold text-slate-800 text-lg flex items-center gap-2">
                 {viewMode === 'ACTIVE' ? <PackageOpen className="w-5 h-5 text-gold-600"/> : <PackageCheck className="w-5 h-5 text-slate-400"/>}
-                <span className="hidden sm:inline">{viewMode === 'ACTIVE' ? 'Live Inventory (FIFO)' : 'Sold Batches'}</span>
+                <span className="hidden sm:inline">{viewMode === 'ACTIVE' ? `Live Inventory (${costingLabel})` : 'Sold Batches'}</span>
                 <span className="sm:hidden">{viewMode === 'ACTIVE' ? 'Live' : 'Sold'}</span>
             </h3>
             <div className="flex bg-slate-100 p-1 rounded-xl">
@@ -89,28 +140,40 @@ const InventoryTable: React.FC<InventoryTableProps> = ({ batches }) => {
         <div className="overflow-x-auto">
           <table className="w-full text-left text-sm border-separate border-spacing-y-1 px-4 pb-4 min-w-[700px]">
             <thead className="text-slate-400">
-              <tr>{['Batch Date', 'Original Qty', 'Remaining', 'Cost / Gram', 'Total Value', 'Status'].map(h => <th key={h} className="px-4 py-3 font-semibold uppercase text-xs tracking-wider">{h}</th>)}</tr>
+              <tr>{['Batch Date', 'Purity', 'Original Qty', 'Remaining', 'Cost / Gram', 'Total Value', 'Status', ''].map(h => <th key={h} className="px-4 py-3 font-semibold uppercase text-xs tracking-wider">{h}</th>)}</tr>
             </thead>
             <tbody>
               {viewMode === 'ACTIVE' && activeBatches.map((batch) => (
-                    <tr key={batch.id} className="group hover:scale-[1.005] transition-transform duration-200">
+                    <React.Fragment key={batch.id}>
+                    <tr onClick={() => toggleBatch(batch.id)} className="group hover:scale-[1.005] transition-transform duration-200 cursor-pointer">
                         <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white group-hover:shadow-sm rounded-l-xl border-y border-l border-transparent group-hover:border-slate-100 font-mono text-slate-600">{batch.date}</td>
+                        <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white group-hover:shadow-sm border-y border-transparent group-hover:border-slate-100 font-mono text-slate-500">{getPurity(batch)}</td>
                         <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white group-hover:shadow-sm border-y border-transparent group-hover:border-slate-100 text-slate-500">{formatGrams(batch.originalQuantity)}</td>
                         <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white group-hover:shadow-sm border-y border-transparent group-hover:border-slate-100 font-bold text-slate-900">{formatGrams(batch.remainingQuantity)}</td>
                         <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white group-hover:shadow-sm border-y border-transparent group-hover:border-slate-100 font-mono text-slate-500">{formatCurrency(batch.costPerGram)}</td>
                         <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white group-hover:shadow-sm border-y border-transparent group-hover:border-slate-100 font-mono font-medium text-slate-900">{formatCurrency(batch.remainingQuantity * batch.costPerGram)}</td>
-                        <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white group-hover:shadow-sm rounded-r-xl border-y border-r border-transparent group-hover:border-slate-100"><span className="px-2 py-1 bg-green-50 text-green-700 text-[10px] font-bold uppercase rounded border border-green-100">Active</span></td>
+                        <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white group-hover:shadow-sm border-y border-transparent group-hover:border-slate-100"><span className="px-2 py-1 bg-green-50 text-green-700 text-[10px] font-bold uppercase rounded border border-green-100">Active</span></td>
+                        <td className="px-4 py-3 bg-slate-50/50 group-hover:bg-white group-hover:shadow-sm rounded-r-xl border-y border-r border-transparent group-hover:border-slate-100 text-slate-400">
+                            {expandedBatchId === batch.id ? <ChevronUp className="w-4 h-4"/> : <ChevronDown className="w-4 h-4"/>}
+                        </td>
                     </tr>
+                    {expandedBatchId === batch.id && <ConsumersRow batch={batch} />}
+                    </React.Fragment>
                 ))}
                 {viewMode === 'HISTORY' && displayedHistoryBatches.map((batch) => (
-                    <tr key={batch.id} className="opacity-70 hover:opacity-100 transition-opacity">
+                    <React.Fragment key={batch.id}>
+                    <tr onClick={() => toggleBatch(batch.id)} className="opacity-70 hover:opacity-100 transition-opacity cursor-pointer">
                          <td className="px-4 py-3 font-mono text-slate-500">{batch.date}</td>
+                         <td className="px-4 py-3 font-mono text-slate-400">{getPurity(batch)}</td>
                          <td className="px-4 py-3 text-slate-500">{formatGrams(batch.originalQuantity)}</td>
                          <td className="px-4 py-3 font-bold text-slate-300">0.000 g</td>
                          <td className="px-4 py-3 font-mono text-slate-400">{formatCurrency(batch.costPerGram)}</td>
                          <td className="px-4 py-3 font-mono text-slate-400">{formatCurrency(batch.originalQuantity * batch.costPerGram)}</td>
                          <td className="px-4 py-3"><span className="px-2 py-1 bg-slate-100 text-slate-500 text-[10px] font-bold uppercase rounded">Sold</span></td>
+                         <td className="px-4 py-3 text-slate-400">{expandedBatchId === batch.id ? <ChevronUp className="w-4 h-4"/> : <ChevronDown className="w-4 h-4"/>}</td>
                     </tr>
+                    {expandedBatchId === batch.id && <ConsumersRow batch={batch} />}
+                    </React.Fragment>
                 ))}
             </tbody>
           </table>
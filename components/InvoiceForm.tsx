@@ -1,66 +1,258 @@
 
 import React, { useState, useRef } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
-import { Invoice, TransactionType } from '../types';
-import { generateId, parseInvoiceOCR } from '../utils';
-import { CheckCircle, AlertTriangle, ScanLine, Calculator, RefreshCw, ArrowRightLeft, Lock, Loader2, Sparkles, X, UploadCloud, FileText } from 'lucide-react';
+import { Invoice, InvoiceBalance, InvoiceLine, InventoryBatch, TransactionType, CostingMethod, LotSelection, Metal, FirmProfile, Party, ExtractedInvoice, ExtractedLine, FieldEvidence } from '../types';
+import { generateId, formatCurrency, formatGrams } from '../utils';
+import { METALS, METAL_LABELS, PURITY_OPTIONS, STANDARD_PURITY, DEFAULT_HSN, getMetal, getPurity } from '../services/metalService';
+import { calculateLineTaxable, getLineFineGrams, summarizeLines, getInvoiceLines, OPENING_STOCK_PARTY } from '../services/invoiceService';
+import { GST_STATES, validateGstin, normalizeGstin, getGstinStateCode, isInterState, splitGst, getFirmStateCode } from '../services/gstService';
+import { KYC_STATUS_LABELS, createPartyResolver, searchParties } from '../services/partyService';
+import { ExtractionProvider, LOW_CONFIDENCE, crossCheckTotals, extractInvoice, readDocument, regexProvider } from '../services/extractionService';
+import { CheckCircle, AlertTriangle, ScanLine, Calculator, RefreshCw, ArrowRightLeft, Lock, Loader2, Sparkles, X, UploadCloud, FileText, Layers, Plus, Trash2, Paperclip } from 'lucide-react';
 import { SingleDatePicker } from './SingleDatePicker';
 
 interface InvoiceFormProps {
-  onAdd: (invoice: Invoice) => void;
-  currentStock: number;
+  onAdd: (invoice: Invoice, document?: File) => boolean | void; // document: the original bill, stored with a new invoice. False keeps the form filled.
+  availableStock: Record<Metal, number>; // Fine grams per metal
   lockDate: string | null;
+  costingMethod?: CostingMethod;
+  openBatches?: InventoryBatch[];
+  firm?: FirmProfile;
+  sameDayOnly?: boolean; // Roles without back-dating rights can only enter today's invoices
+  editing?: Invoice; // Loads this invoice into the form; onAdd then receives it under the same ID
+  onCancelEdit?: () => void;
+  parties?: Party[]; // Party master, for suggestions while typing the name
+  receivables?: Record<string, number>; // Outstanding on sales per party key, checked against credit limits
+  editingBalance?: InvoiceBalance; // Settlement of the invoice being edited, whose outstanding is already in receivables
+  extractor?: ExtractionProvider; // Reads bills in AI Scan, as chosen in Settings
+  prefill?: ExtractedInvoice; // Opens the form filled from a scanned bill
+  reviewing?: boolean; // Checking a scanned bill before approval: onAdd marks it reviewed, nothing is posted yet
 }
 
-const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate }) => {
+// Line item as typed into the form (numbers kept as strings until submit)
+interface LineDraft {
+  description: string;
+  hsn: string;
+  metal: Metal;
+  purity: string;
+  grossWeight: string;
+  netWeight: string;
+  ratePerGram: string;
+  makingCharges: string;
+  wastagePercent: string;
+  stoneValue: string;
+}
+
+// Invoice header as typed into the form
+interface FormDraft {
+  billNumber: string;
+  date: string;
+  type: TransactionType;
+  partyName: string;
+  partyId: string;
+  partyGstin: string;
+  partyState: string;
+  gstRate: string;
+  dueDate: string;
+}
+
+const blankForm = (): FormDraft => ({
+  billNumber: '', date: new Date().toISOString().split('T')[0], type: 'PURCHASE', partyName: '', partyId: '', partyGstin: '', partyState: '', gstRate: '3', dueDate: ''
+});
+
+const emptyLine = (metal: Metal = 'GOLD'): LineDraft => ({
+  description: '', hsn: DEFAULT_HSN[metal], metal, purity: STANDARD_PURITY.toString(),
+  grossWeight: '', netWeight: '', ratePerGram: '', makingCharges: '', wastagePercent: '', stoneValue: ''
+});
+
+const toLine = (draft: LineDraft): InvoiceLine => {
+  const netWeight = parseFloat(draft.netWeight) || 0;
+  const line = {
+    description: draft.description.trim(),
+    hsn: draft.hsn.trim() || undefined,
+    metal: draft.metal,
+    purity: parseFloat(draft.purity) || STANDARD_PURITY,
+    grossWeight: parseFloat(draft.grossWeight) || netWeight,
+    netWeight,
+    ratePerGram: parseFloat(draft.ratePerGram) || 0,
+    makingCharges: parseFloat(draft.makingCharges) || 0,
+    wastagePercent: parseFloat(draft.wastagePercent) || 0,
+    stoneValue: parseFloat(draft.stoneValue) || 0
+  };
+  return { ...line, taxableAmount: calculateLineTaxable(line) };
+};
+
+const toDraft = (line: InvoiceLine): LineDraft => ({
+  description: line.description, hsn: line.hsn || '', metal: getMetal(line), purity: getPurity(line).toString(),
+  grossWeight: line.grossWeight.toString(), netWeight: line.netWeight.toString(), ratePerGram: line.ratePerGram.toString(),
+  makingCharges: line.makingCharges ? line.makingCharges.toString() : '', wastagePercent: line.wastagePercent ? line.wastagePercent.toString() : '',
+  stoneValue: line.stoneValue ? line.stoneValue.toString() : ''
+});
+
+const str = (value: any, fallback = '') => (value !== undefined && value !== null && value !== '' ? value.toString() : fallback);
+
+const fromExtractedLine = (item: ExtractedLine): LineDraft => {
+  const metal: Metal = item.metal || 'GOLD';
+  return {
+      description: str(item.description),
+      hsn: str(item.hsn, DEFAULT_HSN[metal]),
+      metal,
+      purity: str(item.purity, STANDARD_PURITY.toString()),
+      grossWeight: str(item.grossWeight),
+      netWeight: str(item.netWeight ?? item.grossWeight),
+      ratePerGram: str(item.ratePerGram),
+      makingCharges: str(item.makingCharges),
+      wastagePercent: str(item.wastagePercent),
+      stoneValue: str(item.stoneValue)
+  };
+};
+
+// Whatever the extractor read replaces the form's value; anything it missed is kept
+const applyExtractedHeader = (form: FormDraft, result: ExtractedInvoice, sameDayOnly: boolean): FormDraft => {
+  const partyGstin = result.partyGstin || form.partyGstin;
+  return {
+      ...form,
+      billNumber: result.billNumber || form.billNumber,
+      date: (!sameDayOnly && result.date) || form.date,
+      type: result.type || form.type,
+      partyName: result.partyName || form.partyName,
+      partyId: result.partyName ? '' : form.partyId,
+      partyGstin,
+      partyState: getGstinStateCode(partyGstin) || form.partyState,
+      gstRate: result.gstRate ? result.gstRate.toString() : form.gstRate,
+  };
+};
+
+// A value filled in from a scan and how sure the extractor was of it. Flags clear once the value is changed.
+interface FieldFlag extends FieldEvidence {
+  value: string;
+}
+
+// What the review banner needs: per-field flags keyed by field (or line index and field), and the bill's own totals
+interface ScanReview {
+  flags: Record<string, FieldFlag>;
+  totals: Pick<ExtractedInvoice, 'taxableAmount' | 'gstAmount'>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  billNumber: 'Bill No', date: 'Date', type: 'Type', partyName: 'Party', partyGstin: 'GSTIN', gstRate: 'GST %',
+  description: 'Description', hsn: 'HSN', metal: 'Metal', purity: 'Purity', grossWeight: 'Gross g', netWeight: 'Net g',
+  ratePerGram: 'Rate', makingCharges: 'Making', wastagePercent: 'Wastage %', stoneValue: 'Stones'
+};
+
+const flagLabel = (key: string) => {
+  const [first, field] = key.split('.');
+  return field ? `Item ${parseInt(first) + 1} ${FIELD_LABELS[field]}` : FIELD_LABELS[first];
+};
+
+/**
+ * Flags for the values a scan put into the form. Evidence from the extractor is kept as is; fields the
+ * bill did not give at all hold a default and get no confidence.
+ */
+const reviewScan = (result: ExtractedInvoice, form: FormDraft, lines: LineDraft[], sameDayOnly: boolean): ScanReview => {
+  const flags: Record<string, FieldFlag> = {};
+  const flag = (key: string, value: string, read: boolean, evidence?: FieldEvidence) => {
+      if (!read) flags[key] = { confidence: 0, value };
+      else if (evidence) flags[key] = { ...evidence, value };
+  };
+  if (!sameDayOnly) flag('date', form.date, result.date !== undefined, result.evidence?.date);
+  flag('type', form.type, result.type !== undefined, result.evidence?.type);
+  flag('partyName', form.partyName, result.partyName !== undefined, result.evidence?.partyName);
+  if (result.billNumber) flag('billNumber', form.billNumber, true, result.evidence?.billNumber);
+  if (result.partyGstin) flag('partyGstin', form.partyGstin, true, result.evidence?.partyGstin);
+  flag('gstRate', form.gstRate, result.gstRate !== undefined, result.evidence?.gstRate);
+  result.items.forEach((item, i) => {
+      const line = lines[i];
+      if (!line) return;
+      flag(`${i}.netWeight`, line.netWeight, item.netWeight !== undefined, item.evidence?.netWeight);
+      flag(`${i}.ratePerGram`, line.ratePerGram, item.ratePerGram !== undefined, item.evidence?.ratePerGram);
+      flag(`${i}.purity`, line.purity, item.purity !== undefined, item.evidence?.purity);
+      (['grossWeight', 'makingCharges', 'wastagePercent', 'stoneValue'] as const).forEach(field => {
+          if (item[field] !== undefined) flag(`${i}.${field}`, line[field], true, item.evidence?.[field]);
+      });
+  });
+  return { flags, totals: { taxableAmount: result.taxableAmount, gstAmount: result.gstAmount } };
+};
+
+// The printed tax type should agree with the state we derived
+const taxTypeWarning = (result: ExtractedInvoice, partyState: string, firmState?: string): string => {
+  if (result.igstCharged === undefined || result.igstCharged === isInterState(partyState || undefined, firmState)) return '';
+  return `Bill shows ${result.igstCharged ? 'IGST' : 'CGST/SGST'}; check the party's state.`;
+};
+
+const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, availableStock, lockDate, costingMethod = 'FIFO', openBatches = [], firm, sameDayOnly = false, editing, onCancelEdit, parties = [], receivables = {}, editingBalance, extractor = regexProvider, prefill, reviewing = false }) => {
   const [mode, setMode] = useState<'MANUAL' | 'UPLOAD'>('MANUAL');
   const [ocrText, setOcrText] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachment, setAttachment] = useState<File | null>(null); // Kept after scanning, so the bill is saved with the invoice
+  const attachInputRef = useRef<HTMLInputElement>(null);
   
-  const [formData, setFormData] = useState({
-    date: new Date().toISOString().split('T')[0],
-    type: 'PURCHASE' as TransactionType,
-    partyName: '',
-    quantityGrams: '',
-    ratePerGram: '',
-    gstRate: '3',
-  });
+  const [formData, setFormData] = useState<FormDraft>(() => editing ? {
+    billNumber: editing.billNumber || '',
+    date: editing.date,
+    type: editing.type,
+    partyName: editing.partyName,
+    partyId: editing.partyId || '',
+    partyGstin: editing.partyGstin || '',
+    partyState: editing.partyState || '',
+    gstRate: editing.gstRate.toString(),
+    dueDate: editing.dueDate || '',
+  } : prefill ? applyExtractedHeader(blankForm(), prefill, sameDayOnly) : blankForm());
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [lines, setLines] = useState<LineDraft[]>(() => editing ? getInvoiceLines(editing).map(toDraft) : prefill?.items.length ? prefill.items.map(fromExtractedLine) : [emptyLine()]);
+  const [scan, setScan] = useState<ScanReview | null>(() => prefill && !editing ? reviewScan(prefill, formData, lines, sameDayOnly) : null);
+  const firmState = firm ? getFirmStateCode(firm) : undefined;
+  const parsedLines = lines.map(toLine);
+
+  // Specific identification: grams picked per open lot (batch ID -> grams)
+  const [lotGrams, setLotGrams] = useState<Record<string, string>>(() => Object.fromEntries((editing?.lotSelection || []).map(sel => [sel.batchId, sel.grams.toString()])));
+  // A sale being edited gives back the grams it drew, so its lots count as open again
+  const ownAllocations = new Map((editing?.allocations || []).map(a => [a.batchId, a.grams]));
+  const lotRemaining = (b: InventoryBatch) => b.remainingQuantity + (ownAllocations.get(b.id) || 0);
+  const lineMetals = new Set(lines.map(l => l.metal));
+  const metalBatches = openBatches.filter(b => lineMetals.has(getMetal(b)));
+  const showLotPicker = costingMethod === 'SPECIFIC' && formData.type === 'SALE' && metalBatches.length > 0;
+  // Opening stock has no party and no tax, only an as-of date and a cost
+  const isOpening = formData.type === 'OPENING';
+
+  const [error, setError] = useState(() => prefill && !editing ? taxTypeWarning(prefill, formData.partyState, firmState) : '');
 
-  const [error, setError] = useState('');
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+      setLines(prev => prev.map((l, i) => i === index ? { ...l, ...changes } : l));
+  };
+
+  const changeLineMetal = (index: number, metal: Metal) => {
+      const current = lines[index];
+      // Only replace the HSN if it was still the default for the previous metal
+      const hsn = current.hsn === DEFAULT_HSN[current.metal] ? DEFAULT_HSN[metal] : current.hsn;
+      updateLine(index, { metal, purity: STANDARD_PURITY.toString(), hsn });
+      setLotGrams({});
+  };
+
+  const removeLine = (index: number) => {
+      setLines(prev => prev.length > 1 ? prev.filter((_, i) => i !== index) : prev);
+      setLotGrams({});
+  };
 
   const getTaxableTotal = () => {
-      const qty = parseFloat(formData.quantityGrams);
-      const rate = parseFloat(formData.ratePerGram);
-      if (!isNaN(qty) && !isNaN(rate)) return (qty * rate).toFixed(2);
-      return '';
+      const line = lines[0];
+      if (!parseFloat(line.netWeight) || line.ratePerGram === '') return '';
+      return parsedLines[0].taxableAmount.toFixed(2);
   };
 
+  // Single-item invoices: back-calculate the metal rate from the stated taxable value
   const handleTotalChange = (value: string) => {
       const total = parseFloat(value);
-      const qty = parseFloat(formData.quantityGrams);
-      if (!isNaN(total) && !isNaN(qty) && qty > 0) {
-          setFormData(prev => ({...prev, ratePerGram: (total / qty).toString()}));
+      const line = parsedLines[0];
+      const chargedWeight = line.netWeight * (1 + line.wastagePercent / 100);
+      if (!isNaN(total) && chargedWeight > 0) {
+          updateLine(0, { ratePerGram: ((total - line.makingCharges - line.stoneValue) / chargedWeight).toString() });
       } else if (value === '') {
-           setFormData(prev => ({...prev, ratePerGram: ''}));
+          updateLine(0, { ratePerGram: '' });
       }
   };
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove the data URL prefix (e.g., "data:application/pdf;base64,")
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = error => reject(error);
-    });
-  };
-
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setSelectedFile(e.target.files[0]);
@@ -68,141 +260,144 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
     }
   };
 
+  const applyExtraction = (result: ExtractedInvoice) => {
+      const next = applyExtractedHeader(formData, result, sameDayOnly);
+      const nextLines = result.items.length > 0 ? result.items.map(fromExtractedLine) : lines;
+      setFormData(next);
+      setLines(nextLines);
+      setScan(reviewScan(result, next, nextLines, sameDayOnly));
+      setLotGrams({});
+      const warning = taxTypeWarning(result, next.partyState, firmState);
+      if (warning) setError(warning);
+  };
+
   const handleOcrProcess = async () => {
       if (!ocrText.trim() && !selectedFile) return;
       setIsProcessing(true);
       setError('');
 
       try {
-          const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-          let parts = [];
-
-          // Schema definition for structured output
-          const responseSchema = {
-            type: Type.OBJECT,
-            properties: {
-                date: { type: Type.STRING, description: "Invoice Date in YYYY-MM-DD format" },
-                type: { type: Type.STRING, enum: ["PURCHASE", "SALE"], description: "Transaction type based on invoice context" },
-                partyName: { type: Type.STRING, description: "Name of the Supplier or Customer" },
-                quantityGrams: { type: Type.NUMBER, description: "Total weight of gold in grams" },
-                ratePerGram: { type: Type.NUMBER, description: "Price per gram of gold" },
-                gstRate: { type: Type.NUMBER, description: "GST Percentage (e.g. 3)" }
-            },
-            required: ["date", "type", "partyName", "quantityGrams", "ratePerGram"]
-          };
-
-          if (selectedFile) {
-              // Multimodal Request (PDF/Image)
-              const base64Data = await fileToBase64(selectedFile);
-              
-              // Determine mime type reliably
-              let mimeType = selectedFile.type;
-              if (!mimeType && selectedFile.name.toLowerCase().endsWith('.pdf')) {
-                  mimeType = 'application/pdf';
-              }
-
-              parts = [
-                  {
-                      inlineData: {
-                          mimeType: mimeType || 'application/pdf', 
-                          data: base64Data
-                      }
-                  },
-                  {
-                      text: "Analyze this invoice document. Extract the following details: Date, Party Name, Transaction Type (Sale/Purchase), Quantity (Grams), Rate (Price/Gram), and GST %. If there are multiple items, sum the gold quantity. If Rate is not explicit, calculate it as TaxableValue / Quantity."
-                  }
-              ];
-          } else {
-              // Text-only Request
-              parts = [
-                  {
-                      text: `Extract invoice details from this text. Purchase or Sale? Party Name? Date? Total Grams? Rate? GST Rate? Text: ${ocrText}`
-                  }
-              ];
-          }
-
-          const response = await ai.models.generateContent({
-            model: 'gemini-2.0-flash', 
-            contents: { parts: parts },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: responseSchema
-            }
-          });
-
-          // Clean response text (remove markdown code blocks if present)
-          const cleanText = response.text ? response.text.replace(/```json|```/g, '').trim() : "{}";
-          const data = JSON.parse(cleanText);
-          
-          if (data && (data.partyName || data.quantityGrams)) {
-               setFormData({
-                  date: data.date || new Date().toISOString().split('T')[0],
-                  type: (data.type as TransactionType) || 'PURCHASE',
-                  partyName: data.partyName || '',
-                  quantityGrams: data.quantityGrams?.toString() || '',
-                  ratePerGram: data.ratePerGram?.toString() || '',
-                  gstRate: data.gstRate?.toString() || '3',
-              });
-              setMode('MANUAL'); // Switch back to manual for verification
-              setSelectedFile(null); // Clear file after processing
-              return;
-          }
-          throw new Error("Could not extract valid data");
-
+          const document = selectedFile ? await readDocument(selectedFile) : undefined;
+          const { result } = await extractInvoice(extractor, { ...(document ? { document } : { text: ocrText }), ...(firm?.gstin ? { ownGstin: firm.gstin } : {}) });
+          applyExtraction(result);
+          setMode('MANUAL'); // Switch back to manual for verification
+          if (selectedFile) setAttachment(selectedFile);
+          setSelectedFile(null); // Clear file after processing
       } catch (err: any) {
           console.error(err);
-          // Fallback for text-only legacy parser if Gemini fails (only works for text input)
-          if (!selectedFile && ocrText) {
-              const result = parseInvoiceOCR(ocrText);
-              if (result) {
-                  setFormData({
-                      ...formData,
-                      date: result.date || formData.date,
-                      partyName: result.partyName || formData.partyName,
-                      quantityGrams: result.quantity > 0 ? result.quantity.toString() : '',
-                      ratePerGram: result.rate > 0 ? result.rate.toString() : '',
-                      gstRate: result.gstRate ? result.gstRate.toString() : formData.gstRate,
-                      type: result.isSale ? 'SALE' : 'PURCHASE'
-                  });
-                  setMode('MANUAL'); 
-              } else {
-                  setError('Auto-extraction failed. Please enter details manually.');
-              }
-          } else {
-              setError(`Processing failed: ${err.message || "Unknown error"}. Try manual entry.`);
-          }
+          setError(`Processing failed: ${err.message || "Unknown error"}. Try manual entry.`);
       } finally { 
           setIsProcessing(false); 
       }
   };
 
   const calculateTotals = () => {
-    const qty = parseFloat(formData.quantityGrams) || 0;
-    const rate = parseFloat(formData.ratePerGram) || 0;
-    const gst = parseFloat(formData.gstRate) || 0;
-    const taxable = qty * rate;
+    const gst = isOpening ? 0 : parseFloat(formData.gstRate) || 0;
+    const taxable = parsedLines.reduce((sum, l) => sum + l.taxableAmount, 0);
     const gstAmt = taxable * (gst / 100);
-    return { taxable, gstAmt, total: taxable + gstAmt };
+    const fineWeight = parsedLines.reduce((sum, l) => sum + getLineFineGrams(l), 0);
+    return { taxable, gstAmt, total: taxable + gstAmt, fineWeight };
   };
 
-  const { taxable, gstAmt, total } = calculateTotals();
+  const { taxable, gstAmt, total, fineWeight } = calculateTotals();
+  const interState = isInterState(formData.partyState || undefined, firmState);
+  const gstSplit = splitGst(gstAmt, interState);
+  const gstinError = formData.partyGstin ? validateGstin(formData.partyGstin) : null;
+
+  // Scanned values still as read and below the confidence bar; editing one clears it
+  const lineValue = (key: string) => {
+      const [index, field] = key.split('.');
+      return field ? lines[parseInt(index)]?.[field as keyof LineDraft] : formData[index as keyof FormDraft];
+  };
+  const doubtful = scan ? Object.entries(scan.flags).filter(([key, f]) => f.confidence < LOW_CONFIDENCE && lineValue(key) === f.value) : [];
+  const doubtfulKeys = new Map(doubtful);
+  const flagClass = (key: string) => (doubtfulKeys.has(key) ? ' !border-amber-300 !bg-amber-50/70' : '');
+  const flagTitle = (key: string) => {
+      const f = doubtfulKeys.get(key);
+      if (!f) return undefined;
+      return `${Math.round(f.confidence * 100)}% sure. ${f.source ? `Read from: ${f.source}` : 'Not found on the bill, default used.'}`;
+  };
+  const crossChecks = scan && !isOpening ? crossCheckTotals({ taxable, gstRate: parseFloat(formData.gstRate) || 0 }, scan.totals) : [];
+
+  const suggestions = showSuggestions ? searchParties(parties, formData.partyName) : [];
+  const resolver = createPartyResolver(parties);
+  const party = formData.partyName ? resolver.find({ partyId: formData.partyId || undefined, partyName: formData.partyName, partyGstin: formData.partyGstin || undefined }) : undefined;
+  // An edited sale's outstanding is already in receivables; it is replaced by the new total less what was paid or credited on it
+  const ownBalance = editing && editingBalance?.direction === 'RECEIVED' && editingBalance.partyKey === party?.id ? editingBalance : undefined;
+  const creditUsed = party ? (receivables[party.id] || 0) - (ownBalance?.outstanding || 0) : 0;
+  const creditAdded = Math.max(0, total - (ownBalance ? ownBalance.paid + ownBalance.credited : 0));
+  const overLimit = formData.type === 'SALE' && party?.creditLimit !== undefined && creditUsed + creditAdded > party.creditLimit;
+
+  const selectParty = (p: Party) => {
+      setShowSuggestions(false);
+      setFormData(prev => ({ ...prev, partyName: p.name, partyId: p.id, partyGstin: p.gstin || '', partyState: p.state || '' }));
+  };
+
+  const handleGstinChange = (value: string) => {
+      const gstin = normalizeGstin(value);
+      // A valid GSTIN fixes the party's state
+      const state = !validateGstin(gstin) ? getGstinStateCode(gstin) : undefined;
+      setFormData(prev => ({ ...prev, partyGstin: gstin, partyState: state || prev.partyState }));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     if (lockDate && formData.date <= lockDate) { setError(`Date Locked! Cannot add before ${lockDate}.`); return; }
-    if (!formData.partyName || !formData.quantityGrams || !formData.ratePerGram) { setError('Fill all required fields.'); return; }
-    const qty = parseFloat(formData.quantityGrams);
-    if (formData.type === 'SALE' && qty > currentStock) { setError(`Insufficient Inventory! Avail: ${currentStock.toFixed(3)}g`); return; }
-
-    onAdd({
-        id: generateId(), date: formData.date, type: formData.type, partyName: formData.partyName,
-        quantityGrams: qty, ratePerGram: parseFloat(formData.ratePerGram), gstRate: parseFloat(formData.gstRate),
-        gstAmount: gstAmt, taxableAmount: taxable, totalAmount: total
-    });
-    setFormData({ date: new Date().toISOString().split('T')[0], type: 'PURCHASE', partyName: '', quantityGrams: '', ratePerGram: '', gstRate: '3' });
+    if (sameDayOnly && formData.date !== new Date().toISOString().split('T')[0]) { setError("Your role can only enter today's invoices."); return; }
+    if ((!formData.partyName && !isOpening) || lines.some(l => !l.netWeight || !l.ratePerGram)) { setError('Fill all required fields.'); return; }
+    if (gstinError && !isOpening) { setError(`Party GSTIN: ${gstinError}`); return; }
+    if (formData.dueDate && formData.dueDate < formData.date && !isOpening) { setError('Due date cannot be before the invoice date.'); return; }
+    if (parsedLines.some(l => l.netWeight <= 0 || (l.grossWeight < l.netWeight))) { setError('Net weight must be positive and not exceed gross weight.'); return; }
+
+    // Stock check per metal pool, across all lines
+    const fineByMetal: Partial<Record<Metal, number>> = {};
+    parsedLines.forEach(l => { const m = getMetal(l); fineByMetal[m] = (fineByMetal[m] || 0) + getLineFineGrams(l); });
+    // When editing, the ledger replay in the impact preview does the stock check instead; scanned bills are checked on approval
+    if (formData.type === 'SALE' && !editing && !reviewing) {
+        const short = (Object.keys(fineByMetal) as Metal[]).find(m => (fineByMetal[m] || 0) > (availableStock[m] || 0) + 0.0001);
+        if (short) { setError(`Insufficient ${METAL_LABELS[short]}! Avail: ${(availableStock[short] || 0).toFixed(3)}g fine`); return; }
+    }
+
+    let lotSelection: LotSelection[] | undefined;
+    if (showLotPicker) {
+        lotSelection = Object.entries(lotGrams)
+            .map(([batchId, grams]) => ({ batchId, grams: parseFloat(grams) || 0 }))
+            .filter(sel => sel.grams > 0);
+        const picked = lotSelection.reduce((acc, sel) => acc + sel.grams, 0);
+        if (picked > fineWeight + 0.0001) { setError(`Selected lots (${picked.toFixed(3)}g fine) exceed sale quantity.`); return; }
+        const overdrawn = lotSelection.find(sel => {
+            const batch = openBatches.find(b => b.id === sel.batchId);
+            return sel.grams > (batch ? lotRemaining(batch) : 0) + 0.0001;
+        });
+        if (overdrawn) { setError('A selected lot does not have that many grams left.'); return; }
+        if (lotSelection.length === 0) lotSelection = undefined;
+    }
+
+    const summary = summarizeLines(parsedLines);
+    const accepted = onAdd({
+        id: editing ? editing.id : generateId(), date: formData.date, type: formData.type, partyName: isOpening ? OPENING_STOCK_PARTY : formData.partyName,
+        metal: summary.metal, purity: summary.purity,
+        quantityGrams: summary.quantityGrams, ratePerGram: summary.ratePerGram, gstRate: isOpening ? 0 : parseFloat(formData.gstRate),
+        gstAmount: gstAmt, taxableAmount: taxable, totalAmount: total,
+        ...gstSplit,
+        ...(formData.partyId && !isOpening ? { partyId: formData.partyId } : {}),
+        ...(formData.billNumber.trim() && !isOpening ? { billNumber: formData.billNumber.trim() } : {}),
+        ...(formData.partyGstin && !isOpening ? { partyGstin: formData.partyGstin } : {}),
+        ...(formData.partyState && !isOpening ? { partyState: formData.partyState } : {}),
+        ...(formData.dueDate && !isOpening ? { dueDate: formData.dueDate } : {}),
+        ...(editing?.documentId ? { documentId: editing.documentId } : {}),
+        lines: parsedLines,
+        ...(lotSelection ? { lotSelection } : {})
+    }, attachment || undefined);
+    if (accepted === false || editing || reviewing) return;
+    setFormData(blankForm());
+    setLines([emptyLine(lines[0].metal)]);
+    setLotGrams({});
+    setScan(null);
     setOcrText('');
     setSelectedFile(null);
+    setAttachment(null);
   };
 
   const inputClass = "w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all placeholder:text-slate-400 hover:border-slate-300";
@@ -214,14 +409,18 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
         <div className="px-5 py-4 border-b border-slate-50 flex justify-between items-center bg-white">
             <h2 className="font-bold text-slate-900 flex items-center gap-2">
                 <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Calculator className="w-4 h-4"/></div>
-                <span className="hidden sm:inline">Transaction Entry</span>
-                <span className="sm:hidden">Entry</span>
+                <span className="hidden sm:inline">{reviewing ? 'Review Scanned Bill' : editing ? 'Edit Invoice' : 'Transaction Entry'}</span>
+                <span className="sm:hidden">{reviewing ? 'Review' : editing ? 'Edit' : 'Entry'}</span>
             </h2>
-            <div className="flex bg-slate-100 p-1 rounded-xl scale-90 origin-right">
-                {['MANUAL', 'UPLOAD'].map(m => (
-                    <button key={m} onClick={() => setMode(m as any)} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${mode === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}>{m === 'MANUAL' ? 'Manual' : 'AI Scan'}</button>
-                ))}
-            </div>
+            {editing || reviewing ? (
+                <button onClick={onCancelEdit} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:text-slate-900 hover:bg-slate-50"><X className="w-3.5 h-3.5"/> Cancel</button>
+            ) : (
+                <div className="flex bg-slate-100 p-1 rounded-xl scale-90 origin-right">
+                    {['MANUAL', 'UPLOAD'].map(m => (
+                        <button key={m} onClick={() => setMode(m as any)} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${mode === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}>{m === 'MANUAL' ? 'Manual' : 'AI Scan'}</button>
+                    ))}
+                </div>
+            )}
         </div>
 
         <div className="p-5 flex flex-col gap-4">
@@ -238,7 +437,7 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
                     />
                     
                     <div 
-                        onClick={() => fileInputRef.current?.click()}
+                        onClick={() => extractor.readsDocuments && fileInputRef.current?.click()}
                         className={`border-2 border-dashed rounded-2xl p-6 flex flex-col items-center justify-center transition-all cursor-pointer relative group overflow-hidden min-h-[250px]
                             ${selectedFile ? 'border-gold-400 bg-gold-50/20' : 'border-slate-200 hover:bg-slate-50 hover:border-gold-400'}`}
                     >
@@ -261,15 +460,15 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
                                 <div className="w-12 h-12 bg-slate-100 rounded-full flex items-center justify-center mb-3 text-slate-400 group-hover:scale-110 transition-transform group-hover:text-gold-500 group-hover:bg-gold-50">
                                     <UploadCloud className="w-6 h-6" />
                                 </div>
-                                <p className="font-medium text-slate-900 text-center text-sm">Click to Upload PDF Invoice</p>
-                                <p className="text-xs text-slate-400 mt-1">or paste extracted text below</p>
+                                <p className="font-medium text-slate-900 text-center text-sm">{extractor.readsDocuments ? 'Click to Upload PDF Invoice' : 'Paste the bill text below'}</p>
+                                <p className="text-xs text-slate-400 mt-1">{extractor.readsDocuments ? 'or paste extracted text below' : `${extractor.label} reads text only`}</p>
                             </>
                         )}
 
                         {/* Fallback Text Area for Manual Paste if no file */}
                         {!selectedFile && (
                             <textarea 
-                                className="absolute inset-x-0 bottom-0 h-1/3 opacity-0 group-hover:opacity-100 transition-opacity p-4 text-xs font-mono bg-white/90 border-t border-slate-200 focus:opacity-100 focus:bg-white outline-none resize-none" 
+                                className={`absolute inset-x-0 bottom-0 h-1/3 ${extractor.readsDocuments ? 'opacity-0' : 'opacity-100'} group-hover:opacity-100 transition-opacity p-4 text-xs font-mono bg-white/90 border-t border-slate-200 focus:opacity-100 focus:bg-white outline-none resize-none`} 
                                 placeholder="Alternatively, paste text content here..."
                                 value={ocrText}
                                 onClick={(e) => e.stopPropagation()}
@@ -286,62 +485,216 @@ const InvoiceForm: React.FC<InvoiceFormProps> = ({ onAdd, currentStock, lockDate
                         {isProcessing ? <Loader2 className="w-4 h-4 animate-spin text-gold-400"/> : <Sparkles className="w-4 h-4 text-gold-400"/>} 
                         {selectedFile ? 'Process Document' : 'Process Text'}
                     </button>
+                    <p className="text-[10px] text-slate-400 text-center">Using {extractor.label}. Change it in Settings.</p>
                 </div>
             ) : (
                 <form onSubmit={handleSubmit} className="space-y-4 animate-fade-in">
+                    {(doubtful.length > 0 || crossChecks.length > 0) && (
+                        <div className="p-3 bg-amber-50 border border-amber-100 text-amber-800 text-xs rounded-xl space-y-1.5">
+                            {doubtful.length > 0 && <p className="font-bold flex items-center gap-1.5"><AlertTriangle className="w-3.5 h-3.5 flex-shrink-0"/> Check {doubtful.length} value{doubtful.length > 1 ? 's' : ''} marked in amber against the bill</p>}
+                            {doubtful.map(([key, f]) => (
+                                <p key={key} className="flex gap-2">
+                                    <span className="font-bold whitespace-nowrap">{flagLabel(key)}</span>
+                                    <span className="font-mono text-amber-700 whitespace-nowrap">{Math.round(f.confidence * 100)}%</span>
+                                    <span className="truncate" title={f.source}>{f.source ? `"${f.source}"` : 'not on the bill, default used'}</span>
+                                </p>
+                            ))}
+                            {crossChecks.map(warning => <p key={warning} className="flex items-start gap-1.5"><Calculator className="w-3.5 h-3.5 flex-shrink-0 mt-px"/>{warning}</p>)}
+                        </div>
+                    )}
                     <div className="flex gap-4">
                         <div className="flex-1">
                              <label className={labelClass}>Type</label>
-                             <div className="flex bg-slate-100 rounded-xl p-1">
+                             <div className={`flex bg-slate-100 rounded-xl p-1 ${doubtfulKeys.has('type') ? 'ring-2 ring-amber-300' : ''}`} title={flagTitle('type')}>
                                  <button type="button" onClick={() => setFormData({...formData, type: 'PURCHASE'})} className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-all ${formData.type === 'PURCHASE' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>BUY</button>
                                  <button type="button" onClick={() => setFormData({...formData, type: 'SALE'})} className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-all ${formData.type === 'SALE' ? 'bg-white text-green-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>SELL</button>
+                                 <button type="button" onClick={() => setFormData({...formData, type: 'OPENING'})} title="Opening stock" className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-all ${formData.type === 'OPENING' ? 'bg-white text-amber-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>OPEN</button>
                              </div>
                         </div>
                         <div className="flex-[1.5]">
-                            <label className={labelClass}>Date</label>
-                            <SingleDatePicker 
-                                value={formData.date} 
-                                onChange={(d) => setFormData({...formData, date: d})} 
-                                className={inputClass} 
-                            />
+                            <label className={labelClass}>{isOpening ? 'As of Date' : 'Date'}</label>
+                            {sameDayOnly ? (
+                                <div className={`${inputClass} flex items-center gap-2 text-slate-500`} title="Your role can only enter today's invoices"><Lock className="w-3.5 h-3.5"/>{formData.date}</div>
+                            ) : (
+                                <div title={flagTitle('date')}>
+                                    <SingleDatePicker 
+                                        value={formData.date} 
+                                        onChange={(d) => setFormData({...formData, date: d})} 
+                                        className={inputClass + flagClass('date')} 
+                                    />
+                                </div>
+                            )}
                         </div>
                     </div>
 
-                    <div>
+                    {isOpening ? (
+                        <p className="p-3 bg-amber-50 border border-amber-100 text-amber-800 text-xs rounded-xl">Stock on hand before these books start, valued at cost. It opens lots like a purchase but has no supplier or GST and stays out of supplier and purchase analytics.</p>
+                    ) : (
+                    <>
+                    <div className="relative">
                         <label className={labelClass}>{formData.type === 'PURCHASE' ? 'Supplier Name' : 'Customer Name'}</label>
-                        <input type="text" placeholder="Enter Name..." value={formData.partyName} onChange={(e) => setFormData({...formData, partyName: e.target.value})} className={inputClass} />
+                        <input type="text" placeholder="Enter Name..." autoComplete="off" value={formData.partyName} onChange={(e) => { setFormData({...formData, partyName: e.target.value, partyId: ''}); setShowSuggestions(true); }} onFocus={() => setShowSuggestions(true)} onBlur={() => setShowSuggestions(false)} title={flagTitle('partyName')} className={inputClass + flagClass('partyName')} />
+                        {suggestions.length > 0 && (
+                            <div className="absolute z-20 left-0 right-0 mt-1 bg-white border border-slate-200 rounded-xl shadow-lg overflow-hidden">
+                                {suggestions.map(p => (
+                                    // onMouseDown runs before the input's blur hides the list
+                                    <button key={p.id} type="button" onMouseDown={(e) => { e.preventDefault(); selectParty(p); }} className="w-full text-left px-3 py-2 hover:bg-gold-50 border-b border-slate-50 last:border-0">
+                                        <p className="text-sm font-medium text-slate-800">{p.name}</p>
+                                        <p className="text-[10px] text-slate-400">{[p.gstin || 'Unregistered', p.phone, `KYC ${KYC_STATUS_LABELS[p.kycStatus].toLowerCase()}`].filter(Boolean).join(' · ')}</p>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {formData.partyName.trim() && !party && <p className="text-[10px] text-slate-400 mt-1">New party; it will be added to the party master.</p>}
+                        {overLimit && <p className="text-[10px] text-amber-600 mt-1">Takes {party!.name} to {formatCurrency(creditUsed + creditAdded)} against a credit limit of {formatCurrency(party!.creditLimit!)}.</p>}
+                    </div>
+
+                    <div className="flex gap-4">
+                        <div className="flex-[1.5]">
+                            <label className={labelClass}>{formData.type === 'PURCHASE' ? "Supplier's Bill No" : 'Bill No'}</label>
+                            <input type="text" placeholder="As printed on the bill" value={formData.billNumber} onChange={(e) => setFormData({...formData, billNumber: e.target.value})} title={flagTitle('billNumber')} className={`${inputClass} font-mono${flagClass('billNumber')}`} />
+                        </div>
+                        <div className="flex-1">
+                            <label className={labelClass}>Due Date</label>
+                            <SingleDatePicker value={formData.dueDate || null} onChange={(d) => setFormData({...formData, dueDate: d})} placeholder="On receipt" className={inputClass} />
+                        </div>
                     </div>
 
-                    <div className="grid grid-cols-3 gap-3">
-                        <div className="col-span-1">
-                             <label className={labelClass}>Grams</label>
-                             <input type="number" step="0.001" placeholder="0.000" value={formData.quantityGrams} onChange={(e) => setFormData({...formData, quantityGrams: e.target.value})} className={`${inputClass} font-mono px-2`} />
+                    <div className="flex gap-4">
+                        <div className="flex-[1.5]">
+                            <label className={labelClass}>GSTIN</label>
+                            <input type="text" maxLength={15} placeholder="Unregistered" value={formData.partyGstin} onChange={(e) => handleGstinChange(e.target.value)} title={flagTitle('partyGstin')} className={`${inputClass} font-mono uppercase ${gstinError ? 'border-red-300 focus:border-red-500 focus:ring-red-500/20' : flagClass('partyGstin')}`} />
+                            {gstinError && <p className="text-[10px] text-red-500 mt-1">{gstinError}</p>}
                         </div>
-                        <div className="col-span-1">
-                             <label className={labelClass}>Rate</label>
-                             <input type="number" step="0.01" placeholder="0.00" value={formData.ratePerGram} onChange={(e) => setFormData({...formData, ratePerGram: e.target.value})} className={`${inputClass} font-mono px-2`} />
+                        <div className="flex-1">
+                            <label className={labelClass}>{formData.type === 'PURCHASE' ? 'Supplier State' : 'Place of Supply'}</label>
+                            <select value={formData.partyState} onChange={(e) => setFormData({...formData, partyState: e.target.value})} disabled={!!formData.partyGstin && !gstinError} className={`${inputClass} px-2`}>
+                                <option value="">Same as firm</option>
+                                {Object.entries(GST_STATES).map(([code, name]) => <option key={code} value={code}>{code} - {name}</option>)}
+                            </select>
                         </div>
-                        <div className="col-span-1">
-                             <label className={labelClass}>GST %</label>
-                             <input type="number" step="0.1" value={formData.gstRate} onChange={(e) => setFormData({...formData, gstRate: e.target.value})} className={`${inputClass} font-mono px-2`} />
+                    </div>
+                    </>
+                    )}
+
+                    <div className="space-y-3">
+                        {lines.map((line, index) => (
+                            <div key={index} className="rounded-xl border border-slate-200 bg-slate-50/50 p-3 space-y-2.5">
+                                <div className="flex justify-between items-center">
+                                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Item {index + 1}</span>
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-[10px] font-mono text-slate-500">{formatCurrency(parsedLines[index].taxableAmount)}</span>
+                                        {lines.length > 1 && <button type="button" onClick={() => removeLine(index)} className="p-1 text-slate-400 hover:text-red-500 rounded-md hover:bg-red-50 transition-colors"><Trash2 className="w-3.5 h-3.5"/></button>}
+                                    </div>
+                                </div>
+                                <div className="flex gap-2">
+                                    <div className="flex bg-slate-100 rounded-xl p-1 flex-1">
+                                        {METALS.map(m => (
+                                            <button key={m} type="button" onClick={() => changeLineMetal(index, m)} className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-all ${line.metal === m ? 'bg-white text-gold-700 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>{METAL_LABELS[m].toUpperCase()}</button>
+                                        ))}
+                                    </div>
+                                    <select value={line.purity} onChange={(e) => updateLine(index, { purity: e.target.value })} title={flagTitle(`${index}.purity`)} className={`${inputClass} font-mono flex-1 px-2${flagClass(`${index}.purity`)}`}>
+                                        {PURITY_OPTIONS[line.metal].map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                        {!PURITY_OPTIONS[line.metal].some(o => o.value.toString() === line.purity) && <option value={line.purity}>{line.purity}</option>}
+                                    </select>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <input type="text" placeholder="Description" value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} className={`${inputClass} col-span-2 px-2`} />
+                                    <input type="text" placeholder="HSN" value={line.hsn} onChange={(e) => updateLine(index, { hsn: e.target.value })} className={`${inputClass} font-mono px-2`} />
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <div>
+                                        <label className={labelClass}>Gross g</label>
+                                        <input type="number" step="0.001" placeholder="0.000" value={line.grossWeight} onChange={(e) => updateLine(index, { grossWeight: e.target.value })} title={flagTitle(`${index}.grossWeight`)} className={`${inputClass} font-mono px-2${flagClass(`${index}.grossWeight`)}`} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Net g</label>
+                                        <input type="number" step="0.001" placeholder="0.000" value={line.netWeight} onChange={(e) => updateLine(index, { netWeight: e.target.value })} title={flagTitle(`${index}.netWeight`)} className={`${inputClass} font-mono px-2${flagClass(`${index}.netWeight`)}`} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>{isOpening ? 'Cost/g' : 'Rate'}</label>
+                                        <input type="number" step="0.01" placeholder="0.00" value={line.ratePerGram} onChange={(e) => updateLine(index, { ratePerGram: e.target.value })} title={flagTitle(`${index}.ratePerGram`)} className={`${inputClass} font-mono px-2${flagClass(`${index}.ratePerGram`)}`} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Making</label>
+                                        <input type="number" step="0.01" placeholder="0.00" value={line.makingCharges} onChange={(e) => updateLine(index, { makingCharges: e.target.value })} title={flagTitle(`${index}.makingCharges`)} className={`${inputClass} font-mono px-2${flagClass(`${index}.makingCharges`)}`} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Wastage %</label>
+                                        <input type="number" step="0.01" placeholder="0" value={line.wastagePercent} onChange={(e) => updateLine(index, { wastagePercent: e.target.value })} title={flagTitle(`${index}.wastagePercent`)} className={`${inputClass} font-mono px-2${flagClass(`${index}.wastagePercent`)}`} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Stones</label>
+                                        <input type="number" step="0.01" placeholder="0.00" value={line.stoneValue} onChange={(e) => updateLine(index, { stoneValue: e.target.value })} title={flagTitle(`${index}.stoneValue`)} className={`${inputClass} font-mono px-2${flagClass(`${index}.stoneValue`)}`} />
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                        <div className="flex gap-3 items-end">
+                            <button type="button" onClick={() => setLines([...lines, emptyLine(lines[lines.length - 1].metal)])} className="flex-1 py-2.5 border border-dashed border-slate-300 rounded-xl text-xs font-bold text-slate-500 hover:border-gold-400 hover:text-gold-700 hover:bg-gold-50/30 transition-all flex items-center justify-center gap-1.5"><Plus className="w-3.5 h-3.5"/> Add Item</button>
+                            {!isOpening && (
+                                <div className="w-24">
+                                    <label className={labelClass}>GST %</label>
+                                    <input type="number" step="0.1" value={formData.gstRate} onChange={(e) => setFormData({...formData, gstRate: e.target.value})} title={flagTitle('gstRate')} className={`${inputClass} font-mono px-2${flagClass('gstRate')}`} />
+                                </div>
+                            )}
                         </div>
                     </div>
                     
-                    <div className="pt-2">
-                        <label className={labelClass}>Taxable Total (Auto-Calc Rate)</label>
-                        <input type="number" value={getTaxableTotal()} onChange={(e) => handleTotalChange(e.target.value)} disabled={!parseFloat(formData.quantityGrams)} className={`${inputClass} font-mono ${!parseFloat(formData.quantityGrams) ? 'bg-slate-100' : 'bg-gold-50/30 border-gold-200 text-gold-900'}`} />
-                    </div>
+                    {showLotPicker && (
+                        <div className="rounded-xl border border-slate-200 bg-slate-50/50 p-3 space-y-2">
+                            <label className={`${labelClass} flex items-center gap-1.5`}><Layers className="w-3 h-3"/> Pick Lots (rest taken FIFO)</label>
+                            <div className="max-h-40 overflow-y-auto space-y-1.5">
+                                {metalBatches.map(b => (
+                                    <div key={b.id} className="flex items-center gap-2 text-xs">
+                                        <span className="font-mono text-slate-500 w-20">{b.date}</span>
+                                        {lineMetals.size > 1 && <span className="text-[10px] font-bold text-gold-700">{METAL_LABELS[getMetal(b)]}</span>}
+                                        <span className="flex-1 font-mono text-slate-600 truncate">{formatGrams(lotRemaining(b))} @ {formatCurrency(b.costPerGram)}</span>
+                                        <input type="number" step="0.001" placeholder="0.000" value={lotGrams[b.id] || ''} onChange={(e) => setLotGrams({...lotGrams, [b.id]: e.target.value})} className="w-24 px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono text-right outline-none focus:border-gold-500" />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {lines.length === 1 && (
+                        <div className="pt-2">
+                            <label className={labelClass}>{isOpening ? 'Total Cost (Auto-Calc Rate)' : 'Taxable Total (Auto-Calc Rate)'}</label>
+                            <input type="number" value={getTaxableTotal()} onChange={(e) => handleTotalChange(e.target.value)} disabled={!parseFloat(lines[0].netWeight)} className={`${inputClass} font-mono ${!parseFloat(lines[0].netWeight) ? 'bg-slate-100' : 'bg-gold-50/30 border-gold-200 text-gold-900'}`} />
+                        </div>
+                    )}
 
                     <div className="mt-4 bg-slate-900 rounded-xl p-5 text-white relative overflow-hidden shadow-lg">
                         <div className="absolute top-0 right-0 w-32 h-32 bg-gold-500/20 rounded-full blur-3xl -mr-10 -mt-10"></div>
                         <div className="relative z-10 space-y-1">
+                            <div className="flex justify-between text-xs text-slate-400"><span>Fine Weight</span><span className="font-mono text-slate-200">{formatGrams(fineWeight)}</span></div>
                             <div className="flex justify-between text-xs text-slate-400"><span>Taxable</span><span className="font-mono text-slate-200">{taxable.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
-                            <div className="flex justify-between text-xs text-slate-400"><span>GST</span><span className="font-mono text-slate-200">{gstAmt.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
+                            {isOpening ? null : interState ? (
+                                <div className="flex justify-between text-xs text-slate-400"><span>IGST</span><span className="font-mono text-slate-200">{gstSplit.igstAmount.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
+                            ) : (
+                                <>
+                                    <div className="flex justify-between text-xs text-slate-400"><span>CGST</span><span className="font-mono text-slate-200">{gstSplit.cgstAmount.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
+                                    <div className="flex justify-between text-xs text-slate-400"><span>SGST</span><span className="font-mono text-slate-200">{gstSplit.sgstAmount.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
+                                </>
+                            )}
                             <div className="my-2 border-t border-slate-700"></div>
-                            <div className="flex justify-between items-center"><span className="font-bold text-gold-400 uppercase tracking-widest text-[10px]">Net Payable</span><span className="font-mono text-xl font-bold">{total.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
+                            <div className="flex justify-between items-center"><span className="font-bold text-gold-400 uppercase tracking-widest text-[10px]">{isOpening ? 'Stock Value' : 'Net Payable'}</span><span className="font-mono text-xl font-bold">{total.toLocaleString('en-IN', {style: 'currency', currency: 'INR'})}</span></div>
                         </div>
                     </div>
-                    <button type="submit" className="w-full bg-gradient-to-r from-gold-500 to-gold-600 text-white font-bold py-3.5 rounded-xl shadow-lg shadow-gold-500/20 hover:shadow-gold-500/30 hover:-translate-y-0.5 transition-all flex items-center justify-center gap-2 text-sm"><CheckCircle className="w-4 h-4" /> Confirm Transaction</button>
+                    {!editing && !reviewing && (
+                        <div className="flex items-center justify-between gap-2 text-xs">
+                            <input type="file" accept="application/pdf,image/*" ref={attachInputRef} onChange={(e) => { setAttachment(e.target.files?.[0] || null); e.target.value = ''; }} className="hidden" />
+                            {attachment ? (
+                                <>
+                                    <span className="flex items-center gap-1.5 font-bold text-slate-700 truncate"><Paperclip className="w-3.5 h-3.5 text-gold-600 flex-shrink-0"/> {attachment.name} <span className="font-normal text-slate-400">({(attachment.size / 1024).toFixed(1)} KB)</span></span>
+                                    <button type="button" onClick={() => setAttachment(null)} className="p-1 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50" title="Remove attached bill"><X className="w-3.5 h-3.5"/></button>
+                                </>
+                            ) : (
+                                <button type="button" onClick={() => attachInputRef.current?.click()} className="flex items-center gap-1.5 font-bold text-slate-500 hover:text-gold-700"><Paperclip className="w-3.5 h-3.5"/> Attach original bill</button>
+                            )}
+                        </div>
+                    )}
+                    <button type="submit" className="w-full bg-gradient-to-r from-gold-500 to-gold-600 text-white font-bold py-3.5 rounded-xl shadow-lg shadow-gold-500/20 hover:shadow-gold-500/30 hover:-translate-y-0.5 transition-all flex items-center justify-center gap-2 text-sm"><CheckCircle className="w-4 h-4" /> {reviewing ? 'Mark as Reviewed' : editing ? `Review Changes to ${editing.id}` : 'Confirm Transaction'}</button>
                 </form>
             )}
         </div>
@@ -1,6 +1,8 @@
 
 import React from 'react';
-import { LayoutDashboard, FileText, Package, PieChart, ShieldCheck, LineChart, Users, Briefcase, Factory, Search } from 'lucide-react';
+import { UserAccount } from '../types';
+import { ROLE_LABELS } from '../services/authService';
+import { LayoutDashboard, FileText, Package, PieChart, ShieldCheck, LineChart, Users, Briefcase, Factory, Search, Settings, Receipt, LogOut, History, ClipboardCheck, Wallet, BookUser, Layers } from 'lucide-react';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -8,19 +10,29 @@ interface LayoutProps {
   onTabChange: (tab: string) => void;
   searchQuery?: string;
   onSearch?: (query: string) => void;
+  user?: UserAccount;
+  onSignOut?: () => void;
+  hiddenTabs?: string[]; // Tabs the signed-in role cannot use
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange, searchQuery = '', onSearch }) => {
+const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange, searchQuery = '', onSearch, user, onSignOut, hiddenTabs = [] }) => {
   const navItems = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'invoices', label: 'Invoices', icon: FileText },
+    { id: 'scan-queue', label: 'Scan Queue', icon: Layers },
     { id: 'inventory', label: 'Inventory', icon: Package },
+    { id: 'stock-count', label: 'Stock Count', icon: ClipboardCheck },
+    { id: 'payments', label: 'Payments', icon: Wallet },
+    { id: 'parties', label: 'Parties', icon: BookUser },
     { id: 'analytics', label: 'Analytics', icon: PieChart },
     { id: 'price-analysis', label: 'Prices', icon: LineChart },
     { id: 'customer-insights', label: 'Customers', icon: Users },
     { id: 'supplier-insights', label: 'Suppliers', icon: Factory },
     { id: 'business-ledger', label: 'Ledger', icon: Briefcase },
-  ];
+    { id: 'gst-returns', label: 'GST Returns', icon: Receipt },
+    { id: 'audit', label: 'Audit Trail', icon: History },
+    { id: 'settings', label: 'Settings', icon: Settings },
+  ].filter(item => !hiddenTabs.includes(item.id));
 
   const formatTitle = (id: string) => {
       return id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
@@ -67,12 +79,17 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange, searc
         <div className="p-4 m-4 rounded-2xl bg-slate-900/50 border border-slate-800 backdrop-blur-sm">
             <div className="flex items-center gap-3">
                 <div className="w-10 h-10 rounded-full bg-gradient-to-br from-slate-700 to-slate-800 border border-slate-600 flex items-center justify-center text-white font-bold shadow-lg">
-                    BO
+                    {user ? user.name.substring(0, 2).toUpperCase() : 'BO'}
                 </div>
-                <div className="overflow-hidden">
-                    <p className="text-sm font-semibold text-white truncate">Business Owner</p>
-                    <p className="text-xs text-slate-500 truncate">Private Ledger</p>
+                <div className="overflow-hidden flex-1">
+                    <p className="text-sm font-semibold text-white truncate">{user ? user.name : 'Business Owner'}</p>
+                    <p className="text-xs text-slate-500 truncate">{user ? ROLE_LABELS[user.role] : 'Private Ledger'}</p>
                 </div>
+                {onSignOut && (
+                    <button onClick={onSignOut} title="Sign out" className="p-2 rounded-lg text-slate-500 hover:text-white hover:bg-slate-800 transition-colors">
+                        <LogOut className="w-4 h-4" />
+                    </button>
+                )}
             </div>
         </div>
       </aside>
@@ -86,7 +103,13 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange, searc
                    </div>
                    <span className="font-bold text-lg">BullionKeep</span>
                </div>
-               <div className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">Mobile AI</div>
+               {onSignOut ? (
+                   <button onClick={onSignOut} className="flex items-center gap-1.5 text-[10px] text-slate-400 uppercase font-bold tracking-widest">
+                       {user?.name} <LogOut className="w-3.5 h-3.5" />
+                   </button>
+               ) : (
+                   <div className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">Mobile AI</div>
+               )}
            </div>
            
            {/* Mobile Search */}
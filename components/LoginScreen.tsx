@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { UserAccount } from '../types';
+import { authenticate, createUser } from '../services/authService';
+import { ShieldCheck, AlertTriangle, Loader2, LogIn, UserPlus } from 'lucide-react';
+
+interface LoginScreenProps {
+  users: UserAccount[];
+  onLogin: (user: UserAccount) => void;
+  onCreateOwner: (user: UserAccount) => void;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ users, onLogin, onCreateOwner }) => {
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  // First run: there is nobody to sign in as yet
+  const setup = users.length === 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setError('');
+      if (setup && password !== confirmPassword) { setError('Passwords do not match.'); return; }
+      setBusy(true);
+      try {
+          if (setup) onCreateOwner(await createUser(users, name, 'OWNER', password));
+          else onLogin(await authenticate(users, name, password));
+      } catch (err: any) {
+          setError(err.message);
+          setPassword('');
+      } finally {
+          setBusy(false);
+      }
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all placeholder:text-slate-400 hover:border-slate-300";
+  const labelClass = "block text-[10px] font-bold text-slate-500 mb-1.5 uppercase tracking-wider";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-950 p-4">
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl p-8 w-full max-w-sm space-y-5 animate-slide-up">
+            <div className="flex flex-col items-center text-center gap-3">
+                <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-gold-400 to-gold-600 flex items-center justify-center shadow-glow text-white">
+                    <ShieldCheck className="w-7 h-7" />
+                </div>
+                <div>
+                    <h1 className="text-xl font-bold text-slate-900">BullionKeep</h1>
+                    <p className="text-xs text-slate-500 mt-1">{setup ? 'Create the Owner account to get started.' : 'Sign in to continue.'}</p>
+                </div>
+            </div>
+            {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+            <div>
+                <label className={labelClass}>User Name</label>
+                <input type="text" autoComplete="username" autoFocus value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+                <label className={labelClass}>Password</label>
+                <input type="password" autoComplete={setup ? 'new-password' : 'current-password'} value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+            </div>
+            {setup && (
+                <div>
+                    <label className={labelClass}>Confirm Password</label>
+                    <input type="password" autoComplete="new-password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} className={inputClass} />
+                </div>
+            )}
+            <button type="submit" disabled={busy || !name || !password} className="w-full py-3 bg-slate-900 text-white text-sm font-bold rounded-xl hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center justify-center gap-2">
+                {busy ? <Loader2 className="w-4 h-4 animate-spin"/> : setup ? <UserPlus className="w-4 h-4"/> : <LogIn className="w-4 h-4"/>} {setup ? 'Create Owner' : 'Sign In'}
+            </button>
+        </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
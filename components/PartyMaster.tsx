@@ -0,0 +1,264 @@
+import React, { useState, useMemo } from 'react';
+import { Invoice, KycStatus, Party, Payment } from '../types';
+import { KYC_STATUS_LABELS, buildParty, createPartyResolver, findLikelyDuplicates, hasParty, normalizePartyName } from '../services/partyService';
+import { getPartyBalances } from '../services/paymentService';
+import { GST_STATES, formatState } from '../services/gstService';
+import { formatCurrency } from '../utils';
+import { BookUser, AlertTriangle, CheckCircle, Plus, Pencil, Merge, Search, X, FileText } from 'lucide-react';
+
+interface PartyMasterProps {
+  parties: Party[];
+  invoices: Invoice[];
+  payments: Payment[];
+  canManage: boolean;
+  onSave: (party: Party) => boolean; // False when it was refused
+  onMerge: (keepId: string, duplicateId: string) => void;
+  onStatement: (partyId: string) => void;
+}
+
+// Party being edited as typed into the form
+const emptyDraft = () => ({ name: '', aliases: '', gstin: '', pan: '', state: '', phone: '', address: '', creditLimit: '', kycStatus: 'NOT_COLLECTED' as KycStatus });
+
+const toDraft = (p: Party) => ({
+  name: p.name, aliases: p.aliases.join(', '), gstin: p.gstin || '', pan: p.pan || '', state: p.state || '', phone: p.phone || '',
+  address: p.address || '', creditLimit: p.creditLimit !== undefined ? p.creditLimit.toString() : '', kycStatus: p.kycStatus
+});
+
+const KYC_STYLES: Record<KycStatus, string> = {
+  NOT_COLLECTED: 'bg-slate-100 text-slate-500',
+  PENDING: 'bg-amber-50 text-amber-700',
+  VERIFIED: 'bg-green-50 text-green-700'
+};
+
+const PartyMaster: React.FC<PartyMasterProps> = ({ parties, invoices, payments, canManage, onSave, onMerge, onStatement }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while adding
+  const [draft, setDraft] = useState(emptyDraft());
+  const [error, setError] = useState('');
+  const [mergeFrom, setMergeFrom] = useState('');
+  const [mergeInto, setMergeInto] = useState('');
+  const today = new Date().toISOString().split('T')[0];
+
+  const balances = useMemo(() => new Map(getPartyBalances(invoices, payments, today, parties).map(b => [b.partyKey, b])), [invoices, payments, today, parties]);
+  const invoiceCounts = useMemo(() => {
+      const resolver = createPartyResolver(parties);
+      const counts = new Map<string, number>();
+      invoices.filter(hasParty).forEach(inv => { const key = resolver.keyOf(inv); counts.set(key, (counts.get(key) || 0) + 1); });
+      return counts;
+  }, [invoices, parties]);
+  const duplicates = useMemo(() => findLikelyDuplicates(parties), [parties]);
+
+  const q = normalizePartyName(query);
+  const visible = parties
+      .filter(p => !q || [p.name, ...p.aliases].some(n => normalizePartyName(n).includes(q)) || p.gstin?.includes(q.toUpperCase()) || p.phone?.includes(q))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+  const startEdit = (party?: Party) => {
+      setError('');
+      setEditingId(party ? party.id : 'new');
+      setDraft(party ? toDraft(party) : emptyDraft());
+  };
+
+  const handleSave = () => {
+      setError('');
+      try {
+          const party = buildParty({
+              name: draft.name,
+              aliases: draft.aliases.split(','),
+              gstin: draft.gstin,
+              pan: draft.pan,
+              state: draft.state,
+              phone: draft.phone,
+              address: draft.address,
+              creditLimit: draft.creditLimit.trim() ? parseFloat(draft.creditLimit) : undefined,
+              kycStatus: draft.kycStatus
+          }, parties, editingId === 'new' ? undefined : editingId || undefined);
+          if (onSave(party)) setEditingId(null);
+      } catch (err: any) {
+          setError(err.message);
+      }
+  };
+
+  const handleMerge = (keepId: string, duplicateId: string) => {
+      onMerge(keepId, duplicateId);
+      setMergeFrom('');
+      setMergeInto('');
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all hover:border-slate-300";
+  const labelClass = "block text-[10px] font-bold text-slate-500 mb-1 uppercase tracking-wider";
+  const cardClass = "bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden";
+  const byName = (a: Party, b: Party) => a.name.localeCompare(b.name);
+
+  return (
+    <div className="space-y-6 animate-slide-up">
+        <div className={cardClass}>
+            <div className="px-6 py-5 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                    <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><BookUser className="w-4 h-4"/></div>
+                    <div>
+                        <h3 className="font-bold text-slate-900">Party Master</h3>
+                        <p className="text-xs text-slate-500">{parties.length} customers and suppliers. New names on invoices are added automatically.</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="relative">
+                        <Search className="w-3.5 h-3.5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Name, GSTIN or phone" className={`${inputClass} pl-8 w-56`} />
+                    </div>
+                    {canManage && <button onClick={() => startEdit()} className="px-4 py-2 bg-slate-900 text-white text-xs font-bold rounded-lg hover:bg-slate-800 transition-colors flex items-center gap-2 whitespace-nowrap"><Plus className="w-4 h-4"/> New Party</button>}
+                </div>
+            </div>
+
+            {editingId && (
+                <div className="px-6 py-5 border-b border-slate-100 bg-slate-50/50 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <h4 className="text-sm font-bold text-slate-800">{editingId === 'new' ? 'New Party' : `Edit ${draft.name}`}</h4>
+                        <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-white rounded-lg"><X className="w-4 h-4"/></button>
+                    </div>
+                    {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div className="col-span-2">
+                            <label className={labelClass}>Name</label>
+                            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+                        </div>
+                        <div className="col-span-2">
+                            <label className={labelClass}>Aliases (comma separated)</label>
+                            <input value={draft.aliases} onChange={(e) => setDraft({ ...draft, aliases: e.target.value })} placeholder="Other spellings on bills" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>GSTIN</label>
+                            <input value={draft.gstin} maxLength={15} onChange={(e) => setDraft({ ...draft, gstin: e.target.value })} placeholder="Unregistered" className={`${inputClass} font-mono uppercase`} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>PAN</label>
+                            <input value={draft.pan} maxLength={10} onChange={(e) => setDraft({ ...draft, pan: e.target.value })} placeholder="From GSTIN" className={`${inputClass} font-mono uppercase`} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>State</label>
+                            <select value={draft.state} onChange={(e) => setDraft({ ...draft, state: e.target.value })} className={inputClass}>
+                                <option value="">Same as firm</option>
+                                {Object.entries(GST_STATES).map(([code, name]) => <option key={code} value={code}>{code} - {name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Phone</label>
+                            <input value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} className={`${inputClass} font-mono`} />
+                        </div>
+                        <div className="col-span-2">
+                            <label className={labelClass}>Address</label>
+                            <input value={draft.address} onChange={(e) => setDraft({ ...draft, address: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Credit Limit (₹)</label>
+                            <input type="number" min="0" step="1" value={draft.creditLimit} onChange={(e) => setDraft({ ...draft, creditLimit: e.target.value })} placeholder="No limit" className={`${inputClass} font-mono`} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>KYC</label>
+                            <select value={draft.kycStatus} onChange={(e) => setDraft({ ...draft, kycStatus: e.target.value as KycStatus })} className={inputClass}>
+                                {(Object.keys(KYC_STATUS_LABELS) as KycStatus[]).map(k => <option key={k} value={k}>{KYC_STATUS_LABELS[k]}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="flex justify-end">
+                        <button onClick={handleSave} className="px-4 py-2 bg-slate-900 text-white text-xs font-bold rounded-lg hover:bg-slate-800 transition-colors flex items-center gap-2"><CheckCircle className="w-4 h-4"/> Save Party</button>
+                    </div>
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="text-slate-500 bg-slate-50/50 text-xs">
+                        <tr>
+                            <th className="px-4 py-3">Party</th>
+                            <th className="px-4 py-3">GSTIN / PAN</th>
+                            <th className="px-4 py-3">State</th>
+                            <th className="px-4 py-3">Phone</th>
+                            <th className="px-4 py-3">KYC</th>
+                            <th className="px-4 py-3 text-right">Invoices</th>
+                            <th className="px-4 py-3 text-right">Receivable / Limit</th>
+                            <th className="px-4 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visible.length === 0 && <tr><td colSpan={8} className="px-4 py-10 text-center text-slate-400 italic">{parties.length === 0 ? 'No parties yet. They are added as invoices are entered.' : 'No party matches the search.'}</td></tr>}
+                        {visible.map(p => {
+                            const receivable = balances.get(p.id)?.receivable || 0;
+                            const over = p.creditLimit !== undefined && receivable > p.creditLimit;
+                            return (
+                                <tr key={p.id} className="border-b border-slate-50 hover:bg-slate-50/50">
+                                    <td className="px-4 py-2.5">
+                                        <p className="font-medium text-slate-800">{p.name}</p>
+                                        {p.aliases.length > 0 && <p className="text-[10px] text-slate-400 truncate max-w-[220px]">also {p.aliases.join(', ')}</p>}
+                                    </td>
+                                    <td className="px-4 py-2.5 font-mono text-xs text-slate-600">
+                                        {p.gstin || <span className="text-slate-400 font-sans">Unregistered</span>}
+                                        {p.pan && !p.gstin && <span className="block">{p.pan}</span>}
+                                    </td>
+                                    <td className="px-4 py-2.5 text-xs text-slate-600">{formatState(p.state)}</td>
+                                    <td className="px-4 py-2.5 font-mono text-xs text-slate-600">{p.phone || '-'}</td>
+                                    <td className="px-4 py-2.5"><span className={`px-2 py-0.5 rounded-md text-[10px] font-bold ${KYC_STYLES[p.kycStatus]}`}>{KYC_STATUS_LABELS[p.kycStatus]}</span></td>
+                                    <td className="px-4 py-2.5 text-right font-mono text-slate-600">{invoiceCounts.get(p.id) || 0}</td>
+                                    <td className={`px-4 py-2.5 text-right font-mono ${over ? 'text-red-600 font-bold' : 'text-slate-600'}`}>
+                                        {receivable ? formatCurrency(receivable) : '-'}
+                                        {p.creditLimit !== undefined && <span className="block text-[10px] text-slate-400 font-normal">of {formatCurrency(p.creditLimit)}</span>}
+                                    </td>
+                                    <td className="px-2 py-2.5 text-right whitespace-nowrap">
+                                        <button onClick={() => onStatement(p.id)} title="Account statement" className="p-1.5 rounded-lg text-slate-400 hover:text-gold-700 hover:bg-gold-50"><FileText className="w-4 h-4"/></button>
+                                        {canManage && <button onClick={() => startEdit(p)} title="Edit party" className="p-1.5 rounded-lg text-slate-400 hover:text-slate-800 hover:bg-slate-100"><Pencil className="w-4 h-4"/></button>}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+
+        {canManage && parties.length > 1 && (
+            <div className={cardClass}>
+                <div className="px-6 py-5 border-b border-slate-50 flex items-center gap-2">
+                    <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Merge className="w-4 h-4"/></div>
+                    <div>
+                        <h3 className="font-bold text-slate-900">Merge Duplicates</h3>
+                        <p className="text-xs text-slate-500">Invoices and payments of the duplicate move to the party kept; its name becomes an alias. Invoices keep the name they were issued under.</p>
+                    </div>
+                </div>
+                <div className="p-6 space-y-4">
+                    {duplicates.length > 0 && (
+                        <div className="space-y-2">
+                            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Possible duplicates</p>
+                            {duplicates.map(([a, b]) => (
+                                <div key={`${a.id}-${b.id}`} className="flex flex-wrap items-center gap-2 p-3 rounded-xl bg-amber-50/50 border border-amber-100 text-xs">
+                                    <span className="font-medium text-slate-800 flex-1">{a.name} <span className="text-slate-400">and</span> {b.name}</span>
+                                    <button onClick={() => handleMerge(a.id, b.id)} className="px-2.5 py-1 rounded-lg font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50">Keep {a.name}</button>
+                                    <button onClick={() => handleMerge(b.id, a.id)} className="px-2.5 py-1 rounded-lg font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50">Keep {b.name}</button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex flex-wrap items-end gap-3">
+                        <div className="flex-1 min-w-[180px]">
+                            <label className={labelClass}>Duplicate</label>
+                            <select value={mergeFrom} onChange={(e) => setMergeFrom(e.target.value)} className={inputClass}>
+                                <option value="">Choose…</option>
+                                {[...parties].sort(byName).map(p => <option key={p.id} value={p.id}>{p.name}{p.gstin ? ` (${p.gstin})` : ''}</option>)}
+                            </select>
+                        </div>
+                        <div className="flex-1 min-w-[180px]">
+                            <label className={labelClass}>Merge Into</label>
+                            <select value={mergeInto} onChange={(e) => setMergeInto(e.target.value)} className={inputClass}>
+                                <option value="">Choose…</option>
+                                {[...parties].sort(byName).filter(p => p.id !== mergeFrom).map(p => <option key={p.id} value={p.id}>{p.name}{p.gstin ? ` (${p.gstin})` : ''}</option>)}
+                            </select>
+                        </div>
+                        <button onClick={() => handleMerge(mergeInto, mergeFrom)} disabled={!mergeFrom || !mergeInto || mergeFrom === mergeInto} className="px-4 py-2 bg-slate-900 text-white text-xs font-bold rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center gap-2"><Merge className="w-4 h-4"/> Merge</button>
+                    </div>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default PartyMaster;
@@ -0,0 +1,121 @@
+import React, { useState, useMemo } from 'react';
+import { Invoice, Party, PartyStatement, Payment } from '../types';
+import { buildPartyStatement, formatBalance } from '../services/statementService';
+import { DateRangePicker } from './DateRangePicker';
+import { formatCurrency, formatGrams } from '../utils';
+import { FileText, FileSpreadsheet, X } from 'lucide-react';
+
+interface PartyStatementModalProps {
+  parties: Party[];
+  invoices: Invoice[];
+  payments: Payment[];
+  initialPartyId: string;
+  canExport: boolean;
+  onExport: (statement: PartyStatement, format: 'CSV' | 'PDF') => void;
+  onClose: () => void;
+}
+
+// Statements go out monthly, so the last full month is the usual range
+const lastMonth = () => {
+  const now = new Date();
+  const start = new Date(Date.UTC(now.getFullYear(), now.getMonth() - 1, 1));
+  const end = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 0));
+  return { start: start.toISOString().split('T')[0], end: end.toISOString().split('T')[0] };
+};
+
+const PartyStatementModal: React.FC<PartyStatementModalProps> = ({ parties, invoices, payments, initialPartyId, canExport, onExport, onClose }) => {
+  const [partyId, setPartyId] = useState(initialPartyId);
+  const [range, setRange] = useState(lastMonth());
+
+  const statement = useMemo(() => buildPartyStatement(partyId, invoices, payments, parties, range.start, range.end), [partyId, invoices, payments, parties, range]);
+  const totalDebit = statement.rows.reduce((sum, r) => sum + r.debit, 0);
+  const totalCredit = statement.rows.reduce((sum, r) => sum + r.credit, 0);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm animate-fade-in p-4">
+        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col border border-slate-200 animate-slide-up">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                    <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><FileText className="w-4 h-4"/></div>
+                    <div>
+                        <h3 className="font-bold text-slate-900">Account Statement</h3>
+                        <p className="text-xs text-slate-500">{statement.partyGstin ? `GSTIN ${statement.partyGstin}` : 'Unregistered'}</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <select value={partyId} onChange={(e) => setPartyId(e.target.value)} className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium outline-none focus:border-gold-500 max-w-[200px]">
+                        {[...parties].sort((a, b) => a.name.localeCompare(b.name)).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                    <DateRangePicker startDate={range.start} endDate={range.end} onChange={(start, end) => setRange({ start, end })} />
+                    <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg"><X className="w-4 h-4"/></button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 px-6 py-4 border-b border-slate-50">
+                {[
+                    { label: 'Opening Balance', value: formatBalance(statement.opening) },
+                    { label: 'Closing Balance', value: formatBalance(statement.closing) },
+                    { label: 'Sold (net)', value: formatGrams(statement.gramsSold) },
+                    { label: 'Bought (net)', value: formatGrams(statement.gramsBought) }
+                ].map(tile => (
+                    <div key={tile.label}>
+                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{tile.label}</p>
+                        <p className="text-sm font-bold font-mono text-slate-800 mt-0.5">{tile.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="overflow-y-auto flex-1">
+                <table className="w-full text-sm text-left">
+                    <thead className="text-slate-500 bg-slate-50/50 text-xs sticky top-0">
+                        <tr>
+                            <th className="px-4 py-2">Date</th>
+                            <th className="px-4 py-2">Particulars</th>
+                            <th className="px-4 py-2">Ref</th>
+                            <th className="px-4 py-2 text-right">Grams</th>
+                            <th className="px-4 py-2 text-right">Debit</th>
+                            <th className="px-4 py-2 text-right">Credit</th>
+                            <th className="px-4 py-2 text-right">Balance</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <tr className="border-b border-slate-50 bg-slate-50/30">
+                            <td className="px-4 py-2 font-mono text-xs text-slate-500">{statement.start}</td>
+                            <td colSpan={5} className="px-4 py-2 text-xs font-bold text-slate-500">Opening balance</td>
+                            <td className="px-4 py-2 text-right font-mono text-xs font-bold text-slate-700">{formatBalance(statement.opening)}</td>
+                        </tr>
+                        {statement.rows.length === 0 && <tr><td colSpan={7} className="px-4 py-10 text-center text-slate-400 italic">No invoices or payments in this period.</td></tr>}
+                        {statement.rows.map((row, i) => (
+                            <tr key={i} className="border-b border-slate-50 hover:bg-slate-50/50">
+                                <td className="px-4 py-2 font-mono text-xs text-slate-500">{row.date}</td>
+                                <td className="px-4 py-2 text-slate-700">{row.description}</td>
+                                <td className="px-4 py-2 font-mono text-[10px] text-slate-400">{row.reference}</td>
+                                <td className="px-4 py-2 text-right font-mono text-slate-600">{row.grams ? row.grams.toFixed(3) : '-'}</td>
+                                <td className="px-4 py-2 text-right font-mono text-slate-700">{row.debit ? formatCurrency(row.debit) : ''}</td>
+                                <td className="px-4 py-2 text-right font-mono text-slate-700">{row.credit ? formatCurrency(row.credit) : ''}</td>
+                                <td className="px-4 py-2 text-right font-mono text-xs font-bold text-slate-800">{formatBalance(row.balance)}</td>
+                            </tr>
+                        ))}
+                        <tr className="bg-slate-50/50 font-bold">
+                            <td className="px-4 py-2 font-mono text-xs text-slate-500">{statement.end}</td>
+                            <td colSpan={3} className="px-4 py-2 text-xs text-slate-500">Closing balance</td>
+                            <td className="px-4 py-2 text-right font-mono text-slate-700">{formatCurrency(totalDebit)}</td>
+                            <td className="px-4 py-2 text-right font-mono text-slate-700">{formatCurrency(totalCredit)}</td>
+                            <td className="px-4 py-2 text-right font-mono text-xs text-slate-900">{formatBalance(statement.closing)}</td>
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+
+            {canExport && (
+                <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-2">
+                    <button onClick={() => onExport(statement, 'CSV')} className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50"><FileSpreadsheet className="w-4 h-4 text-green-600"/> CSV</button>
+                    <button onClick={() => onExport(statement, 'PDF')} className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 hover:bg-slate-50"><FileText className="w-4 h-4 text-red-600"/> PDF</button>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default PartyStatementModal;
@@ -0,0 +1,287 @@
+import React, { useState, useMemo } from 'react';
+import { Invoice, InvoiceBalance, Party, Payment, PaymentDirection, PaymentMode } from '../types';
+import { PAYMENT_MODES, PAYMENT_MODE_LABELS, buildPayment, getOpenBalances, getPartyBalances, settleInvoices } from '../services/paymentService';
+import { createPartyResolver } from '../services/partyService';
+import { SingleDatePicker } from './SingleDatePicker';
+import { calculateBalanceAging, formatCurrency } from '../utils';
+import { Wallet, AlertTriangle, CheckCircle, Lock, Trash2, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+
+interface PaymentsProps {
+  invoices: Invoice[];
+  payments: Payment[];
+  parties: Party[];
+  sameDayOnly: boolean;
+  canDelete: boolean;
+  onRecord: (payment: Payment) => boolean; // False when it was refused
+  onDelete: (payment: Payment) => void;
+}
+
+const AGING_BUCKETS = ['0-30', '31-60', '61-90', '90+'];
+
+const emptyDraft = (direction: PaymentDirection = 'RECEIVED') => ({
+  date: new Date().toISOString().split('T')[0],
+  direction,
+  partyName: '',
+  invoiceId: '',
+  amount: '',
+  mode: 'CASH' as PaymentMode,
+  reference: '',
+  note: ''
+});
+
+const Payments: React.FC<PaymentsProps> = ({ invoices, payments, parties, sameDayOnly, canDelete, onRecord, onDelete }) => {
+  const [draft, setDraft] = useState(emptyDraft());
+  const [error, setError] = useState('');
+  const today = new Date().toISOString().split('T')[0];
+
+  const { balances } = useMemo(() => settleInvoices(invoices, payments, parties), [invoices, payments, parties]);
+  const partyBalances = useMemo(() => getPartyBalances(invoices, payments, today, parties), [invoices, payments, today, parties]);
+  const open = getOpenBalances(balances).sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  const receivableAging = useMemo(() => calculateBalanceAging(getOpenBalances(balances, 'RECEIVED'), today), [balances, today]);
+  const payableAging = useMemo(() => calculateBalanceAging(getOpenBalances(balances, 'PAID'), today), [balances, today]);
+
+  const totals = partyBalances.reduce((acc, p) => ({
+      receivable: acc.receivable + p.receivable,
+      payable: acc.payable + p.payable,
+      overdue: acc.overdue + p.overdue,
+      advances: acc.advances + p.advanceReceived + p.advancePaid
+  }), { receivable: 0, payable: 0, overdue: 0, advances: 0 });
+
+  // Invoices the payment can be set against: open ones on the same side for the party typed in
+  const draftKey = createPartyResolver(parties).keyOf({ partyName: draft.partyName });
+  const partyInvoices = open.filter(b => b.direction === draft.direction && b.partyKey === draftKey);
+  const partyNames = useMemo(() => parties.map(p => p.name).sort(), [parties]);
+
+  const settle = (balance: InvoiceBalance) => {
+      setError('');
+      const party = parties.find(p => p.id === balance.partyKey);
+      setDraft({ ...emptyDraft(balance.direction), date: draft.date, partyName: party ? party.name : balance.partyName, invoiceId: balance.invoiceId, amount: balance.outstanding.toFixed(2) });
+  };
+
+  const handleRecord = () => {
+      setError('');
+      try {
+          const payment = buildPayment({
+              date: draft.date,
+              direction: draft.direction,
+              partyName: draft.partyName,
+              amount: parseFloat(draft.amount) || 0,
+              mode: draft.mode,
+              reference: draft.reference,
+              invoiceId: draft.invoiceId || undefined,
+              note: draft.note
+          }, invoices, parties);
+          if (onRecord(payment)) setDraft(emptyDraft(draft.direction));
+      } catch (err: any) {
+          setError(err.message);
+      }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all hover:border-slate-300";
+  const labelClass = "block text-[10px] font-bold text-slate-500 mb-1 uppercase tracking-wider";
+  const cardClass = "bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden";
+
+  return (
+    <div className="space-y-6 animate-slide-up">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+                { label: 'Receivable', value: totals.receivable, className: 'text-green-700' },
+                { label: 'Payable', value: totals.payable, className: 'text-blue-700' },
+                { label: 'Overdue', value: totals.overdue, className: totals.overdue > 0 ? 'text-red-600' : 'text-slate-400' },
+                { label: 'Unapplied Advances', value: totals.advances, className: 'text-slate-700' }
+            ].map(tile => (
+                <div key={tile.label} className={`${cardClass} p-4`}>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{tile.label}</p>
+                    <p className={`text-lg font-bold font-mono mt-1 ${tile.className}`}>{formatCurrency(tile.value)}</p>
+                </div>
+            ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className={cardClass}>
+                <div className="px-5 py-4 border-b border-slate-50 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Wallet className="w-4 h-4"/></div>
+                        <h3 className="font-bold text-slate-900">Record Payment</h3>
+                    </div>
+                    <div className="flex bg-slate-100 p-1 rounded-xl">
+                        {(['RECEIVED', 'PAID'] as PaymentDirection[]).map(d => (
+                            <button key={d} onClick={() => setDraft({ ...draft, direction: d, invoiceId: '' })} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${draft.direction === d ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}>{d === 'RECEIVED' ? 'Received' : 'Paid'}</button>
+                        ))}
+                    </div>
+                </div>
+                <div className="p-5 space-y-3">
+                    {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>{draft.direction === 'RECEIVED' ? 'From Customer' : 'To Supplier'}</label>
+                            <input list="payment-parties" value={draft.partyName} onChange={(e) => setDraft({ ...draft, partyName: e.target.value, invoiceId: '' })} placeholder="Party name" className={inputClass} />
+                            <datalist id="payment-parties">{partyNames.map(name => <option key={name} value={name} />)}</datalist>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Date</label>
+                            {sameDayOnly ? (
+                                <span className={`${inputClass} flex items-center gap-2 text-slate-500`}><Lock className="w-3.5 h-3.5"/>{draft.date}</span>
+                            ) : (
+                                <SingleDatePicker value={draft.date} onChange={(d) => setDraft({ ...draft, date: d })} className="w-full" />
+                            )}
+                        </div>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Against Invoice</label>
+                        <select value={draft.invoiceId} onChange={(e) => {
+                            const target = partyInvoices.find(b => b.invoiceId === e.target.value);
+                            setDraft({ ...draft, invoiceId: e.target.value, amount: target ? target.outstanding.toFixed(2) : draft.amount });
+                        }} className={inputClass}>
+                            <option value="">On account (oldest invoices first, rest kept as advance)</option>
+                            {partyInvoices.map(b => <option key={b.invoiceId} value={b.invoiceId}>{b.invoiceId} · {b.date} · {formatCurrency(b.outstanding)} due {b.dueDate}</option>)}
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                        <div>
+                            <label className={labelClass}>Amount (₹)</label>
+                            <input type="number" step="0.01" min="0" value={draft.amount} onChange={(e) => setDraft({ ...draft, amount: e.target.value })} className={`${inputClass} font-mono`} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Mode</label>
+                            <select value={draft.mode} onChange={(e) => setDraft({ ...draft, mode: e.target.value as PaymentMode })} className={inputClass}>
+                                {PAYMENT_MODES.map(m => <option key={m} value={m}>{PAYMENT_MODE_LABELS[m]}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>{draft.mode === 'CHEQUE' ? 'Cheque No.' : 'Reference'}</label>
+                            <input value={draft.reference} onChange={(e) => setDraft({ ...draft, reference: e.target.value })} placeholder={draft.mode === 'CASH' ? 'Optional' : 'UTR / Txn ID'} className={`${inputClass} font-mono`} />
+                        </div>
+                    </div>
+                    <input value={draft.note} onChange={(e) => setDraft({ ...draft, note: e.target.value })} placeholder="Note (optional)" className={inputClass} />
+                    <button onClick={handleRecord} className="w-full py-2.5 bg-slate-900 text-white text-xs font-bold rounded-lg hover:bg-slate-800 transition-colors flex items-center justify-center gap-2">
+                        <CheckCircle className="w-4 h-4"/> Record {draft.direction === 'RECEIVED' ? 'Receipt' : 'Payment'}
+                    </button>
+                </div>
+            </div>
+
+            <div className={cardClass}>
+                <div className="px-5 py-4 border-b border-slate-50">
+                    <h3 className="font-bold text-slate-900">Aging</h3>
+                    <p className="text-xs text-slate-500">Outstanding by days since the invoice date</p>
+                </div>
+                <table className="w-full text-sm">
+                    <thead className="text-slate-500 bg-slate-50/50 text-xs">
+                        <tr>
+                            <th className="px-5 py-2 text-left">Days</th>
+                            <th className="px-5 py-2 text-right">Receivables</th>
+                            <th className="px-5 py-2 text-right">Payables</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {AGING_BUCKETS.map(bucket => (
+                            <tr key={bucket} className="border-b border-slate-50">
+                                <td className="px-5 py-2.5 font-medium text-slate-700">{bucket}</td>
+                                <td className={`px-5 py-2.5 text-right font-mono ${bucket !== '0-30' && receivableAging.buckets[bucket] > 0 ? 'text-red-600 font-bold' : 'text-slate-600'}`}>{formatCurrency(receivableAging.buckets[bucket])}</td>
+                                <td className="px-5 py-2.5 text-right font-mono text-slate-600">{formatCurrency(payableAging.buckets[bucket])}</td>
+                            </tr>
+                        ))}
+                        <tr className="bg-slate-50/50">
+                            <td className="px-5 py-2.5 text-xs font-bold text-slate-500">Avg age</td>
+                            <td className="px-5 py-2.5 text-right font-mono text-xs text-slate-500">{receivableAging.weightedAvgDays.toFixed(0)} days</td>
+                            <td className="px-5 py-2.5 text-right font-mono text-xs text-slate-500">{payableAging.weightedAvgDays.toFixed(0)} days</td>
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+
+        <div className={cardClass}>
+            <div className="px-5 py-4 border-b border-slate-50"><h3 className="font-bold text-slate-900">Balances by Party</h3></div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                    <thead className="text-slate-500 bg-slate-50/50 text-xs">
+                        <tr>
+                            <th className="px-4 py-3">Party</th>
+                            <th className="px-4 py-3 text-right">Receivable</th>
+                            <th className="px-4 py-3 text-right">Payable</th>
+                            <th className="px-4 py-3 text-right">Advances</th>
+                            <th className="px-4 py-3 text-right">Overdue</th>
+                            <th className="px-4 py-3 text-right">Last Payment</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {partyBalances.length === 0 && <tr><td colSpan={6} className="px-4 py-10 text-center text-slate-400 italic">Nothing outstanding.</td></tr>}
+                        {partyBalances.map(p => (
+                            <tr key={p.partyKey} className="border-b border-slate-50 hover:bg-slate-50/50">
+                                <td className="px-4 py-2.5 font-medium text-slate-800">{p.partyName}</td>
+                                <td className="px-4 py-2.5 text-right font-mono text-green-700">{p.receivable ? formatCurrency(p.receivable) : '-'}</td>
+                                <td className="px-4 py-2.5 text-right font-mono text-blue-700">{p.payable ? formatCurrency(p.payable) : '-'}</td>
+                                <td className="px-4 py-2.5 text-right font-mono text-slate-600">
+                                    {p.advanceReceived > 0 && <span className="block">{formatCurrency(p.advanceReceived)} from them</span>}
+                                    {p.advancePaid > 0 && <span className="block">{formatCurrency(p.advancePaid)} to them</span>}
+                                    {!p.advanceReceived && !p.advancePaid && '-'}
+                                </td>
+                                <td className={`px-4 py-2.5 text-right font-mono ${p.overdue > 0 ? 'text-red-600 font-bold' : 'text-slate-300'}`}>{p.overdue ? formatCurrency(p.overdue) : '-'}</td>
+                                <td className="px-4 py-2.5 text-right font-mono text-xs text-slate-500">{p.lastPayment || '-'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className={cardClass}>
+                <div className="px-5 py-4 border-b border-slate-50"><h3 className="font-bold text-slate-900">Open Invoices</h3></div>
+                <div className="overflow-x-auto max-h-[420px]">
+                    <table className="w-full text-sm text-left">
+                        <tbody>
+                            {open.length === 0 && <tr><td className="px-4 py-10 text-center text-slate-400 italic">All invoices are settled.</td></tr>}
+                            {open.map(b => (
+                                <tr key={b.invoiceId} className="border-b border-slate-50 hover:bg-slate-50/50">
+                                    <td className="px-4 py-2.5">
+                                        <p className="font-medium text-slate-800 flex items-center gap-1.5">
+                                            {b.direction === 'RECEIVED' ? <ArrowDownLeft className="w-3.5 h-3.5 text-green-600"/> : <ArrowUpRight className="w-3.5 h-3.5 text-blue-600"/>}{b.partyName}
+                                        </p>
+                                        <p className="text-[10px] font-mono text-slate-400">{b.invoiceId} · {b.date}</p>
+                                    </td>
+                                    <td className={`px-4 py-2.5 text-xs font-mono ${b.dueDate < today ? 'text-red-600 font-bold' : 'text-slate-500'}`}>due {b.dueDate}</td>
+                                    <td className="px-4 py-2.5 text-right font-mono text-slate-800">
+                                        {formatCurrency(b.outstanding)}
+                                        {b.paid > 0 && <span className="block text-[10px] text-slate-400">of {formatCurrency(b.amount)}</span>}
+                                    </td>
+                                    <td className="px-4 py-2.5 text-right">
+                                        <button onClick={() => settle(b)} className="px-2.5 py-1 rounded-lg text-[10px] font-bold text-slate-600 bg-slate-100 hover:bg-slate-200">{b.direction === 'RECEIVED' ? 'Collect' : 'Pay'}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            <div className={cardClass}>
+                <div className="px-5 py-4 border-b border-slate-50"><h3 className="font-bold text-slate-900">Payment History</h3></div>
+                <div className="overflow-x-auto max-h-[420px]">
+                    <table className="w-full text-sm text-left">
+                        <tbody>
+                            {payments.length === 0 && <tr><td className="px-4 py-10 text-center text-slate-400 italic">No payments recorded yet.</td></tr>}
+                            {[...payments].sort((a, b) => b.date.localeCompare(a.date)).map(p => (
+                                <tr key={p.id} className="border-b border-slate-50 hover:bg-slate-50/50">
+                                    <td className="px-4 py-2.5 font-mono text-xs text-slate-500">{p.date}</td>
+                                    <td className="px-4 py-2.5">
+                                        <p className="font-medium text-slate-800">{p.partyName}</p>
+                                        <p className="text-[10px] text-slate-400">{PAYMENT_MODE_LABELS[p.mode]}{p.reference ? ` · ${p.reference}` : ''} · {p.invoiceId ? `against ${p.invoiceId}` : 'on account'}</p>
+                                    </td>
+                                    <td className={`px-4 py-2.5 text-right font-mono font-bold ${p.direction === 'RECEIVED' ? 'text-green-600' : 'text-blue-600'}`}>{p.direction === 'RECEIVED' ? '+' : '-'}{formatCurrency(p.amount)}</td>
+                                    <td className="px-2 py-2.5 text-right">
+                                        {canDelete && <button onClick={() => onDelete(p)} title="Delete payment" className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50"><Trash2 className="w-4 h-4"/></button>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default Payments;
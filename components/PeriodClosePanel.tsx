@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { PeriodClose, PeriodSnapshot } from '../types';
+import { getActiveCloses, nextDay } from '../services/periodService';
+import { METALS, METAL_LABELS } from '../services/metalService';
+import { COSTING_METHOD_LABELS } from '../services/ledgerService';
+import { SingleDatePicker } from './SingleDatePicker';
+import { formatCurrency, formatGrams } from '../utils';
+import { Lock, Unlock, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface PeriodClosePanelProps {
+  periods: PeriodClose[];
+  canClose: boolean;
+  canReopen: boolean;
+  onClose: (periodEnd: string) => void;
+  onReopen: (period: PeriodClose) => void;
+}
+
+const SnapshotCell: React.FC<{ label: string; snapshot: PeriodSnapshot }> = ({ label, snapshot }) => (
+    <div>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">{label}</p>
+        <p className="font-mono font-bold text-slate-800">{formatCurrency(snapshot.value)}</p>
+        {METALS.map(m => <p key={m} className="text-[11px] font-mono text-slate-500">{METAL_LABELS[m]}: {formatGrams(snapshot.grams[m] || 0)}</p>)}
+    </div>
+);
+
+const PeriodClosePanel: React.FC<PeriodClosePanelProps> = ({ periods, canClose, canReopen, onClose, onReopen }) => {
+  const [closeDate, setCloseDate] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const active = getActiveCloses(periods);
+  const latest = active[active.length - 1];
+  const history = [...periods].sort((a, b) => (a.closedAt < b.closedAt ? 1 : -1));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden animate-slide-up">
+        <div className="px-5 py-4 border-b border-slate-50 flex items-center gap-2">
+            <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Lock className="w-4 h-4"/></div>
+            <div>
+                <h3 className="font-bold text-slate-900">Period Close</h3>
+                <p className="text-xs text-slate-500">Closing freezes stock and P&L; nothing on or before the close date can be added, edited or deleted.</p>
+            </div>
+        </div>
+        <div className="p-5 space-y-5">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                <div className="p-4 rounded-xl bg-slate-50 border border-slate-100">
+                    <p className="text-sm font-bold text-slate-700">{latest ? `Closed up to ${latest.periodEnd}` : 'No period closed yet'}</p>
+                    {latest && <p className="text-xs text-slate-500 mt-1">Open period from {nextDay(latest.periodEnd)} starts with {formatCurrency(latest.closing.value)} of stock.</p>}
+                </div>
+                {canClose && (
+                    <div className="flex items-center gap-2">
+                        <SingleDatePicker value={closeDate} onChange={setCloseDate} placeholder="Last day of period" className="flex-1" />
+                        <button onClick={() => closeDate && onClose(closeDate)} disabled={!closeDate} className="px-4 py-2.5 bg-slate-900 text-white text-sm font-bold rounded-xl hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center gap-2">
+                            <Lock className="w-4 h-4"/> Close
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {history.length > 0 && (
+                <div className="divide-y divide-slate-50 border border-slate-100 rounded-xl">
+                    {history.map(period => {
+                        const isExpanded = expandedId === period.id;
+                        return (
+                            <div key={period.id} className={`px-4 py-3 ${period.reopenedAt ? 'opacity-60' : ''}`}>
+                                <div className="flex items-center gap-3">
+                                    <button onClick={() => setExpandedId(isExpanded ? null : period.id)} className="flex-1 min-w-0 flex items-center gap-3 text-left">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm font-bold text-slate-800">{period.periodStart ? `${period.periodStart} to ${period.periodEnd}` : `Up to ${period.periodEnd}`}</p>
+                                            <p className="text-[10px] text-slate-400">
+                                                Closed {new Date(period.closedAt).toLocaleString('en-IN')} by {period.closedBy}
+                                                {period.reopenedAt ? ` · reopened ${new Date(period.reopenedAt).toLocaleString('en-IN')} by ${period.reopenedBy}` : ''}
+                                            </p>
+                                        </div>
+                                        {period.reopenedAt && <span className="px-2 py-0.5 rounded bg-orange-50 text-orange-700 text-[10px] font-bold uppercase">Reopened</span>}
+                                        {isExpanded ? <ChevronUp className="w-4 h-4 text-slate-400"/> : <ChevronDown className="w-4 h-4 text-slate-400"/>}
+                                    </button>
+                                    {canReopen && period.id === latest?.id && (
+                                        <button onClick={() => onReopen(period)} title="Reopen period" className="p-1.5 rounded-lg text-slate-400 hover:text-orange-600 hover:bg-orange-50"><Unlock className="w-4 h-4"/></button>
+                                    )}
+                                </div>
+                                {isExpanded && (
+                                    <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-4 text-xs animate-fade-in">
+                                        <SnapshotCell label="Opening Stock" snapshot={period.opening} />
+                                        <SnapshotCell label="Closing Stock" snapshot={period.closing} />
+                                        <div>
+                                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Profit & Loss</p>
+                                            <p className="text-slate-600">Revenue <span className="font-mono">{formatCurrency(period.pnl.revenue)}</span></p>
+                                            <p className="text-slate-600">COGS <span className="font-mono">{formatCurrency(period.pnl.cogs)}</span></p>
+                                            <p className="font-bold text-green-700">Gross Profit <span className="font-mono">{formatCurrency(period.pnl.grossProfit)}</span></p>
+                                            {!!period.pnl.stockLoss && <p className="text-slate-600">Stock Loss <span className="font-mono">{formatCurrency(period.pnl.stockLoss)}</span></p>}
+                                        </div>
+                                        <div>
+                                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Activity</p>
+                                            <p className="text-slate-600">{period.pnl.sales} sales · {period.pnl.purchases} purchases</p>
+                                            <p className="text-slate-600">Output GST <span className="font-mono">{formatCurrency(period.pnl.outputGst)}</span></p>
+                                            <p className="text-slate-600">Input GST <span className="font-mono">{formatCurrency(period.pnl.inputGst)}</span></p>
+                                            <p className="text-slate-400">{period.batches.length} open lots · {COSTING_METHOD_LABELS[period.costingMethod]}</p>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default PeriodClosePanel;
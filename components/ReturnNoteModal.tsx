@@ -0,0 +1,117 @@
+import React, { useState, useMemo } from 'react';
+import { Invoice } from '../types';
+import { buildReturnNote, getReturnableLines } from '../services/returnService';
+import { METAL_LABELS, formatPurity, getMetal, getPurity } from '../services/metalService';
+import { SingleDatePicker } from './SingleDatePicker';
+import { formatCurrency, formatGrams } from '../utils';
+import { RotateCcw, AlertTriangle, Lock, X } from 'lucide-react';
+
+interface ReturnNoteModalProps {
+  original: Invoice;
+  invoices: Invoice[];
+  sameDayOnly: boolean;
+  onSubmit: (note: Invoice) => boolean; // False when the ledger rejected it
+  onClose: () => void;
+}
+
+const ReturnNoteModal: React.FC<ReturnNoteModalProps> = ({ original, invoices, sameDayOnly, onSubmit, onClose }) => {
+  const isSale = original.type === 'SALE';
+  const [grams, setGrams] = useState<Record<number, string>>({});
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [error, setError] = useState('');
+
+  const lines = useMemo(() => getReturnableLines(original, invoices), [original, invoices]);
+  const parsed = useMemo(() => {
+      const values: Record<number, number> = {};
+      Object.entries(grams).forEach(([index, value]) => { values[Number(index)] = parseFloat(value) || 0; });
+      return values;
+  }, [grams]);
+
+  // Live preview; errors only surface when the note is issued
+  const preview = useMemo(() => {
+      try { return buildReturnNote(original, invoices, parsed, date); } catch { return null; }
+  }, [original, invoices, parsed, date]);
+
+  const handleSubmit = () => {
+      setError('');
+      try {
+          onSubmit(buildReturnNote(original, invoices, parsed, date));
+      } catch (err: any) {
+          setError(err.message);
+      }
+  };
+
+  const inputClass = "px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all hover:border-slate-300";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm animate-fade-in p-4">
+        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-full flex flex-col border border-slate-200 animate-slide-up">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><RotateCcw className="w-4 h-4"/></div>
+                    <div>
+                        <h3 className="font-bold text-slate-900">{isSale ? 'Credit Note (Sales Return)' : 'Debit Note (Purchase Return)'}</h3>
+                        <p className="text-xs text-slate-500">Against {original.id} · {original.partyName} · {original.date}</p>
+                    </div>
+                </div>
+                <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg"><X className="w-4 h-4"/></button>
+            </div>
+
+            <div className="p-6 overflow-y-auto space-y-4">
+                {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+                <p className="text-xs text-slate-500">
+                    {isSale
+                        ? 'Returned grams go back into the purchase lots this sale was costed from, and its profit and output GST are reversed pro rata.'
+                        : 'Returned grams leave the lots this purchase opened, and its input GST is reversed pro rata.'}
+                </p>
+                <table className="w-full text-sm text-left">
+                    <thead className="text-slate-500 bg-slate-50/50 text-xs">
+                        <tr>
+                            <th className="px-3 py-2">Item</th>
+                            <th className="px-3 py-2 text-right">Net (g)</th>
+                            <th className="px-3 py-2 text-right">Returned</th>
+                            <th className="px-3 py-2 text-right">Return Now (g)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {lines.map(({ index, line, returned, remaining }) => (
+                            <tr key={index} className="border-b border-slate-50">
+                                <td className="px-3 py-2">
+                                    <p className="font-medium text-slate-800">{line.description || `Line ${index + 1}`}</p>
+                                    <p className="text-[10px] text-slate-400">{METAL_LABELS[getMetal(line)]} {formatPurity(getMetal(line), getPurity(line))} · {formatCurrency(line.taxableAmount)}</p>
+                                </td>
+                                <td className="px-3 py-2 text-right font-mono text-slate-600">{formatGrams(line.netWeight)}</td>
+                                <td className="px-3 py-2 text-right font-mono text-slate-400">{returned > 0 ? formatGrams(returned) : '-'}</td>
+                                <td className="px-3 py-2 text-right">
+                                    <input type="number" step="0.001" min="0" max={remaining} placeholder={remaining.toFixed(3)} disabled={remaining <= 0} value={grams[index] || ''} onChange={(e) => setGrams({ ...grams, [index]: e.target.value })} className={`${inputClass} w-28 text-right font-mono disabled:opacity-50`} />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Note Date</label>
+                    {sameDayOnly ? (
+                        <span className={`${inputClass} flex items-center gap-2 text-slate-500`}><Lock className="w-3.5 h-3.5"/>{date}</span>
+                    ) : (
+                        <SingleDatePicker value={date} onChange={setDate} className="w-40" />
+                    )}
+                    <div className="flex-1 text-right text-xs text-slate-500">
+                        {preview ? (
+                            <>Taxable <span className="font-mono text-slate-800">{formatCurrency(preview.taxableAmount)}</span> · GST <span className="font-mono text-slate-800">{formatCurrency(preview.gstAmount)}</span> · Total <span className="font-mono font-bold text-slate-900">{formatCurrency(preview.totalAmount)}</span></>
+                        ) : 'Enter the grams being returned.'}
+                    </div>
+                </div>
+            </div>
+
+            <div className="px-6 py-4 border-t border-slate-100 flex gap-3">
+                <button onClick={onClose} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-50 rounded-xl transition-colors text-sm">Cancel</button>
+                <button onClick={handleSubmit} disabled={!preview} className="flex-1 py-3 bg-slate-900 text-white font-bold rounded-xl hover:bg-slate-800 disabled:opacity-50 transition-colors text-sm">Issue {isSale ? 'Credit' : 'Debit'} Note</button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ReturnNoteModal;
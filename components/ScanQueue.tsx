@@ -0,0 +1,183 @@
+import React, { useState, useRef } from 'react';
+import { Invoice, ScanItem, ScanStatus } from '../types';
+import { ExtractionProvider } from '../services/extractionService';
+import { SCAN_STATUS_LABELS, getApprovalOrder, getScanDate } from '../services/scanQueueService';
+import { formatCurrency } from '../utils';
+import InvoiceForm from './InvoiceForm';
+import DocumentPreview from './DocumentPreview';
+import { Layers, UploadCloud, AlertTriangle, CheckCircle, Loader2, RefreshCw, Trash2, FileText, ScanLine } from 'lucide-react';
+
+// What the review form needs from App, besides the bill itself
+type ScanFormProps = Pick<React.ComponentProps<typeof InvoiceForm>, 'availableStock' | 'lockDate' | 'costingMethod' | 'openBatches' | 'firm' | 'sameDayOnly' | 'parties' | 'receivables'>;
+
+interface ScanQueueProps {
+  items: ScanItem[];
+  extractor: ExtractionProvider;
+  formProps: ScanFormProps;
+  onAdd: (files: File[]) => void;
+  onReview: (id: string, draft: Invoice) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onApprove: () => boolean; // False when nothing was posted
+}
+
+const STATUS_STYLES: Record<ScanStatus, string> = {
+  QUEUED: 'bg-slate-100 text-slate-500',
+  EXTRACTING: 'bg-blue-50 text-blue-600',
+  READY: 'bg-amber-50 text-amber-700',
+  REVIEWED: 'bg-green-50 text-green-700',
+  FAILED: 'bg-red-50 text-red-600'
+};
+
+// Dated bills in the order they will be posted, then those still being read
+const byScanDate = (a: ScanItem, b: ScanItem) => {
+  const [da, db] = [getScanDate(a), getScanDate(b)];
+  if (!da || !db) return Number(!da) - Number(!db);
+  return da.localeCompare(db);
+};
+
+const ScanQueue: React.FC<ScanQueueProps> = ({ items, extractor, formProps, onAdd, onReview, onRetry, onRemove, onApprove }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sorted = [...items].sort(byScanDate);
+  const selected = items.find(item => item.id === selectedId);
+  const toApprove = getApprovalOrder(items);
+  const pending = items.filter(item => item.status === 'QUEUED' || item.status === 'EXTRACTING').length;
+  const toReview = items.filter(item => item.status === 'READY').length;
+
+  const addFiles = (files: FileList | null) => {
+      if (files && files.length > 0) onAdd(Array.from(files));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      setDragging(false);
+      addFiles(e.dataTransfer.files);
+  };
+
+  // Moves on to the next bill waiting for review, in date order
+  const handleReview = (draft: Invoice) => {
+      if (!selected) return;
+      onReview(selected.id, draft);
+      const next = sorted.find(item => item.status === 'READY' && item.id !== selected.id);
+      setSelectedId(next ? next.id : null);
+  };
+
+  const handleRemove = (id: string) => {
+      onRemove(id);
+      if (id === selectedId) setSelectedId(null);
+  };
+
+  const cardClass = "bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden";
+
+  return (
+    <div className="space-y-6 animate-slide-up">
+        <div className={cardClass}>
+            <div className="px-6 py-5 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                    <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Layers className="w-4 h-4"/></div>
+                    <div>
+                        <h3 className="font-bold text-slate-900">Scan Queue</h3>
+                        <p className="text-xs text-slate-500">
+                            {items.length === 0 ? 'Drop a batch of bills to read them in the background.' : `${pending} being read, ${toReview} to review, ${toApprove.length} ready to post.`} Using {extractor.label}.
+                        </p>
+                    </div>
+                </div>
+                <button onClick={onApprove} disabled={toApprove.length === 0} className="px-4 py-2 bg-slate-900 text-white text-xs font-bold rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center gap-2 whitespace-nowrap">
+                    <CheckCircle className="w-4 h-4"/> Approve {toApprove.length || ''} in Date Order
+                </button>
+            </div>
+
+            {!extractor.readsDocuments && (
+                <div className="mx-6 mt-4 p-3 bg-amber-50 border border-amber-100 text-amber-800 text-xs rounded-xl flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {extractor.label} reads text files only. Choose Gemini in Settings to scan PDFs and photos.
+                </div>
+            )}
+
+            <div className="p-6">
+                <input type="file" multiple accept="application/pdf,image/*,text/plain" ref={fileInputRef} onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} className="hidden" />
+                <div
+                    onClick={() => fileInputRef.current?.click()}
+                    onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={handleDrop}
+                    className={`border-2 border-dashed rounded-2xl p-6 flex flex-col items-center justify-center cursor-pointer transition-all ${dragging ? 'border-gold-400 bg-gold-50/30' : 'border-slate-200 hover:bg-slate-50 hover:border-gold-400'}`}
+                >
+                    <UploadCloud className="w-6 h-6 text-slate-400 mb-2" />
+                    <p className="font-medium text-slate-900 text-sm">Drop invoices here or click to choose</p>
+                    <p className="text-xs text-slate-400 mt-1">PDFs, photos or text files, as many as you like</p>
+                </div>
+            </div>
+        </div>
+
+        {items.length > 0 && (
+            <div className="flex flex-col xl:flex-row gap-6 items-start">
+                <div className={`${cardClass} w-full xl:w-80 flex-shrink-0`}>
+                    <ul className="divide-y divide-slate-50 max-h-[70vh] overflow-y-auto">
+                        {sorted.map(item => {
+                            const bill = item.draft || item.extraction;
+                            return (
+                                <li key={item.id} onClick={() => setSelectedId(item.id)} className={`px-4 py-3 cursor-pointer transition-colors ${item.id === selectedId ? 'bg-gold-50/50' : 'hover:bg-slate-50'}`}>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <p className="text-xs font-bold text-slate-800 truncate">{item.file.name}</p>
+                                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full whitespace-nowrap flex items-center gap-1 ${STATUS_STYLES[item.status]}`}>
+                                            {item.status === 'EXTRACTING' && <Loader2 className="w-3 h-3 animate-spin"/>}
+                                            {SCAN_STATUS_LABELS[item.status]}
+                                        </span>
+                                    </div>
+                                    <p className="text-[11px] text-slate-500 mt-1 truncate">
+                                        {item.status === 'FAILED' ? item.error : bill ? `${getScanDate(item) || 'No date'} · ${bill.partyName || 'No party'}${item.draft ? ` · ${formatCurrency(item.draft.totalAmount)}` : ''}` : 'Waiting to be read'}
+                                    </p>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+
+                {selected ? (
+                    <div className="flex-1 w-full grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+                        <div>
+                            {selected.status === 'READY' || selected.status === 'REVIEWED' ? (
+                                <InvoiceForm
+                                    key={`${selected.id}-${selected.status}`}
+                                    {...formProps}
+                                    onAdd={handleReview}
+                                    reviewing
+                                    prefill={selected.extraction}
+                                    editing={selected.draft}
+                                    onCancelEdit={() => setSelectedId(null)}
+                                />
+                            ) : (
+                                <div className={`${cardClass} p-6 space-y-3`}>
+                                    {selected.status === 'FAILED' ? (
+                                        <>
+                                            <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{selected.error}</div>
+                                            <button onClick={() => onRetry(selected.id)} className="px-4 py-2 bg-white border border-slate-200 text-slate-700 text-xs font-bold rounded-lg hover:bg-slate-50 flex items-center gap-2"><RefreshCw className="w-4 h-4"/> Try Again</button>
+                                        </>
+                                    ) : (
+                                        <p className="text-sm text-slate-500 flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin"/> {selected.status === 'EXTRACTING' ? 'Reading this bill...' : 'Waiting for the bills ahead of it.'}</p>
+                                    )}
+                                </div>
+                            )}
+                            <button onClick={() => handleRemove(selected.id)} className="mt-3 px-3 py-1.5 text-xs font-bold text-red-500 hover:bg-red-50 rounded-lg flex items-center gap-1.5"><Trash2 className="w-3.5 h-3.5"/> Remove from Queue</button>
+                        </div>
+                        <div className={`${cardClass} h-[75vh] lg:sticky lg:top-0`}>
+                            <div className="px-4 py-2 border-b border-slate-50 flex items-center gap-2 text-xs font-bold text-slate-600"><FileText className="w-3.5 h-3.5"/> {selected.file.name}</div>
+                            <div className="h-[calc(100%-2.25rem)]"><DocumentPreview data={selected.file} name={selected.file.name} /></div>
+                        </div>
+                    </div>
+                ) : (
+                    <div className={`${cardClass} flex-1 w-full p-10 flex flex-col items-center text-center text-slate-400`}>
+                        <ScanLine className="w-8 h-8 mb-2"/>
+                        <p className="text-sm">Pick a bill on the left to check it against the document.</p>
+                    </div>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default ScanQueue;
@@ -0,0 +1,140 @@
+import React, { useState, useMemo } from 'react';
+import { AdjustmentReason, Invoice, InventoryBatch } from '../types';
+import { CountMode, buildStockAdjustment, getCountRows, hasVariance } from '../services/stockCountService';
+import { ADJUSTMENT_REASON_LABELS, getBatchInvoiceId } from '../services/invoiceService';
+import { METAL_LABELS, formatPurity, getPurity } from '../services/metalService';
+import { SingleDatePicker } from './SingleDatePicker';
+import { formatCurrency, formatGrams } from '../utils';
+import { ClipboardCheck, AlertTriangle, CheckCircle, Lock } from 'lucide-react';
+
+interface StockCountProps {
+  inventory: InventoryBatch[];
+  invoices: Invoice[];
+  canPost: boolean;
+  sameDayOnly: boolean;
+  onPost: (adjustment: Invoice) => boolean; // False when the ledger rejected it
+}
+
+const StockCount: React.FC<StockCountProps> = ({ inventory, invoices, canPost, sameDayOnly, onPost }) => {
+  const [mode, setMode] = useState<CountMode>('LOT');
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [reason, setReason] = useState<AdjustmentReason>('WEIGHING');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const rows = useMemo(() => getCountRows(inventory, mode, counts), [inventory, mode, counts]);
+  const batches = useMemo(() => new Map(inventory.map(b => [b.id, b])), [inventory]);
+  const parties = useMemo(() => new Map(invoices.map(inv => [inv.id, inv.partyName])), [invoices]);
+  const varied = rows.filter(hasVariance);
+  const netValue = varied.reduce((sum, r) => sum + r.varianceValue, 0);
+
+  const changeMode = (next: CountMode) => {
+      setMode(next);
+      setCounts({});
+      setError('');
+  };
+
+  const handlePost = () => {
+      setError('');
+      try {
+          if (onPost(buildStockAdjustment(rows, date, reason, note))) {
+              setCounts({});
+              setNote('');
+          }
+      } catch (err: any) {
+          setError(err.message);
+      }
+  };
+
+  const inputClass = "px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all hover:border-slate-300";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden animate-slide-up">
+        <div className="px-6 py-5 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+                <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><ClipboardCheck className="w-4 h-4"/></div>
+                <div>
+                    <h3 className="font-bold text-slate-900">Physical Stock Count</h3>
+                    <p className="text-xs text-slate-500">Enter counted fine grams; leave a row blank if it was not counted.</p>
+                </div>
+            </div>
+            <div className="flex bg-slate-100 p-1 rounded-xl">
+                {(['LOT', 'METAL'] as CountMode[]).map(m => (
+                    <button key={m} onClick={() => changeMode(m)} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${mode === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-900'}`}>{m === 'LOT' ? 'By Lot' : 'By Metal'}</button>
+                ))}
+            </div>
+        </div>
+
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+                <thead className="text-slate-500 bg-slate-50/50 text-xs">
+                    <tr>
+                        <th className="px-4 py-3">{mode === 'LOT' ? 'Lot' : 'Metal'}</th>
+                        {mode === 'LOT' && <th className="px-4 py-3">Source</th>}
+                        <th className="px-4 py-3 text-right">Book (g fine)</th>
+                        <th className="px-4 py-3 text-right">Counted (g fine)</th>
+                        <th className="px-4 py-3 text-right">Variance (g)</th>
+                        <th className="px-4 py-3 text-right">Variance Value</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.length === 0 && <tr><td colSpan={6} className="px-4 py-10 text-center text-slate-400 italic">No stock on hand to count.</td></tr>}
+                    {rows.map(row => {
+                        const batch = row.batchId ? batches.get(row.batchId) : undefined;
+                        return (
+                            <tr key={row.key} className="border-b border-slate-50 hover:bg-slate-50/50">
+                                <td className="px-4 py-2.5">
+                                    {batch ? (
+                                        <>
+                                            <p className="font-mono text-xs text-slate-700">{batch.id}</p>
+                                            <p className="text-[10px] text-slate-400">{batch.date} · {METAL_LABELS[row.metal]} {formatPurity(row.metal, getPurity(batch))}</p>
+                                        </>
+                                    ) : <p className="font-bold text-slate-800">{METAL_LABELS[row.metal]}</p>}
+                                </td>
+                                {mode === 'LOT' && <td className="px-4 py-2.5 text-xs text-slate-600 truncate max-w-[160px]">{batch ? parties.get(getBatchInvoiceId(batch)) || '-' : '-'}</td>}
+                                <td className="px-4 py-2.5 text-right font-mono text-slate-600">{formatGrams(row.bookGrams)}</td>
+                                <td className="px-4 py-2.5 text-right">
+                                    <input type="number" step="0.001" placeholder="-" value={counts[row.key] || ''} onChange={(e) => setCounts({ ...counts, [row.key]: e.target.value })} className={`${inputClass} w-28 text-right font-mono`} />
+                                </td>
+                                <td className={`px-4 py-2.5 text-right font-mono font-bold ${!hasVariance(row) ? 'text-slate-300' : row.variance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                    {hasVariance(row) ? `${row.variance > 0 ? '+' : ''}${row.variance.toFixed(3)}` : '-'}
+                                </td>
+                                <td className={`px-4 py-2.5 text-right font-mono ${row.varianceValue < 0 ? 'text-red-600' : 'text-slate-600'}`}>{hasVariance(row) ? formatCurrency(row.varianceValue) : '-'}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+
+        <div className="px-6 py-5 border-t border-slate-100 space-y-4">
+            {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+            <div className="flex flex-wrap items-center gap-3">
+                <p className="text-sm font-bold text-slate-700 flex-1">
+                    {varied.length} variance{varied.length === 1 ? '' : 's'} · net <span className={`font-mono ${netValue < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatCurrency(netValue)}</span>
+                </p>
+                {canPost && (
+                    <>
+                        {sameDayOnly ? (
+                            <span className={`${inputClass} flex items-center gap-2 text-slate-500`}><Lock className="w-3.5 h-3.5"/>{date}</span>
+                        ) : (
+                            <SingleDatePicker value={date} onChange={setDate} className="w-40" />
+                        )}
+                        <select value={reason} onChange={(e) => setReason(e.target.value as AdjustmentReason)} className={inputClass}>
+                            {(Object.keys(ADJUSTMENT_REASON_LABELS) as AdjustmentReason[]).map(r => <option key={r} value={r}>{ADJUSTMENT_REASON_LABELS[r]}</option>)}
+                        </select>
+                        <input type="text" placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} className={`${inputClass} w-48`} />
+                        <button onClick={handlePost} disabled={varied.length === 0} className="px-4 py-2 bg-slate-900 text-white text-xs font-bold rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center gap-2">
+                            <CheckCircle className="w-4 h-4"/> Post Adjustment
+                        </button>
+                    </>
+                )}
+            </div>
+            {!canPost && <p className="text-xs text-slate-400">Your role can count stock but not post adjustments.</p>}
+        </div>
+    </div>
+  );
+};
+
+export default StockCount;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { UserAccount, UserRole } from '../types';
+import { ROLES, ROLE_LABELS, MIN_PASSWORD_LENGTH, assertOwnerRemains, createUser, hasPermission, hashPassword, verifyPassword } from '../services/authService';
+import { Users, UserPlus, KeyRound, Trash2, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface UserManagementProps {
+  users: UserAccount[];
+  currentUser: UserAccount;
+  onChange: (users: UserAccount[], message: string) => void;
+}
+
+const UserManagement: React.FC<UserManagementProps> = ({ users, currentUser, onChange }) => {
+  const [newName, setNewName] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>('STAFF');
+  const [newPassword, setNewPassword] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [ownPassword, setOwnPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const canManage = hasPermission(currentUser, 'MANAGE_USERS');
+
+  const run = async (task: () => Promise<void>) => {
+      setError('');
+      setBusy(true);
+      try {
+          await task();
+      } catch (err: any) {
+          setError(err.message);
+      } finally {
+          setBusy(false);
+      }
+  };
+
+  const update = (next: UserAccount[], message: string) => {
+      assertOwnerRemains(next);
+      onChange(next, message);
+  };
+
+  const handleAdd = () => run(async () => {
+      const user = await createUser(users, newName, newRole, newPassword);
+      update([...users, user], `User ${user.name} added as ${ROLE_LABELS[user.role]}.`);
+      setNewName('');
+      setNewPassword('');
+  });
+
+  const handleRoleChange = (user: UserAccount, role: UserRole) => run(async () => {
+      update(users.map(u => (u.id === user.id ? { ...u, role } : u)), `${user.name} is now ${ROLE_LABELS[role]}.`);
+  });
+
+  const handleResetPassword = (user: UserAccount) => run(async () => {
+      const password = window.prompt(`New password for ${user.name} (at least ${MIN_PASSWORD_LENGTH} characters):`);
+      if (password === null) return;
+      if (password.length < MIN_PASSWORD_LENGTH) throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      const hash = await hashPassword(password);
+      update(users.map(u => (u.id === user.id ? { ...u, password: hash } : u)), `Password for ${user.name} changed.`);
+  });
+
+  const handleRemove = (user: UserAccount) => run(async () => {
+      if (user.id === currentUser.id) throw new Error('You cannot remove your own account.');
+      if (!window.confirm(`Remove user ${user.name}?`)) return;
+      update(users.filter(u => u.id !== user.id), `User ${user.name} removed.`);
+  });
+
+  const handleOwnPassword = () => run(async () => {
+      if (!(await verifyPassword(currentPassword, currentUser.password))) throw new Error('Current password is wrong.');
+      if (ownPassword.length < MIN_PASSWORD_LENGTH) throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      const hash = await hashPassword(ownPassword);
+      update(users.map(u => (u.id === currentUser.id ? { ...u, password: hash } : u)), 'Your password was changed.');
+      setCurrentPassword('');
+      setOwnPassword('');
+  });
+
+  const inputClass = "w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium focus:ring-2 focus:ring-gold-500/20 focus:border-gold-500 outline-none transition-all placeholder:text-slate-400 hover:border-slate-300";
+  const labelClass = "block text-[10px] font-bold text-slate-500 mb-1.5 uppercase tracking-wider";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-card border border-slate-100 overflow-hidden animate-slide-up">
+        <div className="px-5 py-4 border-b border-slate-50 flex items-center gap-2">
+            <div className="p-2 bg-gradient-to-br from-gold-100 to-gold-50 text-gold-700 rounded-lg"><Users className="w-4 h-4"/></div>
+            <div>
+                <h3 className="font-bold text-slate-900">Users & Roles</h3>
+                <p className="text-xs text-slate-500">Signed in as {currentUser.name} ({ROLE_LABELS[currentUser.role]}).</p>
+            </div>
+        </div>
+        <div className="p-5 space-y-6">
+            {error && <div className="p-3 bg-red-50 border border-red-100 text-red-700 text-xs rounded-xl flex items-center gap-2"><AlertTriangle className="w-4 h-4 flex-shrink-0" />{error}</div>}
+
+            {canManage && (
+                <>
+                    <div className="divide-y divide-slate-50 border border-slate-100 rounded-xl">
+                        {users.map(user => (
+                            <div key={user.id} className="flex items-center gap-3 px-4 py-2.5">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-bold text-slate-800 truncate">{user.name}{user.id === currentUser.id ? ' (you)' : ''}</p>
+                                    <p className="text-[10px] text-slate-400">Added {new Date(user.createdAt).toLocaleDateString('en-IN')}</p>
+                                </div>
+                                <select value={user.role} onChange={(e) => handleRoleChange(user, e.target.value as UserRole)} disabled={busy} className="px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold">
+                                    {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                                </select>
+                                <button onClick={() => handleResetPassword(user)} disabled={busy} title="Set password" className="p-1.5 rounded-lg text-slate-400 hover:text-slate-900 hover:bg-slate-50"><KeyRound className="w-4 h-4"/></button>
+                                <button onClick={() => handleRemove(user)} disabled={busy || user.id === currentUser.id} title="Remove user" className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30"><Trash2 className="w-4 h-4"/></button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                        <div>
+                            <label className={labelClass}>User Name</label>
+                            <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Role</label>
+                            <select value={newRole} onChange={(e) => setNewRole(e.target.value as UserRole)} className={inputClass}>
+                                {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Password</label>
+                            <input type="password" autoComplete="new-password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClass} />
+                        </div>
+                    </div>
+                    <button onClick={handleAdd} disabled={busy || !newName || !newPassword} className="px-5 py-2.5 bg-slate-900 text-white text-sm font-bold rounded-xl hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center gap-2">
+                        {busy ? <Loader2 className="w-4 h-4 animate-spin"/> : <UserPlus className="w-4 h-4"/>} Add User
+                    </button>
+                </>
+            )}
+
+            <div className={`${canManage ? 'border-t border-slate-100 pt-5' : ''} space-y-3`}>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className={labelClass}>Current Password</label>
+                        <input type="password" autoComplete="current-password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>New Password</label>
+                        <input type="password" autoComplete="new-password" value={ownPassword} onChange={(e) => setOwnPassword(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+                <button onClick={handleOwnPassword} disabled={busy || !currentPassword || !ownPassword} className="px-5 py-2.5 bg-white border border-slate-200 text-slate-700 text-sm font-bold rounded-xl hover:bg-slate-50 disabled:opacity-50 transition-colors flex items-center gap-2">
+                    <KeyRound className="w-4 h-4"/> Change My Password
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -0,0 +1,148 @@
+import { AuditAction, AuditDraft, AuditEntry, Invoice, ProfitShift, UserAccount } from '../types';
+import { generateId } from '../utils';
+import { isCosted } from './invoiceService';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Created',
+  EDIT: 'Edited',
+  DELETE: 'Deleted',
+  IMPORT: 'Imported',
+  RECALCULATE: 'Recalculated',
+  RESTORE: 'Restored',
+  RESET: 'Reset',
+  LOCK_DATE: 'Lock Date',
+  CLOSE_PERIOD: 'Closed',
+  REOPEN_PERIOD: 'Reopened',
+  PAYMENT: 'Payment',
+  DELETE_PAYMENT: 'Payment Deleted',
+  PARTY: 'Party',
+  MERGE_PARTY: 'Parties Merged',
+  DUPLICATE: 'Duplicate'
+};
+
+const GENESIS_HASH = '0'.repeat(64);
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const hashEntry = (entry: Omit<AuditEntry, 'hash'>) => sha256(JSON.stringify(entry));
+
+/**
+ * Sales whose cost or profit differ between two versions of the books, e.g. before and
+ * after a back-dated purchase is replayed. Sales missing from either side are left out.
+ */
+export const getProfitShifts = (before: Invoice[], after: Invoice[]): ProfitShift[] => {
+  const previous = new Map(before.filter(isCosted).map(inv => [inv.id, inv]));
+  return after
+    .filter(inv => isCosted(inv) && previous.has(inv.id))
+    .map(inv => {
+      const old = previous.get(inv.id)!;
+      return {
+        invoiceId: inv.id,
+        date: inv.date,
+        partyName: inv.partyName,
+        cogsBefore: old.cogs || 0,
+        cogsAfter: inv.cogs || 0,
+        profitBefore: old.profit || 0,
+        profitAfter: inv.profit || 0
+      };
+    })
+    .filter(s => Math.abs(s.profitAfter - s.profitBefore) > 0.005 || Math.abs(s.cogsAfter - s.cogsBefore) > 0.005);
+};
+
+/**
+ * Turns drafts into chained entries following `last` (the current end of the log).
+ */
+export const sealAuditEntries = async (drafts: AuditDraft[], user: UserAccount, last?: AuditEntry): Promise<AuditEntry[]> => {
+  const sealed: AuditEntry[] = [];
+  let prev = last;
+  for (const draft of drafts) {
+    const entry: Omit<AuditEntry, 'hash'> = {
+      id: generateId(),
+      seq: prev ? prev.seq + 1 : 0,
+      timestamp: new Date().toISOString(),
+      userId: user.id,
+      userName: user.name,
+      role: user.role,
+      action: draft.action,
+      summary: draft.summary,
+      ...(draft.invoiceId ? { invoiceId: draft.invoiceId } : {}),
+      ...(draft.before ? { before: draft.before } : {}),
+      ...(draft.after ? { after: draft.after } : {}),
+      affected: draft.affected || [],
+      prevHash: prev ? prev.hash : GENESIS_HASH
+    };
+    prev = { ...entry, hash: await hashEntry(entry) };
+    sealed.push(prev);
+  }
+  return sealed;
+};
+
+/**
+ * Recomputes the hash chain. Returns the seq of the first entry that does not match, or null if intact.
+ */
+export const verifyAuditChain = async (entries: AuditEntry[]): Promise<number | null> => {
+  let prevHash = GENESIS_HASH;
+  for (let i = 0; i < entries.length; i++) {
+    const { hash, ...rest } = entries[i];
+    if (rest.seq !== i || rest.prevHash !== prevHash || (await hashEntry(rest)) !== hash) return i;
+    prevHash = hash;
+  }
+  return null;
+};
+
+// Fields compared when showing what an edit changed; lot allocations are left out
+const TRACKED_FIELDS: (keyof Invoice)[] = [
+  'date', 'type', 'partyName', 'partyGstin', 'partyState', 'metal', 'purity', 'quantityGrams', 'ratePerGram',
+  'taxableAmount', 'gstRate', 'gstAmount', 'cgstAmount', 'sgstAmount', 'igstAmount', 'totalAmount', 'cogs', 'profit', 'lines'
+];
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '-';
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'number') return Number.isInteger(value) ? value.toString() : value.toFixed(3);
+  return String(value);
+};
+
+export const getFieldChanges = (before?: Invoice, after?: Invoice): FieldChange[] => {
+  return TRACKED_FIELDS
+    .filter(field => JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field]))
+    .map(field => ({ field, before: formatValue(before?.[field]), after: formatValue(after?.[field]) }));
+};
+
+export interface AuditFilter {
+  action: AuditAction | 'ALL';
+  userId: string | 'ALL';
+  start: string;
+  end: string;
+  query: string;
+}
+
+export const filterAuditLog = (entries: AuditEntry[], filter: AuditFilter): AuditEntry[] => {
+  const query = filter.query.trim().toLowerCase();
+  return entries.filter(e => {
+    const day = e.timestamp.substring(0, 10);
+    if (filter.action !== 'ALL' && e.action !== filter.action) return false;
+    if (filter.userId !== 'ALL' && e.userId !== filter.userId) return false;
+    if ((filter.start && day < filter.start) || (filter.end && day > filter.end)) return false;
+    if (!query) return true;
+    const party = e.after?.partyName || e.before?.partyName || '';
+    return [e.summary, e.invoiceId || '', party, e.userName].some(text => text.toLowerCase().includes(query));
+  });
+};
+
+export const describeInvoice = (inv: Invoice): string => {
+  if (inv.type === 'ADJUSTMENT') return `Stock adjustment (${inv.partyName}) on ${inv.date}, ${inv.quantityGrams >= 0 ? '+' : ''}${inv.quantityGrams.toFixed(3)} g fine`;
+  if (inv.type === 'OPENING') return `Opening stock as of ${inv.date}, ${inv.quantityGrams.toFixed(3)} g at cost ₹${inv.taxableAmount.toFixed(2)}`;
+  if (inv.type === 'SALE_RETURN') return `Credit note to ${inv.partyName} on ${inv.date} against ${inv.returnOf}, ${inv.quantityGrams.toFixed(3)} g, ₹${inv.totalAmount.toFixed(2)}`;
+  if (inv.type === 'PURCHASE_RETURN') return `Debit note to ${inv.partyName} on ${inv.date} against ${inv.returnOf}, ${inv.quantityGrams.toFixed(3)} g, ₹${inv.totalAmount.toFixed(2)}`;
+  return `${inv.type === 'SALE' ? 'Sale to' : 'Purchase from'} ${inv.partyName} on ${inv.date}, ${inv.quantityGrams.toFixed(3)} g, ₹${inv.totalAmount.toFixed(2)}`;
+};
@@ -0,0 +1,82 @@
+import { PasswordHash, Permission, UserAccount, UserRole } from '../types';
+import { generateId, toBase64, fromBase64 } from '../utils';
+
+const PBKDF2_ITERATIONS = 150000;
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  OWNER: 'Owner',
+  ACCOUNTANT: 'Accountant',
+  STAFF: 'Counter Staff'
+};
+
+export const ROLES: UserRole[] = ['OWNER', 'ACCOUNTANT', 'STAFF'];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  OWNER: ['DELETE_INVOICE', 'EDIT_INVOICE', 'BACKDATE_ENTRY', 'CLOSE_PERIOD', 'REOPEN_PERIOD', 'ADJUST_STOCK', 'RESET_DATA', 'EXPORT_DATA', 'MANAGE_SETTINGS', 'MANAGE_USERS', 'MANAGE_PARTIES', 'VIEW_AUDIT'],
+  ACCOUNTANT: ['EDIT_INVOICE', 'BACKDATE_ENTRY', 'CLOSE_PERIOD', 'ADJUST_STOCK', 'EXPORT_DATA', 'MANAGE_SETTINGS', 'MANAGE_PARTIES', 'VIEW_AUDIT'],
+  // Counter staff record today's purchases and sales only
+  STAFF: []
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  DELETE_INVOICE: 'delete invoices',
+  EDIT_INVOICE: 'edit invoices',
+  BACKDATE_ENTRY: 'enter invoices for other dates',
+  CLOSE_PERIOD: 'close periods',
+  REOPEN_PERIOD: 'reopen closed periods',
+  ADJUST_STOCK: 'post stock adjustments',
+  RESET_DATA: 'reset or replace data',
+  EXPORT_DATA: 'export reports',
+  MANAGE_SETTINGS: 'change settings',
+  MANAGE_USERS: 'manage users',
+  MANAGE_PARTIES: 'edit or merge parties',
+  VIEW_AUDIT: 'view the audit trail'
+};
+
+export const hasPermission = (user: UserAccount | null, permission: Permission): boolean => {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+};
+
+const deriveHash = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256);
+  return toBase64(new Uint8Array(bits));
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { hash: await deriveHash(password, salt, PBKDF2_ITERATIONS), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const hash = await deriveHash(password, fromBase64(stored.salt), stored.iterations);
+  // Compare every character so the time taken does not depend on where they differ
+  let diff = hash.length ^ stored.hash.length;
+  for (let i = 0; i < Math.min(hash.length, stored.hash.length); i++) diff |= hash.charCodeAt(i) ^ stored.hash.charCodeAt(i);
+  return diff === 0;
+};
+
+const findUser = (users: UserAccount[], name: string) => users.find(u => u.name.toLowerCase() === name.trim().toLowerCase());
+
+export const createUser = async (users: UserAccount[], name: string, role: UserRole, password: string): Promise<UserAccount> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Enter a user name.');
+  if (findUser(users, trimmed)) throw new Error(`User "${trimmed}" already exists.`);
+  if (password.length < MIN_PASSWORD_LENGTH) throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  return { id: generateId(), name: trimmed, role, password: await hashPassword(password), createdAt: new Date().toISOString() };
+};
+
+export const authenticate = async (users: UserAccount[], name: string, password: string): Promise<UserAccount> => {
+  const user = findUser(users, name);
+  // Same message either way, so the form does not reveal which user names exist
+  if (!user || !(await verifyPassword(password, user.password))) throw new Error('Wrong user name or password.');
+  return user;
+};
+
+/**
+ * Throws if a change to the user list would leave nobody able to manage users.
+ */
+export const assertOwnerRemains = (users: UserAccount[]) => {
+  if (!users.some(u => u.role === 'OWNER')) throw new Error('At least one Owner account is required.');
+};
@@ -0,0 +1,203 @@
+import { BackupData, BackupDiff, BackupDocument, BackupFile, FirmProfile, InventoryBatch, Invoice, KycStatus, Party, Payment, PaymentDirection, PaymentMode, PeriodClose, PeriodSnapshot, TransactionType } from '../types';
+import { COSTING_METHODS } from './ledgerService';
+import { SCHEMA_VERSION } from './migrations';
+import { findPartyByName } from './partyService';
+import { isRecord, toBase64, fromBase64 } from '../utils';
+
+const BACKUP_FORMAT = 'bullionkeep-backup';
+export const BACKUP_VERSION = 1;
+const PBKDF2_ITERATIONS = 250000;
+
+const deriveKey = async (password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Builds a backup file of the whole dataset. With a password the data is encrypted
+ * (AES-GCM, key derived with PBKDF2); without one it is stored as plain JSON.
+ */
+export const createBackup = async (data: BackupData, password?: string): Promise<BackupFile> => {
+  const header = { format: BACKUP_FORMAT, version: BACKUP_VERSION, schemaVersion: SCHEMA_VERSION, createdAt: new Date().toISOString() } as const;
+  if (!password) return { ...header, encrypted: false, data };
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  const cipherText = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(data)));
+  return {
+    ...header,
+    encrypted: true,
+    cipher: { salt: toBase64(salt), iv: toBase64(iv), iterations: PBKDF2_ITERATIONS, data: toBase64(new Uint8Array(cipherText)) }
+  };
+};
+
+export const parseBackupFile = (text: string): BackupFile => {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('File is not a BullionKeep backup.');
+  }
+  if (!file || file.format !== BACKUP_FORMAT) throw new Error('File is not a BullionKeep backup.');
+  if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${file.version} is newer than this app supports. Update the app first.`);
+  }
+  if (file.schemaVersion > SCHEMA_VERSION) {
+    throw new Error(`Backup was made with a newer data schema (${file.schemaVersion}). Update the app first.`);
+  }
+  return file;
+};
+
+const INVOICE_TYPES: TransactionType[] = ['PURCHASE', 'SALE', 'OPENING', 'ADJUSTMENT', 'SALE_RETURN', 'PURCHASE_RETURN'];
+const PAYMENT_DIRECTIONS: PaymentDirection[] = ['RECEIVED', 'PAID'];
+const PAYMENT_MODES: PaymentMode[] = ['CASH', 'BANK', 'UPI', 'CHEQUE'];
+const KYC_STATUSES: KycStatus[] = ['NOT_COLLECTED', 'PENDING', 'VERIFIED'];
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+const isAmount = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isValidInvoice = (inv: unknown): inv is Invoice => {
+  return isRecord(inv) && typeof inv.id === 'string' && isDate(inv.date)
+    && INVOICE_TYPES.some(type => type === inv.type) && typeof inv.partyName === 'string'
+    && typeof inv.quantityGrams === 'number' && typeof inv.taxableAmount === 'number';
+};
+
+const isValidBatch = (batch: unknown): batch is InventoryBatch => {
+  return isRecord(batch) && typeof batch.id === 'string' && isDate(batch.date)
+    && isAmount(batch.originalQuantity) && isAmount(batch.remainingQuantity) && isAmount(batch.costPerGram);
+};
+
+const isValidPayment = (payment: unknown): payment is Payment => {
+  return isRecord(payment) && typeof payment.id === 'string' && isDate(payment.date)
+    && PAYMENT_DIRECTIONS.some(direction => direction === payment.direction) && PAYMENT_MODES.some(mode => mode === payment.mode)
+    && typeof payment.partyName === 'string' && isAmount(payment.amount) && payment.amount > 0
+    && (payment.invoiceId === undefined || typeof payment.invoiceId === 'string');
+};
+
+const isValidParty = (party: unknown): party is Party => {
+  return isRecord(party) && typeof party.id === 'string' && typeof party.name === 'string'
+    && Array.isArray(party.aliases) && party.aliases.every(alias => typeof alias === 'string')
+    && KYC_STATUSES.some(status => status === party.kycStatus)
+    && (party.creditLimit === undefined || isAmount(party.creditLimit));
+};
+
+const isValidSnapshot = (snapshot: unknown): snapshot is PeriodSnapshot => {
+  return isRecord(snapshot) && isRecord(snapshot.grams) && Object.values(snapshot.grams).every(isAmount) && isAmount(snapshot.value);
+};
+
+const isValidPeriod = (period: unknown): period is PeriodClose => {
+  return isRecord(period) && typeof period.id === 'string' && isDate(period.periodEnd)
+    && (period.periodStart === null || isDate(period.periodStart)) && COSTING_METHODS.some(method => method === period.costingMethod)
+    && isValidSnapshot(period.opening) && isValidSnapshot(period.closing)
+    && Array.isArray(period.batches) && period.batches.every(isValidBatch)
+    && isRecord(period.pnl) && typeof period.closedAt === 'string';
+};
+
+const isValidDocument = (doc: unknown): doc is BackupDocument => {
+  return isRecord(doc) && typeof doc.id === 'string' && typeof doc.invoiceId === 'string' && typeof doc.name === 'string'
+    && typeof doc.mimeType === 'string' && typeof doc.data === 'string';
+};
+
+const isValidFirm = (firm: unknown): firm is FirmProfile => {
+  return isRecord(firm) && typeof firm.name === 'string' && typeof firm.gstin === 'string' && typeof firm.stateCode === 'string';
+};
+
+// Every record of a collection must pass, or the restore is refused before anything is replaced
+const checkRecords = <T>(records: unknown[], isValid: (record: unknown) => record is T, label: string): T[] => {
+  const valid = records.filter(isValid);
+  const bad = records.length - valid.length;
+  if (bad > 0) throw new Error(`Backup contains ${bad} malformed ${label} record${bad > 1 ? 's' : ''}.`);
+  return valid;
+};
+
+const validateBackupData = (data: unknown): BackupData => {
+  if (!isRecord(data) || !Array.isArray(data.invoices) || !Array.isArray(data.inventory)) throw new Error('Backup is missing invoice or inventory data.');
+  const invoices = checkRecords(data.invoices, isValidInvoice, 'invoice');
+  const ids = new Set(invoices.map(inv => inv.id));
+  if (ids.size !== invoices.length) throw new Error('Backup contains duplicate invoice IDs.');
+  const inventory = checkRecords(data.inventory, isValidBatch, 'stock lot');
+  const periods = Array.isArray(data.periods) ? checkRecords(data.periods, isValidPeriod, 'period close') : undefined;
+  const payments = Array.isArray(data.payments) ? checkRecords(data.payments, isValidPayment, 'payment') : undefined;
+  const parties = Array.isArray(data.parties) ? checkRecords(data.parties, isValidParty, 'party') : undefined;
+  const documents = Array.isArray(data.documents) ? checkRecords(data.documents, isValidDocument, 'document') : undefined;
+  const settings = isRecord(data.settings) ? data.settings : {};
+  return {
+    invoices,
+    inventory,
+    lockDate: typeof data.lockDate === 'string' ? data.lockDate : null,
+    ...(periods ? { periods } : {}),
+    ...(payments ? { payments } : {}),
+    ...(parties ? { parties } : {}),
+    ...(documents ? { documents } : {}),
+    settings: {
+      costingMethod: COSTING_METHODS.find(method => method === settings.costingMethod) || 'FIFO',
+      firm: isValidFirm(settings.firm) ? settings.firm : { name: '', gstin: '', stateCode: '' }
+    }
+  };
+};
+
+/**
+ * Decrypts (if needed) and validates the contents of a backup file.
+ */
+export const readBackup = async (file: BackupFile, password?: string): Promise<BackupData> => {
+  if (!file.encrypted) return validateBackupData(file.data);
+  if (!file.cipher) throw new Error('Encrypted backup has no data.');
+  if (!password) throw new Error('This backup is password protected.');
+
+  const key = await deriveKey(password, fromBase64(file.cipher.salt), file.cipher.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(file.cipher.iv) }, key, fromBase64(file.cipher.data));
+  } catch {
+    // AES-GCM fails authentication on a wrong key, and on a tampered file
+    throw new Error('Wrong password, or the file is damaged.');
+  }
+  return validateBackupData(JSON.parse(new TextDecoder().decode(plain)));
+};
+
+export const compareWithBackup = (current: Invoice[], incoming: Invoice[]): BackupDiff => {
+  const currentById = new Map(current.map(inv => [inv.id, JSON.stringify(inv)]));
+  const incomingIds = new Set(incoming.map(inv => inv.id));
+  const diff: BackupDiff = { added: 0, changed: 0, unchanged: 0, missing: 0 };
+  incoming.forEach(inv => {
+    const existing = currentById.get(inv.id);
+    if (existing === undefined) diff.added++;
+    else if (existing === JSON.stringify(inv)) diff.unchanged++;
+    else diff.changed++;
+  });
+  diff.missing = current.filter(inv => !incomingIds.has(inv.id)).length;
+  return diff;
+};
+
+/**
+ * Merge keeps every current invoice as it is and adds the backup's invoices that are not in the app.
+ */
+export const mergeInvoices = (current: Invoice[], incoming: Invoice[]): Invoice[] => {
+  const ids = new Set(current.map(inv => inv.id));
+  return [...incoming.filter(inv => !ids.has(inv.id)), ...current];
+};
+
+// Payments are merged the same way: current ones stay, unknown ones from the backup are added
+export const mergePayments = (current: Payment[], incoming: Payment[]): Payment[] => {
+  const ids = new Set(current.map(p => p.id));
+  return [...current, ...incoming.filter(p => !ids.has(p.id))];
+};
+
+// A backup party named like one already in the master is the same party; its records are relinked by name
+export const mergePartyMaster = (current: Party[], incoming: Party[]): Party[] => {
+  const ids = new Set(current.map(p => p.id));
+  return [...current, ...incoming.filter(p => !ids.has(p.id) && !findPartyByName(current, p.name))];
+};
+
+// Bills come along with the invoices a merge adds; current invoices keep the bills they have
+export const mergeDocuments = (current: Invoice[], incoming: BackupDocument[]): BackupDocument[] => {
+  const ids = new Set(current.map(inv => inv.id));
+  return incoming.filter(doc => !ids.has(doc.invoiceId));
+};
@@ -0,0 +1,58 @@
+import JSZip from 'jszip';
+import { BackupDocument, Invoice, InvoiceDocument } from '../types';
+import { csvField, generateId, toBase64, fromBase64 } from '../utils';
+
+export const createInvoiceDocument = (invoiceId: string, file: File): InvoiceDocument => ({
+  id: generateId(),
+  invoiceId,
+  name: file.name,
+  mimeType: file.type || 'application/octet-stream',
+  size: file.size,
+  addedAt: new Date().toISOString(),
+  data: file
+});
+
+export const toBackupDocument = async (doc: InvoiceDocument): Promise<BackupDocument> => ({
+  ...doc,
+  data: toBase64(new Uint8Array(await doc.data.arrayBuffer()))
+});
+
+export const fromBackupDocument = (doc: BackupDocument): InvoiceDocument => ({
+  ...doc,
+  data: new Blob([fromBase64(doc.data)], { type: doc.mimeType })
+});
+
+// Name inside the auditor ZIP; the invoice ID prefix keeps two bills called scan.pdf apart
+export const getDocumentFileName = (doc: InvoiceDocument) => `${doc.invoiceId}_${doc.name.replace(/[\\/:*?"<>|]+/g, '_')}`;
+
+export interface AuditBundle {
+  csv: string;
+  pdf: Blob;
+  invoices: Invoice[]; // The invoices in the report
+  documents: InvoiceDocument[];
+}
+
+/**
+ * Zips a transaction report with the original bills of the invoices in it, plus an index
+ * that maps each file back to its invoice. Bills of invoices outside the report are left out.
+ */
+export const buildAuditZip = async ({ csv, pdf, invoices, documents }: AuditBundle): Promise<Blob> => {
+  const byId = new Map(documents.map(doc => [doc.id, doc]));
+  const attached = invoices.flatMap(inv => {
+    const doc = inv.documentId ? byId.get(inv.documentId) : undefined;
+    return doc ? [{ inv, doc }] : [];
+  });
+
+  const zip = new JSZip();
+  zip.file('transactions.csv', csv);
+  zip.file('transaction_report.pdf', pdf);
+  const folder = zip.folder('documents');
+  if (folder) {
+    attached.forEach(({ doc }) => folder.file(getDocumentFileName(doc), doc.data));
+    folder.file('index.csv', [
+      ['Invoice ID', 'Date', 'Party', 'Total (Inc GST)', 'File', 'Original Name', 'Size (bytes)'].join(','),
+      ...attached.map(({ inv, doc }) => [inv.id, inv.date, csvField(inv.partyName), inv.totalAmount, getDocumentFileName(doc), csvField(doc.name), doc.size].join(','))
+    ].join('\n'));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
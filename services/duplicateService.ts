@@ -0,0 +1,96 @@
+import { DuplicateCheck, DuplicateDecision, DuplicateMatch, Invoice, Party, TransactionType } from '../types';
+import { formatCurrency, formatGrams } from '../utils';
+import { findPartyByName, normalizePartyName } from './partyService';
+
+export const DUPLICATE_DECISION_LABELS: Record<DuplicateDecision, string> = {
+  SKIP: 'Skip',
+  LINK: 'Link',
+  ADD: 'Add Anyway'
+};
+
+// Only trading bills are checked; notes, counts and opening stock have no bill to enter twice
+const CHECKED_TYPES: TransactionType[] = ['PURCHASE', 'SALE'];
+
+// One bill entered twice can carry different dates, e.g. the bill date once and the day it arrived once
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+// Bill numbers compare without case, punctuation or padding zeros: "INV/0042" matches "inv-42"
+export const normalizeBillNumber = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/^([a-z]*)0+(?=\d)/, '$1');
+
+const daysApart = (a: string, b: string) => Math.round(Math.abs(Date.parse(a) - Date.parse(b)) / 86400000);
+
+// GST bill series restart each financial year (April to March), so FY 2024-25 is 2024
+const financialYear = (date: string) => {
+  const [year, month] = date.split('-').map(Number);
+  return month >= 4 ? year : year - 1;
+};
+const financialYearLabel = (date: string) => {
+  const year = financialYear(date);
+  return `FY ${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+};
+
+// Half a percent (or 10 mg) on weight, one percent (or a rupee) on amount, to allow for rounding and re-keying
+const closeWeight = (a: number, b: number) => Math.abs(a - b) <= Math.max(0.01, Math.abs(b) * 0.005);
+const closeAmount = (a: number, b: number) => Math.abs(a - b) <= Math.max(1, Math.abs(b) * 0.01);
+
+const partyKey = (inv: Invoice, parties: Party[]) => inv.partyId || findPartyByName(parties, inv.partyName)?.id || normalizePartyName(inv.partyName);
+
+const sameParty = (a: Invoice, b: Invoice, parties: Party[]) => {
+  if (a.partyGstin && b.partyGstin && a.partyGstin === b.partyGstin) return true;
+  return partyKey(a, parties) === partyKey(b, parties);
+};
+
+const compare = (entry: Invoice, other: Invoice, parties: Party[]): DuplicateMatch | null => {
+  if (other.id === entry.id || other.type !== entry.type || !sameParty(entry, other, parties)) return null;
+  // Two different numbers from the same party are two bills, however alike; so is one number reused in a later year's series
+  if (entry.billNumber && other.billNumber) {
+    if (normalizeBillNumber(entry.billNumber) !== normalizeBillNumber(other.billNumber) || financialYear(entry.date) !== financialYear(other.date)) return null;
+    return { invoice: other, exact: true, reasons: [`Same bill number ${other.billNumber} from ${other.partyName} in ${financialYearLabel(other.date)}`] };
+  }
+  const days = daysApart(entry.date, other.date);
+  if (days > DUPLICATE_WINDOW_DAYS || !closeWeight(entry.quantityGrams, other.quantityGrams) || !closeAmount(entry.totalAmount, other.totalAmount)) return null;
+  return {
+    invoice: other,
+    exact: false,
+    reasons: [
+      `Same party, ${days === 0 ? 'same date' : `${days} day${days > 1 ? 's' : ''} apart`}`,
+      entry.quantityGrams === other.quantityGrams ? `Same weight ${formatGrams(other.quantityGrams)}` : `Weight ${formatGrams(entry.quantityGrams)} against ${formatGrams(other.quantityGrams)}`,
+      entry.totalAmount === other.totalAmount ? `Same amount ${formatCurrency(other.totalAmount)}` : `Amount ${formatCurrency(entry.totalAmount)} against ${formatCurrency(other.totalAmount)}`
+    ]
+  };
+};
+
+/**
+ * The invoice most likely to be the same bill as `entry`: one with the same party and bill number
+ * in the same financial year, else one of the same party and type within a few days with nearly the same weight and amount.
+ */
+export const findDuplicate = (entry: Invoice, pool: Invoice[], parties: Party[]): DuplicateMatch | null => {
+  if (!CHECKED_TYPES.includes(entry.type)) return null;
+  const matches = pool.map(other => compare(entry, other, parties)).filter((m): m is DuplicateMatch => m !== null);
+  matches.sort((a, b) => Number(b.exact) - Number(a.exact) || daysApart(entry.date, a.invoice.date) - daysApart(entry.date, b.invoice.date));
+  return matches[0] || null;
+};
+
+/**
+ * Checks a batch (import or scan approval) against the books and against its own earlier entries,
+ * so the same bill twice in one file is caught too.
+ */
+export const checkDuplicates = (entries: Invoice[], existing: Invoice[], parties: Party[]): DuplicateCheck[] => {
+  const checks: DuplicateCheck[] = [];
+  entries.forEach((entry, index) => {
+    const posted = findDuplicate(entry, existing, parties);
+    const match = posted || findDuplicate(entry, entries.slice(0, index), parties);
+    if (match) checks.push({ invoice: entry, match: posted ? match : { ...match, pending: true } });
+  });
+  return checks;
+};
+
+/**
+ * Linking keeps the existing invoice and its figures, filling in the bill number and document
+ * it was missing from the entry that duplicated it.
+ */
+export const linkDuplicate = (existing: Invoice, entry: Invoice, documentId?: string): Invoice => ({
+  ...existing,
+  ...(!existing.billNumber && entry.billNumber ? { billNumber: entry.billNumber } : {}),
+  ...(!existing.documentId && documentId ? { documentId } : {})
+});
@@ -0,0 +1,351 @@
+import { ExtractedInvoice, ExtractedInvoiceField, ExtractedLine, ExtractedLineField, ExtractionProviderId, ExtractionSettings, FieldEvidence } from '../types';
+import { normalizeGstin } from './gstService';
+import { formatCurrency, isRecord, parseInvoiceOCR } from '../utils';
+
+export interface ExtractionInput {
+  text?: string; // Pasted bill text
+  document?: { data: string; mimeType: string }; // Scanned PDF or image, base64 without the data URL prefix
+  ownGstin?: string; // Our GSTIN is printed on most bills too; the party's is the other one
+}
+
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  label: string;
+  offline: boolean; // Works with no network at all
+  readsDocuments: boolean; // Can take a PDF or image, not just pasted text
+  extract: (input: ExtractionInput) => Promise<ExtractedInvoice>;
+}
+
+export const EXTRACTION_PROVIDER_LABELS: Record<ExtractionProviderId, string> = {
+  GEMINI: 'Gemini (online)',
+  MOCK: 'Sample data (testing)',
+  REGEX: 'Offline text parser'
+};
+
+// Below this a value is flagged for the user to check against the bill
+export const LOW_CONFIDENCE = 0.6;
+
+export const EXTRACTION_PROVIDER_DESCRIPTIONS: Record<ExtractionProviderId, string> = {
+  GEMINI: 'Reads PDFs, photos and pasted text, line by line. Sends the bill to Google with your own API key.',
+  MOCK: 'Always fills in the same sample bill. For trying the scan flow and for tests; nothing is read.',
+  REGEX: 'Pattern matching on pasted text. Works with no network, but only picks up totals as a single line.'
+};
+
+/**
+ * Reads an uploaded PDF or image into the shape providers take.
+ */
+export const readDocument = (file: File): Promise<{ data: string; mimeType: string }> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      // Remove the data URL prefix (e.g., "data:application/pdf;base64,")
+      const data = (reader.result as string).split(',')[1];
+      // Some browsers leave the type empty for PDFs
+      resolve({ data, mimeType: file.type || 'application/pdf' });
+    };
+    reader.onerror = () => reject(reader.error);
+  });
+};
+
+const num = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : value;
+  return typeof n === 'number' && isFinite(n) ? n : undefined;
+};
+
+const text = (value: unknown): string | undefined => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+// Drops the fields a provider left empty, so callers can tell "not read" from zero
+const compact = <T extends object>(obj: T): T => Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+
+const INVOICE_FIELDS: ExtractedInvoiceField[] = ['billNumber', 'date', 'type', 'partyName', 'partyGstin', 'gstRate', 'taxableAmount', 'gstAmount'];
+const LINE_FIELDS: ExtractedLineField[] = ['description', 'hsn', 'metal', 'purity', 'grossWeight', 'netWeight', 'ratePerGram', 'makingCharges', 'wastagePercent', 'stoneValue'];
+
+// Evidence only for the values that were actually kept
+const keepEvidence = <F extends string>(values: Partial<Record<F, unknown>>, evidence: Partial<Record<F, FieldEvidence>>): { evidence?: Partial<Record<F, FieldEvidence>> } => {
+  const kept = Object.fromEntries(Object.entries(evidence).filter(([field]) => values[field as F] !== undefined)) as Partial<Record<F, FieldEvidence>>;
+  return Object.keys(kept).length > 0 ? { evidence: kept } : {};
+};
+
+/**
+ * Model evidence arrives as a list of { field, confidence, source }, with line fields addressed
+ * as items.<index>.<field>. Splits it into the invoice's and each line's own.
+ */
+const groupEvidence = (entries: unknown[]) => {
+  const invoice: Partial<Record<ExtractedInvoiceField, FieldEvidence>> = {};
+  const lines: Partial<Record<ExtractedLineField, FieldEvidence>>[] = [];
+  entries.forEach(entry => {
+    if (!isRecord(entry)) return;
+    const confidence = num(entry.confidence);
+    const field = entry.field;
+    if (typeof field !== 'string' || confidence === undefined) return;
+    const source = text(entry.source);
+    const evidence = { confidence: Math.min(1, Math.max(0, confidence)), ...(source ? { source } : {}) };
+    const lineMatch = field.match(/^items\.(\d+)\.(\w+)$/);
+    const lineField = lineMatch ? LINE_FIELDS.find(f => f === lineMatch[2]) : undefined;
+    const invoiceField = INVOICE_FIELDS.find(f => f === field);
+    if (lineMatch && lineField) {
+      const index = parseInt(lineMatch[1]);
+      lines[index] = { ...lines[index], [lineField]: evidence };
+    } else if (invoiceField) {
+      invoice[invoiceField] = evidence;
+    }
+  });
+  return { invoice, lines };
+};
+
+const toExtractedLine = (item: unknown): Omit<ExtractedLine, 'evidence'> => {
+  const line = isRecord(item) ? item : {};
+  return compact({
+    description: text(line.description),
+    hsn: text(line.hsn),
+    metal: line.metal === 'SILVER' || line.metal === 'GOLD' ? line.metal : undefined,
+    purity: num(line.purity),
+    grossWeight: num(line.grossWeight),
+    netWeight: num(line.netWeight),
+    ratePerGram: num(line.ratePerGram),
+    makingCharges: num(line.makingCharges),
+    wastagePercent: num(line.wastagePercent),
+    stoneValue: num(line.stoneValue)
+  });
+};
+
+/**
+ * Shapes loosely typed model output into an ExtractedInvoice, discarding anything that is not a usable value.
+ */
+export const toExtractedInvoice = (data: unknown): ExtractedInvoice => {
+  const fields = isRecord(data) ? data : {};
+  const items: unknown[] = Array.isArray(fields.items) ? fields.items : [];
+  const evidence = groupEvidence(Array.isArray(fields.evidence) ? fields.evidence : []);
+  const partyGstin = text(fields.partyGstin);
+  const header = compact<Omit<ExtractedInvoice, 'items' | 'evidence'>>({
+    billNumber: text(fields.billNumber),
+    date: typeof fields.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(fields.date) ? fields.date : undefined,
+    type: fields.type === 'SALE' || fields.type === 'PURCHASE' ? fields.type : undefined,
+    partyName: text(fields.partyName),
+    partyGstin: partyGstin ? normalizeGstin(partyGstin) : undefined,
+    gstRate: num(fields.gstRate),
+    taxableAmount: num(fields.taxableAmount),
+    gstAmount: num(fields.gstAmount)
+  });
+  return {
+    ...header,
+    items: items.map((item, index): ExtractedLine => {
+      const line = toExtractedLine(item);
+      return { ...line, ...keepEvidence(line, evidence.lines[index] || {}) };
+    }),
+    ...keepEvidence(header, evidence.invoice)
+  };
+};
+
+// Differences under a rupee or half a percent are rounding on the bill
+const differs = (a: number, b: number) => Math.abs(a - b) > Math.max(1, Math.abs(b) * 0.005);
+
+/**
+ * Where the bill's own totals disagree with what is entered: quantity x rate against the printed
+ * taxable value, and the printed GST against the rate.
+ */
+export const crossCheckTotals = (entered: { taxable: number; gstRate: number }, bill: Pick<ExtractedInvoice, 'taxableAmount' | 'gstAmount'>): string[] => {
+  const warnings: string[] = [];
+  if (bill.taxableAmount !== undefined && entered.taxable > 0 && differs(entered.taxable, bill.taxableAmount)) {
+    warnings.push(`Quantity × rate comes to ${formatCurrency(entered.taxable)}, but the bill states a taxable value of ${formatCurrency(bill.taxableAmount)}.`);
+  }
+  const base = bill.taxableAmount ?? entered.taxable;
+  if (bill.gstAmount !== undefined && entered.gstRate > 0 && base > 0) {
+    const expected = base * entered.gstRate / 100;
+    if (differs(bill.gstAmount, expected)) {
+      warnings.push(`The bill shows GST of ${formatCurrency(bill.gstAmount)}, but ${entered.gstRate}% of ${formatCurrency(base)} is ${formatCurrency(expected)}.`);
+    }
+  }
+  return warnings;
+};
+
+const GEMINI_PROMPT = 'Analyze this invoice document. Extract the following details: Invoice Number, Date, Party Name, Party GSTIN, Transaction Type (Sale/Purchase) and GST %. List each line item separately with its Description, HSN, Metal (Gold/Silver), Purity/Fineness, Gross and Net Weight (Grams), Rate (Price/Gram), Making Charges, Wastage % and Stone Value. If Rate is not explicit, calculate it as the item\'s metal value / Net Weight. Also give the Taxable Value and total GST amount as printed. For every value you return, add an evidence entry with its field (items.<index>.<field> for line items), a confidence from 0 to 1 and the exact text it was read from; values you calculated or assumed rather than read get a confidence below 0.5.';
+
+/**
+ * Gemini structured extraction. The key is the user's own, entered in Settings; the SDK is only
+ * loaded when a bill is actually sent, so the app itself runs without network access.
+ */
+export const createGeminiProvider = (apiKey?: string): ExtractionProvider => ({
+  id: 'GEMINI',
+  label: EXTRACTION_PROVIDER_LABELS.GEMINI,
+  offline: false,
+  readsDocuments: true,
+  extract: async (input) => {
+    if (!apiKey) throw new Error('Enter a Gemini API key in Settings first.');
+    const { GoogleGenAI, Type } = await import('@google/genai');
+    const ai = new GoogleGenAI({ apiKey });
+
+    // Schema definition for structured output
+    const responseSchema = {
+      type: Type.OBJECT,
+      properties: {
+          billNumber: { type: Type.STRING, description: "Invoice / bill number as printed" },
+          date: { type: Type.STRING, description: "Invoice Date in YYYY-MM-DD format" },
+          type: { type: Type.STRING, enum: ["PURCHASE", "SALE"], description: "Transaction type based on invoice context" },
+          partyName: { type: Type.STRING, description: "Name of the Supplier or Customer" },
+          partyGstin: { type: Type.STRING, description: "GSTIN of the Supplier or Customer (not our own)" },
+          gstRate: { type: Type.NUMBER, description: "GST Percentage (e.g. 3)" },
+          taxableAmount: { type: Type.NUMBER, description: "Taxable value as printed on the invoice" },
+          gstAmount: { type: Type.NUMBER, description: "Total GST amount as printed (CGST + SGST, or IGST)" },
+          evidence: {
+              type: Type.ARRAY,
+              description: "One entry per extracted value",
+              items: {
+                  type: Type.OBJECT,
+                  properties: {
+                      field: { type: Type.STRING, description: "Field name, or items.<index>.<field> for a line item value" },
+                      confidence: { type: Type.NUMBER, description: "0 to 1; below 0.5 if calculated or assumed rather than read" },
+                      source: { type: Type.STRING, description: "Exact text on the invoice the value came from" }
+                  },
+                  required: ["field", "confidence"]
+              }
+          },
+          items: {
+              type: Type.ARRAY,
+              description: "One entry per line item on the invoice",
+              items: {
+                  type: Type.OBJECT,
+                  properties: {
+                      description: { type: Type.STRING, description: "Item description" },
+                      hsn: { type: Type.STRING, description: "HSN code" },
+                      metal: { type: Type.STRING, enum: ["GOLD", "SILVER"], description: "Metal traded" },
+                      purity: { type: Type.NUMBER, description: "Fineness in parts per 1000 (e.g. 999, 995, 916 for 22K, 925 for sterling)" },
+                      grossWeight: { type: Type.NUMBER, description: "Gross weight in grams including stones" },
+                      netWeight: { type: Type.NUMBER, description: "Net metal weight in grams" },
+                      ratePerGram: { type: Type.NUMBER, description: "Price per gram of metal" },
+                      makingCharges: { type: Type.NUMBER, description: "Making / labour charges for the item" },
+                      wastagePercent: { type: Type.NUMBER, description: "Wastage percentage charged on net weight" },
+                      stoneValue: { type: Type.NUMBER, description: "Value of stones in the item" }
+                  },
+                  required: ["netWeight", "ratePerGram"]
+              }
+          }
+      },
+      required: ["date", "type", "partyName", "items"]
+    };
+
+    const parts = input.document
+      ? [{ inlineData: input.document }, { text: GEMINI_PROMPT }]
+      : [{ text: `Extract invoice details from this text. Purchase or Sale? Invoice number? Party Name? Party GSTIN? Date? GST Rate? For each item: description, HSN, gold or silver, purity, gross and net grams, rate, making charges, wastage %, stone value. Also the taxable value and GST amount as printed, and for every value an evidence entry with its confidence and the exact text it came from (below 0.5 if calculated or assumed). Text: ${input.text || ''}` }];
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.0-flash',
+      contents: { parts },
+      config: {
+          responseMimeType: "application/json",
+          responseSchema: responseSchema
+      }
+    });
+
+    // Clean response text (remove markdown code blocks if present)
+    const cleanText = response.text ? response.text.replace(/```json|```/g, '').trim() : "{}";
+    const result = toExtractedInvoice(JSON.parse(cleanText));
+    if (!result.partyName && result.items.length === 0) throw new Error('Could not extract valid data');
+    return result;
+  }
+});
+
+/**
+ * The regex parser in utils, needing nothing but the pasted text. It only sees totals, so the
+ * bill comes back as a single line.
+ */
+export const regexProvider: ExtractionProvider = {
+  id: 'REGEX',
+  label: EXTRACTION_PROVIDER_LABELS.REGEX,
+  offline: true,
+  readsDocuments: false,
+  extract: async (input) => {
+    if (!input.text?.trim()) throw new Error('The offline parser reads pasted text only. Paste the bill text, or pick another extractor in Settings.');
+    const result = parseInvoiceOCR(input.text);
+    if (!result) throw new Error('Auto-extraction failed. Please enter details manually.');
+    const ownGstin = input.ownGstin ? normalizeGstin(input.ownGstin) : '';
+    const partyGstin = result.gstins.find(g => g !== ownGstin);
+    const { evidence } = result;
+    const header = compact<Omit<ExtractedInvoice, 'items' | 'evidence'>>({
+      billNumber: result.billNumber || undefined,
+      date: result.date || undefined,
+      type: result.isSale ? 'SALE' as const : 'PURCHASE' as const,
+      partyName: result.partyName || undefined,
+      partyGstin,
+      gstRate: result.gstRate || undefined,
+      taxableAmount: result.taxableAmount || undefined,
+      gstAmount: result.gstAmount || undefined
+    });
+    const line = compact({
+      metal: result.metal,
+      purity: result.purity,
+      grossWeight: result.quantity > 0 ? result.quantity : undefined,
+      netWeight: result.quantity > 0 ? result.quantity : undefined,
+      ratePerGram: result.rate > 0 ? result.rate : undefined
+    });
+    return compact({
+      ...header,
+      igstCharged: result.gstSplit ? result.gstSplit.igstAmount > 0 : undefined,
+      items: [{ ...line, ...keepEvidence(line, { purity: evidence.purity, grossWeight: evidence.quantity, netWeight: evidence.quantity, ratePerGram: evidence.rate }) }],
+      // A GSTIN pattern match is exact; which of the two is the party's is the only question
+      ...keepEvidence(header, { ...evidence, partyGstin: { confidence: 0.9, ...(partyGstin ? { source: partyGstin } : {}) } })
+    });
+  }
+};
+
+export const SAMPLE_EXTRACTION: ExtractedInvoice = {
+  billNumber: 'SBT/24-25/0107',
+  date: '2024-04-15',
+  type: 'PURCHASE',
+  partyName: 'Sample Bullion Traders',
+  partyGstin: '27AAPFU0939F1ZV',
+  gstRate: 3,
+  igstCharged: false,
+  taxableAmount: 720000,
+  gstAmount: 21600,
+  items: [{
+    description: 'Gold bar 999', hsn: '7108', metal: 'GOLD', purity: 999, grossWeight: 100, netWeight: 100, ratePerGram: 7200,
+    evidence: {
+      netWeight: { confidence: 0.95, source: 'Net Wt 100.000 g' },
+      ratePerGram: { confidence: 0.45, source: 'Amount 7,20,000.00 (rate worked out from amount / weight)' }
+    }
+  }],
+  evidence: {
+    billNumber: { confidence: 0.95, source: 'Invoice No: SBT/24-25/0107' },
+    date: { confidence: 0.9, source: 'Invoice Date: 15/04/2024' },
+    partyName: { confidence: 0.85, source: 'M/s Sample Bullion Traders' },
+    gstRate: { confidence: 0.5, source: 'CGST + SGST' }
+  }
+};
+
+/**
+ * Returns a fixed result without reading the input, or fails with the given message.
+ * Lets the scan flow be exercised with no network and no key.
+ */
+export const createMockProvider = (result: ExtractedInvoice | Error = SAMPLE_EXTRACTION): ExtractionProvider => ({
+  id: 'MOCK',
+  label: EXTRACTION_PROVIDER_LABELS.MOCK,
+  offline: true,
+  readsDocuments: true,
+  extract: async () => {
+    if (result instanceof Error) throw result;
+    return { ...result, items: result.items.map(item => ({ ...item })) };
+  }
+});
+
+export const getExtractionProvider = (settings: ExtractionSettings): ExtractionProvider => {
+  switch (settings.provider) {
+    case 'GEMINI': return createGeminiProvider(settings.geminiApiKey);
+    case 'MOCK': return createMockProvider();
+    default: return regexProvider;
+  }
+};
+
+/**
+ * Runs the chosen provider. Pasted text that it cannot handle, for example with no network,
+ * is retried with the offline parser before giving up.
+ */
+export const extractInvoice = async (provider: ExtractionProvider, input: ExtractionInput): Promise<{ result: ExtractedInvoice; provider: ExtractionProvider }> => {
+  try {
+    return { result: await provider.extract(input), provider };
+  } catch (err) {
+    if (provider.id === 'REGEX' || input.document || !input.text?.trim()) throw err;
+    return { result: await regexProvider.extract(input), provider: regexProvider };
+  }
+};
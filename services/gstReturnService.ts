@@ -0,0 +1,198 @@
+import { Invoice, FirmProfile, ReturnIssue, GstTaxAmounts, Gstr1Return, Gstr1Invoice, Gstr1B2csEntry, Gstr1HsnEntry, Gstr1Note, Gstr3bReturn } from '../types';
+import { getInvoiceLines, isReturn } from './invoiceService';
+import { getGstComponents, getFirmStateCode, isInterState, validateGstin } from './gstService';
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+// Inter-state B2C invoices above this value are reported invoice-wise (B2CL), lowered from 2.5 lakh in August 2024
+const getB2clLimit = (date: string): number => (date >= '2024-08-01' ? 100000 : 250000);
+
+// '2024-07' -> '072024'
+export const toReturnPeriod = (month: string): string => `${month.substring(5, 7)}${month.substring(0, 4)}`;
+
+const toReturnDate = (iso: string): string => iso.split('-').reverse().join('-');
+
+// Opening stock and adjustments are not supplies and never appear in a return; credit and debit notes do
+export const getMonthInvoices = (invoices: Invoice[], month: string): Invoice[] => {
+  return invoices.filter(inv => inv.type !== 'OPENING' && inv.type !== 'ADJUSTMENT' && inv.date.startsWith(month)).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const isOutward = (inv: Invoice): boolean => inv.type === 'SALE' || inv.type === 'SALE_RETURN';
+
+// Notes reduce the figures of the supplies they return
+const getSign = (inv: Invoice): number => (isReturn(inv) ? -1 : 1);
+
+const getPlaceOfSupply = (inv: Invoice, firm: FirmProfile): string => inv.partyState || getFirmStateCode(firm) || '';
+
+/**
+ * Taxable value and tax per line. Invoice-level GST is shared out by each line's share of the taxable value.
+ */
+const getLineTaxes = (inv: Invoice) => {
+  const gst = getGstComponents(inv);
+  const lines = getInvoiceLines(inv);
+  const total = lines.reduce((sum, l) => sum + l.taxableAmount, 0);
+  return lines.map(line => {
+    const share = total > 0 ? line.taxableAmount / total : 1 / lines.length;
+    return {
+      line,
+      txval: line.taxableAmount,
+      iamt: gst.igstAmount * share,
+      camt: gst.cgstAmount * share,
+      samt: gst.sgstAmount * share
+    };
+  });
+};
+
+const toItems = (inv: Invoice) => {
+  // One item per tax rate, as the offline tool expects
+  const t = getLineTaxes(inv).reduce((acc, l) => ({
+    txval: acc.txval + l.txval, iamt: acc.iamt + l.iamt, camt: acc.camt + l.camt, samt: acc.samt + l.samt
+  }), { txval: 0, iamt: 0, camt: 0, samt: 0 });
+  return [{
+    num: 1,
+    itm_det: { rt: inv.gstRate, txval: round2(t.txval), iamt: round2(t.iamt), camt: round2(t.camt), samt: round2(t.samt), csamt: 0 }
+  }];
+};
+
+/**
+ * Problems that would make a return wrong or incomplete, checked before export.
+ */
+export const validateReturnInvoices = (invoices: Invoice[]): ReturnIssue[] => {
+  const issues: ReturnIssue[] = [];
+  invoices.forEach(inv => {
+    const issue = (severity: ReturnIssue['severity'], message: string) => issues.push({ invoiceId: inv.id, date: inv.date, partyName: inv.partyName, severity, message });
+    const gstinError = inv.partyGstin ? validateGstin(inv.partyGstin) : null;
+    if (gstinError) issue('ERROR', `Party GSTIN is invalid: ${gstinError}`);
+    if (!inv.partyGstin) {
+      issue('WARNING', isOutward(inv) ? 'No customer GSTIN, reported as B2C.' : 'No supplier GSTIN, input tax credit not claimed.');
+    }
+    const missingHsn = getInvoiceLines(inv).filter(l => !l.hsn).length;
+    if (missingHsn > 0) {
+      issue('WARNING', `${missingHsn} line${missingHsn > 1 ? 's' : ''} without HSN code${isOutward(inv) ? ', HSN summary will be incomplete' : ''}.`);
+    }
+  });
+  return issues;
+};
+
+/**
+ * GSTR-1 for one month in the GST offline-tool JSON layout: B2B, B2C large, B2C small, credit notes
+ * and HSN summary. Credit notes follow the section their original sale was reported in; those against
+ * small B2C sales are netted into B2CS.
+ */
+export const buildGstr1 = (invoices: Invoice[], firm: FirmProfile, month: string): Gstr1Return => {
+  const outward = getMonthInvoices(invoices, month).filter(isOutward);
+  const firmState = getFirmStateCode(firm);
+
+  const b2b: Record<string, Gstr1Invoice[]> = {};
+  const b2cl: Record<string, Gstr1Return['b2cl'][number]['inv']> = {};
+  const b2cs: Record<string, Gstr1B2csEntry> = {};
+  const cdnr: Record<string, Gstr1Note[]> = {};
+  const cdnur: Gstr1Note[] = [];
+  const hsn: Record<string, Gstr1HsnEntry> = {};
+
+  outward.forEach(inv => {
+    const sign = getSign(inv);
+    const pos = getPlaceOfSupply(inv, firm);
+    const interState = isInterState(pos, firmState);
+    const registered = !!inv.partyGstin && !validateGstin(inv.partyGstin);
+    // A credit note counts as large B2C when the sale it returns was
+    const original = inv.type === 'SALE_RETURN' ? invoices.find(i => i.id === inv.returnOf) || inv : inv;
+    const large = interState && original.totalAmount > getB2clLimit(original.date);
+    const itms = toItems(inv);
+
+    if (inv.type === 'SALE_RETURN' && (registered || large)) {
+      const note: Gstr1Note = { ntty: 'C', nt_num: inv.id, nt_dt: toReturnDate(inv.date), val: round2(inv.totalAmount), pos, itms };
+      if (registered) (cdnr[inv.partyGstin!] = cdnr[inv.partyGstin!] || []).push({ ...note, rchrg: 'N', inv_typ: 'R' });
+      else cdnur.push({ ...note, typ: 'B2CL' });
+    } else if (inv.type === 'SALE' && registered) {
+      const base = { inum: inv.id, idt: toReturnDate(inv.date), val: round2(inv.totalAmount), itms };
+      (b2b[inv.partyGstin!] = b2b[inv.partyGstin!] || []).push({ ...base, pos, rchrg: 'N', inv_typ: 'R' });
+    } else if (inv.type === 'SALE' && large) {
+      (b2cl[pos] = b2cl[pos] || []).push({ inum: inv.id, idt: toReturnDate(inv.date), val: round2(inv.totalAmount), itms });
+    } else {
+      const key = `${interState ? 'INTER' : 'INTRA'}|${pos}|${inv.gstRate}`;
+      const entry = b2cs[key] = b2cs[key] || { sply_ty: interState ? 'INTER' : 'INTRA', pos, typ: 'OE', rt: inv.gstRate, txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+      const d = itms[0].itm_det;
+      entry.txval = round2(entry.txval + sign * d.txval);
+      entry.iamt = round2(entry.iamt + sign * d.iamt);
+      entry.camt = round2(entry.camt + sign * d.camt);
+      entry.samt = round2(entry.samt + sign * d.samt);
+    }
+
+    getLineTaxes(inv).forEach(({ line, txval, iamt, camt, samt }) => {
+      const code = line.hsn || '';
+      const key = `${code}|${inv.gstRate}`;
+      const entry = hsn[key] = hsn[key] || { num: 0, hsn_sc: code, desc: line.description, uqc: 'GMS', qty: 0, rt: inv.gstRate, val: 0, txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+      entry.qty = round2(entry.qty + sign * line.netWeight);
+      entry.txval = round2(entry.txval + sign * txval);
+      entry.iamt = round2(entry.iamt + sign * iamt);
+      entry.camt = round2(entry.camt + sign * camt);
+      entry.samt = round2(entry.samt + sign * samt);
+      entry.val = round2(entry.txval + entry.iamt + entry.camt + entry.samt);
+    });
+  });
+
+  return {
+    gstin: firm.gstin,
+    fp: toReturnPeriod(month),
+    b2b: Object.entries(b2b).map(([ctin, inv]) => ({ ctin, inv })),
+    b2cl: Object.entries(b2cl).map(([pos, inv]) => ({ pos, inv })),
+    b2cs: Object.values(b2cs),
+    cdnr: Object.entries(cdnr).map(([ctin, nt]) => ({ ctin, nt })),
+    cdnur,
+    hsn: { data: Object.values(hsn).map((entry, index) => ({ ...entry, num: index + 1 })) }
+  };
+};
+
+const sumTaxes = (invoices: Invoice[]): GstTaxAmounts => {
+  return invoices.reduce((acc, inv) => {
+    const gst = getGstComponents(inv);
+    const sign = getSign(inv);
+    return {
+      txval: round2(acc.txval + sign * inv.taxableAmount),
+      iamt: round2(acc.iamt + sign * gst.igstAmount),
+      camt: round2(acc.camt + sign * gst.cgstAmount),
+      samt: round2(acc.samt + sign * gst.sgstAmount),
+      csamt: 0
+    };
+  }, { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 });
+};
+
+/**
+ * GSTR-3B summary: outward tax on sales against input tax credit on purchases from registered suppliers.
+ * Credit notes reduce the outward tax and debit notes to suppliers reduce the credit.
+ */
+export const buildGstr3b = (invoices: Invoice[], firm: FirmProfile, month: string): Gstr3bReturn => {
+  const monthInvoices = getMonthInvoices(invoices, month);
+  const outward = sumTaxes(monthInvoices.filter(isOutward));
+  const { txval, ...itc } = sumTaxes(monthInvoices.filter(inv => !isOutward(inv) && inv.partyGstin && !validateGstin(inv.partyGstin)));
+
+  return {
+    gstin: firm.gstin,
+    ret_period: toReturnPeriod(month),
+    sup_details: { osup_det: outward },
+    itc_elg: {
+      itc_avl: [{ ty: 'OTH', ...itc }],
+      itc_net: itc
+    }
+  };
+};
+
+/**
+ * Cash payable per head after setting off credit in the statutory order: IGST credit against IGST,
+ * then CGST, then SGST; CGST and SGST credit against their own head first, then IGST.
+ */
+export const getNetTaxPayable = (ret: Gstr3bReturn) => {
+  const due = { iamt: ret.sup_details.osup_det.iamt, camt: ret.sup_details.osup_det.camt, samt: ret.sup_details.osup_det.samt };
+  const setOff = (credit: number, heads: (keyof typeof due)[]) => {
+    for (const head of heads) {
+      const used = Math.min(credit, due[head]);
+      due[head] -= used;
+      credit -= used;
+    }
+  };
+  setOff(ret.itc_elg.itc_net.iamt, ['iamt', 'camt', 'samt']);
+  setOff(ret.itc_elg.itc_net.camt, ['camt', 'iamt']);
+  setOff(ret.itc_elg.itc_net.samt, ['samt', 'iamt']);
+  return { iamt: round2(due.iamt), camt: round2(due.camt), samt: round2(due.samt) };
+};
@@ -0,0 +1,74 @@
+import { Invoice, FirmProfile } from '../types';
+
+// GST state codes, as used in the first two digits of a GSTIN and in return filings
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu & Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh',
+  '05': 'Uttarakhand', '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh',
+  '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur',
+  '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam', '19': 'West Bengal',
+  '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
+  '26': 'Dadra & Nagar Haveli and Daman & Diu', '27': 'Maharashtra', '29': 'Karnataka', '30': 'Goa',
+  '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry',
+  '35': 'Andaman & Nicobar Islands', '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh',
+  '97': 'Other Territory'
+};
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const normalizeGstin = (gstin: string): string => gstin.replace(/\s/g, '').toUpperCase();
+
+/**
+ * Check character of a GSTIN: base-36 Luhn over the first 14 characters.
+ */
+const gstinCheckChar = (first14: string): string => {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+};
+
+// Returns an error message, or null when the GSTIN is well formed and its checksum matches
+export const validateGstin = (gstin: string): string | null => {
+  const value = normalizeGstin(gstin);
+  if (value.length !== 15) return 'GSTIN must be 15 characters.';
+  if (!GSTIN_PATTERN.test(value)) return 'GSTIN format is invalid.';
+  if (!GST_STATES[value.substring(0, 2)]) return `Unknown state code ${value.substring(0, 2)} in GSTIN.`;
+  if (gstinCheckChar(value.substring(0, 14)) !== value[14]) return 'GSTIN checksum does not match.';
+  return null;
+};
+
+export const getGstinStateCode = (gstin?: string): string | undefined => {
+  const code = gstin ? normalizeGstin(gstin).substring(0, 2) : '';
+  return GST_STATES[code] ? code : undefined;
+};
+
+export const formatState = (code?: string): string => (code && GST_STATES[code] ? `${code} - ${GST_STATES[code]}` : '-');
+
+/**
+ * Inter-state supplies attract IGST, intra-state ones CGST + SGST. A party without a state
+ * (walk-in customer) is treated as local.
+ */
+export const isInterState = (partyState: string | undefined, firmState: string | undefined): boolean => {
+  return !!partyState && !!firmState && partyState !== firmState;
+};
+
+export const splitGst = (gstAmount: number, interState: boolean) => {
+  if (interState) return { cgstAmount: 0, sgstAmount: 0, igstAmount: gstAmount };
+  return { cgstAmount: gstAmount / 2, sgstAmount: gstAmount / 2, igstAmount: 0 };
+};
+
+/**
+ * GST components of an invoice. Records saved before the split was captured are
+ * read as intra-state, which is how the single GST figure was filed at the time.
+ */
+export const getGstComponents = (inv: Invoice) => {
+  if (inv.cgstAmount !== undefined || inv.sgstAmount !== undefined || inv.igstAmount !== undefined) {
+    return { cgstAmount: inv.cgstAmount || 0, sgstAmount: inv.sgstAmount || 0, igstAmount: inv.igstAmount || 0 };
+  }
+  return splitGst(inv.gstAmount, false);
+};
+
+export const getFirmStateCode = (firm: FirmProfile): string | undefined => firm.stateCode || getGstinStateCode(firm.gstin);
@@ -0,0 +1,289 @@
+import { read, utils } from 'xlsx';
+import { Invoice, InvoiceLine, InventoryBatch, ImportField, ColumnMapping, ImportIssue, ImportResult, ImportDryRun, LedgerDiagnostic, Metal, FirmProfile, TransactionType } from '../types';
+import { generateId } from '../utils';
+import { METALS, STANDARD_PURITY, getMetal } from './metalService';
+import { calculateLineTaxable, summarizeLines, getLineFineGrams, getInvoiceLines, OPENING_STOCK_PARTY, TRANSACTION_TYPE_LABELS } from './invoiceService';
+import { getFirmStateCode, getGstinStateCode, isInterState, normalizeGstin, splitGst, validateGstin } from './gstService';
+
+export interface ImportFieldSpec {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+  // Header names recognised automatically, lower case. The first one is what handleInvoicesExport writes.
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldSpec[] = [
+  { field: 'invoiceId', label: 'Invoice ID', aliases: ['invoice id', 'invoice no', 'bill no', 'voucher no'] },
+  // Invoice ID takes a lone "Bill No" column first; this is for sheets that carry both
+  { field: 'billNumber', label: 'Bill No (as printed)', aliases: ['bill no', 'bill number', "supplier's bill no", 'supplier bill no', 'supplier invoice no', 'ref no'] },
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'invoice date', 'bill date'] },
+  { field: 'type', label: 'Type (Purchase/Sale)', required: true, aliases: ['type', 'transaction type', 'voucher type'] },
+  { field: 'partyName', label: 'Party', required: true, aliases: ['party', 'party name', 'supplier', 'customer', 'name'] },
+  { field: 'partyGstin', label: 'Party GSTIN', aliases: ['party gstin', 'gstin'] },
+  { field: 'partyState', label: 'Place of Supply', aliases: ['place of supply', 'state', 'state code'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'item', 'particulars'] },
+  { field: 'hsn', label: 'HSN', aliases: ['hsn', 'hsn code', 'hsn/sac'] },
+  { field: 'metal', label: 'Metal', aliases: ['metal'] },
+  { field: 'purity', label: 'Purity', aliases: ['purity', 'fineness', 'touch'] },
+  { field: 'grossWeight', label: 'Gross Weight (g)', aliases: ['gross (g)', 'gross weight', 'gross wt', 'gross'] },
+  { field: 'netWeight', label: 'Net Weight / Qty (g)', required: true, aliases: ['qty (g)', 'net weight', 'net wt', 'quantity', 'qty', 'grams', 'weight'] },
+  { field: 'ratePerGram', label: 'Rate (INR/g)', required: true, aliases: ['rate (inr/g)', 'rate', 'rate per gram', 'price'] },
+  { field: 'makingCharges', label: 'Making Charges', aliases: ['making (inr)', 'making charges', 'making', 'labour'] },
+  { field: 'wastagePercent', label: 'Wastage %', aliases: ['wastage %', 'wastage'] },
+  { field: 'stoneValue', label: 'Stone Value', aliases: ['stones (inr)', 'stone value', 'stones'] },
+  { field: 'lineTaxable', label: 'Line Taxable', aliases: ['line taxable'] },
+  { field: 'taxableAmount', label: 'Taxable (Ex GST)', aliases: ['taxable (ex gst)', 'taxable value', 'taxable amount', 'taxable'] },
+  { field: 'gstRate', label: 'GST %', aliases: ['gst %', 'gst rate', 'tax rate'] },
+  { field: 'cgstAmount', label: 'CGST', aliases: ['cgst (inr)', 'cgst'] },
+  { field: 'sgstAmount', label: 'SGST', aliases: ['sgst (inr)', 'sgst'] },
+  { field: 'igstAmount', label: 'IGST', aliases: ['igst (inr)', 'igst'] },
+  { field: 'gstAmount', label: 'GST Amount', aliases: ['gst (inr)', 'gst amount', 'gst', 'tax'] },
+  { field: 'totalAmount', label: 'Total (Inc GST)', aliases: ['total (inc gst)', 'total', 'invoice value', 'amount'] }
+];
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+const cellToString = (cell: unknown): string => {
+  if (cell instanceof Date) {
+    // Spreadsheet dates come back at local midnight
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${cell.getFullYear()}-${pad(cell.getMonth() + 1)}-${pad(cell.getDate())}`;
+  }
+  return cell === undefined || cell === null ? '' : String(cell).trim();
+};
+
+/**
+ * Reads the first sheet of a CSV, XLS or XLSX file into a header row and data rows.
+ */
+export const parseSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  // CSV cells are kept as text so IDs like 12e45 or state code 07 survive unchanged
+  const isCsv = /\.csv$/i.test(file.name);
+  const workbook = read(await file.arrayBuffer(), { type: 'array', cellDates: true, raw: isCsv });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file has no sheets.');
+  const table = utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' })
+    .map(row => row.map(cellToString))
+    .filter(row => row.some(cell => cell !== ''));
+  if (table.length < 2) throw new Error('The file needs a header row and at least one data row.');
+  return { headers: table[0], rows: table.slice(1) };
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(h => h.toLowerCase().trim());
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+  // Exact alias matches first, so 'GST (INR)' is not taken by 'GST %'
+  IMPORT_FIELDS.forEach(spec => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && spec.aliases.includes(h));
+    if (index >= 0) { mapping[spec.field] = index; used.add(index); }
+  });
+  return mapping;
+};
+
+const parseNumber = (value: string): number => {
+  if (!value || value === '-') return NaN;
+  return parseFloat(value.replace(/[₹,\s]|INR|Rs\.?/gi, ''));
+};
+
+const toIsoDate = (year: string, month: string, day: string): string | null => {
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  // Rejects 31-02 and month 13 rather than letting Date roll them over
+  const check = new Date(`${iso}T00:00:00Z`);
+  return !isNaN(check.getTime()) && check.toISOString().startsWith(iso) ? iso : null;
+};
+
+const parseDate = (value: string): string | null => {
+  let m = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return toIsoDate(m[1], m[2], m[3]);
+  // Indian sheets are day first
+  m = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (m) return toIsoDate(m[3].length === 2 ? `20${m[3]}` : m[3], m[2], m[1]);
+  return null;
+};
+
+const parseType = (value: string): TransactionType | null => {
+  const v = value.trim().toUpperCase();
+  if (['PURCHASE', 'BUY', 'IN', 'P'].includes(v)) return 'PURCHASE';
+  if (['SALE', 'SELL', 'OUT', 'S'].includes(v)) return 'SALE';
+  if (['OPENING', 'OPENING STOCK', 'OPEN', 'O'].includes(v)) return 'OPENING';
+  return null;
+};
+
+// The transactions export writes notes and stock counts too, but they hang off entries already in the books
+const APP_ONLY_TYPES: TransactionType[] = ['SALE_RETURN', 'PURCHASE_RETURN', 'ADJUSTMENT'];
+
+const parseAppOnlyType = (value: string): TransactionType | undefined => {
+  const v = value.trim().toUpperCase();
+  return APP_ONLY_TYPES.find(t => t === v || TRANSACTION_TYPE_LABELS[t].toUpperCase() === v);
+};
+
+const parseMetal = (value: string): Metal => (/silver|^ag$/i.test(value.trim()) ? 'SILVER' : 'GOLD');
+
+interface ImportOptions {
+  existingIds: Set<string>;
+  lockDate: string | null;
+  firm: FirmProfile;
+}
+
+/**
+ * Turns mapped spreadsheet rows into invoices. Rows sharing an Invoice ID (as in the
+ * transactions CSV export) become the lines of one invoice. Rows with errors are skipped.
+ */
+export const buildImport = (data: SpreadsheetData, mapping: ColumnMapping, options: ImportOptions): ImportResult => {
+  const issues: ImportIssue[] = [];
+  const get = (row: string[], field: ImportField) => (mapping[field] !== undefined ? row[mapping[field]!] || '' : '');
+  const num = (row: string[], field: ImportField) => parseNumber(get(row, field));
+
+  // Group rows into invoices, keeping file order
+  const groups: { key: string; rows: { row: string[]; rowNumber: number }[] }[] = [];
+  const byKey = new Map<string, typeof groups[number]>();
+  data.rows.forEach((row, index) => {
+    const id = get(row, 'invoiceId');
+    const key = id || `row-${index}`;
+    let group = byKey.get(key);
+    if (!group) { group = { key, rows: [] }; byKey.set(key, group); groups.push(group); }
+    group.rows.push({ row, rowNumber: index + 2 });
+  });
+
+  const invoices: Invoice[] = [];
+  let skippedRows = 0;
+  const firmState = getFirmStateCode(options.firm);
+
+  groups.forEach(group => {
+    const first = group.rows[0];
+    const errors: string[] = [];
+    const warn = (message: string) => issues.push({ row: first.rowNumber, severity: 'WARNING', message });
+
+    const date = parseDate(get(first.row, 'date'));
+    const type = parseType(get(first.row, 'type'));
+    const isOpening = type === 'OPENING';
+    const partyName = get(first.row, 'partyName') || (isOpening ? OPENING_STOCK_PARTY : '');
+    const billNumber = isOpening ? '' : get(first.row, 'billNumber');
+    if (!date) errors.push(`Unreadable date "${get(first.row, 'date')}".`);
+    const appOnlyType = type ? undefined : parseAppOnlyType(get(first.row, 'type'));
+    if (appOnlyType) errors.push(`${TRANSACTION_TYPE_LABELS[appOnlyType]} skipped: credit notes, debit notes and stock adjustments cannot be imported, enter them in the app.`);
+    else if (!type) errors.push(`Unknown type "${get(first.row, 'type')}", use Purchase, Sale or Opening.`);
+    if (!partyName) errors.push('Party is empty.');
+    if (date && options.lockDate && date <= options.lockDate) errors.push(`Date ${date} is on or before the lock date ${options.lockDate}.`);
+
+    const importedId = get(first.row, 'invoiceId');
+    if (importedId && options.existingIds.has(importedId)) errors.push(`Invoice ${importedId} already exists.`);
+
+    const lines: InvoiceLine[] = group.rows.map(({ row, rowNumber }) => {
+      const netWeight = num(row, 'netWeight');
+      const ratePerGram = num(row, 'ratePerGram');
+      if (!(netWeight > 0)) errors.push(`Row ${rowNumber}: weight must be a positive number.`);
+      if (isNaN(ratePerGram) || ratePerGram < 0) errors.push(`Row ${rowNumber}: rate is missing.`);
+      const metal = mapping.metal !== undefined ? parseMetal(get(row, 'metal')) : 'GOLD';
+      const base = {
+        description: get(row, 'description'),
+        hsn: get(row, 'hsn') || undefined,
+        metal,
+        purity: num(row, 'purity') || STANDARD_PURITY,
+        grossWeight: num(row, 'grossWeight') || netWeight,
+        netWeight,
+        ratePerGram,
+        makingCharges: num(row, 'makingCharges') || 0,
+        wastagePercent: num(row, 'wastagePercent') || 0,
+        stoneValue: num(row, 'stoneValue') || 0
+      };
+      const stated = num(row, 'lineTaxable');
+      return { ...base, taxableAmount: isNaN(stated) ? calculateLineTaxable(base) : stated };
+    });
+
+    if (errors.length > 0) {
+      errors.forEach(message => issues.push({ row: first.rowNumber, severity: 'ERROR', message }));
+      skippedRows += group.rows.length;
+      return;
+    }
+
+    // Invoice-level figures are read from the first row (the export leaves them blank on later lines)
+    const summary = summarizeLines(lines);
+    const statedTaxable = num(first.row, 'taxableAmount');
+    const taxableAmount = isNaN(statedTaxable) ? summary.taxableAmount : statedTaxable;
+    if (!isNaN(statedTaxable) && Math.abs(statedTaxable - summary.taxableAmount) > 1) {
+      warn(`Taxable ${statedTaxable.toFixed(2)} differs from the lines' ${summary.taxableAmount.toFixed(2)}; the stated value is used.`);
+    }
+
+    let partyGstin = get(first.row, 'partyGstin') && !isOpening ? normalizeGstin(get(first.row, 'partyGstin')) : undefined;
+    if (partyGstin && validateGstin(partyGstin)) {
+      warn(`GSTIN ${partyGstin}: ${validateGstin(partyGstin)} It was dropped.`);
+      partyGstin = undefined;
+    }
+    const stateValue = get(first.row, 'partyState').padStart(2, '0').substring(0, 2);
+    const partyState = isOpening ? undefined : getGstinStateCode(partyGstin) || (/^\d{2}$/.test(stateValue) && stateValue !== '00' ? stateValue : undefined);
+
+    // Opening stock carries no tax; any GST columns on those rows are ignored
+    const gstRate = isOpening ? 0 : isNaN(num(first.row, 'gstRate')) ? 3 : num(first.row, 'gstRate');
+    const cgst = num(first.row, 'cgstAmount'), sgst = num(first.row, 'sgstAmount'), igst = num(first.row, 'igstAmount');
+    const hasSplit = !isOpening && (!isNaN(cgst) || !isNaN(sgst) || !isNaN(igst));
+    const statedGst = isOpening ? 0 : num(first.row, 'gstAmount');
+    const gstAmount = hasSplit ? (cgst || 0) + (sgst || 0) + (igst || 0) : isNaN(statedGst) ? taxableAmount * gstRate / 100 : statedGst;
+    const split = hasSplit
+      ? { cgstAmount: cgst || 0, sgstAmount: sgst || 0, igstAmount: igst || 0 }
+      : splitGst(gstAmount, isInterState(partyState, firmState));
+    const statedTotal = num(first.row, 'totalAmount');
+
+    invoices.push({
+      id: importedId || generateId(),
+      date: date!,
+      type: type!,
+      partyName,
+      ...(billNumber ? { billNumber } : {}),
+      metal: summary.metal,
+      purity: summary.purity,
+      quantityGrams: summary.quantityGrams,
+      ratePerGram: summary.ratePerGram,
+      gstRate,
+      gstAmount,
+      taxableAmount,
+      totalAmount: isNaN(statedTotal) || isOpening ? taxableAmount + gstAmount : statedTotal,
+      ...split,
+      ...(partyGstin ? { partyGstin } : {}),
+      ...(partyState ? { partyState } : {}),
+      lines
+    });
+  });
+
+  // Exports list newest first; the ledger wants entry order
+  if (invoices.length > 1 && invoices[0].date > invoices[invoices.length - 1].date) invoices.reverse();
+
+  return { invoices, issues, skippedRows };
+};
+
+/**
+ * Summary of what the import does to the books, given the ledger replayed with it.
+ * `before` are the diagnostics without the import, so only new problems are reported.
+ */
+export const summarizeDryRun = (
+  imported: Invoice[], processed: Invoice[], batches: InventoryBatch[], diagnostics: LedgerDiagnostic[], before: LedgerDiagnostic[]
+): ImportDryRun => {
+  const ids = new Set(imported.map(inv => inv.id));
+  const sales = processed.filter(inv => ids.has(inv.id) && inv.type === 'SALE');
+  const revenue = sales.reduce((sum, inv) => sum + inv.taxableAmount, 0);
+  const cogs = sales.reduce((sum, inv) => sum + (inv.cogs || 0), 0);
+  const known = new Set(before.map(d => `${d.invoiceId}|${d.code}`));
+
+  const zero = () => Object.fromEntries(METALS.map(m => [m, 0])) as Record<Metal, number>;
+  const fineGrams = zero();
+  imported.forEach(inv => getInvoiceLines(inv).forEach(line => {
+    fineGrams[getMetal(line)] += (inv.type === 'SALE' ? -1 : 1) * getLineFineGrams(line);
+  }));
+  const closingStock = zero();
+  batches.forEach(b => { closingStock[getMetal(b)] += b.remainingQuantity; });
+
+  return {
+    purchases: imported.filter(inv => inv.type !== 'SALE').length,
+    sales: sales.length,
+    fineGrams,
+    revenue,
+    cogs,
+    profit: revenue - cogs,
+    closingStock,
+    diagnostics: diagnostics.filter(d => !known.has(`${d.invoiceId}|${d.code}`))
+  };
+};
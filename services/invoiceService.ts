@@ -0,0 +1,83 @@
+import { AdjustmentReason, Invoice, InvoiceLine, InventoryBatch, TransactionType } from '../types';
+import { getMetal, getPurity, toFineGrams } from './metalService';
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  PURCHASE: 'Purchase',
+  SALE: 'Sale',
+  OPENING: 'Opening Stock',
+  ADJUSTMENT: 'Stock Adjustment',
+  SALE_RETURN: 'Credit Note',
+  PURCHASE_RETURN: 'Debit Note'
+};
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  WEIGHING: 'Weighing Difference',
+  MELTING_LOSS: 'Melting Loss',
+  REFINING_GAIN: 'Refining Gain',
+  THEFT: 'Theft / Write-off',
+  OTHER: 'Other'
+};
+
+// Entries the ledger costs: they carry cogs and profit (a write-off or a sales return is a negative profit)
+export const isCosted = (inv: Invoice): boolean => inv.type === 'SALE' || inv.type === 'ADJUSTMENT' || inv.type === 'SALE_RETURN';
+
+export const isReturn = (inv: Invoice): boolean => inv.type === 'SALE_RETURN' || inv.type === 'PURCHASE_RETURN';
+
+// Party name recorded on opening stock entries, which have no supplier
+export const OPENING_STOCK_PARTY = 'Opening Stock';
+
+export const calculateLineTaxable = (line: Omit<InvoiceLine, 'taxableAmount'>): number => {
+  const chargedWeight = line.netWeight * (1 + (line.wastagePercent || 0) / 100);
+  return (chargedWeight * line.ratePerGram) + (line.makingCharges || 0) + (line.stoneValue || 0);
+};
+
+/**
+ * Lines of an invoice. Older records carry a single item in the header fields,
+ * which is presented as one line so every consumer can treat invoices alike.
+ */
+export const getInvoiceLines = (inv: Invoice): InvoiceLine[] => {
+  if (inv.lines && inv.lines.length > 0) return inv.lines;
+  return [{
+    description: '',
+    metal: getMetal(inv),
+    purity: getPurity(inv),
+    grossWeight: inv.quantityGrams,
+    netWeight: inv.quantityGrams,
+    ratePerGram: inv.ratePerGram,
+    makingCharges: 0,
+    wastagePercent: 0,
+    stoneValue: 0,
+    taxableAmount: inv.taxableAmount || (inv.quantityGrams * inv.ratePerGram)
+  }];
+};
+
+export const getLineFineGrams = (line: InvoiceLine): number => toFineGrams(line.netWeight, getPurity(line));
+
+/**
+ * Header fields derived from the lines, kept on the invoice for analytics and older views.
+ */
+export const summarizeLines = (lines: InvoiceLine[]) => {
+  const quantityGrams = lines.reduce((sum, l) => sum + l.netWeight, 0);
+  const metalValue = lines.reduce((sum, l) => sum + (l.netWeight * l.ratePerGram), 0);
+  const taxableAmount = lines.reduce((sum, l) => sum + l.taxableAmount, 0);
+  const purities = new Set(lines.map(l => getPurity(l)));
+  return {
+    metal: getMetal(lines[0]),
+    purity: purities.size === 1 ? getPurity(lines[0]) : undefined,
+    quantityGrams,
+    ratePerGram: quantityGrams > 0 ? metalValue / quantityGrams : 0,
+    taxableAmount
+  };
+};
+
+// Inventory batch created by a purchase line
+export const getLineBatchId = (inv: Invoice, lineIndex: number): string => {
+  return getInvoiceLines(inv).length > 1 ? `${inv.id}-${lineIndex + 1}` : inv.id;
+};
+
+export const getBatchInvoiceId = (batch: InventoryBatch): string => batch.invoiceId || batch.id;
+
+export const hasLineDetail = (inv: Invoice): boolean => {
+  const lines = getInvoiceLines(inv);
+  return lines.length > 1 || lines.some(l => l.makingCharges > 0 || l.wastagePercent > 0 || l.stoneValue > 0 || !!l.description);
+};
@@ -0,0 +1,388 @@
+import { Invoice, InventoryBatch, BatchAllocation, LedgerDiagnostic, LedgerResult, CostingMethod, CostingComparison, LotSelection, Metal, TransactionType } from '../types';
+import { getMetal, getPurity, METAL_LABELS, STANDARD_PURITY } from './metalService';
+import { getInvoiceLines, getLineFineGrams, getLineBatchId, isReturn } from './invoiceService';
+
+// Quantities below this are treated as zero (floating point safety margin)
+const EPSILON = 0.0001;
+
+export interface LedgerStep {
+  invoice: Invoice;
+  batches: InventoryBatch[];
+  allocations: BatchAllocation[];
+  diagnostics: LedgerDiagnostic[];
+}
+
+// Same-day order: opening stock, then purchases and their returns, then sales and their returns;
+// counts are taken at the end of the day
+const TYPE_ORDER: Record<TransactionType, number> = { OPENING: 0, PURCHASE: 1, PURCHASE_RETURN: 2, SALE: 3, SALE_RETURN: 4, ADJUSTMENT: 5 };
+
+/**
+ * Orders invoices the way the ledger consumes them: by date, stock coming in before sales
+ * on the same day, otherwise in entry order. Takes the list as the books keep it, newest entry first.
+ */
+export const sortForLedger = (invoices: Invoice[]): Invoice[] => {
+  const entryOrder = new Map(invoices.map((inv, index) => [inv.id, invoices.length - index]));
+  return [...invoices].sort((a, b) => {
+    if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+    return TYPE_ORDER[a.type] - TYPE_ORDER[b.type] || (entryOrder.get(a.id) || 0) - (entryOrder.get(b.id) || 0);
+  });
+};
+
+/**
+ * Whether a new entry lands last in the replay order, so applying it on top of the current
+ * batches gives what a full replay would: it is dated after everything else, or nothing
+ * already on its date comes after it in the same-day order.
+ */
+export const isLastInLedger = (invoice: Invoice, invoices: Invoice[]): boolean => {
+  return invoices.every(inv => inv.date < invoice.date || (inv.date === invoice.date && TYPE_ORDER[inv.type] <= TYPE_ORDER[invoice.type]));
+};
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  FIFO: 'FIFO',
+  WEIGHTED_AVERAGE: 'Weighted Average',
+  SPECIFIC: 'Specific Identification'
+};
+
+export const COSTING_METHODS = Object.keys(COSTING_METHOD_LABELS) as CostingMethod[];
+
+// Moves fine grams out of one batch and records the allocation
+const take = (batch: InventoryBatch, grams: number, sale: Invoice, pricePerGram: number, allocations: BatchAllocation[]): number => {
+  batch.remainingQuantity -= grams;
+  batch.totalRevenue = (batch.totalRevenue || 0) + (grams * pricePerGram);
+  allocations.push({ batchId: batch.id, grams, costPerGram: batch.costPerGram });
+
+  if (batch.remainingQuantity < EPSILON) {
+    batch.remainingQuantity = 0;
+    batch.closedDate = sale.date;
+  }
+  return grams * batch.costPerGram;
+};
+
+// Draws fine grams for one sale line out of its metal pool, returns the cost drawn and any shortfall.
+// Lot selections are shared across the lines of a sale and used up as they are honoured.
+const drawFromPool = (
+  pool: InventoryBatch[], fineGrams: number, finePrice: number, sale: Invoice, method: CostingMethod,
+  selections: LotSelection[], allocations: BatchAllocation[]
+): { cost: number; shortfall: number } => {
+  let remainingToSell = fineGrams;
+  let cost = 0;
+
+  // Specific identification: hand-picked lots first, anything left over falls through to FIFO
+  if (method === 'SPECIFIC') {
+    for (const sel of selections) {
+      if (remainingToSell <= EPSILON) break;
+      const batch = pool.find(b => b.id === sel.batchId);
+      if (!batch || sel.grams <= EPSILON) continue;
+      const grams = Math.min(sel.grams, batch.remainingQuantity, remainingToSell);
+      if (grams > EPSILON) {
+        cost += take(batch, grams, sale, finePrice, allocations);
+        remainingToSell -= grams;
+        sel.grams -= grams;
+      }
+    }
+  }
+
+  if (method === 'WEIGHTED_AVERAGE') {
+    // Moving average: draw from every open lot pro rata, so the sale is costed at the pool average
+    // and the remaining lots keep valuing the stock at that same average.
+    const open = pool.filter(b => b.remainingQuantity > 0);
+    const available = open.reduce((sum, b) => sum + b.remainingQuantity, 0);
+    if (available > EPSILON) {
+      const fraction = Math.min(1, remainingToSell / available);
+      for (const batch of open) {
+        const grams = fraction === 1 ? batch.remainingQuantity : batch.remainingQuantity * fraction;
+        cost += take(batch, grams, sale, finePrice, allocations);
+        remainingToSell -= grams;
+      }
+    }
+  } else {
+    // FIFO: deduct from the oldest open batches first
+    for (const batch of pool) {
+      if (remainingToSell <= EPSILON) break;
+      if (batch.remainingQuantity <= 0) continue;
+      const grams = Math.min(batch.remainingQuantity, remainingToSell);
+      cost += take(batch, grams, sale, finePrice, allocations);
+      remainingToSell -= grams;
+    }
+  }
+
+  return { cost, shortfall: remainingToSell > EPSILON ? remainingToSell : 0 };
+};
+
+// Writes off or adds counted grams. Losses leave at cost with no revenue; gains open a new lot
+// at the counted lot's cost, or the pool average when a whole metal was counted.
+const adjust = (batches: InventoryBatch[], inv: Invoice, method: CostingMethod): Omit<LedgerStep, 'batches'> => {
+  let written = 0;
+  const allocations: BatchAllocation[] = [];
+  const diagnostics: LedgerDiagnostic[] = [];
+
+  (inv.adjustment?.entries || []).forEach((entry, index) => {
+    const pool = batches.filter(b => getMetal(b) === entry.metal);
+    const lot = entry.batchId ? pool.find(b => b.id === entry.batchId) : undefined;
+
+    if (entry.grams < -EPSILON) {
+      let cost = 0;
+      let shortfall = -entry.grams;
+      if (lot) {
+        const grams = Math.min(lot.remainingQuantity, shortfall);
+        if (grams > EPSILON) { cost = take(lot, grams, inv, 0, allocations); shortfall -= grams; }
+      } else {
+        // Hand-picked lots do not apply to a whole-metal count, so SPECIFIC falls back to FIFO
+        ({ cost, shortfall } = drawFromPool(pool, shortfall, 0, inv, method === 'SPECIFIC' ? 'FIFO' : method, [], allocations));
+      }
+      written += cost;
+      if (shortfall > EPSILON) {
+        diagnostics.push({
+          invoiceId: inv.id,
+          date: inv.date,
+          severity: 'ERROR',
+          code: 'NEGATIVE_STOCK',
+          message: `Adjustment on ${inv.date} writes off ${shortfall.toFixed(3)} g of fine ${METAL_LABELS[entry.metal].toLowerCase()} more than ${lot ? `lot ${lot.id} holds` : 'is in stock'}.`
+        });
+      }
+    } else if (entry.grams > EPSILON) {
+      const open = pool.filter(b => b.remainingQuantity > 0);
+      const openGrams = open.reduce((sum, b) => sum + b.remainingQuantity, 0);
+      const costPerGram = lot ? lot.costPerGram : openGrams > 0 ? getStockValue(open) / openGrams : 0;
+      batches.push({
+        id: `${inv.id}-${index + 1}`,
+        invoiceId: inv.id,
+        date: inv.date,
+        metal: entry.metal,
+        purity: lot ? getPurity(lot) : STANDARD_PURITY,
+        originalQuantity: entry.grams,
+        remainingQuantity: entry.grams,
+        costPerGram
+      });
+      written -= entry.grams * costPerGram;
+    }
+  });
+
+  return { invoice: { ...inv, cogs: written, profit: -written, allocations }, allocations, diagnostics };
+};
+
+// Credit and debit notes. A sales return puts grams back into the lots its sale drew from, pro rata and
+// net of earlier returns against that sale; a purchase return takes them out of the lots its purchase opened.
+const returnStock = (batches: InventoryBatch[], inv: Invoice, history: Map<string, Invoice>): Omit<LedgerStep, 'batches'> => {
+  const allocations: BatchAllocation[] = [];
+  const diagnostics: LedgerDiagnostic[] = [];
+  const isSaleReturn = inv.type === 'SALE_RETURN';
+  const original = inv.returnOf ? history.get(inv.returnOf) : undefined;
+  const fail = (code: LedgerDiagnostic['code'], message: string) => diagnostics.push({ invoiceId: inv.id, date: inv.date, severity: 'ERROR', code, message });
+
+  if (!original || original.type !== (isSaleReturn ? 'SALE' : 'PURCHASE')) {
+    fail('RETURN_MISMATCH', `${isSaleReturn ? 'Credit' : 'Debit'} note to ${inv.partyName} on ${inv.date} has no ${isSaleReturn ? 'sale' : 'purchase'} ${inv.returnOf || ''} recorded before it.`);
+    return { invoice: { ...inv, cogs: 0, profit: 0, allocations }, allocations, diagnostics };
+  }
+
+  if (!isSaleReturn) {
+    getInvoiceLines(inv).forEach((line, index) => {
+      const batchId = getLineBatchId(original, line.returnLine ?? index);
+      const lot = batches.find(b => b.id === batchId);
+      const fineGrams = getLineFineGrams(line);
+      const grams = lot ? Math.min(lot.remainingQuantity, fineGrams) : 0;
+      if (lot && grams > EPSILON) take(lot, grams, inv, 0, allocations);
+      if (fineGrams - grams > EPSILON) {
+        fail('NEGATIVE_STOCK', `Debit note to ${inv.partyName} on ${inv.date} returns ${(fineGrams - grams).toFixed(3)} g more than lot ${batchId} still holds.`);
+      }
+    });
+    return { invoice: { ...inv, allocations }, allocations, diagnostics };
+  }
+
+  // Grams each lot gave the sale, less what earlier credit notes already put back
+  const open = new Map<string, { grams: number; costPerGram: number }>();
+  (original.allocations || []).forEach(a => {
+    const entry = open.get(a.batchId) || { grams: 0, costPerGram: a.costPerGram };
+    entry.grams += a.grams;
+    open.set(a.batchId, entry);
+  });
+  history.forEach(prev => {
+    if (prev.type !== 'SALE_RETURN' || prev.returnOf !== original.id) return;
+    (prev.allocations || []).forEach(a => { const entry = open.get(a.batchId); if (entry) entry.grams -= a.grams; });
+  });
+
+  let restoredCost = 0;
+  const returned: Partial<Record<Metal, { grams: number; value: number }>> = {};
+  getInvoiceLines(inv).forEach(line => {
+    const entry = returned[getMetal(line)] = returned[getMetal(line)] || { grams: 0, value: 0 };
+    entry.grams += getLineFineGrams(line);
+    entry.value += line.taxableAmount;
+  });
+
+  (Object.keys(returned) as Metal[]).forEach(metal => {
+    const { grams, value } = returned[metal]!;
+    const finePrice = grams > 0 ? value / grams : 0;
+    const lots = [...open.entries()]
+      .map(([batchId, entry]) => ({ lot: batches.find(b => b.id === batchId), ...entry }))
+      .filter(l => l.lot && getMetal(l.lot) === metal && l.grams > EPSILON);
+    const available = lots.reduce((sum, l) => sum + l.grams, 0);
+    const fraction = available > 0 ? Math.min(1, grams / available) : 0;
+    lots.forEach(({ lot, grams: lotGrams, costPerGram }) => {
+      const back = lotGrams * fraction;
+      lot!.remainingQuantity += back;
+      lot!.totalRevenue = (lot!.totalRevenue || 0) - back * finePrice;
+      delete lot!.closedDate;
+      allocations.push({ batchId: lot!.id, grams: back, costPerGram });
+      restoredCost += back * costPerGram;
+    });
+    if (grams - available > EPSILON) {
+      fail('RETURN_MISMATCH', `Credit note to ${inv.partyName} on ${inv.date} returns ${(grams - available).toFixed(3)} g of fine ${METAL_LABELS[metal].toLowerCase()} more than the sale took from stock.`);
+    }
+  });
+
+  // Revenue and cost both come back out, so the note carries the reversed profit
+  return { invoice: { ...inv, cogs: -restoredCost, profit: -(inv.taxableAmount - restoredCost), allocations }, allocations, diagnostics };
+};
+
+// Applies one invoice to the batch list in place. Batches must be in FIFO order.
+// Every line moves its own fine grams, and a line only ever draws from lots of its own metal.
+// History holds the invoices already applied, which credit and debit notes look their original up in.
+const consume = (batches: InventoryBatch[], inv: Invoice, method: CostingMethod, history: Map<string, Invoice>): Omit<LedgerStep, 'batches'> => {
+  if (inv.type === 'ADJUSTMENT') return adjust(batches, inv, method);
+  if (isReturn(inv)) return returnStock(batches, inv, history);
+  const lines = getInvoiceLines(inv);
+
+  // Purchases and opening stock both open lots at the line's cost
+  if (inv.type !== 'SALE') {
+    lines.forEach((line, index) => {
+      const fineGrams = getLineFineGrams(line);
+      batches.push({
+        id: getLineBatchId(inv, index),
+        invoiceId: inv.id,
+        date: inv.date,
+        metal: getMetal(line),
+        purity: getPurity(line),
+        originalQuantity: fineGrams,
+        remainingQuantity: fineGrams,
+        costPerGram: fineGrams > 0 ? line.taxableAmount / fineGrams : line.ratePerGram
+      });
+    });
+    return { invoice: inv, allocations: [], diagnostics: [] };
+  }
+
+  let totalCOGS = 0;
+  const allocations: BatchAllocation[] = [];
+  const diagnostics: LedgerDiagnostic[] = [];
+  const selections = (inv.lotSelection || []).map(sel => ({ ...sel }));
+  const shortfalls: Partial<Record<Metal, number>> = {};
+
+  for (const line of lines) {
+    const metal = getMetal(line);
+    const fineGrams = getLineFineGrams(line);
+    const finePrice = fineGrams > 0 ? line.taxableAmount / fineGrams : line.ratePerGram;
+    const pool = batches.filter(b => getMetal(b) === metal);
+    const { cost, shortfall } = drawFromPool(pool, fineGrams, finePrice, inv, method, selections, allocations);
+    totalCOGS += cost;
+    if (shortfall > 0) shortfalls[metal] = (shortfalls[metal] || 0) + shortfall;
+  }
+
+  if (method === 'SPECIFIC') {
+    selections.filter(sel => sel.grams > EPSILON).forEach(sel => {
+      diagnostics.push({
+        invoiceId: inv.id,
+        date: inv.date,
+        severity: 'WARNING',
+        code: 'LOT_UNAVAILABLE',
+        message: `Lot ${sel.batchId} could not supply ${sel.grams.toFixed(3)} g picked for ${inv.partyName}; FIFO was used instead.`
+      });
+    });
+  }
+
+  // Sold stock we didn't have. The sale is still recorded (best effort) so callers decide whether to block it.
+  (Object.keys(shortfalls) as Metal[]).forEach(metal => {
+    diagnostics.push({
+      invoiceId: inv.id,
+      date: inv.date,
+      severity: 'ERROR',
+      code: 'NEGATIVE_STOCK',
+      message: `Sale to ${inv.partyName} on ${inv.date} is short by ${(shortfalls[metal] || 0).toFixed(3)} g of fine ${METAL_LABELS[metal].toLowerCase()}.`
+    });
+  });
+
+  const profit = (inv.taxableAmount || (inv.quantityGrams * inv.ratePerGram)) - totalCOGS;
+  return { invoice: { ...inv, cogs: totalCOGS, profit, allocations }, allocations, diagnostics };
+};
+
+/**
+ * Applies a single invoice on top of an existing batch list without mutating it.
+ * Only valid when the invoice is last in the ledger order (see isLastInLedger); use runLedger otherwise.
+ * Credit and debit notes need the already-applied invoices to find their original.
+ */
+export const applyInvoice = (batches: InventoryBatch[], invoice: Invoice, method: CostingMethod = 'FIFO', applied: Invoice[] = []): LedgerStep => {
+  const next = batches.map(b => ({ ...b }));
+  const step = consume(next, invoice, method, new Map(applied.map(inv => [inv.id, inv])));
+  return { ...step, batches: next };
+};
+
+/**
+ * Replays every invoice from scratch and returns the processed invoices (oldest first), batches,
+ * per-sale allocations and any diagnostics. `invoices` is newest entry first, as stored; the
+ * ledger puts them in its own order. Pure: no React, storage or DOM access.
+ */
+export const runLedger = (invoices: Invoice[], method: CostingMethod = 'FIFO'): LedgerResult => {
+  const batches: InventoryBatch[] = [];
+  const processed: Invoice[] = [];
+  const allocations: Record<string, BatchAllocation[]> = {};
+  const diagnostics: LedgerDiagnostic[] = [];
+  const history = new Map<string, Invoice>();
+
+  for (const inv of sortForLedger(invoices)) {
+    const step = consume(batches, inv, method, history);
+    processed.push(step.invoice);
+    history.set(inv.id, step.invoice);
+    if (inv.type !== 'PURCHASE' && inv.type !== 'OPENING') allocations[inv.id] = step.allocations;
+    diagnostics.push(...step.diagnostics);
+  }
+
+  return { invoices: processed, batches, allocations, diagnostics };
+};
+
+export const getStockValue = (batches: InventoryBatch[]): number => {
+  return batches.reduce((sum, b) => sum + (b.remainingQuantity * b.costPerGram), 0);
+};
+
+/**
+ * Profit for sales dated within the period under each costing method, side by side.
+ * Takes the invoices newest entry first, like runLedger, so each method replays the same-day lots alike.
+ */
+export const compareCostingMethods = (invoices: Invoice[], startDate: string, endDate: string): CostingComparison[] => {
+  return COSTING_METHODS.map(method => {
+    const result = runLedger(invoices.filter(inv => inv.date <= endDate), method);
+    const sales = result.invoices.filter(inv => (inv.type === 'SALE' || inv.type === 'SALE_RETURN') && inv.date >= startDate);
+    const revenue = sales.reduce((sum, inv) => sum + (inv.type === 'SALE_RETURN' ? -1 : 1) * (inv.taxableAmount || (inv.quantityGrams * inv.ratePerGram)), 0);
+    const cogs = sales.reduce((sum, inv) => sum + (inv.cogs || 0), 0);
+    return {
+      method,
+      revenue,
+      cogs,
+      profit: revenue - cogs,
+      margin: revenue > 0 ? ((revenue - cogs) / revenue) * 100 : 0,
+      closingStockValue: getStockValue(result.batches)
+    };
+  });
+};
+
+export interface BatchConsumption {
+  sale: Invoice;
+  grams: number; // Negative when a credit note put grams back
+  costPerGram: number;
+}
+
+/**
+ * Reverse lookup of the persisted sale allocations: which sales (and write-offs and returns) drew from a purchase lot.
+ */
+export const getBatchConsumers = (invoices: Invoice[], batchId: string): BatchConsumption[] => {
+  const result: BatchConsumption[] = [];
+  for (const inv of invoices) {
+    if (inv.type === 'PURCHASE' || inv.type === 'OPENING' || !inv.allocations) continue;
+    for (const a of inv.allocations) {
+      if (a.batchId === batchId) result.push({ sale: inv, grams: inv.type === 'SALE_RETURN' ? -a.grams : a.grams, costPerGram: a.costPerGram });
+    }
+  }
+  return result.sort((a, b) => a.sale.date.localeCompare(b.sale.date));
+};
+
+// Sales recorded before allocations were persisted need one replay to get them
+export const needsAllocationBackfill = (invoices: Invoice[]): boolean => {
+  return invoices.some(inv => inv.type === 'SALE' && !inv.allocations);
+};
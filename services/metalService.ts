@@ -0,0 +1,48 @@
+import { Invoice, InventoryBatch, InvoiceLine, Metal } from '../types';
+
+export const METALS: Metal[] = ['GOLD', 'SILVER'];
+
+export const METAL_LABELS: Record<Metal, string> = {
+  GOLD: 'Gold',
+  SILVER: 'Silver'
+};
+
+// Stock is pooled in grams of this fineness; everything else is converted to it
+export const STANDARD_PURITY = 999;
+
+export const PURITY_OPTIONS: Record<Metal, { value: number; label: string }[]> = {
+  GOLD: [
+    { value: 999, label: '24K (999)' },
+    { value: 995, label: '24K (995)' },
+    { value: 916, label: '22K (916)' },
+    { value: 750, label: '18K (750)' }
+  ],
+  SILVER: [
+    { value: 999, label: 'Fine (999)' },
+    { value: 925, label: 'Sterling (925)' }
+  ]
+};
+
+// HSN chapter codes for unwrought bullion; jewellery (7113) is entered per line
+export const DEFAULT_HSN: Record<Metal, string> = {
+  GOLD: '7108',
+  SILVER: '7106'
+};
+
+export const getMetal = (item: Invoice | InventoryBatch | InvoiceLine): Metal => item.metal || 'GOLD';
+
+export const getPurity = (item: Invoice | InventoryBatch | InvoiceLine): number => item.purity || STANDARD_PURITY;
+
+export const toFineGrams = (grossGrams: number, purity: number = STANDARD_PURITY): number => {
+  return grossGrams * purity / STANDARD_PURITY;
+};
+
+/**
+ * Fine weight of an invoice in 999-equivalent grams, the unit the ledger pools stock in.
+ */
+export const getFineGrams = (inv: Invoice): number => toFineGrams(inv.quantityGrams, getPurity(inv));
+
+export const formatPurity = (metal: Metal, purity: number): string => {
+  const option = PURITY_OPTIONS[metal].find(o => o.value === purity);
+  return option ? option.label : `${purity}`;
+};
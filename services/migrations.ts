@@ -0,0 +1,111 @@
+import { Invoice, InventoryBatch, CostingMethod, Payment } from '../types';
+import { StorageBackend, StoreName } from './storageBackend';
+import { buildPeriodClose } from './periodService';
+import { hasParty, linkParties } from './partyService';
+
+/**
+ * Row layout in every record store. `seq` keeps the in-app order (entry order matters to
+ * the ledger for same-day transactions), `value` is the record itself.
+ */
+export interface StoredRow<T> {
+  id: string;
+  seq: number;
+  value: T;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (backend: StorageBackend) => Promise<void>;
+}
+
+// localStorage keys used before the IndexedDB backend
+const LEGACY_KEYS: Record<'invoices' | 'inventory', string> = {
+  invoices: 'bullion_invoices',
+  inventory: 'bullion_inventory'
+};
+
+// Rewrites every record of a store through fn, keeping ids and order
+const mapStore = async <T>(backend: StorageBackend, store: StoreName, fn: (value: T) => T) => {
+  const rows = await backend.getAll<StoredRow<T>>(store);
+  await backend.putMany(store, rows.map(row => ({ ...row, value: fn(row.value) })));
+};
+
+/**
+ * Ordered list of data migrations. Append only: never edit or reorder a released entry.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move invoices and inventory out of localStorage',
+    migrate: async (backend) => {
+      for (const store of Object.keys(LEGACY_KEYS) as (keyof typeof LEGACY_KEYS)[]) {
+        const raw = localStorage.getItem(LEGACY_KEYS[store]);
+        if (!raw) continue;
+        const records: { id: string }[] = JSON.parse(raw);
+        // Invoices were kept newest first, batches oldest first; seq is always oldest first
+        const ordered = store === 'invoices' ? [...records].reverse() : records;
+        await backend.putMany(store, ordered.map((value, seq) => ({ id: value.id, seq, value })));
+      }
+      // Only drop the old copies once both stores are written
+      Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    }
+  },
+  {
+    version: 2,
+    description: 'Store metal, purity and purchase invoice links explicitly',
+    migrate: async (backend) => {
+      await mapStore<Invoice>(backend, 'invoices', inv => ({ ...inv, metal: inv.metal || 'GOLD', purity: inv.purity || 999 }));
+      await mapStore<InventoryBatch>(backend, 'inventory', b => ({ ...b, metal: b.metal || 'GOLD', purity: b.purity || 999, invoiceId: b.invoiceId || b.id }));
+    }
+  },
+  {
+    version: 3,
+    description: 'Turn the old lock date into a closed period',
+    migrate: async (backend) => {
+      const lockDate = localStorage.getItem('bullion_lock_date');
+      if (lockDate) {
+        // Newest first, as the ledger takes them
+        const invoices = (await backend.getAll<StoredRow<Invoice>>('invoices')).sort((a, b) => b.seq - a.seq).map(row => row.value);
+        const method = (localStorage.getItem('bullion_costing_method') as CostingMethod) || 'FIFO';
+        const close = buildPeriodClose(invoices, lockDate, method, undefined, 'Lock date');
+        await backend.putMany('periods', [{ id: close.id, seq: 0, value: close }]);
+      }
+      localStorage.removeItem('bullion_lock_date');
+    }
+  },
+  {
+    version: 4,
+    description: 'Build the party master from invoice and payment names',
+    migrate: async (backend) => {
+      const invoiceRows = (await backend.getAll<StoredRow<Invoice>>('invoices')).sort((a, b) => a.seq - b.seq);
+      const paymentRows = (await backend.getAll<StoredRow<Payment>>('payments')).sort((a, b) => a.seq - b.seq);
+      // Oldest first, so each party takes the spelling it was first entered under
+      const fromInvoices = linkParties([], invoiceRows.map(row => row.value), hasParty);
+      const fromPayments = linkParties(fromInvoices.parties, paymentRows.map(row => row.value));
+      await backend.putMany('parties', fromPayments.parties.map((value, seq) => ({ id: value.id, seq, value })));
+      await backend.putMany('invoices', invoiceRows.map((row, i) => ({ ...row, value: fromInvoices.records[i] })));
+      await backend.putMany('payments', paymentRows.map((row, i) => ({ ...row, value: fromPayments.records[i] })));
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+/**
+ * Brings stored data up to SCHEMA_VERSION, one migration at a time. The version is saved after
+ * each step so an interrupted run resumes where it stopped.
+ */
+export const runMigrations = async (backend: StorageBackend): Promise<number> => {
+  const current = (await backend.getMeta<number>(SCHEMA_VERSION_KEY)) || 0;
+  if (current > SCHEMA_VERSION) {
+    throw new Error(`Data was saved by a newer version of the app (schema ${current}). Update the app to open it.`);
+  }
+  for (const migration of MIGRATIONS.filter(m => m.version > current)) {
+    await migration.migrate(backend);
+    await backend.setMeta(SCHEMA_VERSION_KEY, migration.version);
+  }
+  return SCHEMA_VERSION;
+};
@@ -0,0 +1,185 @@
+import { Invoice, KycStatus, Party } from '../types';
+import { getGstinStateCode, normalizeGstin, validateGstin } from './gstService';
+import { generateId } from '../utils';
+
+export const KYC_STATUS_LABELS: Record<KycStatus, string> = {
+  NOT_COLLECTED: 'Not collected',
+  PENDING: 'Pending',
+  VERIFIED: 'Verified'
+};
+
+const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
+// Anything that names a party: invoices and payments
+type PartyRecord = { partyId?: string; partyName: string; partyGstin?: string; partyState?: string };
+
+// Case and spacing do not make a different party
+export const normalizePartyName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const cleanName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+// Opening stock and stock adjustments are not dealings with anyone
+export const hasParty = (inv: Invoice): boolean => inv.type !== 'OPENING' && inv.type !== 'ADJUSTMENT';
+
+export const findPartyByName = (parties: Party[], name: string): Party | undefined => {
+  const key = normalizePartyName(name);
+  if (!key) return undefined;
+  return parties.find(p => normalizePartyName(p.name) === key || p.aliases.some(a => normalizePartyName(a) === key));
+};
+
+export interface PartyResolver {
+  find: (record: PartyRecord) => Party | undefined;
+  keyOf: (record: PartyRecord) => string; // Party ID, or `name:` and the normalised name when not in the master
+  nameOf: (record: PartyRecord) => string; // Master name, or the name on the record
+}
+
+/**
+ * Groups records by party. A record's own partyId wins; otherwise its name is matched against
+ * master names and aliases, so records entered before a merge still land on the surviving party,
+ * and failing that its GSTIN.
+ */
+export const createPartyResolver = (parties: Party[]): PartyResolver => {
+  const byId = new Map(parties.map(p => [p.id, p]));
+  const byName = new Map<string, Party>();
+  parties.forEach(p => [p.name, ...p.aliases].forEach(name => byName.set(normalizePartyName(name), p)));
+  const byGstin = new Map(parties.filter(p => p.gstin).map(p => [p.gstin!, p]));
+
+  const find = (record: PartyRecord) => (record.partyId ? byId.get(record.partyId) : undefined)
+    || byName.get(normalizePartyName(record.partyName))
+    || (record.partyGstin ? byGstin.get(record.partyGstin) : undefined);
+  return {
+    find,
+    keyOf: record => find(record)?.id || `name:${normalizePartyName(record.partyName)}`,
+    nameOf: record => find(record)?.name || cleanName(record.partyName)
+  };
+};
+
+const partyFromRecord = (record: PartyRecord): Party => {
+  const gstin = record.partyGstin && !validateGstin(record.partyGstin) ? record.partyGstin : undefined;
+  return {
+    id: generateId(),
+    name: cleanName(record.partyName),
+    aliases: [],
+    ...(gstin ? { gstin, pan: gstin.slice(2, 12) } : {}),
+    ...(getGstinStateCode(gstin) || record.partyState ? { state: getGstinStateCode(gstin) || record.partyState } : {}),
+    kycStatus: 'NOT_COLLECTED'
+  };
+};
+
+/**
+ * Sets partyId on every record that has a party, adding a master entry for each name not seen before.
+ * Records already linked to a party in the master are left as they are.
+ */
+export const linkParties = <T extends PartyRecord>(parties: Party[], records: T[], include: (record: T) => boolean = () => true): { parties: Party[]; records: T[] } => {
+  const master = [...parties];
+  let resolver = createPartyResolver(master);
+  const linked = records.map(record => {
+    if (!include(record) || !cleanName(record.partyName)) return record;
+    let party = resolver.find(record);
+    if (!party) {
+      party = partyFromRecord(record);
+      master.push(party);
+      resolver = createPartyResolver(master);
+    }
+    return record.partyId === party.id ? record : { ...record, partyId: party.id };
+  });
+  return { parties: master, records: linked };
+};
+
+/**
+ * Checks a new or edited master entry. Throws with a message for the user.
+ */
+export const buildParty = (draft: Omit<Party, 'id'>, parties: Party[], id?: string): Party => {
+  const name = cleanName(draft.name);
+  if (!name) throw new Error('Enter the party name.');
+  const others = parties.filter(p => p.id !== id);
+
+  const aliases: string[] = [];
+  draft.aliases.map(cleanName).forEach(alias => {
+    if (alias && normalizePartyName(alias) !== normalizePartyName(name) && !aliases.some(a => normalizePartyName(a) === normalizePartyName(alias))) aliases.push(alias);
+  });
+  [name, ...aliases].forEach(n => {
+    const clash = findPartyByName(others, n);
+    if (clash) throw new Error(`"${n}" is already used by ${clash.name}. Merge the two parties instead.`);
+  });
+
+  const gstin = draft.gstin ? normalizeGstin(draft.gstin) : '';
+  if (gstin) {
+    const error = validateGstin(gstin);
+    if (error) throw new Error(`GSTIN: ${error}`);
+    const clash = others.find(p => p.gstin === gstin);
+    if (clash) throw new Error(`GSTIN ${gstin} is already on ${clash.name}. Merge the two parties instead.`);
+  }
+  // The PAN is embedded in the GSTIN, so one given alongside must agree with it
+  let pan = draft.pan ? draft.pan.replace(/\s/g, '').toUpperCase() : '';
+  if (pan && !PAN_PATTERN.test(pan)) throw new Error('PAN must be 5 letters, 4 digits and a letter.');
+  if (gstin && pan && gstin.slice(2, 12) !== pan) throw new Error(`PAN does not match the GSTIN (${gstin.slice(2, 12)}).`);
+  if (gstin && !pan) pan = gstin.slice(2, 12);
+
+  if (draft.creditLimit !== undefined && !(draft.creditLimit >= 0)) throw new Error('Credit limit cannot be negative.');
+  const state = getGstinStateCode(gstin) || draft.state;
+
+  return {
+    id: id || generateId(),
+    name,
+    aliases,
+    ...(gstin ? { gstin } : {}),
+    ...(pan ? { pan } : {}),
+    ...(state ? { state } : {}),
+    ...(draft.phone?.trim() ? { phone: draft.phone.trim() } : {}),
+    ...(draft.address?.trim() ? { address: draft.address.trim() } : {}),
+    ...(draft.creditLimit !== undefined ? { creditLimit: draft.creditLimit } : {}),
+    kycStatus: draft.kycStatus
+  };
+};
+
+/**
+ * The surviving party after a merge: the duplicate's names become aliases and its details fill any gaps.
+ */
+export const mergeParties = (keep: Party, duplicate: Party): Party => {
+  const names = [...keep.aliases, duplicate.name, ...duplicate.aliases];
+  const aliases = names.filter((n, i) => normalizePartyName(n) !== normalizePartyName(keep.name) && names.findIndex(m => normalizePartyName(m) === normalizePartyName(n)) === i);
+  return {
+    ...duplicate,
+    ...keep,
+    aliases,
+    kycStatus: keep.kycStatus === 'VERIFIED' || duplicate.kycStatus === 'VERIFIED' ? 'VERIFIED' : keep.kycStatus
+  };
+};
+
+// Points records of one party at another; everything else is returned unchanged
+export const relinkParty = <T extends PartyRecord>(records: T[], fromId: string, toId: string): T[] => {
+  return records.map(record => (record.partyId === fromId ? { ...record, partyId: toId } : record));
+};
+
+const simplifyName = (name: string) => normalizePartyName(name).replace(/[^a-z0-9]/g, '');
+
+/**
+ * Pairs of parties that look like the same business: same GSTIN, PAN or phone, or names that only
+ * differ in punctuation.
+ */
+export const findLikelyDuplicates = (parties: Party[]): [Party, Party][] => {
+  const pairs: [Party, Party][] = [];
+  parties.forEach((a, i) => parties.slice(i + 1).forEach(b => {
+    const phone = (p: Party) => (p.phone || '').replace(/\D/g, '').slice(-10);
+    const samePhone = phone(a).length === 10 && phone(a) === phone(b);
+    if ((a.gstin && a.gstin === b.gstin) || (a.pan && a.pan === b.pan) || samePhone || simplifyName(a.name) === simplifyName(b.name)) {
+      pairs.push([a, b]);
+    }
+  }));
+  return pairs;
+};
+
+/**
+ * Master entries matching what is being typed, by name, alias, GSTIN or phone. Names starting with
+ * the text come first.
+ */
+export const searchParties = (parties: Party[], query: string, limit = 8): Party[] => {
+  const q = normalizePartyName(query);
+  if (!q) return [];
+  const upper = q.toUpperCase();
+  return parties
+    .filter(p => [p.name, ...p.aliases].some(n => normalizePartyName(n).includes(q)) || p.gstin?.includes(upper) || (p.phone && p.phone.includes(q)))
+    .sort((a, b) => Number(normalizePartyName(b.name).startsWith(q)) - Number(normalizePartyName(a.name).startsWith(q)) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
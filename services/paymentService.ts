@@ -0,0 +1,197 @@
+import { Invoice, InvoiceBalance, Party, PartyBalance, Payment, PaymentDirection, PaymentMode, RiskAlert } from '../types';
+import { isReturn } from './invoiceService';
+import { createPartyResolver } from './partyService';
+import { formatCurrency, generateId } from '../utils';
+
+// Amounts below a paisa are rounding, not a balance
+const BALANCE_TOLERANCE = 0.005;
+
+// Invoices falling due within this many days are flagged before they are late
+export const DUE_SOON_DAYS = 3;
+
+export const PAYMENT_MODE_LABELS: Record<PaymentMode, string> = {
+  CASH: 'Cash',
+  BANK: 'Bank Transfer',
+  UPI: 'UPI',
+  CHEQUE: 'Cheque'
+};
+
+export const PAYMENT_MODES = Object.keys(PAYMENT_MODE_LABELS) as PaymentMode[];
+
+// Sales are collected from customers and purchases paid to suppliers; other entries carry no balance
+export const getPaymentDirection = (inv: Invoice): PaymentDirection | null => {
+  if (inv.type === 'SALE') return 'RECEIVED';
+  if (inv.type === 'PURCHASE') return 'PAID';
+  return null;
+};
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (1000 * 60 * 60 * 24));
+};
+
+export interface Settlement {
+  balances: InvoiceBalance[]; // Oldest first
+  advances: Record<string, number>; // Unapplied money per direction and party key
+}
+
+const advanceKey = (direction: PaymentDirection, partyKey: string) => `${direction}|${partyKey}`;
+
+/**
+ * Matches payments to invoices. A payment naming an invoice goes to it first; any excess, and payments
+ * on account, clear the party's oldest open invoices. Whatever is left over is an advance.
+ */
+export const settleInvoices = (invoices: Invoice[], payments: Payment[], parties: Party[] = []): Settlement => {
+  const resolver = createPartyResolver(parties);
+  const noted = new Map<string, number>();
+  invoices.filter(isReturn).forEach(note => {
+    if (note.returnOf) noted.set(note.returnOf, (noted.get(note.returnOf) || 0) + note.totalAmount);
+  });
+
+  const balances: InvoiceBalance[] = invoices
+    .filter(inv => getPaymentDirection(inv))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(inv => {
+      const amount = Math.max(0, inv.totalAmount - (noted.get(inv.id) || 0));
+      return {
+        invoiceId: inv.id,
+        date: inv.date,
+        dueDate: inv.dueDate || inv.date,
+        partyName: inv.partyName,
+        partyKey: resolver.keyOf(inv),
+        direction: getPaymentDirection(inv)!,
+        amount,
+        credited: inv.totalAmount - amount,
+        paid: 0,
+        outstanding: amount
+      };
+    });
+  const byId = new Map(balances.map(b => [b.invoiceId, b]));
+
+  const advances: Record<string, number> = {};
+  [...payments].sort((a, b) => a.date.localeCompare(b.date)).forEach(p => {
+    let left = p.amount;
+    const target = p.invoiceId ? byId.get(p.invoiceId) : undefined;
+    if (target && target.direction === p.direction) {
+      const used = Math.min(left, target.outstanding);
+      target.paid += used;
+      target.outstanding -= used;
+      left -= used;
+    }
+    if (left > BALANCE_TOLERANCE) {
+      const key = advanceKey(p.direction, resolver.keyOf(p));
+      advances[key] = (advances[key] || 0) + left;
+    }
+  });
+
+  balances.forEach(b => {
+    const key = advanceKey(b.direction, b.partyKey);
+    const available = advances[key] || 0;
+    if (available <= BALANCE_TOLERANCE || b.outstanding <= BALANCE_TOLERANCE) return;
+    const used = Math.min(available, b.outstanding);
+    b.paid += used;
+    b.outstanding -= used;
+    advances[key] = available - used;
+  });
+
+  balances.forEach(b => { if (b.outstanding < BALANCE_TOLERANCE) b.outstanding = 0; });
+  return { balances, advances };
+};
+
+export const getOpenBalances = (balances: InvoiceBalance[], direction?: PaymentDirection): InvoiceBalance[] => {
+  return balances.filter(b => b.outstanding > 0 && (!direction || b.direction === direction));
+};
+
+/**
+ * Outstanding per party on both sides, largest first.
+ */
+export const getPartyBalances = (invoices: Invoice[], payments: Payment[], asOf: string, master: Party[] = []): PartyBalance[] => {
+  const { balances, advances } = settleInvoices(invoices, payments, master);
+  const resolver = createPartyResolver(master);
+  const parties = new Map<string, PartyBalance>();
+  const partyOf = (key: string, name: string) => {
+    if (!parties.has(key)) parties.set(key, { partyKey: key, partyName: name, receivable: 0, payable: 0, advanceReceived: 0, advancePaid: 0, overdue: 0 });
+    return parties.get(key)!;
+  };
+
+  balances.forEach(b => {
+    if (b.outstanding <= 0) return;
+    const party = partyOf(b.partyKey, resolver.nameOf(b));
+    if (b.direction === 'RECEIVED') party.receivable += b.outstanding;
+    else party.payable += b.outstanding;
+    if (b.dueDate < asOf) party.overdue += b.outstanding;
+  });
+  payments.forEach(p => {
+    const key = resolver.keyOf(p);
+    const party = partyOf(key, resolver.nameOf(p));
+    const advance = advances[advanceKey(p.direction, key)] || 0;
+    if (p.direction === 'RECEIVED') party.advanceReceived = advance;
+    else party.advancePaid = advance;
+    if (!party.lastPayment || p.date > party.lastPayment) party.lastPayment = p.date;
+  });
+
+  return Array.from(parties.values())
+    .filter(p => p.receivable + p.payable + p.advanceReceived + p.advancePaid > BALANCE_TOLERANCE)
+    .sort((a, b) => (b.receivable + b.payable) - (a.receivable + a.payable));
+};
+
+/**
+ * Checks a payment before it is recorded. Throws with a message for the user.
+ */
+export const buildPayment = (draft: Omit<Payment, 'id'>, invoices: Invoice[], parties: Party[] = []): Payment => {
+  if (!draft.date) throw new Error('Choose the payment date.');
+  if (!draft.partyName.trim()) throw new Error('Enter the party name.');
+  if (!(draft.amount > 0)) throw new Error('Amount must be more than zero.');
+  if (draft.invoiceId) {
+    const inv = invoices.find(i => i.id === draft.invoiceId);
+    if (!inv) throw new Error(`Invoice ${draft.invoiceId} does not exist.`);
+    if (getPaymentDirection(inv) !== draft.direction) throw new Error(draft.direction === 'RECEIVED' ? 'Receipts can only be set against sales.' : 'Payments can only be set against purchases.');
+    const resolver = createPartyResolver(parties);
+    if (resolver.keyOf(inv) !== resolver.keyOf(draft)) throw new Error(`Invoice ${inv.id} belongs to ${inv.partyName}.`);
+  }
+  return {
+    id: generateId(),
+    date: draft.date,
+    direction: draft.direction,
+    partyName: draft.partyName.trim(),
+    ...(draft.partyId ? { partyId: draft.partyId } : {}),
+    amount: draft.amount,
+    mode: draft.mode,
+    ...(draft.reference?.trim() ? { reference: draft.reference.trim() } : {}),
+    ...(draft.invoiceId ? { invoiceId: draft.invoiceId } : {}),
+    ...(draft.note?.trim() ? { note: draft.note.trim() } : {})
+  };
+};
+
+/**
+ * Alerts for invoices past their due date, and for those falling due within DUE_SOON_DAYS.
+ */
+export const getDueAlerts = (balances: InvoiceBalance[], asOf: string): RiskAlert[] => {
+  const alerts: RiskAlert[] = [];
+  const open = getOpenBalances(balances);
+  (['RECEIVED', 'PAID'] as PaymentDirection[]).forEach(direction => {
+    const side = open.filter(b => b.direction === direction);
+    const overdue = side.filter(b => b.dueDate < asOf);
+    const soon = side.filter(b => b.dueDate >= asOf && daysBetween(asOf, b.dueDate) <= DUE_SOON_DAYS);
+    const context = direction === 'RECEIVED' ? 'Receivables' : 'Payables';
+    const total = (list: InvoiceBalance[]) => formatCurrency(list.reduce((sum, b) => sum + b.outstanding, 0));
+
+    if (overdue.length > 0) {
+      const oldest = overdue.reduce((a, b) => (b.dueDate < a.dueDate ? b : a));
+      alerts.push({
+        id: `overdue-${direction}`,
+        severity: direction === 'RECEIVED' ? 'HIGH' : 'MEDIUM',
+        context,
+        message: `${overdue.length} invoice${overdue.length > 1 ? 's' : ''} overdue, ${total(overdue)} ${direction === 'RECEIVED' ? 'to collect' : 'to pay'}. Oldest: ${oldest.partyName}, due ${oldest.dueDate} (${daysBetween(oldest.dueDate, asOf)} days).`
+      });
+    }
+    if (soon.length > 0) {
+      alerts.push({
+        id: `due-soon-${direction}`,
+        severity: 'LOW',
+        context,
+        message: `${soon.length} invoice${soon.length > 1 ? 's' : ''} due within ${DUE_SOON_DAYS} days, ${total(soon)} ${direction === 'RECEIVED' ? 'to collect' : 'to pay'}.`
+      });
+    }
+  });
+  return alerts;
+};
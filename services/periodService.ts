@@ -0,0 +1,114 @@
+import { CostingMethod, Invoice, LedgerDiagnostic, Metal, PeriodClose, PeriodSnapshot } from '../types';
+import { runLedger, getStockValue } from './ledgerService';
+import { METALS, getMetal } from './metalService';
+import { getGstComponents } from './gstService';
+import { generateId } from '../utils';
+
+// Closes still in force, oldest first. Reopened closes stay in the list for the record.
+export const getActiveCloses = (periods: PeriodClose[]): PeriodClose[] => {
+  return periods.filter(p => !p.reopenedAt).sort((a, b) => (a.periodEnd < b.periodEnd ? -1 : 1));
+};
+
+// Nothing dated on or before this can be added, edited or deleted
+export const getLockDate = (periods: PeriodClose[]): string | null => {
+  const active = getActiveCloses(periods);
+  return active.length > 0 ? active[active.length - 1].periodEnd : null;
+};
+
+export const nextDay = (date: string): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split('T')[0];
+};
+
+const emptySnapshot = (): PeriodSnapshot => {
+  const grams = {} as Record<Metal, number>;
+  METALS.forEach(m => { grams[m] = 0; });
+  return { grams, value: 0 };
+};
+
+/**
+ * Snapshots the books up to periodEnd: open lots, closing stock and the period's P&L. The opening
+ * side is copied from the previous close, so a later close never re-derives what was frozen.
+ */
+export const buildPeriodClose = (
+  invoices: Invoice[], periodEnd: string, method: CostingMethod, previous: PeriodClose | undefined, closedBy: string
+): PeriodClose => {
+  const result = runLedger(invoices.filter(inv => inv.date <= periodEnd), method);
+  const batches = result.batches.filter(b => b.remainingQuantity > 0);
+  const closing = emptySnapshot();
+  batches.forEach(b => { closing.grams[getMetal(b)] += b.remainingQuantity; });
+  closing.value = getStockValue(batches);
+
+  const pnl = { sales: 0, revenue: 0, cogs: 0, grossProfit: 0, stockLoss: 0, purchases: 0, purchaseValue: 0, outputGst: 0, inputGst: 0 };
+  result.invoices
+    .filter(inv => !previous || inv.date > previous.periodEnd)
+    .forEach(inv => {
+      const gst = getGstComponents(inv);
+      const tax = gst.cgstAmount + gst.sgstAmount + gst.igstAmount;
+      if (inv.type === 'SALE') {
+        pnl.sales += 1;
+        pnl.revenue += inv.taxableAmount;
+        pnl.cogs += inv.cogs || 0;
+        pnl.grossProfit += inv.profit || 0;
+        pnl.outputGst += tax;
+      } else if (inv.type === 'SALE_RETURN') {
+        // Credit notes carry negative cost and profit already
+        pnl.revenue -= inv.taxableAmount;
+        pnl.cogs += inv.cogs || 0;
+        pnl.grossProfit += inv.profit || 0;
+        pnl.outputGst -= tax;
+      } else if (inv.type === 'ADJUSTMENT') {
+        pnl.stockLoss += inv.cogs || 0;
+      } else if (inv.type === 'PURCHASE') {
+        pnl.purchases += 1;
+        pnl.purchaseValue += inv.taxableAmount;
+        pnl.inputGst += tax;
+      } else if (inv.type === 'PURCHASE_RETURN') {
+        pnl.purchaseValue -= inv.taxableAmount;
+        pnl.inputGst -= tax;
+      }
+    });
+
+  return {
+    id: generateId(),
+    periodStart: previous ? nextDay(previous.periodEnd) : null,
+    periodEnd,
+    costingMethod: method,
+    opening: previous ? previous.closing : emptySnapshot(),
+    closing,
+    batches,
+    pnl,
+    closedAt: new Date().toISOString(),
+    closedBy
+  };
+};
+
+/**
+ * Throws if the books cannot be closed up to periodEnd.
+ */
+export const assertCanClose = (periodEnd: string, lockDate: string | null, diagnostics: LedgerDiagnostic[], invoices: Invoice[]) => {
+  const today = new Date().toISOString().split('T')[0];
+  if (!periodEnd) throw new Error('Choose the last day of the period.');
+  if (periodEnd > today) throw new Error('A period cannot be closed before it has ended.');
+  if (lockDate && periodEnd <= lockDate) throw new Error(`Books are already closed up to ${lockDate}.`);
+  const dates = new Map(invoices.map(inv => [inv.id, inv.date]));
+  const short = diagnostics.filter(d => d.severity === 'ERROR' && (dates.get(d.invoiceId) || '') <= periodEnd);
+  if (short.length > 0) throw new Error(`${short.length} sale${short.length > 1 ? 's' : ''} in the period exceed available stock. Fix them before closing.`);
+};
+
+/**
+ * Marks the latest close as reopened, which moves the lock date back to the close before it.
+ * Earlier closes cannot be reopened while a later one is still in force.
+ */
+export const reopenPeriod = (periods: PeriodClose[], id: string, reopenedBy: string): PeriodClose[] => {
+  const active = getActiveCloses(periods);
+  const latest = active[active.length - 1];
+  if (!latest || latest.id !== id) throw new Error('Only the most recent closed period can be reopened.');
+  return periods.map(p => (p.id === id ? { ...p, reopenedAt: new Date().toISOString(), reopenedBy } : p));
+};
+
+// Frozen closing snapshot of the period ending the day before `date`, if that period is closed
+export const getOpeningSnapshot = (periods: PeriodClose[], date: string): PeriodSnapshot | undefined => {
+  return getActiveCloses(periods).find(p => nextDay(p.periodEnd) === date)?.closing;
+};
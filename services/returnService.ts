@@ -0,0 +1,94 @@
+import { Invoice, InvoiceLine, TransactionType } from '../types';
+import { getInvoiceLines, isReturn, summarizeLines } from './invoiceService';
+import { getGstComponents } from './gstService';
+import { generateId } from '../utils';
+
+// Weights below this are scale noise, not something left to return
+const RETURN_TOLERANCE = 0.0005;
+
+// Note raised against each kind of original: credit notes for sales, debit notes for purchases
+export const RETURN_TYPES: Partial<Record<TransactionType, TransactionType>> = {
+  SALE: 'SALE_RETURN',
+  PURCHASE: 'PURCHASE_RETURN'
+};
+
+export const getReturns = (invoices: Invoice[], originalId: string): Invoice[] => {
+  return invoices.filter(inv => isReturn(inv) && inv.returnOf === originalId);
+};
+
+export interface ReturnableLine {
+  index: number; // Position in the original invoice
+  line: InvoiceLine;
+  returned: number; // Net grams already returned on earlier notes
+  remaining: number;
+}
+
+/**
+ * Lines of the original with what is still left to return on each.
+ */
+export const getReturnableLines = (original: Invoice, invoices: Invoice[]): ReturnableLine[] => {
+  const notes = getReturns(invoices, original.id);
+  return getInvoiceLines(original).map((line, index) => {
+    const returned = notes.reduce((sum, note) => sum + getInvoiceLines(note)
+      .filter((l, i) => (l.returnLine ?? i) === index)
+      .reduce((s, l) => s + l.netWeight, 0), 0);
+    return { index, line, returned, remaining: Math.max(0, line.netWeight - returned) };
+  });
+};
+
+/**
+ * Credit or debit note for the given net grams per original line, valued and taxed at the original's
+ * rates so the return reverses exactly its share of the invoice. Throws if the grams cannot be returned.
+ */
+export const buildReturnNote = (original: Invoice, invoices: Invoice[], grams: Record<number, number>, date: string): Invoice => {
+  const type = RETURN_TYPES[original.type];
+  if (!type) throw new Error('Only sales and purchases can be returned.');
+  if (!date) throw new Error('Choose the date of the note.');
+  if (date < original.date) throw new Error(`A return cannot be dated before the original invoice (${original.date}).`);
+
+  const lines: InvoiceLine[] = [];
+  getReturnableLines(original, invoices).forEach(({ index, line, remaining }) => {
+    const net = grams[index] || 0;
+    if (net < 0) throw new Error('Returned grams cannot be negative.');
+    if (net <= RETURN_TOLERANCE) return;
+    if (net > remaining + RETURN_TOLERANCE) {
+      throw new Error(`Line ${index + 1} has only ${remaining.toFixed(3)} g left to return.`);
+    }
+    const share = line.netWeight > 0 ? net / line.netWeight : 0;
+    lines.push({
+      ...line,
+      grossWeight: line.grossWeight * share,
+      netWeight: net,
+      makingCharges: line.makingCharges * share,
+      stoneValue: line.stoneValue * share,
+      taxableAmount: line.taxableAmount * share,
+      returnLine: index
+    });
+  });
+  if (lines.length === 0) throw new Error('Enter the grams being returned on at least one line.');
+
+  const summary = summarizeLines(lines);
+  const originalTaxable = getInvoiceLines(original).reduce((sum, l) => sum + l.taxableAmount, 0);
+  const share = originalTaxable > 0 ? summary.taxableAmount / originalTaxable : 0;
+  const gst = getGstComponents(original);
+  const gstAmount = original.gstAmount * share;
+
+  return {
+    id: generateId(),
+    date,
+    type,
+    partyName: original.partyName,
+    ...(original.partyId ? { partyId: original.partyId } : {}),
+    ...summary,
+    gstRate: original.gstRate,
+    gstAmount,
+    totalAmount: summary.taxableAmount + gstAmount,
+    lines,
+    ...(original.partyGstin ? { partyGstin: original.partyGstin } : {}),
+    ...(original.partyState ? { partyState: original.partyState } : {}),
+    cgstAmount: gst.cgstAmount * share,
+    sgstAmount: gst.sgstAmount * share,
+    igstAmount: gst.igstAmount * share,
+    returnOf: original.id
+  };
+};
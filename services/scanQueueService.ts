@@ -0,0 +1,42 @@
+import { ExtractedInvoice, Invoice, ScanItem, ScanStatus } from '../types';
+import { ExtractionProvider, extractInvoice, readDocument } from './extractionService';
+import { generateId } from '../utils';
+
+export const SCAN_STATUS_LABELS: Record<ScanStatus, string> = {
+  QUEUED: 'Queued',
+  EXTRACTING: 'Reading',
+  READY: 'To review',
+  REVIEWED: 'Reviewed',
+  FAILED: 'Failed'
+};
+
+export const queueFiles = (files: File[]): ScanItem[] => files.map(file => ({ id: generateId(), file, status: 'QUEUED' }));
+
+export const updateScan = (items: ScanItem[], id: string, changes: Partial<ScanItem>): ScanItem[] => {
+  return items.map(item => (item.id === id ? { ...item, ...changes } : item));
+};
+
+/**
+ * Extracts one queued file. Plain text files are passed as text, so the offline parser can
+ * work through a batch of them too.
+ */
+export const readScan = async (file: File, provider: ExtractionProvider, ownGstin?: string): Promise<ExtractedInvoice> => {
+  const context = ownGstin ? { ownGstin } : {};
+  if (file.type.startsWith('text/')) return (await extractInvoice(provider, { text: await file.text(), ...context })).result;
+  if (!provider.readsDocuments) throw new Error(`${provider.label} cannot read PDFs or images. Pick another extractor in Settings.`);
+  return (await extractInvoice(provider, { document: await readDocument(file), ...context })).result;
+};
+
+// Date the bill will be posted under, as far as is known yet
+export const getScanDate = (item: ScanItem): string => item.draft?.date || item.extraction?.date || '';
+
+/**
+ * Reviewed drafts oldest first, so approving them replays purchases before the sales that draw on them.
+ * Bills on the same day keep the order they were queued in.
+ */
+export const getApprovalOrder = (items: ScanItem[]): Invoice[] => {
+  return items
+    .filter(item => item.status === 'REVIEWED' && item.draft)
+    .map(item => item.draft!)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,77 @@
+import { Invoice, Party, PartyStatement, Payment, StatementRow } from '../types';
+import { TRANSACTION_TYPE_LABELS } from './invoiceService';
+import { PAYMENT_MODE_LABELS } from './paymentService';
+import { createPartyResolver, hasParty } from './partyService';
+import { formatCurrency } from '../utils';
+
+// Sales, debit notes and money paid out raise what the party owes; purchases, credit notes and receipts lower it
+const isDebit = (inv: Invoice): boolean => inv.type === 'SALE' || inv.type === 'PURCHASE_RETURN';
+
+// Dr when the party owes us, Cr when we owe them, the way statements are printed
+export const formatBalance = (amount: number): string => {
+  if (Math.abs(amount) < 0.005) return formatCurrency(0);
+  return `${formatCurrency(Math.abs(amount))} ${amount > 0 ? 'Dr' : 'Cr'}`;
+};
+
+const invoiceRow = (inv: Invoice): Omit<StatementRow, 'balance'> => {
+  const returned = inv.type === 'SALE_RETURN' || inv.type === 'PURCHASE_RETURN';
+  return {
+    date: inv.date,
+    kind: 'INVOICE',
+    reference: inv.id,
+    description: `${TRANSACTION_TYPE_LABELS[inv.type]}${inv.returnOf ? ` against ${inv.returnOf}` : ''}`,
+    grams: returned ? -inv.quantityGrams : inv.quantityGrams,
+    debit: isDebit(inv) ? inv.totalAmount : 0,
+    credit: isDebit(inv) ? 0 : inv.totalAmount
+  };
+};
+
+const paymentRow = (p: Payment): Omit<StatementRow, 'balance'> => ({
+  date: p.date,
+  kind: 'PAYMENT',
+  reference: p.reference || p.id,
+  description: `${p.direction === 'RECEIVED' ? 'Received' : 'Paid'} by ${PAYMENT_MODE_LABELS[p.mode]}${p.invoiceId ? ` against ${p.invoiceId}` : ' on account'}`,
+  grams: 0,
+  debit: p.direction === 'PAID' ? p.amount : 0,
+  credit: p.direction === 'RECEIVED' ? p.amount : 0
+});
+
+/**
+ * Running account of one party between two dates. Everything dated before the start is
+ * carried in as the opening balance. invoices are newest first, as App keeps them.
+ */
+export const buildPartyStatement = (partyKey: string, invoices: Invoice[], payments: Payment[], parties: Party[], start: string, end: string): PartyStatement => {
+  const resolver = createPartyResolver(parties);
+  const party = parties.find(p => p.id === partyKey);
+  const partyInvoices = [...invoices].reverse().filter(inv => hasParty(inv) && resolver.keyOf(inv) === partyKey);
+  const entries = [
+    ...partyInvoices.map(invoiceRow),
+    ...payments.filter(p => resolver.keyOf(p) === partyKey).map(paymentRow)
+  ];
+  // Stable sort keeps entry order within a day, with invoices ahead of the payments made against them
+  entries.sort((a, b) => a.date.localeCompare(b.date));
+
+  const opening = entries.filter(e => e.date < start).reduce((sum, e) => sum + e.debit - e.credit, 0);
+  let balance = opening;
+  const rows: StatementRow[] = entries.filter(e => e.date >= start && e.date <= end).map(e => {
+    balance += e.debit - e.credit;
+    return { ...e, balance };
+  });
+
+  const inRange = partyInvoices.filter(inv => inv.date >= start && inv.date <= end);
+  const grams = (types: Invoice['type'][]) => inRange.filter(inv => types.includes(inv.type)).reduce((sum, inv) => sum + invoiceRow(inv).grams, 0);
+  const sample = partyInvoices[partyInvoices.length - 1];
+
+  return {
+    partyKey,
+    partyName: party ? party.name : sample ? resolver.nameOf(sample) : partyKey,
+    ...(party?.gstin || sample?.partyGstin ? { partyGstin: party?.gstin || sample?.partyGstin } : {}),
+    start,
+    end,
+    opening,
+    rows,
+    closing: balance,
+    gramsSold: grams(['SALE', 'SALE_RETURN']),
+    gramsBought: grams(['PURCHASE', 'PURCHASE_RETURN'])
+  };
+};
@@ -0,0 +1,74 @@
+import { AdjustmentReason, Invoice, InventoryBatch, Metal, StockAdjustment } from '../types';
+import { METALS, getMetal, STANDARD_PURITY } from './metalService';
+import { ADJUSTMENT_REASON_LABELS } from './invoiceService';
+import { generateId } from '../utils';
+
+// Differences smaller than this are scale noise, not variance
+const COUNT_TOLERANCE = 0.0005;
+
+export type CountMode = 'LOT' | 'METAL';
+
+export interface CountRow {
+  key: string; // Batch ID, or the metal when counting whole metals
+  metal: Metal;
+  batchId?: string;
+  bookGrams: number;
+  costPerGram: number; // Lot cost, or the pool average
+  counted?: number; // Undefined until entered
+  variance: number; // Counted minus book, fine grams
+  varianceValue: number;
+}
+
+/**
+ * Book quantities next to what was counted, per open lot or per metal pool.
+ * Rows without a count show no variance.
+ */
+export const getCountRows = (inventory: InventoryBatch[], mode: CountMode, counts: Record<string, string>): CountRow[] => {
+  const open = inventory.filter(b => b.remainingQuantity > 0);
+  const base = mode === 'LOT'
+    ? open.map(b => ({ key: b.id, metal: getMetal(b), batchId: b.id, bookGrams: b.remainingQuantity, costPerGram: b.costPerGram }))
+    : METALS.map(metal => {
+        const lots = open.filter(b => getMetal(b) === metal);
+        const grams = lots.reduce((sum, b) => sum + b.remainingQuantity, 0);
+        const value = lots.reduce((sum, b) => sum + b.remainingQuantity * b.costPerGram, 0);
+        return { key: metal, metal, bookGrams: grams, costPerGram: grams > 0 ? value / grams : 0 };
+      });
+
+  return base.map(row => {
+    const counted = counts[row.key] === undefined || counts[row.key] === '' ? undefined : parseFloat(counts[row.key]);
+    const variance = counted === undefined || isNaN(counted) ? 0 : counted - row.bookGrams;
+    return { ...row, counted: counted !== undefined && !isNaN(counted) ? counted : undefined, variance, varianceValue: variance * row.costPerGram };
+  });
+};
+
+export const hasVariance = (row: CountRow): boolean => row.counted !== undefined && Math.abs(row.variance) > COUNT_TOLERANCE;
+
+/**
+ * Adjustment entry for the counted variances. Throws if nothing differs from the books.
+ */
+export const buildStockAdjustment = (rows: CountRow[], date: string, reason: AdjustmentReason, note: string): Invoice => {
+  if (rows.some(r => r.counted !== undefined && r.counted < 0)) throw new Error('Counted grams cannot be negative.');
+  const entries: StockAdjustment[] = rows.filter(hasVariance).map(r => ({
+    metal: r.metal,
+    grams: r.variance,
+    ...(r.batchId ? { batchId: r.batchId } : {})
+  }));
+  if (entries.length === 0) throw new Error('Counts match the books; there is nothing to adjust.');
+
+  const net = entries.reduce((sum, e) => sum + e.grams, 0);
+  return {
+    id: generateId(),
+    date,
+    type: 'ADJUSTMENT',
+    partyName: ADJUSTMENT_REASON_LABELS[reason],
+    metal: entries[0].metal,
+    purity: STANDARD_PURITY,
+    quantityGrams: net,
+    ratePerGram: 0,
+    gstRate: 0,
+    gstAmount: 0,
+    taxableAmount: 0,
+    totalAmount: 0,
+    adjustment: { reason, ...(note.trim() ? { note: note.trim() } : {}), entries }
+  };
+};
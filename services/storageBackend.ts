@@ -0,0 +1,115 @@
+// Collections persisted record by record. 'audit' is only ever appended to; 'documents' holds file blobs.
+export type StoreName = 'invoices' | 'inventory' | 'audit' | 'periods' | 'payments' | 'parties' | 'documents';
+
+export const STORE_NAMES: StoreName[] = ['invoices', 'inventory', 'audit', 'periods', 'payments', 'parties', 'documents'];
+
+/**
+ * Minimal key-value storage used by storeService. Records are keyed by their `id`;
+ * meta holds small values such as the schema version.
+ */
+export interface StorageBackend {
+  get<T>(store: StoreName, id: string): Promise<T | undefined>;
+  getAll<T>(store: StoreName): Promise<T[]>;
+  putMany<T extends { id: string }>(store: StoreName, records: T[]): Promise<void>;
+  deleteMany(store: StoreName, ids: string[]): Promise<void>;
+  clear(store: StoreName): Promise<void>;
+  getMeta<T>(key: string): Promise<T | undefined>;
+  setMeta(key: string, value: unknown): Promise<void>;
+}
+
+const DB_NAME = 'bullionkeep';
+// Structure of the object stores. Bump when adding a store; data changes go through migrations instead.
+const DB_VERSION = 6;
+const META_STORE = 'meta';
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const completion = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      [...STORE_NAMES, META_STORE].forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: name === META_STORE ? 'key' : 'id' });
+        }
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error('Database is open in another tab with an older version. Close it and reload.'));
+  });
+};
+
+export const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase();
+
+  return {
+    get: <T>(store: StoreName, id: string) => promisify(db.transaction(store, 'readonly').objectStore(store).get(id)) as Promise<T | undefined>,
+
+    getAll: <T>(store: StoreName) => promisify(db.transaction(store, 'readonly').objectStore(store).getAll()) as Promise<T[]>,
+
+    putMany: async (store, records) => {
+      const tx = db.transaction(store, 'readwrite');
+      const os = tx.objectStore(store);
+      records.forEach(r => os.put(r));
+      await completion(tx);
+    },
+
+    deleteMany: async (store, ids) => {
+      const tx = db.transaction(store, 'readwrite');
+      const os = tx.objectStore(store);
+      ids.forEach(id => os.delete(id));
+      await completion(tx);
+    },
+
+    clear: async (store) => {
+      const tx = db.transaction(store, 'readwrite');
+      tx.objectStore(store).clear();
+      await completion(tx);
+    },
+
+    getMeta: async <T>(key: string) => {
+      const row = await promisify(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key));
+      return row ? (row.value as T) : undefined;
+    },
+
+    setMeta: async (key, value) => {
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put({ key, value });
+      await completion(tx);
+    }
+  };
+};
+
+/**
+ * Non-persistent backend for scripts and browsers without IndexedDB (e.g. some private modes).
+ */
+export const createMemoryBackend = (): StorageBackend => {
+  const stores: Record<string, Map<string, any>> = {};
+  const meta = new Map<string, unknown>();
+  const storeOf = (name: StoreName) => (stores[name] = stores[name] || new Map());
+
+  return {
+    get: async <T>(store: StoreName, id: string) => storeOf(store).get(id) as T | undefined,
+    getAll: async <T>(store: StoreName) => Array.from(storeOf(store).values()) as T[],
+    putMany: async (store, records) => { records.forEach(r => storeOf(store).set(r.id, r)); },
+    deleteMany: async (store, ids) => { ids.forEach(id => storeOf(store).delete(id)); },
+    clear: async (store) => { storeOf(store).clear(); },
+    getMeta: async <T>(key: string) => meta.get(key) as T | undefined,
+    setMeta: async (key, value) => { meta.set(key, value); }
+  };
+};
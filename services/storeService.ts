@@ -1,29 +1,194 @@
-import { Invoice, InventoryBatch } from '../types';
+import { Invoice, InventoryBatch, CostingMethod, FirmProfile, UserAccount, AuditEntry, PeriodClose, Payment, Party, ExtractionSettings, InvoiceDocument } from '../types';
+import { StorageBackend, StoreName, createIndexedDbBackend, createMemoryBackend } from './storageBackend';
+import { StoredRow, runMigrations } from './migrations';
 
+// Small settings stay in localStorage; invoices and inventory live in IndexedDB
 const STORAGE_KEYS = {
-  INVOICES: 'bullion_invoices',
-  INVENTORY: 'bullion_inventory',
+  COSTING_METHOD: 'bullion_costing_method',
+  FIRM_PROFILE: 'bullion_firm_profile',
+  USERS: 'bullion_users',
+  SESSION: 'bullion_session',
+  EXTRACTION: 'bullion_extraction',
 };
 
-export const loadInvoices = (): Invoice[] => {
-  const data = localStorage.getItem(STORAGE_KEYS.INVOICES);
-  return data ? JSON.parse(data) : [];
+let storage: Promise<StorageBackend> | null = null;
+
+/**
+ * Opens the storage backend once and runs pending migrations before anything is read.
+ */
+export const getStorage = (): Promise<StorageBackend> => {
+  if (!storage) {
+    storage = (async () => {
+      const backend = typeof indexedDB !== 'undefined' ? await createIndexedDbBackend() : createMemoryBackend();
+      await runMigrations(backend);
+      return backend;
+    })();
+    // Let a later call retry if opening failed
+    storage.catch(() => { storage = null; });
+  }
+  return storage;
+};
+
+// Stores saved as a whole list; the audit log and documents have their own functions
+type ListStore = Exclude<StoreName, 'audit' | 'documents'>;
+
+// Last written JSON per record, so saves only touch records that actually changed
+const written: Record<ListStore, Map<string, string>> = {
+  invoices: new Map(),
+  inventory: new Map(),
+  periods: new Map(),
+  payments: new Map(),
+  parties: new Map()
+};
+
+const loadStore = async <T extends { id: string }>(store: ListStore): Promise<T[]> => {
+  const backend = await getStorage();
+  const rows = (await backend.getAll<StoredRow<T>>(store)).sort((a, b) => a.seq - b.seq);
+  written[store] = new Map(rows.map(row => [row.id, JSON.stringify(row)]));
+  return rows.map(row => row.value);
+};
+
+// records must be oldest first; seq follows that order
+const saveStore = async <T extends { id: string }>(store: ListStore, records: T[]) => {
+  const backend = await getStorage();
+  const cache = written[store];
+  const seen = new Set<string>();
+  const changed: StoredRow<T>[] = [];
+  const json = new Map<string, string>();
+
+  records.forEach((value, seq) => {
+    const row = { id: value.id, seq, value };
+    const text = JSON.stringify(row);
+    seen.add(row.id);
+    if (cache.get(row.id) !== text) { changed.push(row); json.set(row.id, text); }
+  });
+  const removed = Array.from(cache.keys()).filter(id => !seen.has(id));
+
+  if (changed.length > 0) await backend.putMany(store, changed);
+  if (removed.length > 0) await backend.deleteMany(store, removed);
+  json.forEach((text, id) => cache.set(id, text));
+  removed.forEach(id => cache.delete(id));
+};
+
+// Newest first, the order App keeps them in
+export const loadInvoices = async (): Promise<Invoice[]> => (await loadStore<Invoice>('invoices')).reverse();
+
+export const loadInventory = (): Promise<InventoryBatch[]> => loadStore<InventoryBatch>('inventory');
+
+export const saveInvoices = (invoices: Invoice[]) => saveStore('invoices', [...invoices].reverse());
+
+export const saveInventory = (inventory: InventoryBatch[]) => saveStore('inventory', inventory);
+
+// Closed periods in the order they were closed, reopened ones included
+export const loadPeriods = (): Promise<PeriodClose[]> => loadStore<PeriodClose>('periods');
+
+export const savePeriods = (periods: PeriodClose[]) => saveStore('periods', periods);
+
+// Payments in the order they were recorded
+export const loadPayments = (): Promise<Payment[]> => loadStore<Payment>('payments');
+
+export const savePayments = (payments: Payment[]) => saveStore('payments', payments);
+
+// Party master in the order parties were added
+export const loadParties = (): Promise<Party[]> => loadStore<Party>('parties');
+
+export const saveParties = (parties: Party[]) => saveStore('parties', parties);
+
+// The audit log is append only: entries are never rewritten, deleted or cleared by a reset
+export const loadAuditLog = async (): Promise<AuditEntry[]> => {
+  const backend = await getStorage();
+  return (await backend.getAll<StoredRow<AuditEntry>>('audit')).map(row => row.value).sort((a, b) => a.seq - b.seq);
+};
+
+export const appendAuditEntries = async (entries: AuditEntry[]) => {
+  const backend = await getStorage();
+  await backend.putMany('audit', entries.map(entry => ({ id: entry.id, seq: entry.seq, value: entry })));
+};
+
+// Attached bills are stored as they are (no seq row), one record per file, and read one at a time
+export const saveDocuments = async (documents: InvoiceDocument[]) => {
+  const backend = await getStorage();
+  await backend.putMany('documents', documents);
+};
+
+export const loadDocument = async (id: string): Promise<InvoiceDocument | undefined> => {
+  const backend = await getStorage();
+  return backend.get<InvoiceDocument>('documents', id);
+};
+
+// Every attached bill; only backups and the auditor export need them all
+export const loadDocuments = async (): Promise<InvoiceDocument[]> => {
+  const backend = await getStorage();
+  return backend.getAll<InvoiceDocument>('documents');
+};
+
+export const deleteDocuments = async (ids: string[]) => {
+  const backend = await getStorage();
+  await backend.deleteMany('documents', ids);
+};
+
+// Restoring a full backup brings its own set of bills
+export const replaceDocuments = async (documents: InvoiceDocument[]) => {
+  const backend = await getStorage();
+  await backend.clear('documents');
+  await backend.putMany('documents', documents);
+};
+
+export const loadCostingMethod = (): CostingMethod => {
+  return (localStorage.getItem(STORAGE_KEYS.COSTING_METHOD) as CostingMethod) || 'FIFO';
+};
+
+export const saveCostingMethod = (method: CostingMethod) => {
+  localStorage.setItem(STORAGE_KEYS.COSTING_METHOD, method);
+};
+
+export const loadFirmProfile = (): FirmProfile => {
+  const data = localStorage.getItem(STORAGE_KEYS.FIRM_PROFILE);
+  return data ? JSON.parse(data) : { name: '', gstin: '', stateCode: '' };
+};
+
+export const saveFirmProfile = (profile: FirmProfile) => {
+  localStorage.setItem(STORAGE_KEYS.FIRM_PROFILE, JSON.stringify(profile));
+};
+
+// Which extractor reads scanned bills, and the user's own key for it
+export const loadExtractionSettings = (): ExtractionSettings => {
+  const data = localStorage.getItem(STORAGE_KEYS.EXTRACTION);
+  return data ? JSON.parse(data) : { provider: 'REGEX' };
 };
 
-export const loadInventory = (): InventoryBatch[] => {
-  const data = localStorage.getItem(STORAGE_KEYS.INVENTORY);
+export const saveExtractionSettings = (settings: ExtractionSettings) => {
+  localStorage.setItem(STORAGE_KEYS.EXTRACTION, JSON.stringify(settings));
+};
+
+export const loadUsers = (): UserAccount[] => {
+  const data = localStorage.getItem(STORAGE_KEYS.USERS);
   return data ? JSON.parse(data) : [];
 };
 
-export const saveInvoices = (invoices: Invoice[]) => {
-  localStorage.setItem(STORAGE_KEYS.INVOICES, JSON.stringify(invoices));
+export const saveUsers = (users: UserAccount[]) => {
+  localStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(users));
 };
 
-export const saveInventory = (inventory: InventoryBatch[]) => {
-  localStorage.setItem(STORAGE_KEYS.INVENTORY, JSON.stringify(inventory));
+// Signed-in user id, kept per browser tab and dropped when the tab closes
+export const loadSession = (): string | null => sessionStorage.getItem(STORAGE_KEYS.SESSION);
+
+export const saveSession = (userId: string | null) => {
+  if (userId) sessionStorage.setItem(STORAGE_KEYS.SESSION, userId);
+  else sessionStorage.removeItem(STORAGE_KEYS.SESSION);
 };
 
-export const resetData = () => {
-    localStorage.removeItem(STORAGE_KEYS.INVOICES);
-    localStorage.removeItem(STORAGE_KEYS.INVENTORY);
-}
\ No newline at end of file
+export const resetData = async () => {
+    const backend = await getStorage();
+    await backend.clear('invoices');
+    await backend.clear('inventory');
+    await backend.clear('periods');
+    await backend.clear('payments');
+    await backend.clear('parties');
+    await backend.clear('documents');
+    written.invoices.clear();
+    written.inventory.clear();
+    written.periods.clear();
+    written.payments.clear();
+    written.parties.clear();
+}
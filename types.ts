@@ -1,33 +1,504 @@
 
-export type TransactionType = 'PURCHASE' | 'SALE';
+// OPENING: stock brought in from before the books started, at an as-of date and cost; not a supply
+// ADJUSTMENT: grams written off or found on a count, melt or refine; costed but not a supply
+// SALE_RETURN / PURCHASE_RETURN: credit and debit notes against an earlier sale or purchase (returnOf)
+export type TransactionType = 'PURCHASE' | 'SALE' | 'OPENING' | 'ADJUSTMENT' | 'SALE_RETURN' | 'PURCHASE_RETURN';
+
+export type Metal = 'GOLD' | 'SILVER';
+
+export type CostingMethod = 'FIFO' | 'WEIGHTED_AVERAGE' | 'SPECIFIC';
+
+export interface LotSelection {
+  batchId: string;
+  grams: number;
+}
+
+export interface InvoiceLine {
+  description: string;
+  hsn?: string;
+  metal?: Metal;
+  purity?: number;
+  grossWeight: number; // Grams including stones
+  netWeight: number; // Grams of metal, what moves in and out of stock
+  ratePerGram: number; // Metal rate on net weight
+  makingCharges: number; // Flat amount for the line
+  wastagePercent: number; // Extra metal charged, % of net weight
+  stoneValue: number;
+  taxableAmount: number; // Net * (1 + wastage) * rate + making + stones
+  returnLine?: number; // Credit and debit notes: index of the original invoice line being returned
+}
+
+export type AdjustmentReason = 'WEIGHING' | 'MELTING_LOSS' | 'REFINING_GAIN' | 'THEFT' | 'OTHER';
+
+export interface StockAdjustment {
+  metal: Metal;
+  grams: number; // Fine grams, negative for a loss
+  batchId?: string; // Lot that was counted; without one a loss follows the costing method and a gain is valued at the pool average
+}
 
 export interface Invoice {
   id: string;
   date: string; // ISO string YYYY-MM-DD
   type: TransactionType;
-  partyName: string; // Supplier or Customer
-  quantityGrams: number;
-  ratePerGram: number;
+  partyName: string; // Supplier or Customer, as written on the invoice
+  partyId?: string; // Party master record; missing on opening stock and adjustments
+  billNumber?: string; // Number printed on the bill (the supplier's own for purchases)
+  metal?: Metal; // Defaults to GOLD for older records
+  purity?: number; // Fineness in parts per 1000 (999, 916, 925...), defaults to 999
+  quantityGrams: number; // Total net weight across lines
+  ratePerGram: number; // Weighted metal rate across lines
   gstRate: number; // Percentage (e.g., 3)
   gstAmount: number;
   taxableAmount: number; // Qty * Rate
   totalAmount: number; // Taxable + GST
+  lines?: InvoiceLine[]; // Missing on older single-item records
+  partyGstin?: string;
+  partyState?: string; // GST state code (e.g. '27'), the place of supply
+  cgstAmount?: number; // Intra-state supplies
+  sgstAmount?: number;
+  igstAmount?: number; // Inter-state supplies
+  dueDate?: string; // Payment due, YYYY-MM-DD; due on the invoice date when missing
+  documentId?: string; // Original bill (PDF or photo) kept in the documents store
   
   // Specific to Sales (Calculated via FIFO)
   cogs?: number; // Cost of Goods Sold
   profit?: number; // Total Amount (Excl GST) - COGS
+  allocations?: BatchAllocation[]; // Purchase lots consumed by this sale
+  lotSelection?: LotSelection[]; // Lots picked by hand, used under SPECIFIC costing
+
+  // Stock adjustments only; cogs holds the value written off (negative for a gain)
+  adjustment?: {
+    reason: AdjustmentReason;
+    note?: string;
+    entries: StockAdjustment[];
+  };
+
+  // Credit and debit notes only: the sale or purchase being returned. Amounts on the note are positive.
+  returnOf?: string;
+}
+
+// Original bill attached to an invoice. Kept apart from the invoice so lists stay light.
+export interface InvoiceDocument {
+  id: string;
+  invoiceId: string;
+  name: string; // File name as uploaded
+  mimeType: string;
+  size: number; // Bytes
+  addedAt: string; // ISO timestamp
+  data: Blob;
+}
+
+// Documents travel in backups with the file as Base64
+export type BackupDocument = Omit<InvoiceDocument, 'data'> & { data: string };
+
+export type PaymentMode = 'CASH' | 'BANK' | 'UPI' | 'CHEQUE';
+
+// RECEIVED: from a customer against sales; PAID: to a supplier against purchases
+export type PaymentDirection = 'RECEIVED' | 'PAID';
+
+export interface Payment {
+  id: string;
+  date: string; // YYYY-MM-DD
+  direction: PaymentDirection;
+  partyName: string;
+  partyId?: string;
+  amount: number; // Positive, GST inclusive like Invoice.totalAmount
+  mode: PaymentMode;
+  reference?: string; // Cheque number, UTR or UPI transaction ID
+  invoiceId?: string; // Invoice settled; without one the payment is on account (an advance until applied)
+  note?: string;
+}
+
+export type KycStatus = 'NOT_COLLECTED' | 'PENDING' | 'VERIFIED';
+
+// A customer or supplier. Invoices keep the name they were issued under and link here by partyId.
+export interface Party {
+  id: string;
+  name: string;
+  aliases: string[]; // Other spellings that resolve to this party, e.g. from merged duplicates
+  gstin?: string;
+  pan?: string;
+  state?: string; // GST state code
+  phone?: string;
+  address?: string;
+  creditLimit?: number; // Receivable allowed before sales are flagged; no limit when missing
+  kycStatus: KycStatus;
 }
 
 export interface InventoryBatch {
-  id: string; // Usually links to the Purchase Invoice ID
+  id: string; // Purchase Invoice ID, suffixed with the line number for multi-line invoices
+  invoiceId?: string; // Purchase Invoice ID (older records only have id)
   date: string; // Purchase Date
-  originalQuantity: number;
-  remainingQuantity: number;
-  costPerGram: number;
+  metal?: Metal; // Defaults to GOLD for older records
+  purity?: number; // Fineness of the purchased material
+  originalQuantity: number; // Fine grams (999 equivalent)
+  remainingQuantity: number; // Fine grams (999 equivalent)
+  costPerGram: number; // Per fine gram
   closedDate?: string; // Date when remainingQuantity hit 0
   totalRevenue?: number; // Total revenue generated from this batch
 }
 
+export interface BatchAllocation {
+  batchId: string; // InventoryBatch consumed by the sale
+  grams: number;
+  costPerGram: number;
+}
+
+export interface LedgerDiagnostic {
+  invoiceId: string;
+  date: string;
+  severity: 'ERROR' | 'WARNING';
+  code: 'NEGATIVE_STOCK' | 'LOT_UNAVAILABLE' | 'RETURN_MISMATCH';
+  message: string;
+}
+
+export interface LedgerResult {
+  invoices: Invoice[]; // Chronological, sales carry cogs/profit
+  batches: InventoryBatch[];
+  allocations: Record<string, BatchAllocation[]>; // Keyed by sale invoice ID
+  diagnostics: LedgerDiagnostic[];
+}
+
+export interface CostingComparison {
+  method: CostingMethod;
+  revenue: number; // Taxable value of sales in the period
+  cogs: number;
+  profit: number;
+  margin: number; // Percentage
+  closingStockValue: number;
+}
+
+export interface FirmProfile {
+  name: string;
+  gstin: string;
+  stateCode: string; // GST state code, decides CGST/SGST vs IGST
+}
+
+export type ExtractionProviderId = 'GEMINI' | 'MOCK' | 'REGEX';
+
+export interface ExtractionSettings {
+  provider: ExtractionProviderId;
+  geminiApiKey?: string; // Entered on this device, never part of the build
+}
+
+// How sure the extractor is of one value, and where on the bill it came from
+export interface FieldEvidence {
+  confidence: number; // 0 to 1; values worked out or assumed rather than read score below 0.5
+  source?: string; // Text the value was read from, as printed
+}
+
+// One line item as read off a bill; anything the provider could not read is left out
+export interface ExtractedLine {
+  description?: string;
+  hsn?: string;
+  metal?: Metal;
+  purity?: number;
+  grossWeight?: number;
+  netWeight?: number;
+  ratePerGram?: number;
+  makingCharges?: number;
+  wastagePercent?: number;
+  stoneValue?: number;
+  evidence?: Partial<Record<ExtractedLineField, FieldEvidence>>;
+}
+
+export type ExtractedLineField = Exclude<keyof ExtractedLine, 'evidence'>;
+
+export interface ExtractedInvoice {
+  billNumber?: string;
+  date?: string;
+  type?: 'SALE' | 'PURCHASE';
+  partyName?: string;
+  partyGstin?: string;
+  gstRate?: number;
+  igstCharged?: boolean; // The printed tax type, when the bill shows one
+  taxableAmount?: number; // Totals as printed, to cross-check the lines and rate against
+  gstAmount?: number;
+  items: ExtractedLine[];
+  evidence?: Partial<Record<ExtractedInvoiceField, FieldEvidence>>;
+}
+
+export type ExtractedInvoiceField = 'billNumber' | 'date' | 'type' | 'partyName' | 'partyGstin' | 'gstRate' | 'taxableAmount' | 'gstAmount';
+
+export type ScanStatus = 'QUEUED' | 'EXTRACTING' | 'READY' | 'REVIEWED' | 'FAILED';
+
+// A bill dropped into the scan queue, kept in memory until it is approved or removed
+export interface ScanItem {
+  id: string;
+  file: File;
+  status: ScanStatus;
+  extraction?: ExtractedInvoice;
+  draft?: Invoice; // As corrected by the reviewer; posted on approval
+  error?: string;
+}
+
+export type UserRole = 'OWNER' | 'ACCOUNTANT' | 'STAFF';
+
+export type Permission =
+  | 'DELETE_INVOICE'
+  | 'EDIT_INVOICE'
+  | 'BACKDATE_ENTRY' // Anything not dated today, including imports
+  | 'CLOSE_PERIOD'
+  | 'ADJUST_STOCK' // Post count variances and write-offs
+  | 'REOPEN_PERIOD'
+  | 'RESET_DATA' // Reset and replace-restore
+  | 'EXPORT_DATA'
+  | 'MANAGE_SETTINGS' // Firm profile and costing method
+  | 'MANAGE_USERS'
+  | 'MANAGE_PARTIES' // Edit and merge the party master
+  | 'VIEW_AUDIT';
+
+export interface PasswordHash {
+  hash: string; // base64 PBKDF2-SHA256
+  salt: string;
+  iterations: number;
+}
+
+export interface UserAccount {
+  id: string;
+  name: string; // Login name, unique ignoring case
+  role: UserRole;
+  password: PasswordHash;
+  createdAt: string;
+}
+
+export type AuditAction = 'CREATE' | 'EDIT' | 'DELETE' | 'IMPORT' | 'RECALCULATE' | 'RESTORE' | 'RESET' | 'LOCK_DATE' | 'CLOSE_PERIOD' | 'REOPEN_PERIOD' | 'PAYMENT' | 'DELETE_PAYMENT' | 'PARTY' | 'MERGE_PARTY' | 'DUPLICATE';
+
+// A sale whose cost or profit changed as a side effect of another change
+export interface ProfitShift {
+  invoiceId: string;
+  date: string;
+  partyName: string;
+  cogsBefore: number;
+  cogsAfter: number;
+  profitBefore: number;
+  profitAfter: number;
+}
+
+export interface AuditEntry {
+  id: string;
+  seq: number; // Position in the log, from 0
+  timestamp: string; // ISO date-time
+  userId: string;
+  userName: string;
+  role: UserRole;
+  action: AuditAction;
+  summary: string;
+  invoiceId?: string;
+  before?: Invoice;
+  after?: Invoice;
+  affected: ProfitShift[];
+  prevHash: string;
+  hash: string; // SHA-256 over prevHash and the entry, so edits and removals break the chain
+}
+
+// Effect of saving an edited invoice, worked out by replaying the ledger before anything is stored
+export interface EditImpact {
+  original: Invoice;
+  updated: Invoice; // The edited invoice as replayed, with its new cost and profit
+  shifts: ProfitShift[]; // Other sales whose cost or profit change
+  newIssues: LedgerDiagnostic[]; // Problems the edit introduces, e.g. a later sale going short
+  invoices: Invoice[]; // Books after the edit, newest first
+  inventory: InventoryBatch[];
+}
+
+export interface PeriodSnapshot {
+  grams: Record<Metal, number>; // Fine grams on hand
+  value: number; // At cost, under the costing method used for the close
+}
+
+export interface PeriodClose {
+  id: string;
+  periodStart: string | null; // Day after the previous close; null when this is the first
+  periodEnd: string; // Books are locked up to and including this date
+  costingMethod: CostingMethod;
+  opening: PeriodSnapshot; // Carried from the previous close's closing snapshot, never recomputed
+  closing: PeriodSnapshot;
+  batches: InventoryBatch[]; // Lots still open at period end
+  pnl: {
+    sales: number;
+    revenue: number; // Ex GST
+    cogs: number;
+    grossProfit: number; // Sales only
+    stockLoss?: number; // Written off by adjustments, negative for a net gain; missing on closes made before adjustments
+    purchases: number;
+    purchaseValue: number; // Ex GST
+    outputGst: number;
+    inputGst: number;
+  };
+  closedAt: string; // ISO timestamp
+  closedBy: string; // User name
+  reopenedAt?: string;
+  reopenedBy?: string;
+}
+
+// What callers supply; the rest is filled in when the entry is appended
+export type AuditDraft = Pick<AuditEntry, 'action' | 'summary' | 'invoiceId' | 'before' | 'after'> & { affected?: ProfitShift[] };
+
+export interface ReturnIssue {
+  invoiceId: string;
+  date: string;
+  partyName: string;
+  severity: 'ERROR' | 'WARNING';
+  message: string;
+}
+
+// Tax amounts in the field names used by the GST offline tool
+export interface GstTaxAmounts {
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+export interface Gstr1ItemDetail extends GstTaxAmounts {
+  rt: number;
+}
+
+export interface Gstr1Invoice {
+  inum: string;
+  idt: string; // DD-MM-YYYY
+  val: number;
+  pos: string;
+  rchrg?: 'Y' | 'N';
+  inv_typ?: 'R';
+  itms: { num: number; itm_det: Gstr1ItemDetail }[];
+}
+
+export interface Gstr1B2csEntry extends Gstr1ItemDetail {
+  sply_ty: 'INTRA' | 'INTER';
+  pos: string;
+  typ: 'OE';
+}
+
+export interface Gstr1HsnEntry extends Gstr1ItemDetail {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  val: number;
+}
+
+// Credit note issued against a sale; registered customers go in CDNR, large inter-state B2C in CDNUR
+export interface Gstr1Note {
+  ntty: 'C';
+  nt_num: string;
+  nt_dt: string; // DD-MM-YYYY
+  val: number;
+  pos: string;
+  rchrg?: 'N';
+  inv_typ?: 'R';
+  typ?: 'B2CL';
+  itms: { num: number; itm_det: Gstr1ItemDetail }[];
+}
+
+export interface Gstr1Return {
+  gstin: string;
+  fp: string; // MMYYYY
+  b2b: { ctin: string; inv: Gstr1Invoice[] }[];
+  b2cl: { pos: string; inv: Omit<Gstr1Invoice, 'pos' | 'rchrg' | 'inv_typ'>[] }[];
+  b2cs: Gstr1B2csEntry[]; // Net of credit notes to small B2C customers
+  cdnr: { ctin: string; nt: Gstr1Note[] }[];
+  cdnur: Gstr1Note[];
+  hsn: { data: Gstr1HsnEntry[] }; // Net of credit notes
+}
+
+export interface Gstr3bReturn {
+  gstin: string;
+  ret_period: string; // MMYYYY
+  sup_details: { osup_det: GstTaxAmounts };
+  itc_elg: {
+    itc_avl: ({ ty: 'OTH' } & Omit<GstTaxAmounts, 'txval'>)[];
+    itc_net: Omit<GstTaxAmounts, 'txval'>;
+  };
+}
+
+export interface BackupData {
+  invoices: Invoice[]; // Newest first, as kept in the app
+  inventory: InventoryBatch[];
+  lockDate: string | null;
+  periods?: PeriodClose[]; // Missing in backups taken before period close existed
+  payments?: Payment[]; // Missing in backups taken before payments were tracked
+  parties?: Party[]; // Missing in backups taken before the party master
+  documents?: BackupDocument[]; // Missing in backups taken before bills were attached
+  settings: {
+    costingMethod: CostingMethod;
+    firm: FirmProfile;
+  };
+}
+
+export interface BackupFile {
+  format: 'bullionkeep-backup';
+  version: number; // Backup file layout
+  schemaVersion: number; // Storage schema the records were written with
+  createdAt: string; // ISO timestamp
+  encrypted: boolean;
+  data?: BackupData; // Plain backups
+  cipher?: { // Encrypted backups: AES-GCM over the JSON of BackupData, key from PBKDF2-SHA256
+    salt: string; // Base64
+    iv: string; // Base64
+    iterations: number;
+    data: string; // Base64
+  };
+}
+
+export interface BackupDiff {
+  added: number; // In the backup only
+  changed: number; // Same ID, different content
+  unchanged: number;
+  missing: number; // In the app only
+}
+
+export type ImportField =
+  | 'invoiceId' | 'billNumber' | 'date' | 'type' | 'partyName' | 'partyGstin' | 'partyState'
+  | 'description' | 'hsn' | 'metal' | 'purity' | 'grossWeight' | 'netWeight' | 'ratePerGram'
+  | 'makingCharges' | 'wastagePercent' | 'stoneValue' | 'lineTaxable'
+  | 'taxableAmount' | 'gstRate' | 'cgstAmount' | 'sgstAmount' | 'igstAmount' | 'gstAmount' | 'totalAmount';
+
+// Spreadsheet column index per field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportIssue {
+  row: number; // Spreadsheet row number (header is row 1)
+  severity: 'ERROR' | 'WARNING';
+  message: string;
+}
+
+export interface ImportResult {
+  invoices: Invoice[]; // Entry order (oldest first)
+  issues: ImportIssue[];
+  skippedRows: number;
+}
+
+export interface ImportDryRun {
+  purchases: number; // Purchases and opening stock entries
+  sales: number;
+  fineGrams: Record<Metal, number>; // Net stock change per metal
+  revenue: number;
+  cogs: number;
+  profit: number;
+  closingStock: Record<Metal, number>;
+  diagnostics: LedgerDiagnostic[]; // Only problems the import introduces
+}
+
+// A posted invoice (or one earlier in the same batch) that looks like the same bill
+export interface DuplicateMatch {
+  invoice: Invoice;
+  exact: boolean; // Same party and bill number; otherwise party, date, weight and amount are all close
+  reasons: string[];
+  pending?: boolean; // Earlier in the same batch and not posted yet, so nothing can be linked to it
+}
+
+export interface DuplicateCheck {
+  invoice: Invoice; // The entry being added
+  match: DuplicateMatch; // Its closest match
+}
+
+// Skip drops the entry, link keeps the existing invoice and gives it the entry's bill number and document, add posts it anyway
+export type DuplicateDecision = 'SKIP' | 'LINK' | 'ADD';
+
 export interface DailyStockSnapshot {
   date: string;
   quantity: number;
@@ -35,8 +506,9 @@ export interface DailyStockSnapshot {
 }
 
 export interface CustomerStat {
+  partyKey: string;
   name: string;
-  totalGrams: number;
+  totalGrams: Record<Metal, number>; // Fine grams sold, net of returns
   totalSpend: number;
   profitContribution: number;
   txCount: number; // Total transactions (buy + sell)
@@ -49,9 +521,62 @@ export interface AgingStats {
   weightedAvgDays: number;
 }
 
+// What is still owed on one sale or purchase after notes and payments
+export interface InvoiceBalance {
+  invoiceId: string;
+  date: string;
+  dueDate: string;
+  partyName: string;
+  partyKey: string; // Party ID, or the normalised name for unlinked records
+  direction: PaymentDirection;
+  amount: number; // Invoice total less credit or debit notes against it
+  credited: number; // The part of the total those notes took off
+  paid: number;
+  outstanding: number;
+}
+
+export interface PartyBalance {
+  partyKey: string;
+  partyName: string;
+  receivable: number; // Outstanding on sales
+  payable: number; // Outstanding on purchases
+  advanceReceived: number; // Paid by the party and not yet applied to a sale
+  advancePaid: number; // Paid to the party and not yet applied to a purchase
+  overdue: number; // Part of receivable and payable past its due date
+  lastPayment?: string; // Date
+}
+
+// One line of a party statement. Debits raise what the party owes us, credits lower it.
+export interface StatementRow {
+  date: string;
+  kind: 'INVOICE' | 'PAYMENT';
+  reference: string; // Invoice ID, or the payment's reference or ID
+  description: string;
+  grams: number; // Net grams; negative for returns
+  debit: number;
+  credit: number;
+  balance: number; // Running; positive when the party owes us
+}
+
+export interface PartyStatement {
+  partyKey: string;
+  partyName: string;
+  partyGstin?: string;
+  start: string;
+  end: string;
+  opening: number;
+  rows: StatementRow[];
+  closing: number;
+  gramsSold: number; // Net of credit notes
+  gramsBought: number; // Net of debit notes
+}
+
 export interface SupplierStat {
+  partyKey: string;
   name: string;
-  totalGramsPurchased: number;
+  metal: Metal; // Each supplier has a row per metal bought; the rates below are for this metal
+  totalGramsPurchased: number; // Fine grams
+  totalCost: number; // Net weight x rate, before making charges and GST
   avgRate: number;
   minRate: number;
   maxRate: number;
@@ -1,5 +1,9 @@
 
-import { InventoryBatch, Invoice, AgingStats, SupplierStat, TurnoverStats } from './types';
+import { InventoryBatch, Invoice, InvoiceBalance, AgingStats, SupplierStat, TurnoverStats, CostingMethod, Metal, Party, FieldEvidence } from './types';
+import { runLedger, getStockValue } from './services/ledgerService';
+import { createPartyResolver } from './services/partyService';
+import { getMetal, METALS, METAL_LABELS } from './services/metalService';
+import { getInvoiceLines, getLineFineGrams } from './services/invoiceService';
 
 export const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-IN', {
@@ -16,6 +20,17 @@ export const formatGrams = (grams: number) => {
   }).format(grams) + ' g';
 };
 
+// Narrows untrusted input (parsed JSON, model output) to an object whose fields can be checked one by one
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const emptyMetalGrams = (): Record<Metal, number> => Object.fromEntries(METALS.map(m => [m, 0])) as Record<Metal, number>;
+
+// Grams of different metals are never added up; shown as "Gold 10.000 g · Silver 500.000 g", leaving out metals with none
+export const formatMetalGrams = (grams: Record<Metal, number>) => {
+  const held = METALS.filter(m => Math.abs(grams[m]) >= 0.0005);
+  return held.length > 0 ? held.map(m => `${METAL_LABELS[m]} ${formatGrams(grams[m])}`).join(' · ') : formatGrams(0);
+};
+
 export const generateId = () => Math.random().toString(36).substr(2, 9);
 
 export const getDateDaysAgo = (days: number) => {
@@ -24,6 +39,9 @@ export const getDateDaysAgo = (days: number) => {
   return date.toISOString().split('T')[0];
 };
 
+// Quotes a CSV field, doubling any quote inside it so names like 5" Chain stay in one column
+export const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
 export const downloadCSV = (csvContent: string, filename: string) => {
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const link = document.createElement('a');
@@ -38,67 +56,73 @@ export const downloadCSV = (csvContent: string, filename: string) => {
   }
 };
 
-/**
- * Replays transactions up to a specific date to calculate the FIFO inventory value at that time.
- */
-export const calculateInventoryValueOnDate = (invoices: Invoice[], targetDate: string): number => {
-  // Filter invoices up to targetDate and sort strictly by date (oldest first)
-  const relevantInvoices = invoices
-    .filter(inv => inv.date <= targetDate)
-    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-  // Simulation state: Track batches { quantity, cost }
-  // We use a mutable array to simulate the FIFO stack
-  let batches: { quantity: number; cost: number }[] = [];
-
-  for (const inv of relevantInvoices) {
-    if (inv.type === 'PURCHASE') {
-      batches.push({ quantity: inv.quantityGrams, cost: inv.ratePerGram });
-    } else {
-      // Sale logic: Deduct from oldest batches
-      let remainingToSell = inv.quantityGrams;
-      
-      // Floating point safety margin
-      while (remainingToSell > 0.000001 && batches.length > 0) {
-        const currentBatch = batches[0];
-        
-        if (currentBatch.quantity > remainingToSell) {
-          // This batch covers the remaining sale
-          currentBatch.quantity -= remainingToSell;
-          remainingToSell = 0;
-        } else {
-          // This batch is fully used, move to next
-          remainingToSell -= currentBatch.quantity;
-          batches.shift(); // Remove the empty batch from the front
-        }
-      }
-    }
+export const downloadJSON = (data: unknown, filename: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Base64 for binary crypto material (salts, IVs, hashes) stored as JSON
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
+  return btoa(binary);
+};
 
-  // Calculate total value of remaining simulated batches
-  return batches.reduce((sum, batch) => sum + (batch.quantity * batch.cost), 0);
+export const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
 };
 
-export const calculateStockAging = (inventory: InventoryBatch[]): AgingStats => {
+/**
+ * Replays transactions up to a specific date to calculate the inventory value at that time.
+ * Takes the invoices newest entry first, as the books keep them.
+ */
+export const calculateInventoryValueOnDate = (invoices: Invoice[], targetDate: string, method: CostingMethod = 'FIFO'): number => {
+  const { batches } = runLedger(invoices.filter(inv => inv.date <= targetDate), method);
+  return getStockValue(batches);
+};
+
+// Aged per metal, so a few grams of old gold are not hidden under a kilo of new silver
+export const calculateStockAging = (inventory: InventoryBatch[]): Record<Metal, AgingStats> => {
   const now = new Date();
-  const buckets: Record<string, number> = {
-    '0-7': 0,
-    '8-15': 0,
-    '16-30': 0,
-    '30+': 0
-  };
-  let totalDaysWeighted = 0;
-  let totalStock = 0;
+  const aging = {} as Record<Metal, AgingStats>;
+  const weighted = emptyMetalGrams();
+  const stock = emptyMetalGrams();
+  METALS.forEach(m => { aging[m] = { buckets: { '0-7': 0, '8-15': 0, '16-30': 0, '30+': 0 }, weightedAvgDays: 0 }; });
 
   inventory.forEach(batch => {
     if (batch.remainingQuantity <= 0) return;
-    
+    const metal = getMetal(batch);
+    const buckets = aging[metal].buckets;
+
     const batchDate = new Date(batch.date);
     const diffTime = Math.abs(now.getTime() - batchDate.getTime());
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     
-    totalStock += batch.remainingQuantity;
-    totalDaysWeighted += (diffDays * batch.remainingQuantity);
+    stock[metal] += batch.remainingQuantity;
+    weighted[metal] += (diffDays * batch.remainingQuantity);
 
     if (diffDays <= 7) buckets['0-7'] += batch.remainingQuantity;
     else if (diffDays <= 15) buckets['8-15'] += batch.remainingQuantity;
@@ -106,52 +130,98 @@ export const calculateStockAging = (inventory: InventoryBatch[]): AgingStats =>
     else buckets['30+'] += batch.remainingQuantity;
   });
 
+  METALS.forEach(m => { aging[m].weightedAvgDays = stock[m] > 0 ? weighted[m] / stock[m] : 0; });
+  return aging;
+};
+
+// Same idea as stock aging, over money still owed: buckets by days since the invoice date
+export const calculateBalanceAging = (balances: InvoiceBalance[], asOf: string = new Date().toISOString().split('T')[0]): AgingStats => {
+  const now = new Date(asOf);
+  const buckets: Record<string, number> = {
+    '0-30': 0,
+    '31-60': 0,
+    '61-90': 0,
+    '90+': 0
+  };
+  let totalDaysWeighted = 0;
+  let totalOutstanding = 0;
+
+  balances.forEach(balance => {
+    if (balance.outstanding <= 0) return;
+
+    const invoiceDate = new Date(balance.date);
+    const diffDays = Math.max(0, Math.round((now.getTime() - invoiceDate.getTime()) / (1000 * 60 * 60 * 24)));
+
+    totalOutstanding += balance.outstanding;
+    totalDaysWeighted += (diffDays * balance.outstanding);
+
+    if (diffDays <= 30) buckets['0-30'] += balance.outstanding;
+    else if (diffDays <= 60) buckets['31-60'] += balance.outstanding;
+    else if (diffDays <= 90) buckets['61-90'] += balance.outstanding;
+    else buckets['90+'] += balance.outstanding;
+  });
+
   return {
     buckets,
-    weightedAvgDays: totalStock > 0 ? totalDaysWeighted / totalStock : 0
+    weightedAvgDays: totalOutstanding > 0 ? totalDaysWeighted / totalOutstanding : 0
   };
 };
 
-export const calculateSupplierStats = (invoices: Invoice[]): SupplierStat[] => {
-  const stats: Record<string, { totalGrams: number; totalCost: number; count: number; rates: number[] }> = {};
+// One row per supplier and metal, largest spend first: gold and silver grams and rates cannot be added or compared
+export const calculateSupplierStats = (invoices: Invoice[], parties: Party[] = []): SupplierStat[] => {
+  const stats: Record<string, { partyKey: string; metal: Metal; name: string; fineGrams: number; netGrams: number; totalCost: number; invoiceIds: Set<string>; rates: number[] }> = {};
+  const resolver = createPartyResolver(parties);
   
+  // Opening stock is not bought from anyone, so only real purchases count
   invoices.filter(i => i.type === 'PURCHASE').forEach(inv => {
-    if (!stats[inv.partyName]) {
-      stats[inv.partyName] = { totalGrams: 0, totalCost: 0, count: 0, rates: [] };
-    }
-    stats[inv.partyName].totalGrams += inv.quantityGrams;
-    stats[inv.partyName].totalCost += (inv.quantityGrams * inv.ratePerGram);
-    stats[inv.partyName].count += 1;
-    stats[inv.partyName].rates.push(inv.ratePerGram);
+    const partyKey = resolver.keyOf(inv);
+    getInvoiceLines(inv).forEach(line => {
+      const metal = getMetal(line);
+      const key = `${partyKey}|${metal}`;
+      if (!stats[key]) {
+        stats[key] = { partyKey, metal, name: resolver.nameOf(inv), fineGrams: 0, netGrams: 0, totalCost: 0, invoiceIds: new Set(), rates: [] };
+      }
+      stats[key].fineGrams += getLineFineGrams(line);
+      stats[key].netGrams += line.netWeight;
+      stats[key].totalCost += (line.netWeight * line.ratePerGram);
+      stats[key].invoiceIds.add(inv.id);
+      stats[key].rates.push(line.ratePerGram);
+    });
   });
 
-  return Object.entries(stats).map(([name, data]) => {
+  return Object.values(stats).map(data => {
       const minRate = Math.min(...data.rates);
       const maxRate = Math.max(...data.rates);
-      const avgRate = data.totalGrams > 0 ? data.totalCost / data.totalGrams : 0;
+      // Rates are per net gram, as billed
+      const avgRate = data.netGrams > 0 ? data.totalCost / data.netGrams : 0;
       // Simple spread as volatility for now, could use StdDev if needed
       const volatility = maxRate - minRate;
 
       return {
-        name,
-        totalGramsPurchased: data.totalGrams,
+        partyKey: data.partyKey,
+        name: data.name,
+        metal: data.metal,
+        totalGramsPurchased: data.fineGrams,
+        totalCost: data.totalCost,
         avgRate,
         minRate,
         maxRate,
         volatility,
-        txCount: data.count
+        txCount: data.invoiceIds.size
       };
-  }).sort((a, b) => b.totalGramsPurchased - a.totalGramsPurchased);
+  }).sort((a, b) => b.totalCost - a.totalCost);
 };
 
-export const calculateTurnoverStats = (invoices: Invoice[], startDate: string, endDate: string): TurnoverStats => {
+// openingValue: frozen closing value of a closed period that ends the day before startDate
+export const calculateTurnoverStats = (invoices: Invoice[], startDate: string, endDate: string, method: CostingMethod = 'FIFO', openingValue?: number): TurnoverStats => {
   const periodInvoices = invoices.filter(i => i.date >= startDate && i.date <= endDate);
-  const sales = periodInvoices.filter(i => i.type === 'SALE');
+  // Credit notes carry negative cost, so returned goods come back out of COGS
+  const sales = periodInvoices.filter(i => i.type === 'SALE' || i.type === 'SALE_RETURN');
   
   const totalCOGS = sales.reduce((acc, s) => acc + (s.cogs || 0), 0);
   
-  const startInventoryVal = calculateInventoryValueOnDate(invoices, startDate);
-  const endInventoryVal = calculateInventoryValueOnDate(invoices, endDate);
+  const startInventoryVal = openingValue ?? calculateInventoryValueOnDate(invoices, startDate, method);
+  const endInventoryVal = calculateInventoryValueOnDate(invoices, endDate, method);
   const avgInventoryValue = (startInventoryVal + endInventoryVal) / 2;
 
   const turnoverRatio = avgInventoryValue > 0 ? totalCOGS / avgInventoryValue : 0;
@@ -181,11 +251,29 @@ export const parseInvoiceOCR = (text: string) => {
     let gstRate = 0;
     let gstAmount = 0;
     let isSale = false; 
+    // Confidence and matched text per value; heuristics score lower than labelled matches
+    const evidence: Record<string, FieldEvidence> = {};
+    const snippet = (str: string) => str.trim().replace(/\s+/g, ' ').slice(0, 80);
 
     // 1. Determine Transaction Type
+    const saleMarker = text.match(/ORIGINAL FOR RECIPIENT|TAX INVOICE|Sale/i);
     if (text.includes('ORIGINAL FOR RECIPIENT') || text.includes('TAX INVOICE') || /Sale/i.test(text)) {
         isSale = true;
     }
+    evidence.type = saleMarker ? { confidence: 0.4, source: saleMarker[0] } : { confidence: 0.2 };
+
+    // 1b. Metal and Purity
+    const metal: Metal = /silver|\bAg\b/i.test(text) && !/gold|\bAu\b/i.test(text) ? 'SILVER' : 'GOLD';
+    let purity = 999;
+    const karatMatch = text.match(/\b(24|22|18)\s*(?:K|KT|Carat)\b/i);
+    const finenessMatch = text.match(/\b(999|995|916|925|750)\b/);
+    if (finenessMatch) purity = parseInt(finenessMatch[1]);
+    else if (karatMatch) purity = ({ '24': 999, '22': 916, '18': 750 } as Record<string, number>)[karatMatch[1]];
+    const purityMatch = finenessMatch || karatMatch;
+    evidence.purity = purityMatch ? { confidence: finenessMatch ? 0.8 : 0.7, source: purityMatch[0] } : { confidence: 0.2 };
+
+    // Plausible per-gram rates differ by two orders of magnitude between metals
+    const [minRate, maxRate] = metal === 'SILVER' ? [20, 2000] : [2000, 100000];
 
     // 2. Date Extraction
     const normalizeDate = (str: string): string | null => {
@@ -219,13 +307,22 @@ export const parseInvoiceOCR = (text: string) => {
 
     if (alphaDateMatch) {
         const normalized = normalizeDate(alphaDateMatch[0]);
-        if (normalized) date = normalized;
+        if (normalized) { date = normalized; evidence.date = { confidence: 0.8, source: alphaDateMatch[0] }; }
     } else if (labeledDateMatch) {
         const normalized = normalizeDate(labeledDateMatch[1]);
-        if (normalized) date = normalized;
+        if (normalized) { date = normalized; evidence.date = { confidence: 0.9, source: snippet(labeledDateMatch[0]) }; }
     } else if (strictNumericMatch) {
+        // An unlabelled date could be any date on the bill
         const normalized = normalizeDate(strictNumericMatch[1]);
-        if (normalized) date = normalized;
+        if (normalized) { date = normalized; evidence.date = { confidence: 0.5, source: strictNumericMatch[1] }; }
+    }
+
+    // 2b. Bill number as printed, for spotting a bill entered twice
+    let billNumber = '';
+    const billMatch = text.match(/\b(?:Invoice|Bill|Inv)\s*(?:No|Number|#)\.?\s*[:\-]?\s*([A-Z0-9][A-Z0-9\/\-]*)/i);
+    if (billMatch) {
+        billNumber = billMatch[1];
+        evidence.billNumber = { confidence: 0.8, source: snippet(billMatch[0]) };
     }
 
     // 3. Party Name Extraction
@@ -234,13 +331,15 @@ export const parseInvoiceOCR = (text: string) => {
         /M\/s[\.\s](.+)/i,
         /Name\s*[:\-\s](.+)/i
     ];
-    for (const pattern of partyPatterns) {
+    for (const [i, pattern] of partyPatterns.entries()) {
         const match = text.match(pattern);
         if (match && match[1]) {
             let p = match[1].trim();
             p = p.split(/  |\t/)[0];
             if (p.length > 2 && !/Date|Inv|No\./i.test(p)) {
                 partyName = p;
+                // A bare "Name:" is as likely to be ours or a contact person
+                evidence.partyName = { confidence: i === 2 ? 0.5 : 0.8, source: snippet(match[0]) };
                 break;
             }
         }
@@ -254,18 +353,21 @@ export const parseInvoiceOCR = (text: string) => {
         
         if (gmsIndex !== -1 && gmsIndex > 0) {
             const q = parseFloat(tokens[gmsIndex - 1].replace(/,/g, ''));
-            if (!isNaN(q)) quantity = q;
+            if (!isNaN(q)) { quantity = q; evidence.quantity = { confidence: 0.8, source: snippet(line) }; }
             const numbers = tokens.map(t => parseFloat(t.replace(/,/g, ''))).filter(n => !isNaN(n));
-            const possibleRates = numbers.filter(n => n > 2000 && n < 100000 && n !== quantity);
-            if (possibleRates.length > 0) rate = possibleRates[0];
+            const possibleRates = numbers.filter(n => n > minRate && n < maxRate && n !== quantity);
+            // The first number in the usual rate range; the line amount can sit there too
+            if (possibleRates.length > 0) { rate = possibleRates[0]; evidence.rate = { confidence: possibleRates.length > 1 ? 0.5 : 0.7, source: snippet(line) }; }
         } else {
              const numbers = line.match(/(\d+(?:,\d{3})*(?:\.\d+)?)/g)?.map(n => parseFloat(n.replace(/,/g, ''))) || [];
              if (numbers.length >= 2) {
-                 const potentialRate = numbers.find(n => n > 2000 && n < 100000);
+                 const potentialRate = numbers.find(n => n > minRate && n < maxRate);
                  const potentialQty = numbers.find(n => n < 1000 && n > 0 && n !== potentialRate);
                  if (potentialRate && potentialQty) {
                      rate = potentialRate;
                      quantity = potentialQty;
+                     // Guessed from magnitudes alone, with no unit next to the quantity
+                     evidence.quantity = evidence.rate = { confidence: 0.4, source: snippet(line) };
                  }
              }
         }
@@ -274,7 +376,7 @@ export const parseInvoiceOCR = (text: string) => {
     // 5. GST Extraction
     const taxLines = lines.filter(l => /(?:CGST|SGST|IGST|GST)/i.test(l) && !/GSTIN|No\.|Code|Reg/i.test(l));
     const percentRegex = /(@|at)?\s*(\d+(\.\d+)?)\s*%/i;
-    const amountRegex = /(\d{1,3}(?:,\d{3})*(?:\.\d+)?)/g;
+    const amountRegex = /(\d+(?:,\d{2,3})*(?:\.\d+)?)/g;
 
     let iGstRate = 0;
     let iGstAmount = 0;
@@ -328,7 +430,26 @@ export const parseInvoiceOCR = (text: string) => {
         gstAmount = genericGstAmount;
     }
 
-    return { date, partyName, quantity, rate, gstRate: gstRate > 0 ? gstRate : null, gstAmount, isSale };
+    if (gstRate > 0) evidence.gstRate = { confidence: 0.8, source: taxLines.map(snippet).join(' | ') };
+    if (gstAmount > 0) evidence.gstAmount = { confidence: 0.7, source: taxLines.map(snippet).join(' | ') };
+
+    // 5b. Taxable value as printed, to check quantity x rate against
+    let taxableAmount = 0;
+    const taxableMatch = text.match(/(?:Taxable|Assessable)\s*(?:Value|Amount|Amt)?\s*[:\-]?\s*(?:Rs\.?|₹|INR)?\s*(\d+(?:,\d{2,3})*(?:\.\d+)?)/i);
+    if (taxableMatch) {
+        taxableAmount = parseFloat(taxableMatch[1].replace(/,/g, ''));
+        evidence.taxableAmount = { confidence: 0.8, source: snippet(taxableMatch[0]) };
+    }
+
+    // Components as printed; an IGST line means the bill was inter-state
+    const gstSplit = iGstAmount > 0
+        ? { cgstAmount: 0, sgstAmount: 0, igstAmount: iGstAmount }
+        : (cGstAmount > 0 || sGstAmount > 0) ? { cgstAmount: cGstAmount, sgstAmount: sGstAmount, igstAmount: 0 } : null;
+
+    // 6. GSTINs printed on the bill (ours and the party's, in order of appearance)
+    const gstins = Array.from(new Set((text.toUpperCase().match(/\b\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]\b/g) || [])));
+
+    return { billNumber, date, partyName, metal, purity, quantity, rate, gstRate: gstRate > 0 ? gstRate : null, gstAmount, taxableAmount, gstSplit, gstins, isSale, evidence };
   } catch (e) {
     console.error("Parse error", e);
     return null;
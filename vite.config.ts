@@ -1,16 +1,9 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-  const env = loadEnv(mode, (process as any).cwd(), '');
-  return {
-    plugins: [react()],
-    define: {
-      // This maps the environment variable from Cloudflare/local .env to the code
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
-    },
-    build: {
-      outDir: 'dist',
-    },
-  };
-});
\ No newline at end of file
+export default defineConfig({
+  plugins: [react()],
+  build: {
+    outDir: 'dist',
+  },
+});